@@ -18,6 +18,7 @@ import { useForm } from "react-hook-form";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -25,7 +26,10 @@ import {
 } from "@/components/ui/form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { usePlanningDetailsSync } from "@/services/planningDetailsSync";
+import { syncAreaCostChanges } from "@/services/planningDetailsSync";
+import { useCatalogImpact } from "@/hooks/useCatalogImpact";
+import { CatalogChange, QuoteImpact } from "@/utils/catalogImpact";
+import CatalogImpactModal from "@/components/shared/CatalogImpactModal";
 
 interface AreaCostModalProps {
   open: boolean;
@@ -39,6 +43,7 @@ const areaCostSchema = z.object({
   dailyAccommodationFoodCost: z.coerce.number().min(0, "Cost cannot be negative"),
   dailyAllowance: z.coerce.number().min(0, "Allowance cannot be negative"),
   dailyPocketMoney: z.coerce.number().min(0, "Pocket money cannot be negative"),
+  vatRate: z.coerce.number().min(0, "VAT rate cannot be negative").max(100, "VAT rate cannot exceed 100%"),
   iconName: z.string().optional(),
 });
 
@@ -53,7 +58,9 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const { icons, loading: loadingIcons } = useAreaIcons();
-  const { syncAreaCostChanges } = usePlanningDetailsSync();
+  const { previewChange } = useCatalogImpact();
+  // Edited daily rates and the quotes they affect, waiting for the admin's choice
+  const [pendingSave, setPendingSave] = useState<{ values: AreaCostFormValues; impacts: QuoteImpact[] } | null>(null);
 
   const form = useForm<AreaCostFormValues>({
     resolver: zodResolver(areaCostSchema),
@@ -62,6 +69,7 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
       dailyAccommodationFoodCost: 0,
       dailyAllowance: 0,
       dailyPocketMoney: 0,
+      vatRate: 0,
       iconName: "",
     },
   });
@@ -73,6 +81,7 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
         dailyAccommodationFoodCost: areaCost.daily_accommodation_food_cost,
         dailyAllowance: areaCost.daily_allowance,
         dailyPocketMoney: areaCost.daily_pocket_money,
+        vatRate: areaCost.vat_rate,
         iconName: areaCost.icon_name || "",
       });
     } else {
@@ -81,6 +90,7 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
         dailyAccommodationFoodCost: 0,
         dailyAllowance: 0,
         dailyPocketMoney: 0,
+        vatRate: 0,
         iconName: "",
       });
     }
@@ -111,27 +121,58 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
     }
   };
 
+  const toAreaCostsChange = (areaId: number, values: AreaCostFormValues): CatalogChange => ({
+    kind: "area_costs",
+    areaId,
+    dailyAccommodationFoodCost: values.dailyAccommodationFoodCost,
+    dailyAllowance: values.dailyAllowance,
+    dailyPocketMoney: values.dailyPocketMoney,
+  });
+
   const handleSave = async (values: AreaCostFormValues) => {
-    let savedAreaId: number | undefined;
-    try {
-      setIsSaving(true);
+    setIsSaving(true);
+
+    const nameExists = await checkAreaNameExists(
+      values.areaName,
+      areaCost ? areaCost.area_id : undefined
+    );
 
-      const nameExists = await checkAreaNameExists(
-        values.areaName,
-        areaCost ? areaCost.area_id : undefined
-      );
+    if (nameExists) {
+      toast.error(`An area with the name "${values.areaName}" already exists`);
+      setIsSaving(false);
+      return;
+    }
 
-      if (nameExists) {
-        toast.error(`An area with the name "${values.areaName}" already exists`);
+    const ratesChanged = areaCost && (
+      values.dailyAccommodationFoodCost !== areaCost.daily_accommodation_food_cost ||
+      values.dailyAllowance !== areaCost.daily_allowance ||
+      values.dailyPocketMoney !== areaCost.daily_pocket_money
+    );
+
+    if (areaCost && ratesChanged) {
+      const impacts = await previewChange(toAreaCostsChange(areaCost.area_id, values));
+      if (!impacts) {
         setIsSaving(false);
         return;
       }
+      if (impacts.length > 0) {
+        setPendingSave({ values, impacts });
+        return;
+      }
+    }
+
+    await saveAreaCost(values, []);
+  };
 
+  // Saves the area, then applies the new daily rates to the affected quotes' saved totals
+  const saveAreaCost = async (values: AreaCostFormValues, impactsToApply: QuoteImpact[]) => {
+    try {
       const costData = {
         area_name: values.areaName,
         daily_accommodation_food_cost: values.dailyAccommodationFoodCost,
         daily_allowance: values.dailyAllowance,
         daily_pocket_money: values.dailyPocketMoney,
+        vat_rate: values.vatRate,
         icon_name: values.iconName || null,
       };
 
@@ -146,7 +187,6 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
           throw error;
         }
         toast.success("Area cost updated successfully");
-        savedAreaId = areaCost.area_id;
       } else {
         const { data: maxIdData, error: maxIdError } = await supabase
           .from('area_costs')
@@ -163,22 +203,19 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
         const nextId = maxIdData ? maxIdData.area_id + 1 : 1;
         const insertData = { ...costData, area_id: nextId };
 
-        const { data: insertedData, error } = await supabase
+        const { error } = await supabase
           .from("area_costs")
-          .insert(insertData)
-          .select('area_id')
-          .single();
+          .insert(insertData);
 
         if (error) {
           console.error("Error creating area cost:", error);
           throw error;
         }
         toast.success("Area cost created successfully");
-        savedAreaId = insertedData?.area_id;
       }
 
-      if (savedAreaId !== undefined) {
-        await syncAreaCostChanges();
+      if (areaCost) {
+        await syncAreaCostChanges(areaCost.area_id, impactsToApply);
       }
 
       onSave();
@@ -191,6 +228,17 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
     }
   };
 
+  const handleApplyImpact = async () => {
+    if (!pendingSave) return;
+    await saveAreaCost(pendingSave.values, pendingSave.impacts);
+    setPendingSave(null);
+  };
+
+  const handleCancelImpact = () => {
+    setPendingSave(null);
+    setIsSaving(false);
+  };
+
   const handleDelete = async () => {
     if (!areaCost) return;
 
@@ -221,8 +269,6 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
 
       toast.success("Area cost deleted successfully");
 
-      await syncAreaCostChanges();
-
       onSave();
       onClose();
     } catch (error: any) {
@@ -234,193 +280,226 @@ const AreaCostModal: React.FC<AreaCostModalProps> = ({
   };
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px] bg-slate-900 border-slate-800 text-slate-100">
-        <DialogHeader>
-          <DialogTitle>
-            {areaCost ? "Edit Area Cost" : "Add New Area Cost"}
-          </DialogTitle>
-        </DialogHeader>
-
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
-            <FormField
-              control={form.control}
-              name="areaName"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-white">Area Name</FormLabel>
-                  <FormControl>
-                    <Input
-                      {...field}
-                      placeholder="Enter area name"
-                      className="bg-slate-800 border-slate-700 text-slate-100"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="dailyAccommodationFoodCost"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-white">Daily Accommodation & Food (€)</FormLabel>
-                  <FormControl>
-                    <Input
-                      {...field}
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      placeholder="Enter cost"
-                      className="bg-slate-800 border-slate-700 text-slate-100"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="dailyAllowance"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-white">Daily Allowance (€)</FormLabel>
-                  <FormControl>
-                    <Input
-                      {...field}
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      placeholder="Enter allowance"
-                      className="bg-slate-800 border-slate-700 text-slate-100"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="dailyPocketMoney"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-white">Daily Pocket Money (€)</FormLabel>
-                  <FormControl>
-                    <Input
-                      {...field}
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      placeholder="Enter amount"
-                      className="bg-slate-800 border-slate-700 text-slate-100"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="iconName"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-white">Icon</FormLabel>
-                  <div className="grid grid-cols-3 gap-2 max-h-[300px] overflow-y-auto p-2 bg-slate-800 rounded-md border border-slate-700">
-                    {loadingIcons ? (
-                      Array.from({ length: 6 }).map((_, i) => (
-                        <Skeleton
-                          key={i}
-                          className="aspect-square rounded-md h-16"
-                        />
-                      ))
-                    ) : icons.length > 0 ? (
-                      icons.map((icon) => (
-                        <button
-                          key={icon.name}
-                          type="button"
-                          onClick={() => form.setValue("iconName", icon.name)}
-                          className={`cursor-pointer rounded-md p-2 hover:bg-slate-700 flex flex-col items-center justify-center transition-all ${
-                            field.value === icon.name ? 'ring-2 ring-blue-500 bg-slate-700' : 'bg-slate-800'
-                          }`}
-                          title={icon.name}
-                        >
-                          <div className="h-10 w-10 flex items-center justify-center">
-                            <img
-                              src={icon.url}
-                              alt={icon.name}
-                              className="max-h-full max-w-full object-contain"
-                              onError={(e) => {
-                                console.error(`Error loading icon: ${icon.url}`);
-                                const target = e.target as HTMLImageElement;
-                                target.src = "/placeholder.svg";
-                              }}
-                            />
-                          </div>
-                        </button>
-                      ))
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-[500px] bg-slate-900 border-slate-800 text-slate-100">
+          <DialogHeader>
+            <DialogTitle>
+              {areaCost ? "Edit Area Cost" : "Add New Area Cost"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="areaName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Area Name</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="Enter area name"
+                        className="bg-slate-800 border-slate-700 text-slate-100"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dailyAccommodationFoodCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Daily Accommodation & Food (€)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Enter cost"
+                        className="bg-slate-800 border-slate-700 text-slate-100"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dailyAllowance"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Daily Allowance (€)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Enter allowance"
+                        className="bg-slate-800 border-slate-700 text-slate-100"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dailyPocketMoney"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Daily Pocket Money (€)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Enter amount"
+                        className="bg-slate-800 border-slate-700 text-slate-100"
+                      />
+                    </FormControl>
+                    <FormDescription className="text-xs text-slate-400">
+                      Catalog costs. Quotes dated in a price list use the list's costs (Settings › Price Lists).
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="vatRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">VAT Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        max="100"
+                        placeholder="Enter rate"
+                        className="bg-slate-800 border-slate-700 text-slate-100"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="iconName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Icon</FormLabel>
+                    <div className="grid grid-cols-3 gap-2 max-h-[300px] overflow-y-auto p-2 bg-slate-800 rounded-md border border-slate-700">
+                      {loadingIcons ? (
+                        Array.from({ length: 6 }).map((_, i) => (
+                          <Skeleton
+                            key={i}
+                            className="aspect-square rounded-md h-16"
+                          />
+                        ))
+                      ) : icons.length > 0 ? (
+                        icons.map((icon) => (
+                          <button
+                            key={icon.name}
+                            type="button"
+                            onClick={() => form.setValue("iconName", icon.name)}
+                            className={`cursor-pointer rounded-md p-2 hover:bg-slate-700 flex flex-col items-center justify-center transition-all ${
+                              field.value === icon.name ? 'ring-2 ring-blue-500 bg-slate-700' : 'bg-slate-800'
+                            }`}
+                            title={icon.name}
+                          >
+                            <div className="h-10 w-10 flex items-center justify-center">
+                              <img
+                                src={icon.url}
+                                alt={icon.name}
+                                className="max-h-full max-w-full object-contain"
+                                onError={(e) => {
+                                  console.error(`Error loading icon: ${icon.url}`);
+                                  const target = e.target as HTMLImageElement;
+                                  target.src = "/placeholder.svg";
+                                }}
+                              />
+                            </div>
+                          </button>
+                        ))
+                      ) : (
+                        <div className="p-8 text-center bg-slate-800 rounded-md border border-slate-700 col-span-3">
+                          <p className="text-slate-400">No icons available in the storage bucket.</p>
+                        </div>
+                      )}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                {areaCost && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={handleDelete}
+                    disabled={isDeleting || isSaving}
+                    className="mr-auto"
+                  >
+                    {isDeleting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Deleting...
+                      </>
                     ) : (
-                      <div className="p-8 text-center bg-slate-800 rounded-md border border-slate-700 col-span-3">
-                        <p className="text-slate-400">No icons available in the storage bucket.</p>
-                      </div>
+                      "Delete Area Cost"
                     )}
-                  </div>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <DialogFooter>
-              {areaCost && (
+                  </Button>
+                )}
                 <Button
                   type="button"
-                  variant="destructive"
-                  onClick={handleDelete}
-                  disabled={isDeleting || isSaving}
-                  className="mr-auto"
+                  variant="outline"
+                  onClick={onClose}
+                  className="text-slate-300 border-slate-700 hover:bg-slate-800 hover:text-white"
                 >
-                  {isDeleting ? (
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isSaving || form.formState.isSubmitting}
+                  className="bg-blue-700 hover:bg-blue-800"
+                >
+                  {isSaving ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Deleting...
+                      Saving...
                     </>
                   ) : (
-                    "Delete Area Cost"
+                    "Save Changes"
                   )}
                 </Button>
-              )}
-              <Button
-                type="button"
-                variant="outline"
-                onClick={onClose}
-                className="text-slate-300 border-slate-700 hover:bg-slate-800 hover:text-white"
-              >
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={isSaving || form.formState.isSubmitting}
-                className="bg-blue-700 hover:bg-blue-800"
-              >
-                {isSaving ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  "Save Changes"
-                )}
-              </Button>
-            </DialogFooter>
-          </form>
-        </Form>
-      </DialogContent>
-    </Dialog>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      <CatalogImpactModal
+        open={pendingSave !== null}
+        impacts={pendingSave?.impacts ?? []}
+        onApply={handleApplyImpact}
+        onCancel={handleCancelImpact}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AreaCost } from "@/hooks/useAreaCosts";
+import { useAreaHolidays } from "@/hooks/useAreaHolidays";
+import { parseICalHolidays } from "@/utils/icalParser";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2, Upload } from "lucide-react";
+
+interface AreaHolidaysModalProps {
+  open: boolean;
+  onClose: () => void;
+  areaCost: AreaCost | null;
+}
+
+const AreaHolidaysModal: React.FC<AreaHolidaysModalProps> = ({
+  open,
+  onClose,
+  areaCost,
+}) => {
+  const { holidays, loading, addHoliday, importHolidays, deleteHoliday } = useAreaHolidays(
+    open ? areaCost?.area_id : null
+  );
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = async () => {
+    if (!holidayDate) {
+      toast.error("Please select a date");
+      return;
+    }
+
+    setIsAdding(true);
+    const added = await addHoliday(holidayDate, holidayName.trim() || null);
+    setIsAdding(false);
+
+    if (added) {
+      toast.success("Holiday added");
+      setHolidayDate("");
+      setHolidayName("");
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { holidays: entries, skippedRecurring } = parseICalHolidays(await file.text());
+      if (skippedRecurring.length > 0) {
+        toast.warning(
+          `Skipped ${skippedRecurring.length} recurring event${skippedRecurring.length === 1 ? "" : "s"} (only yearly repeats with an end date or count are imported): ${skippedRecurring.join(", ")}. Add these holidays manually.`
+        );
+      }
+      if (entries.length === 0) {
+        toast.error("No events found in the calendar file");
+        return;
+      }
+
+      const importedCount = await importHolidays(entries);
+      toast.success(`Imported ${importedCount} new holiday${importedCount === 1 ? "" : "s"} (${entries.length - importedCount} already present)`);
+    } catch (err) {
+      console.error("Error reading iCal file:", err);
+      toast.error("Could not read the calendar file");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>
+            Public Holidays{areaCost ? ` – ${areaCost.area_name}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-[160px_1fr_auto] gap-2 items-end">
+            <div className="grid gap-2">
+              <Label htmlFor="holidayDate" className="text-white">Date</Label>
+              <Input
+                id="holidayDate"
+                type="date"
+                value={holidayDate}
+                onChange={(e) => setHolidayDate(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-slate-100"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="holidayName" className="text-white">Name</Label>
+              <Input
+                id="holidayName"
+                value={holidayName}
+                onChange={(e) => setHolidayName(e.target.value)}
+                placeholder="e.g. National Day"
+                className="bg-slate-800 border-slate-700 text-slate-100"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isAdding} className="bg-blue-700 hover:bg-blue-800">
+              {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          <div className="max-h-[300px] overflow-y-auto rounded-md border border-slate-700 bg-slate-800">
+            {loading ? (
+              <div className="p-6 flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+              </div>
+            ) : holidays.length === 0 ? (
+              <div className="p-6 text-center text-slate-400 text-sm">
+                No holidays defined for this area. Add them manually or import an iCal file.
+              </div>
+            ) : (
+              holidays.map((holiday) => (
+                <div
+                  key={holiday.holiday_id}
+                  className="flex items-center justify-between px-3 py-2 border-b border-slate-700/50 last:border-b-0"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium w-32">{format(parseISO(holiday.holiday_date), "EEE, MMM d, yyyy")}</span>
+                    <span className="text-sm text-slate-300">{holiday.name || "Holiday"}</span>
+                    {holiday.source === "ical" && (
+                      <span className="text-[10px] uppercase px-1 rounded bg-indigo-700/50 text-indigo-200">iCal</span>
+                    )}
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                    onClick={() => deleteHoliday(holiday.holiday_id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting || !areaCost}
+            className="mr-auto text-slate-300 border-slate-700 hover:bg-slate-800 hover:text-white"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Import iCal
+              </>
+            )}
+          </Button>
+          <Button onClick={onClose} className="bg-blue-700 hover:bg-blue-800">
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AreaHolidaysModal;
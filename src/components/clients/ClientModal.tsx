@@ -0,0 +1,397 @@
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Client, ClientInput } from "@/hooks/useClients";
+import { useGeographicAreas } from "@/hooks/useGeographicAreas";
+import { SUPPORTED_CURRENCIES } from "@/utils/currency";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useForm, useFieldArray } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+
+interface ClientModalProps {
+  open: boolean;
+  onClose: () => void;
+  client?: Client | null;
+  onSave: (client: ClientInput, clientId?: number) => Promise<boolean>;
+  onDelete: (clientId: number) => Promise<boolean>;
+}
+
+const NONE = "none";
+
+const clientSchema = z.object({
+  companyName: z.string().trim().min(1, "Company name is required"),
+  countryCode: z
+    .string()
+    .trim()
+    .regex(/^([A-Za-z]{2})?$/, "Use a two-letter country code (e.g. DE)"),
+  vatId: z.string().trim(),
+  defaultAreaId: z.string(),
+  defaultCurrency: z.string(),
+  billingAddress: z.string(),
+  siteAddress: z.string(),
+  contacts: z.array(
+    z.object({
+      name: z.string().trim().min(1, "Contact name is required"),
+      role: z.string(),
+      email: z.union([z.literal(""), z.string().trim().email("Invalid email")]),
+      phone: z.string(),
+    })
+  ),
+  notes: z.string(),
+});
+
+type ClientFormValues = z.infer<typeof clientSchema>;
+
+const emptyValues: ClientFormValues = {
+  companyName: "",
+  countryCode: "",
+  vatId: "",
+  defaultAreaId: NONE,
+  defaultCurrency: NONE,
+  billingAddress: "",
+  siteAddress: "",
+  contacts: [],
+  notes: "",
+};
+
+const ClientModal: React.FC<ClientModalProps> = ({
+  open,
+  onClose,
+  client,
+  onSave,
+  onDelete,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { areas } = useGeographicAreas();
+
+  const form = useForm<ClientFormValues>({
+    resolver: zodResolver(clientSchema),
+    defaultValues: emptyValues,
+  });
+  const { fields: contactFields, append: appendContact, remove: removeContact } = useFieldArray({
+    control: form.control,
+    name: "contacts",
+  });
+
+  useEffect(() => {
+    if (client) {
+      form.reset({
+        companyName: client.company_name,
+        countryCode: client.country_code ?? "",
+        vatId: client.vat_id ?? "",
+        defaultAreaId: client.default_area_id?.toString() ?? NONE,
+        defaultCurrency: client.default_currency ?? NONE,
+        billingAddress: client.billing_address ?? "",
+        siteAddress: client.site_address ?? "",
+        contacts: client.contacts.map(contact => ({
+          name: contact.name,
+          role: contact.role ?? "",
+          email: contact.email ?? "",
+          phone: contact.phone ?? "",
+        })),
+        notes: client.notes ?? "",
+      });
+    } else {
+      form.reset(emptyValues);
+    }
+  }, [client, form, open]);
+
+  const handleSave = async (values: ClientFormValues) => {
+    setIsSaving(true);
+    const saved = await onSave(
+      {
+        company_name: values.companyName.trim(),
+        country_code: values.countryCode.trim().toUpperCase() || null,
+        vat_id: values.vatId.trim() || null,
+        default_area_id: values.defaultAreaId === NONE ? null : parseInt(values.defaultAreaId, 10),
+        default_currency: values.defaultCurrency === NONE ? null : values.defaultCurrency,
+        billing_address: values.billingAddress.trim() || null,
+        site_address: values.siteAddress.trim() || null,
+        // Empty optional fields are left out of the stored contact
+        contacts: values.contacts.map(contact => ({
+          name: contact.name.trim(),
+          ...(contact.role.trim() && { role: contact.role.trim() }),
+          ...(contact.email.trim() && { email: contact.email.trim() }),
+          ...(contact.phone.trim() && { phone: contact.phone.trim() }),
+        })),
+        notes: values.notes.trim() || null,
+      },
+      client?.client_id
+    );
+    setIsSaving(false);
+
+    if (saved) onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!client) return;
+    setIsDeleting(true);
+    const deleted = await onDelete(client.client_id);
+    setIsDeleting(false);
+
+    if (deleted) onClose();
+  };
+
+  const inputClassName = "bg-slate-800 border-slate-700 text-slate-100";
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>{client ? "Edit Client" : "Add New Client"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="companyName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Company Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Enter company name" className={inputClassName} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="countryCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Country</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="DE" maxLength={2} className={`${inputClassName} uppercase`} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="vatId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">VAT ID</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Optional" className={inputClassName} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="defaultAreaId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Default Area</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className={inputClassName}>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-slate-800 border-slate-700 text-slate-100">
+                        <SelectItem value={NONE}>None</SelectItem>
+                        {areas.map(area => (
+                          <SelectItem key={area.area_id} value={area.area_id.toString()}>
+                            {area.area_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="defaultCurrency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Default Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className={inputClassName}>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-slate-800 border-slate-700 text-slate-100">
+                        <SelectItem value={NONE}>None</SelectItem>
+                        {SUPPORTED_CURRENCIES.map(currency => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="billingAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Billing Address</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={4} placeholder="Street, postcode, city, country" className={inputClassName} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="siteAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Site Address</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={4} placeholder="Where the training takes place, if different" className={inputClassName} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-white">Contacts</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => appendContact({ name: "", role: "", email: "", phone: "" })}
+                  className="text-slate-300 hover:bg-slate-800"
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add Contact
+                </Button>
+              </div>
+              {contactFields.length === 0 && (
+                <p className="text-sm text-slate-500">No contacts yet.</p>
+              )}
+              {contactFields.map((contactField, index) => (
+                <div key={contactField.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-start">
+                  {(["name", "role", "email", "phone"] as const).map(key => (
+                    <FormField
+                      key={key}
+                      control={form.control}
+                      name={`contacts.${index}.${key}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              placeholder={key.charAt(0).toUpperCase() + key.slice(1)}
+                              className={`${inputClassName} h-9`}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeContact(index)}
+                    className="h-9 w-9 text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} className={inputClassName} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              {client && (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={handleDelete}
+                  disabled={isDeleting || isSaving}
+                  className="mr-auto"
+                >
+                  {isDeleting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Deleting...
+                    </>
+                  ) : (
+                    "Delete Client"
+                  )}
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                className="text-slate-300 border-slate-700 hover:bg-slate-800 hover:text-white"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Changes"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClientModal;
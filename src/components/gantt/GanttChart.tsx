@@ -5,9 +5,14 @@
 
 import React, { useState, useMemo, useRef, useCallback, useEffect } from "react";
 import "./GanttChart.css";
-import { Loader2, PlaneTakeoff, PlaneLanding, ZoomIn, ZoomOut } from "lucide-react";
+import { AlertTriangle, Loader2, PlaneTakeoff, PlaneLanding, ZoomIn, ZoomOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScheduledTaskSegment, ResourceCategory } from '@/utils/types';
+import { DEFAULT_DAILY_HOURS, getDateForScheduleDay, isDayWeekend } from '@/utils/scheduleTasks';
+import { AreaHoliday } from '@/hooks/useAreaHolidays';
+import { ResourceUnavailability } from '@/hooks/useResourceUnavailability';
+import { formatScheduleDay } from '@/utils/formatters';
+import { format, parseISO, differenceInCalendarDays, isValid } from 'date-fns';
 
 // --- Constants ---
 const INITIAL_DAY_WIDTH = 80;
@@ -16,9 +21,11 @@ const MAX_DAY_WIDTH = 200;
 const ZOOM_STEP = 15;
 const RESOURCE_HEADER_HEIGHT = 40;
 const MACHINE_ROW_HEIGHT = 30;
-const DAILY_HOUR_LIMIT = 8;
 const TOTAL_BAR_OPACITY = 0.4;
 const RESOURCE_GROUP_PADDING_BOTTOM = 10;
+const NO_HOLIDAYS: AreaHoliday[] = [];
+const NO_CONFLICTS: number[] = [];
+const NO_UNAVAILABILITY: ResourceUnavailability[] = [];
 
 // --- Interfaces ---
 interface GanttChartProps {
@@ -27,7 +34,20 @@ interface GanttChartProps {
   error: string | null; // Error display handled by parent now
   workOnSaturday: boolean;
   workOnSunday: boolean;
+  projectStartDate?: string | null; // ISO date of Day 1; without it the timeline shows abstract months/days
+  holidays?: AreaHoliday[]; // Public holidays of the quote's area, shaded when a start date is set
   onRetry?: () => void;
+  onSegmentChange?: (change: SegmentChange) => void; // Enables dragging, resizing and moving bars to another resource
+  onSegmentReset?: (requirementId: number | string) => void; // Double-click on a manually placed bar
+  conflictingResourceIds?: number[]; // Resources booked on another quote during this schedule
+  unavailability?: ResourceUnavailability[]; // Blocked periods per resource, hatched on its row when a start date is set
+}
+
+export interface SegmentChange {
+  requirementId: number | string;
+  resourceId: number;
+  startDay: number;
+  durationDays: number;
 }
 
 interface ResourceGroup { 
@@ -50,6 +70,50 @@ interface TotalEngagementBar {
   top: number; 
 }
 
+interface TimelineDay {
+  dayNumber: number;
+  date: Date | null;
+  label: number;
+  isWeekend: boolean;
+  holidayName: string | null; // Set (possibly to an empty label) when the day is a public holiday
+}
+
+interface MonthSpan {
+  key: string;
+  label: string;
+  days: number;
+}
+
+interface DragState {
+  requirementKey: string;
+  mode: 'move' | 'resize';
+  deltaX: number;
+  deltaY: number;
+}
+
+interface ResourceRowBounds {
+  resourceId: number;
+  top: number;
+  bottom: number;
+}
+
+interface UnavailableBand {
+  key: string;
+  left: number;
+  width: number;
+  top: number;
+  height: number;
+  reason: string;
+}
+
+interface DependencyArrow {
+  key: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
 interface TaskRenderInfo extends ScheduledTaskSegment { 
   top: number; 
   left: number; 
@@ -68,11 +132,15 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } | null { con
 
 // --- GanttChart Component ---
 const GanttChart: React.FC<GanttChartProps> = ({
-  requirements, loading, error, workOnSaturday, workOnSunday, onRetry
+  requirements, loading, error, workOnSaturday, workOnSunday, projectStartDate = null, holidays = NO_HOLIDAYS, onRetry, onSegmentChange, onSegmentReset, conflictingResourceIds = NO_CONFLICTS, unavailability = NO_UNAVAILABILITY
 }) => {
   const [dayWidth, setDayWidth] = useState<number>(INITIAL_DAY_WIDTH);
   const timelineHeaderRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const gridContentRef = useRef<HTMLDivElement>(null);
+  const dragOriginRef = useRef<{ x: number; y: number } | null>(null);
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const isEditable = !!onSegmentChange;
 
   const totalMonths = 12;
   const daysPerMonth = 30;
@@ -83,14 +151,47 @@ const GanttChart: React.FC<GanttChartProps> = ({
 
   const totalGridHeight = useMemo(() => { let height = 0; resourceGroups.forEach(group => { height += RESOURCE_HEADER_HEIGHT; height += group.machines.length * MACHINE_ROW_HEIGHT; height += RESOURCE_GROUP_PADDING_BOTTOM; }); if (resourceGroups.length > 0) { height -= RESOURCE_GROUP_PADDING_BOTTOM; } return Math.max(height, 100); }, [resourceGroups]);
 
-  const months = useMemo(() => Array.from({ length: totalMonths }, (_, i) => i + 1), [totalMonths]);
-  const days = useMemo(() => Array.from({ length: daysPerMonth }, (_, i) => i + 1), [daysPerMonth]);
+  const holidayNames = useMemo(() => new Map(holidays.map(holiday => [holiday.holiday_date, holiday.name || 'Public holiday'])), [holidays]);
+  const timelineDays = useMemo<TimelineDay[]>(() => Array.from({ length: totalDays }, (_, i) => { const dayNumber = i + 1; const date = getDateForScheduleDay(projectStartDate, dayNumber); return { dayNumber, date, label: date ? date.getDate() : (i % daysPerMonth) + 1, isWeekend: isDayWeekend(dayNumber, workOnSaturday, workOnSunday, projectStartDate), holidayName: date ? holidayNames.get(format(date, 'yyyy-MM-dd')) ?? null : null }; }), [totalDays, daysPerMonth, projectStartDate, workOnSaturday, workOnSunday, holidayNames]);
+  // Calendar months when a start date is known, otherwise fixed 30-day "Month N" blocks
+  const monthSpans = useMemo<MonthSpan[]>(() => { const spans: MonthSpan[] = []; timelineDays.forEach(day => { const monthIndex = Math.floor((day.dayNumber - 1) / daysPerMonth) + 1; const key = day.date ? format(day.date, 'yyyy-MM') : `month-${monthIndex}`; const last = spans[spans.length - 1]; if (last && last.key === key) { last.days++; } else { spans.push({ key, label: day.date ? format(day.date, 'MMMM yyyy') : `Month ${monthIndex}`, days: 1 }); } }); return spans; }, [timelineDays, daysPerMonth]);
   const getDayPosition = useCallback((startDay: number): { month: number; dayOfMonth: number } => { const validStartDay = Math.max(1, startDay); const month = Math.floor((validStartDay - 1) / daysPerMonth) + 1; const dayOfMonth = ((validStartDay - 1) % daysPerMonth) + 1; return { month, dayOfMonth }; }, [daysPerMonth]);
-  const isWeekend = useCallback((month: number, day: number): boolean => { const dayOfYear = (month - 1) * daysPerMonth + day; const dayOfWeek = (dayOfYear - 1) % 7; return (dayOfWeek === 5 && !workOnSaturday) || (dayOfWeek === 6 && !workOnSunday); }, [workOnSaturday, workOnSunday, daysPerMonth]);
 
   const handleScroll = useCallback(() => { if (scrollContainerRef.current && timelineHeaderRef.current) { timelineHeaderRef.current.style.transform = `translateX(-${scrollContainerRef.current.scrollLeft}px)`; } }, []);
 
-  const { tasksToRender, totalEngagementBars } = useMemo(() => { const tasks: TaskRenderInfo[] = []; const engagements: TotalEngagementBar[] = []; const resourceMinMax: { [key: number]: { min: number; max: number } } = {}; requirements.forEach(seg => { if (seg.resource_id == null || seg.start_day == null || seg.duration_days == null) return; const resourceId = seg.resource_id; const startDay = seg.start_day; const endDay = seg.start_day + seg.duration_days - 1; if (!resourceMinMax[resourceId]) { resourceMinMax[resourceId] = { min: startDay, max: endDay }; } else { resourceMinMax[resourceId].min = Math.min(resourceMinMax[resourceId].min, startDay); resourceMinMax[resourceId].max = Math.max(resourceMinMax[resourceId].max, endDay); } }); let currentTop = 0; resourceGroups.forEach((group, groupIndex) => { const resourceId = group.resourceId; const resourceTop = currentTop; if (resourceMinMax[resourceId]) { const earliestTaskStart = resourceMinMax[resourceId].min; const latestTaskEnd = resourceMinMax[resourceId].max; const travelStartDay = earliestTaskStart - 1; const travelEndDay = latestTaskEnd + 1; const safeTravelStartDay = Math.max(1, travelStartDay); const totalDuration = Math.max(1, travelEndDay - safeTravelStartDay + 1); engagements.push({ resourceId, resourceName: group.resourceName, travelStartDay: safeTravelStartDay, travelEndDay, totalDuration, top: resourceTop }); } currentTop += RESOURCE_HEADER_HEIGHT; group.machines.forEach(machine => { machine.requirements.forEach(seg => { if (seg.start_day == null || seg.resource_id == null || seg.start_hour_offset == null || seg.segment_hours == null) { console.warn("Skipping segment render due to missing data:", seg); return; } const { month, dayOfMonth } = getDayPosition(seg.start_day); const baseLeft = (Math.max(1, seg.start_day) - 1) * dayWidth; const hourOffsetPixels = (seg.start_hour_offset / DAILY_HOUR_LIMIT) * dayWidth; const left = baseLeft + hourOffsetPixels; let width = (seg.segment_hours / DAILY_HOUR_LIMIT) * dayWidth; width = Math.max(width, 4); tasks.push({ ...seg, top: currentTop, left: left, width: width, month: month, dayOfMonth: dayOfMonth, }); }); currentTop += MACHINE_ROW_HEIGHT; }); if (groupIndex < resourceGroups.length - 1) { currentTop += RESOURCE_GROUP_PADDING_BOTTOM; } }); return { tasksToRender: tasks, totalEngagementBars: engagements }; }, [resourceGroups, requirements, getDayPosition, daysPerMonth, dayWidth]);
+  const { tasksToRender, totalEngagementBars } = useMemo(() => { const tasks: TaskRenderInfo[] = []; const engagements: TotalEngagementBar[] = []; const resourceMinMax: { [key: number]: { min: number; max: number } } = {}; requirements.forEach(seg => { if (seg.resource_id == null || seg.start_day == null || seg.duration_days == null) return; const resourceId = seg.resource_id; const startDay = seg.start_day; const endDay = seg.start_day + seg.duration_days - 1; if (!resourceMinMax[resourceId]) { resourceMinMax[resourceId] = { min: startDay, max: endDay }; } else { resourceMinMax[resourceId].min = Math.min(resourceMinMax[resourceId].min, startDay); resourceMinMax[resourceId].max = Math.max(resourceMinMax[resourceId].max, endDay); } }); let currentTop = 0; resourceGroups.forEach((group, groupIndex) => { const resourceId = group.resourceId; const resourceTop = currentTop; if (resourceMinMax[resourceId]) { const earliestTaskStart = resourceMinMax[resourceId].min; const latestTaskEnd = resourceMinMax[resourceId].max; const travelStartDay = earliestTaskStart - 1; const travelEndDay = latestTaskEnd + 1; const safeTravelStartDay = Math.max(1, travelStartDay); const totalDuration = Math.max(1, travelEndDay - safeTravelStartDay + 1); engagements.push({ resourceId, resourceName: group.resourceName, travelStartDay: safeTravelStartDay, travelEndDay, totalDuration, top: resourceTop }); } currentTop += RESOURCE_HEADER_HEIGHT; group.machines.forEach(machine => { machine.requirements.forEach(seg => { if (seg.start_day == null || seg.resource_id == null || seg.start_hour_offset == null || seg.segment_hours == null) { console.warn("Skipping segment render due to missing data:", seg); return; } const { month, dayOfMonth } = getDayPosition(seg.start_day); const baseLeft = (Math.max(1, seg.start_day) - 1) * dayWidth; const dailyHourLimit = seg.daily_hour_limit || DEFAULT_DAILY_HOURS; const hourOffsetPixels = (seg.start_hour_offset / dailyHourLimit) * dayWidth; const left = baseLeft + hourOffsetPixels; let width = seg.is_override ? seg.duration_days * dayWidth - hourOffsetPixels : (seg.segment_hours / dailyHourLimit) * dayWidth; width = Math.max(width, 4); tasks.push({ ...seg, top: currentTop, left: left, width: width, month: month, dayOfMonth: dayOfMonth, }); }); currentTop += MACHINE_ROW_HEIGHT; }); if (groupIndex < resourceGroups.length - 1) { currentTop += RESOURCE_GROUP_PADDING_BOTTOM; } }); return { tasksToRender: tasks, totalEngagementBars: engagements }; }, [resourceGroups, requirements, getDayPosition, daysPerMonth, dayWidth]);
+  // First/last bar of every requirement (a requirement may be split into several bars, e.g. around weekends)
+  const requirementBars = useMemo(() => { const firstBars = new Map<string, TaskRenderInfo>(); const lastBars = new Map<string, TaskRenderInfo>(); tasksToRender.forEach(task => { const key = String(task.originalRequirementId); const first = firstBars.get(key); if (!first || task.left < first.left) firstBars.set(key, task); const last = lastBars.get(key); if (!last || task.left + task.width > last.left + last.width) lastBars.set(key, task); }); return { firstBars, lastBars }; }, [tasksToRender]);
+  // Prerequisite arrows run from the end of the required training's last bar to the start of the dependent's first bar
+  const dependencyArrows = useMemo(() => { const { firstBars, lastBars } = requirementBars; const arrows: DependencyArrow[] = []; firstBars.forEach((target, key) => { (target.prerequisite_ids ?? []).forEach(prerequisiteId => { const source = lastBars.get(String(prerequisiteId)); if (!source) return; arrows.push({ key: `${prerequisiteId}->${key}`, x1: source.left + source.width, y1: source.top + MACHINE_ROW_HEIGHT / 2, x2: target.left, y2: target.top + MACHINE_ROW_HEIGHT / 2 }); }); }); return arrows; }, [requirementBars]);
+
+  // --- Manual rescheduling (drag to move, drag the right edge to resize, drop on another resource to reassign) ---
+  const resourceRowBounds = useMemo<ResourceRowBounds[]>(() => { const bounds: ResourceRowBounds[] = []; let currentTop = 0; resourceGroups.forEach((group, groupIndex) => { const height = RESOURCE_HEADER_HEIGHT + group.machines.length * MACHINE_ROW_HEIGHT + (groupIndex < resourceGroups.length - 1 ? RESOURCE_GROUP_PADDING_BOTTOM : 0); bounds.push({ resourceId: group.resourceId, top: currentTop, bottom: currentTop + height }); currentTop += height; }); return bounds; }, [resourceGroups]);
+  // Blocked periods (vacation etc.) as bands across the whole resource group, clipped to the visible timeline
+  const unavailableBands = useMemo<UnavailableBand[]>(() => { if (!projectStartDate || !isValid(parseISO(projectStartDate))) return []; const dayOne = parseISO(projectStartDate); const bands: UnavailableBand[] = []; unavailability.forEach(period => { const row = resourceRowBounds.find(bound => bound.resourceId === period.resource_id); if (!row) return; const startDay = Math.max(1, differenceInCalendarDays(parseISO(period.start_date), dayOne) + 1); const endDay = Math.min(totalDays, differenceInCalendarDays(parseISO(period.end_date), dayOne) + 1); if (endDay < startDay) return; bands.push({ key: `unavailable-${period.unavailability_id}`, left: (startDay - 1) * dayWidth, width: (endDay - startDay + 1) * dayWidth, top: row.top, height: row.bottom - row.top, reason: period.reason || 'Unavailable' }); }); return bands; }, [projectStartDate, unavailability, resourceRowBounds, totalDays, dayWidth]);
+  const startDrag = useCallback((e: React.MouseEvent, seg: TaskRenderInfo, mode: DragState['mode']) => { if (!isEditable || e.button !== 0) return; e.preventDefault(); e.stopPropagation(); dragOriginRef.current = { x: e.clientX, y: e.clientY }; setDragState({ requirementKey: String(seg.originalRequirementId), mode, deltaX: 0, deltaY: 0 }); }, [isEditable]);
+  const dragRequirementKey = dragState?.requirementKey ?? null;
+  const dragMode = dragState?.mode ?? null;
+  useEffect(() => {
+    if (!dragRequirementKey || !dragMode) return;
+    const handleMouseMove = (e: MouseEvent) => { const origin = dragOriginRef.current; if (!origin) return; setDragState(prev => prev ? { ...prev, deltaX: e.clientX - origin.x, deltaY: e.clientY - origin.y } : prev); };
+    const handleMouseUp = (e: MouseEvent) => {
+      const origin = dragOriginRef.current; dragOriginRef.current = null; setDragState(null);
+      const firstBar = requirementBars.firstBars.get(dragRequirementKey); const lastBar = requirementBars.lastBars.get(dragRequirementKey);
+      if (!origin || !firstBar || !lastBar || !onSegmentChange) return;
+      const deltaDays = Math.round((e.clientX - origin.x) / dayWidth);
+      const startDay = firstBar.start_day; const durationDays = lastBar.start_day + lastBar.duration_days - firstBar.start_day;
+      let targetResourceId = firstBar.resource_id;
+      if (dragMode === 'move' && gridContentRef.current) { const pointerY = e.clientY - gridContentRef.current.getBoundingClientRect().top; const targetRow = resourceRowBounds.find(row => pointerY >= row.top && pointerY < row.bottom); if (targetRow) targetResourceId = targetRow.resourceId; }
+      const change: SegmentChange = dragMode === 'move' ? { requirementId: firstBar.originalRequirementId ?? dragRequirementKey, resourceId: targetResourceId, startDay: Math.max(2, startDay + deltaDays), durationDays } : { requirementId: firstBar.originalRequirementId ?? dragRequirementKey, resourceId: targetResourceId, startDay, durationDays: Math.max(1, durationDays + deltaDays) };
+      if (change.startDay === startDay && change.durationDays === durationDays && change.resourceId === firstBar.resource_id) return; // Plain click, nothing moved
+      onSegmentChange(change);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => { window.removeEventListener('mousemove', handleMouseMove); window.removeEventListener('mouseup', handleMouseUp); };
+  }, [dragRequirementKey, dragMode, requirementBars, resourceRowBounds, dayWidth, onSegmentChange]);
+  const getDragStyle = (seg: TaskRenderInfo): React.CSSProperties => { if (!dragState || dragState.requirementKey !== String(seg.originalRequirementId)) return {}; if (dragState.mode === 'move') return { transform: `translate(${dragState.deltaX}px, ${dragState.deltaY}px)` }; return requirementBars.lastBars.get(dragState.requirementKey)?.id === seg.id ? { width: `${Math.max(dayWidth / 2, seg.width + dragState.deltaX)}px` } : {}; };
 
   const handleZoomIn = useCallback(() => { setDayWidth(prev => Math.min(MAX_DAY_WIDTH, prev + ZOOM_STEP)); }, []);
   const handleZoomOut = useCallback(() => { setDayWidth(prev => Math.max(MIN_DAY_WIDTH, prev - ZOOM_STEP)); }, []);
@@ -130,8 +231,8 @@ const GanttChart: React.FC<GanttChartProps> = ({
          <div className="gantt-resource-header-cell">Resources</div>
          <div className="gantt-timeline-header-wrapper">
              <div className="gantt-timeline-header-content" ref={timelineHeaderRef} style={{ width: `${totalTimelineWidth}px` }}>
-                 <div className="gantt-months">{months.map(month => (<div key={`month-${month}`} className="gantt-month" style={{ minWidth: `${daysPerMonth * dayWidth}px`, width: `${daysPerMonth * dayWidth}px` }}>Month {month}</div>))}</div>
-                 <div className="gantt-days">{months.map(month => days.map(day => (<div key={`day-${month}-${day}`} className={`gantt-day ${isWeekend(month, day) ? 'weekend' : ''}`} style={{ minWidth: `${dayWidth}px`, width: `${dayWidth}px` }}>{day}</div>)))}</div>
+                 <div className="gantt-months">{monthSpans.map(span => (<div key={span.key} className="gantt-month" style={{ minWidth: `${span.days * dayWidth}px`, width: `${span.days * dayWidth}px` }}>{span.label}</div>))}</div>
+                 <div className="gantt-days">{timelineDays.map(day => (<div key={`day-${day.dayNumber}`} className={`gantt-day ${day.isWeekend ? 'weekend' : ''} ${day.holidayName !== null ? 'holiday' : ''}`} style={{ minWidth: `${dayWidth}px`, width: `${dayWidth}px` }} title={day.holidayName !== null ? `${formatScheduleDay(day.dayNumber, projectStartDate)} – ${day.holidayName}` : formatScheduleDay(day.dayNumber, projectStartDate)}>{day.label}</div>))}</div>
              </div>
          </div>
       </div>
@@ -143,7 +244,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
             <div className="gantt-resource-list-content" style={{ height: `${totalGridHeight}px` }}>
                  {resourceGroups.map(group => (
                     <div key={`resource-group-${group.resourceId}`} className="gantt-resource-group">
-                        <div className="gantt-resource-name" style={{ height: `${RESOURCE_HEADER_HEIGHT}px` }}>{group.resourceName}</div>
+                        <div className={`gantt-resource-name ${conflictingResourceIds.includes(group.resourceId) ? 'resource-conflict' : ''}`} style={{ height: `${RESOURCE_HEADER_HEIGHT}px` }} title={conflictingResourceIds.includes(group.resourceId) ? 'Booked on another quote during this schedule' : undefined}>{conflictingResourceIds.includes(group.resourceId) && <AlertTriangle className="h-3.5 w-3.5 mr-1.5 text-amber-400 flex-shrink-0" />}{group.resourceName}</div>
                         {group.machines.map((machine) => (
                             <div key={`machine-label-${group.resourceId}-${machine.machineName}`} className={`gantt-resource-machine ${machine.resourceCategory === 'Software' ? 'software-resource' : ''}`} style={{ height: `${MACHINE_ROW_HEIGHT}px` }} >
                                 <div className="flex items-center">
@@ -159,21 +260,28 @@ const GanttChart: React.FC<GanttChartProps> = ({
 
         {/* --- Scrollable Grid Container (HORIZONTAL SCROLL ONLY) --- */}
         <div className="gantt-grid-scroll-container" ref={scrollContainerRef} onScroll={handleScroll}>
-          <div className="gantt-grid-content" style={{ width: `${totalTimelineWidth}px`, height: `${totalGridHeight}px` }}>
+          <div className="gantt-grid-content" ref={gridContentRef} style={{ width: `${totalTimelineWidth}px`, height: `${totalGridHeight}px` }}>
             {/* Grid Background */}
             <div className="gantt-grid-background">
                  {Array.from({ length: totalDays + 1 }).map((_, index) => ( <div key={`vline-${index}`} className="gantt-grid-vline" style={{ left: `${index * dayWidth}px` }} /> ))}
                  {(() => { let currentTop = 0; const rows: React.ReactNode[] = []; resourceGroups.forEach((group, groupIndex) => { rows.push(<div key={`hr-res-${group.resourceId}`} className="gantt-grid-hline" style={{ top: `${currentTop + RESOURCE_HEADER_HEIGHT -1}px` }} />); currentTop += RESOURCE_HEADER_HEIGHT; group.machines.forEach((machine) => { rows.push(<div key={`hr-mac-${group.resourceId}-${machine.machineName}`} className="gantt-grid-hline" style={{ top: `${currentTop + MACHINE_ROW_HEIGHT - 1}px` }} />); currentTop += MACHINE_ROW_HEIGHT; }); if (groupIndex < resourceGroups.length - 1) { rows.push(<div key={`hr-group-sep-${group.resourceId}`} className="gantt-grid-hline group-separator" style={{ top: `${currentTop -1}px` }} />); currentTop += RESOURCE_GROUP_PADDING_BOTTOM; } }); return rows; })()}
-                 {months.map(month => days.map(day => { const dayNum = (month - 1) * daysPerMonth + day; return isWeekend(month, day) && ( <div key={`weekend-bg-${month}-${day}`} className="gantt-grid-weekend-bg" style={{ left: `${(dayNum - 1) * dayWidth}px`, width: `${dayWidth}px` }} /> ); }))}
+                 {timelineDays.map(day => day.isWeekend && ( <div key={`weekend-bg-${day.dayNumber}`} className="gantt-grid-weekend-bg" style={{ left: `${(day.dayNumber - 1) * dayWidth}px`, width: `${dayWidth}px` }} /> ))}
+                 {timelineDays.map(day => day.holidayName !== null && ( <div key={`holiday-bg-${day.dayNumber}`} className="gantt-grid-holiday-bg" style={{ left: `${(day.dayNumber - 1) * dayWidth}px`, width: `${dayWidth}px` }} title={day.holidayName} /> ))}
+                 {unavailableBands.map(band => ( <div key={band.key} className="gantt-grid-unavailable-band" style={{ left: `${band.left}px`, width: `${band.width}px`, top: `${band.top}px`, height: `${band.height}px` }} title={band.reason} /> ))}
             </div>
             {/* Total Engagement Layer */}
             <div className="gantt-total-engagement-layer">
-                 {totalEngagementBars.map(bar => { const left = (bar.travelStartDay - 1) * dayWidth; const width = bar.totalDuration * dayWidth; const barTop = bar.top + 5; const barHeight = RESOURCE_HEADER_HEIGHT - 10; const resourceColorHex = getResourceColor(bar.resourceId); const resourceColorRgb = hexToRgb(resourceColorHex); const backgroundColor = resourceColorRgb ? `rgba(${resourceColorRgb.r}, ${resourceColorRgb.g}, ${resourceColorRgb.b}, ${TOTAL_BAR_OPACITY})` : `rgba(100, 116, 139, ${TOTAL_BAR_OPACITY})`; return ( <div key={`total-${bar.resourceId}`} className="gantt-total-engagement-bar" style={{ top: `${barTop}px`, left: `${left}px`, width: `${width}px`, height: `${barHeight}px`, backgroundColor: backgroundColor }} title={`Total Engagement for ${bar.resourceName}: Day ${bar.travelStartDay} to ${bar.travelEndDay} (Includes Travel)`}> {width > dayWidth * 1.5 && ( <> <span className="gantt-travel-icon start" title="Travel Start"><PlaneTakeoff size={14} /></span> <span className="gantt-travel-icon end" title="Travel End"><PlaneLanding size={14} /></span> </> )} </div> ); })}
+                 {totalEngagementBars.map(bar => { const left = (bar.travelStartDay - 1) * dayWidth; const width = bar.totalDuration * dayWidth; const barTop = bar.top + 5; const barHeight = RESOURCE_HEADER_HEIGHT - 10; const resourceColorHex = getResourceColor(bar.resourceId); const resourceColorRgb = hexToRgb(resourceColorHex); const backgroundColor = resourceColorRgb ? `rgba(${resourceColorRgb.r}, ${resourceColorRgb.g}, ${resourceColorRgb.b}, ${TOTAL_BAR_OPACITY})` : `rgba(100, 116, 139, ${TOTAL_BAR_OPACITY})`; return ( <div key={`total-${bar.resourceId}`} className="gantt-total-engagement-bar" style={{ top: `${barTop}px`, left: `${left}px`, width: `${width}px`, height: `${barHeight}px`, backgroundColor: backgroundColor }} title={`Total Engagement for ${bar.resourceName}: ${formatScheduleDay(bar.travelStartDay, projectStartDate)} to ${formatScheduleDay(bar.travelEndDay, projectStartDate)} (Includes Travel)`}> {width > dayWidth * 1.5 && ( <> <span className="gantt-travel-icon start" title="Travel Start"><PlaneTakeoff size={14} /></span> <span className="gantt-travel-icon end" title="Travel End"><PlaneLanding size={14} /></span> </> )} </div> ); })}
             </div>
             {/* Task Layer */}
             <div className="gantt-task-layer">
-                 {tasksToRender.map((seg) => ( <div key={seg.id} className={`gantt-task ${seg.resource_category === 'Software' ? 'software-task' : ''}`} style={{ top: `${seg.top + 3}px`, left: `${seg.left}px`, width: `${seg.width}px`, height: `${MACHINE_ROW_HEIGHT - 6}px`, backgroundColor: getResourceColor(seg.resource_id), opacity: seg.resource_category === 'Software' ? 0.85 : 1, borderStyle: seg.resource_category === 'Software' ? 'dashed' : 'solid' }} title={`${seg.machine_name}: ${seg.segment_hours}h this block (Total ${seg.total_training_hours}h). Start: M${seg.month} D${seg.dayOfMonth} Offset: ${seg.start_hour_offset.toFixed(1)}h. Logical Duration: ${seg.duration_days} day(s).`}> {seg.width > 25 && ( <span className="gantt-task-label"> {seg.segment_hours % 1 === 0 ? seg.segment_hours : seg.segment_hours.toFixed(1)}h </span> )} </div> ))}
+                 {tasksToRender.map((seg) => ( <div key={seg.id} className={`gantt-task ${seg.resource_category === 'Software' ? 'software-task' : ''} ${seg.trainee_groups?.length ? 'grouped-task' : ''} ${seg.is_override ? 'pinned-task' : ''} ${seg.over_capacity ? 'overbooked-task' : ''} ${isEditable ? 'editable' : ''} ${dragState?.requirementKey === String(seg.originalRequirementId) ? 'dragging' : ''}`} style={{ top: `${seg.top + 3}px`, left: `${seg.left}px`, width: `${seg.width}px`, height: `${MACHINE_ROW_HEIGHT - 6}px`, backgroundColor: getResourceColor(seg.resource_id), opacity: seg.resource_category === 'Software' ? 0.85 : 1, borderStyle: seg.resource_category === 'Software' ? 'dashed' : 'solid', ...getDragStyle(seg) }} onMouseDown={e => startDrag(e, seg, 'move')} onDoubleClick={() => { if (seg.is_override && onSegmentReset) onSegmentReset(seg.originalRequirementId ?? seg.id); }} title={`${seg.machine_name}: ${seg.segment_hours}h this block (Total ${seg.total_training_hours}h). Start: ${projectStartDate ? formatScheduleDay(seg.start_day, projectStartDate) : `M${seg.month} D${seg.dayOfMonth}`} Offset: ${seg.start_hour_offset.toFixed(1)}h. Logical Duration: ${seg.duration_days} day(s).${seg.trainee_groups?.length ? ` Trainee group: ${seg.trainee_groups.join(', ')}.` : ''}${seg.is_override ? ' Placed manually (double-click to release).' : ''}${seg.over_capacity ? ' More hours per day than the resource works: spread it over more days.' : ''}`}> {seg.width > 25 && ( <span className="gantt-task-label"> {seg.segment_hours % 1 === 0 ? seg.segment_hours : seg.segment_hours.toFixed(1)}h </span> )} {isEditable && <div className="gantt-task-resize-handle" onMouseDown={e => startDrag(e, seg, 'resize')} />} </div> ))}
             </div>
+            {/* Dependency Layer */}
+            <svg className="gantt-dependency-layer" width={totalTimelineWidth} height={totalGridHeight}>
+                 <defs><marker id="gantt-dependency-arrowhead" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto"><path d="M0,0 L8,4 L0,8 z" /></marker></defs>
+                 {dependencyArrows.map(arrow => { const bend = Math.max(12, Math.abs(arrow.x2 - arrow.x1) / 2); return <path key={arrow.key} d={`M ${arrow.x1} ${arrow.y1} C ${arrow.x1 + bend} ${arrow.y1}, ${arrow.x2 - bend} ${arrow.y2}, ${arrow.x2} ${arrow.y2}`} markerEnd="url(#gantt-dependency-arrowhead)" />; })}
+            </svg>
           </div>
         </div>
       </div>
@@ -1,80 +1,135 @@
 // src/components/gantt/ResourceTrainingGantt.tsx
 
-import React, { useEffect, useState, useCallback } from "react";
-import GanttChart from "./GanttChart"; // Adjust path if needed
+import React, { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import GanttChart, { SegmentChange } from "./GanttChart"; // Adjust path if needed
 import { Card } from "@/components/ui/card";
 import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Loader2 } from "lucide-react";
+import { AlertCircle, AlertTriangle, Loader2, CalendarDays, Clock, Users, RotateCcw } from "lucide-react";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"; // Import Tabs
 import { Switch } from "@/components/ui/switch"; // Import Switch
 import { Label } from "@/components/ui/label"; // Import Label
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, parseISO } from "date-fns";
 import { TrainingPlan } from "@/hooks/useTrainingPlans"; // Assuming this type exists
 import { updateWeekendSettings } from "@/services/planningDetailsService";
 import { useTrainingRequirements } from "@/hooks/useTrainingRequirements";
-import { usePlanningDetailsSync } from "@/services/planningDetailsSync";
+import { useAreaHolidays } from "@/hooks/useAreaHolidays";
+import { useTraineeGroups, toTraineeGroupConstraints } from "@/hooks/useTraineeGroups";
+import { useTrainingPrerequisites, toPrerequisiteConstraints } from "@/hooks/useTrainingPrerequisites";
+import { useScheduleOverrides, toScheduleOverrides } from "@/hooks/useScheduleOverrides";
+import { useResourceUnavailability, toUnavailabilityConstraints } from "@/hooks/useResourceUnavailability";
+import { useResourceBookings } from "@/hooks/useResourceBookings";
+import { getResourceTrips, findResourceConflicts, findNextFreeStartDate } from "@/utils/resourceCalendar";
+import TraineeGroupsModal from "./TraineeGroupsModal";
 import { supabase } from "@/integrations/supabase/client";
 interface ResourceTrainingGanttProps {
   quoteId: string | undefined;
   planId: number | null;
   workOnSaturday: boolean;
   workOnSunday: boolean;
+  projectStartDate: string | null; // ISO date (yyyy-MM-dd) of Day 1, null when not yet agreed
+  areaId: number | null; // Quote's geographic area, used for its public holiday calendar
+  dailyHoursOverride: number | null; // Quote-level working hours per day, null = each resource's own capacity
+  refreshKey?: number; // Reloads the schedule when it changes (planning saved elsewhere)
   plans: TrainingPlan[]; // Receive plans list
   plansLoading: boolean; // Receive plans loading state
   onPlanChange: (planId: number) => void; // Callback for plan selection
   onWeekendChange: (key: 'workOnSaturday' | 'workOnSunday', value: boolean) => void; // Callback for weekend changes
+  onStartDateChange: (date: string | null) => void; // Callback for project start date changes
+  onDailyHoursChange: (hours: number | null) => void; // Callback for working hours override changes
 }
+
+const DAILY_HOURS_OPTIONS = [4, 5, 6, 7, 8, 9, 10, 11, 12];
+const RESOURCE_DEFAULT_HOURS = "resource";
 const ResourceTrainingGantt: React.FC<ResourceTrainingGanttProps> = ({
   quoteId,
   planId,
   workOnSaturday,
   workOnSunday,
+  projectStartDate,
+  areaId,
+  dailyHoursOverride,
+  refreshKey,
   plans,
   // Use received prop
   plansLoading,
   // Use received prop
   onPlanChange,
   // Use received prop
-  onWeekendChange // Use received prop
+  onWeekendChange, // Use received prop
+  onStartDateChange,
+  onDailyHoursChange
 }) => {
-  const [syncPerformedForPlan, setSyncPerformedForPlan] = useState<number | null>(null);
-  const [isSyncing, setIsSyncing] = useState(false);
   const {
-    syncSoftwareTrainingHours
-  } = usePlanningDetailsSync();
+    holidays
+  } = useAreaHolidays(areaId);
+  const {
+    traineeGroups,
+    addTraineeGroup,
+    updateTraineeGroup,
+    deleteTraineeGroup
+  } = useTraineeGroups(quoteId);
+  const [isGroupsModalOpen, setIsGroupsModalOpen] = useState(false);
+  const {
+    prerequisites
+  } = useTrainingPrerequisites();
+  const {
+    periods: unavailability
+  } = useResourceUnavailability();
+  const {
+    overrides,
+    saveOverride,
+    clearOverride,
+    clearAllOverrides
+  } = useScheduleOverrides(quoteId, planId);
   const {
     scheduledTasks,
     loading: loadingRequirements,
     error: requirementsError,
     fetchRequirements
-  } = useTrainingRequirements(quoteId, planId, workOnSaturday, workOnSunday);
+  } = useTrainingRequirements(quoteId, planId, workOnSaturday, workOnSunday, {
+    projectStartDate,
+    holidays: holidays.map(holiday => holiday.holiday_date),
+    dailyHoursOverride,
+    traineeGroups: toTraineeGroupConstraints(traineeGroups),
+    prerequisites: toPrerequisiteConstraints(prerequisites),
+    overrides: toScheduleOverrides(overrides),
+    unavailability: toUnavailabilityConstraints(unavailability)
+  });
 
-  // --- Sync Software Hours Before Loading Requirements ---
-  const performInitialSync = useCallback(async () => {
-    if (quoteId && planId && planId !== syncPerformedForPlan && !isSyncing) {
-      console.log(`Performing initial software hours sync for plan ${planId}...`);
-      setIsSyncing(true);
-      try {
-        const syncSuccess = await syncSoftwareTrainingHours();
-        if (syncSuccess) {
-          console.log("Software hours sync complete. Fetching requirements...");
-          await fetchRequirements();
-          setSyncPerformedForPlan(planId);
-        } else {
-          console.error("Software hours sync failed.");
-        }
-      } catch (err) {
-        console.error("Error during initial sync or fetch:", err);
-      } finally {
-        setIsSyncing(false);
-      }
-    } else if (!quoteId || !planId) {
-      setSyncPerformedForPlan(null);
-    }
-  }, [quoteId, planId, syncSoftwareTrainingHours, fetchRequirements, syncPerformedForPlan, isSyncing]);
+  // Reload when the planning was changed by someone else; the first render already fetched
+  const lastRefreshKeyRef = useRef(refreshKey);
   useEffect(() => {
-    performInitialSync();
-  }, [performInitialSync]);
+    if (refreshKey === lastRefreshKeyRef.current) return;
+    lastRefreshKeyRef.current = refreshKey;
+    fetchRequirements();
+  }, [refreshKey, fetchRequirements]);
+
+  // --- Availability across quotes ---
+  const {
+    bookings,
+    fetchBookings
+  } = useResourceBookings(quoteId, (scheduledTasks || []).map(task => task.resource_id));
+  const resourceTrips = useMemo(() => getResourceTrips(scheduledTasks || []), [scheduledTasks]);
+  const resourceConflicts = useMemo(() => findResourceConflicts(resourceTrips, bookings), [resourceTrips, bookings]);
+  const nextFreeStartDate = useMemo(() => resourceConflicts.length > 0 ? findNextFreeStartDate(projectStartDate, resourceTrips, bookings) : null, [resourceConflicts, projectStartDate, resourceTrips, bookings]);
+  const conflictingResourceIds = useMemo(() => Array.from(new Set(resourceConflicts.map(conflict => conflict.resourceId))), [resourceConflicts]);
+
+  // --- Manual rescheduling from the chart ---
+  const handleSegmentChange = useCallback((change: SegmentChange) => {
+    saveOverride(Number(change.requirementId), {
+      resource_id: change.resourceId,
+      start_day: change.startDay,
+      duration_days: change.durationDays
+    });
+  }, [saveOverride]);
+  const handleSegmentReset = useCallback((requirementId: number | string) => {
+    clearOverride(Number(requirementId));
+  }, [clearOverride]);
 
   // --- Weekend Settings Update (called via prop now) ---
   // This effect might still be useful if backend needs direct update, but UI interaction goes through onWeekendChange
@@ -94,7 +149,7 @@ const ResourceTrainingGantt: React.FC<ResourceTrainingGanttProps> = ({
         </div>
       </Card>;
   }
-  const isLoading = loadingRequirements || isSyncing || plansLoading; // Include plansLoading in overall loading state
+  const isLoading = loadingRequirements || plansLoading; // Include plansLoading in overall loading state
   const displayError = requirementsError;
   const totalAssignments = scheduledTasks?.length ?? 0;
   return (
@@ -128,14 +183,48 @@ const ResourceTrainingGantt: React.FC<ResourceTrainingGanttProps> = ({
               {isLoading ? <div className="flex items-center gap-2">
                     <Loader2 className="h-4 w-4 animate-spin text-blue-400" />
                     <TextShimmerWave className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff]">
-                      {isSyncing ? "Syncing hours..." : loadingRequirements || plansLoading ? "Loading schedule..." : "Loading..."}
+                      {loadingRequirements || plansLoading ? "Loading schedule..." : "Loading..."}
                     </TextShimmerWave>
                  </div> : displayError ? <span className="text-red-400">Error loading schedule</span> : `Showing ${totalAssignments} scheduled training segments`}
             </div>
           </div>
 
-          {/* Weekend Switches Moved Here */}
-          <div className="flex gap-4">
+          {/* Project Start Date + Weekend Switches */}
+          <div className="flex gap-4 items-center">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isLoading} className="bg-slate-800 border-slate-700 text-gray-300 hover:bg-slate-700 hover:text-white">
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  {projectStartDate ? `Start: ${format(parseISO(projectStartDate), "MMM d, yyyy")}` : "Set start date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0 bg-slate-800 border-slate-700 text-gray-200" align="end">
+                <Calendar
+                  mode="single"
+                  selected={projectStartDate ? parseISO(projectStartDate) : undefined}
+                  onSelect={date => onStartDateChange(date ? format(date, "yyyy-MM-dd") : null)}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            {overrides.length > 0 && <Button variant="outline" size="sm" onClick={() => clearAllOverrides()} disabled={isLoading} className="bg-slate-800 border-slate-700 text-gray-300 hover:bg-slate-700 hover:text-white">
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset manual changes ({overrides.length})
+              </Button>}
+            <Button variant="outline" size="sm" onClick={() => setIsGroupsModalOpen(true)} disabled={isLoading} className="bg-slate-800 border-slate-700 text-gray-300 hover:bg-slate-700 hover:text-white">
+              <Users className="h-4 w-4 mr-2" />
+              Trainee Groups{traineeGroups.length > 0 ? ` (${traineeGroups.length})` : ""}
+            </Button>
+            <Select value={dailyHoursOverride ? dailyHoursOverride.toString() : RESOURCE_DEFAULT_HOURS} onValueChange={value => onDailyHoursChange(value === RESOURCE_DEFAULT_HOURS ? null : Number(value))} disabled={isLoading}>
+              <SelectTrigger className="w-[170px] h-9 bg-slate-800 border-slate-700 text-gray-300">
+                <Clock className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                <SelectItem value={RESOURCE_DEFAULT_HOURS}>Resource hours/day</SelectItem>
+                {DAILY_HOURS_OPTIONS.map(hours => <SelectItem key={hours} value={hours.toString()}>{hours}h per day</SelectItem>)}
+              </SelectContent>
+            </Select>
             <div className="flex items-center gap-2">
               <Switch id="gantt-work-on-saturday" // Ensure unique ID if needed elsewhere
               checked={workOnSaturday} onCheckedChange={checked => onWeekendChange('workOnSaturday', checked)} // Use callback prop
@@ -159,11 +248,37 @@ const ResourceTrainingGantt: React.FC<ResourceTrainingGanttProps> = ({
             <AlertDescription>{displayError}</AlertDescription>
           </Alert>}
 
+        {/* Double bookings with other quotes */}
+        {resourceConflicts.length > 0 && !isLoading && <Alert className="mb-4 bg-amber-900/30 border-amber-700/40 text-amber-100">
+            <AlertTriangle className="h-4 w-4 !text-amber-300" />
+            <AlertDescription>
+              <div className="font-medium mb-1">Resources already booked on accepted quotes</div>
+              <ul className="text-sm space-y-0.5">
+                {resourceConflicts.map(conflict => <li key={`${conflict.resourceId}-${conflict.quoteId}`}>
+                    {conflict.resourceName}: {conflict.quoteName} ({format(parseISO(conflict.startDate), "MMM d")} – {format(parseISO(conflict.endDate), "MMM d, yyyy")}, incl. travel)
+                  </li>)}
+              </ul>
+              <div className="mt-2 flex items-center gap-3 text-sm">
+                {nextFreeStartDate ? <>
+                    <span>All resources are free from {format(parseISO(nextFreeStartDate), "MMM d, yyyy")}.</span>
+                    <Button size="sm" variant="outline" onClick={() => onStartDateChange(nextFreeStartDate)} className="h-7 bg-slate-800 border-amber-700/50 text-amber-100 hover:bg-slate-700 hover:text-white">
+                      Use this start date
+                    </Button>
+                  </> : <span>No common free date found in the next two years.</span>}
+                <Button size="sm" variant="ghost" onClick={() => fetchBookings()} className="h-7 text-amber-200 hover:bg-slate-700 hover:text-white">
+                  Recheck
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>}
+
         {/* Gantt Chart Area - REMOVED fixed height and overflow */}
         <div className="border border-slate-700 rounded-md bg-slate-900/50">
-          <GanttChart requirements={isLoading ? [] : scheduledTasks || []} loading={isLoading} error={null} workOnSaturday={workOnSaturday} workOnSunday={workOnSunday} onRetry={fetchRequirements} />
+          <GanttChart requirements={isLoading ? [] : scheduledTasks || []} loading={isLoading} error={null} workOnSaturday={workOnSaturday} workOnSunday={workOnSunday} projectStartDate={projectStartDate} holidays={holidays} onRetry={fetchRequirements} onSegmentChange={handleSegmentChange} onSegmentReset={handleSegmentReset} conflictingResourceIds={conflictingResourceIds} unavailability={unavailability} />
         </div>
       </div>
+
+      <TraineeGroupsModal open={isGroupsModalOpen} onClose={() => setIsGroupsModalOpen(false)} quoteId={quoteId} traineeGroups={traineeGroups} onAdd={addTraineeGroup} onUpdate={updateTraineeGroup} onDelete={deleteTraineeGroup} />
     </Card>
   );
 };
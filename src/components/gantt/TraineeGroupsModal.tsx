@@ -0,0 +1,206 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TraineeGroup, TraineeGroupInput } from "@/hooks/useTraineeGroups";
+import { useQuoteMachines } from "@/hooks/useQuoteMachines";
+import { useQuoteSoftware } from "@/hooks/useQuoteSoftware";
+import { toast } from "sonner";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface TraineeGroupsModalProps {
+  open: boolean;
+  onClose: () => void;
+  quoteId: string | undefined;
+  traineeGroups: TraineeGroup[];
+  onAdd: (group: TraineeGroupInput) => Promise<boolean>;
+  onUpdate: (groupId: number, group: TraineeGroupInput) => Promise<boolean>;
+  onDelete: (groupId: number) => Promise<boolean>;
+}
+
+const EMPTY_GROUP: TraineeGroupInput = { name: "", machine_type_ids: [], software_type_ids: [] };
+
+const toggleId = (ids: number[], id: number, checked: boolean) =>
+  checked ? [...ids.filter(existing => existing !== id), id] : ids.filter(existing => existing !== id);
+
+const TraineeGroupsModal: React.FC<TraineeGroupsModalProps> = ({
+  open,
+  onClose,
+  quoteId,
+  traineeGroups,
+  onAdd,
+  onUpdate,
+  onDelete,
+}) => {
+  const { selectedMachines } = useQuoteMachines(open ? quoteId : undefined);
+  const { selectedSoftware } = useQuoteSoftware(open ? quoteId : undefined);
+  const [draft, setDraft] = useState<TraineeGroupInput>(EMPTY_GROUP);
+  const [editingGroupId, setEditingGroupId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetDraft = () => {
+    setDraft(EMPTY_GROUP);
+    setEditingGroupId(null);
+  };
+
+  const handleEdit = (group: TraineeGroup) => {
+    setEditingGroupId(group.group_id);
+    setDraft({
+      name: group.name,
+      machine_type_ids: group.machine_type_ids,
+      software_type_ids: group.software_type_ids,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast.error("Group name is required");
+      return;
+    }
+    if (draft.machine_type_ids.length + draft.software_type_ids.length < 2) {
+      toast.error("Select at least two trainings attended by this group");
+      return;
+    }
+
+    setIsSaving(true);
+    const group = { ...draft, name: draft.name.trim() };
+    const saved = editingGroupId ? await onUpdate(editingGroupId, group) : await onAdd(group);
+    setIsSaving(false);
+
+    if (saved) {
+      toast.success(editingGroupId ? "Trainee group updated" : "Trainee group added");
+      resetDraft();
+    }
+  };
+
+  const getTopicNames = (group: TraineeGroup) => [
+    ...selectedMachines.filter(m => group.machine_type_ids.includes(m.machine_type_id)).map(m => m.name),
+    ...selectedSoftware.filter(s => group.software_type_ids.includes(s.software_type_id)).map(s => s.name),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={() => { resetDraft(); onClose(); }}>
+      <DialogContent className="sm:max-w-[600px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>Trainee Groups</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-slate-400">
+          Trainings attended by the same group of people are never scheduled at the same time, even when different resources teach them.
+        </p>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-3 rounded-md border border-slate-700 bg-slate-800 p-3">
+            <div className="grid gap-2">
+              <Label htmlFor="traineeGroupName" className="text-white">
+                {editingGroupId ? "Edit Group" : "New Group"}
+              </Label>
+              <Input
+                id="traineeGroupName"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Maintenance team"
+                className="bg-slate-900 border-slate-700 text-slate-100"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 max-h-[220px] overflow-y-auto">
+              <div className="grid gap-2 content-start">
+                <span className="text-xs uppercase text-slate-400">Machines</span>
+                {selectedMachines.length === 0 && <span className="text-sm text-slate-500">No machines on this quote</span>}
+                {selectedMachines.map(machine => (
+                  <label key={machine.machine_type_id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.machine_type_ids.includes(machine.machine_type_id)}
+                      onCheckedChange={checked => setDraft(prev => ({ ...prev, machine_type_ids: toggleId(prev.machine_type_ids, machine.machine_type_id, checked === true) }))}
+                    />
+                    {machine.name}
+                  </label>
+                ))}
+              </div>
+              <div className="grid gap-2 content-start">
+                <span className="text-xs uppercase text-slate-400">Software</span>
+                {selectedSoftware.length === 0 && <span className="text-sm text-slate-500">No software on this quote</span>}
+                {selectedSoftware.map(software => (
+                  <label key={software.software_type_id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.software_type_ids.includes(software.software_type_id)}
+                      onCheckedChange={checked => setDraft(prev => ({ ...prev, software_type_ids: toggleId(prev.software_type_ids, software.software_type_id, checked === true) }))}
+                    />
+                    {software.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {editingGroupId && (
+                <Button variant="ghost" onClick={resetDraft} className="text-slate-300 hover:bg-slate-700 hover:text-white">
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                {editingGroupId ? "Save Group" : "Add Group"}
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-[220px] overflow-y-auto rounded-md border border-slate-700 bg-slate-800">
+            {traineeGroups.length === 0 ? (
+              <div className="p-6 text-center text-slate-400 text-sm">
+                No trainee groups. Without groups every resource is scheduled independently.
+              </div>
+            ) : (
+              traineeGroups.map(group => (
+                <div
+                  key={group.group_id}
+                  className="flex items-center justify-between px-3 py-2 border-b border-slate-700/50 last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium">{group.name}</div>
+                    <div className="text-xs text-slate-400 truncate">{getTopicNames(group).join(", ") || "No trainings selected"}</div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-slate-400 hover:text-white hover:bg-slate-700"
+                      onClick={() => handleEdit(group)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                      onClick={() => onDelete(group.group_id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => { resetDraft(); onClose(); }} className="bg-blue-700 hover:bg-blue-800">
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TraineeGroupsModal;
@@ -183,7 +183,7 @@ const MachineTypeModal: React.FC<MachineTypeModalProps> = ({
            toast.success("Training requirements updated.");
       }
 
-      await syncMachineTypeChanges();
+      await syncMachineTypeChanges(savedMachineTypeId);
 
       onSave();
       onClose();
@@ -231,7 +231,7 @@ const MachineTypeModal: React.FC<MachineTypeModalProps> = ({
 
       toast.success("Machine deleted successfully");
 
-      await syncMachineTypeChanges();
+      await syncMachineTypeChanges(idToDelete);
 
       onSave();
       onClose();
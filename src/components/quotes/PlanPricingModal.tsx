@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { PlanPricing, PlanPricingInput } from "@/hooks/usePlanPricing";
+import { PlanCostBreakdown, calculateSellPrice } from "@/utils/pricing";
+import { formatCurrency } from "@/utils/formatters";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+interface PlanPricingModalProps {
+  open: boolean;
+  onClose: () => void;
+  planName: string;
+  costs: PlanCostBreakdown;
+  pricing: PlanPricing | null;
+  currency: string;
+  onSave: (input: PlanPricingInput) => Promise<boolean>;
+}
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const PlanPricingModal: React.FC<PlanPricingModalProps> = ({
+  open,
+  onClose,
+  planName,
+  costs,
+  pricing,
+  currency,
+  onSave,
+}) => {
+  const [marginPercent, setMarginPercent] = useState("0");
+  const [lineDiscounts, setLineDiscounts] = useState<Record<number, string>>({});
+  const [overrideEnabled, setOverrideEnabled] = useState(false);
+  const [overridePrice, setOverridePrice] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved pricing every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setMarginPercent(String(pricing?.margin_percent ?? 0));
+    setLineDiscounts(Object.fromEntries(
+      Object.entries(pricing?.line_discounts ?? {}).map(([resourceId, percent]) => [resourceId, String(percent)])
+    ));
+    setOverrideEnabled(pricing?.override_price !== null && pricing?.override_price !== undefined);
+    setOverridePrice(pricing?.override_price !== null && pricing?.override_price !== undefined ? String(pricing.override_price) : "");
+    setOverrideReason(pricing?.override_reason ?? "");
+  }, [open, pricing]);
+
+  const input: PlanPricingInput = useMemo(() => ({
+    margin_percent: toNumber(marginPercent),
+    line_discounts: Object.fromEntries(
+      Object.entries(lineDiscounts)
+        .map(([resourceId, percent]): [string, number] => [resourceId, toNumber(percent)])
+        .filter(([, percent]) => percent > 0)
+    ),
+    override_price: overrideEnabled && overridePrice !== "" ? toNumber(overridePrice) : null,
+    override_reason: overrideEnabled ? overrideReason : null,
+  }), [marginPercent, lineDiscounts, overrideEnabled, overridePrice, overrideReason]);
+
+  const preview = useMemo(() => calculateSellPrice(costs, {
+    marginPercent: input.margin_percent,
+    lineDiscounts: input.line_discounts,
+    overridePrice: input.override_price,
+  }), [costs, input]);
+
+  const reasonMissing = input.override_price !== null && !overrideReason.trim();
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave(input);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>Pricing – {planName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-[1fr_120px] gap-2 items-center">
+            <Label htmlFor="marginPercent" className="text-white">Margin on cost (%)</Label>
+            <Input
+              id="marginPercent"
+              type="number"
+              min="0"
+              step="0.5"
+              value={marginPercent}
+              onChange={(e) => setMarginPercent(e.target.value)}
+              className="bg-slate-800 border-slate-700 text-slate-100"
+            />
+          </div>
+
+          <div className="rounded-md border border-slate-700 bg-slate-800">
+            <div className="grid grid-cols-[1fr_90px_80px_90px] gap-2 px-3 py-2 text-xs text-slate-400 border-b border-slate-700">
+              <span>Line</span>
+              <span className="text-right">Cost</span>
+              <span className="text-right">Discount %</span>
+              <span className="text-right">Sell</span>
+            </div>
+            {preview.lines.map(line => (
+              <div
+                key={line.resourceId}
+                className="grid grid-cols-[1fr_90px_80px_90px] gap-2 items-center px-3 py-2 border-b border-slate-700/50 last:border-b-0 text-sm"
+              >
+                <span>{line.resourceName}</span>
+                <span className="text-right text-slate-300">{formatCurrency(line.cost, currency)}</span>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={lineDiscounts[line.resourceId] ?? ""}
+                  placeholder="0"
+                  onChange={(e) => setLineDiscounts(prev => ({ ...prev, [line.resourceId]: e.target.value }))}
+                  className="h-7 bg-slate-900 border-slate-700 text-slate-100 text-right"
+                />
+                <span className="text-right">{formatCurrency(line.sellPrice, currency)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="overrideEnabled" className="text-white">Manual price override</Label>
+              <Switch id="overrideEnabled" checked={overrideEnabled} onCheckedChange={setOverrideEnabled} />
+            </div>
+            {overrideEnabled && (
+              <div className="grid grid-cols-[140px_1fr] gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={overridePrice}
+                  placeholder={preview.calculatedPrice.toFixed(2)}
+                  onChange={(e) => setOverridePrice(e.target.value)}
+                  className="bg-slate-800 border-slate-700 text-slate-100"
+                />
+                <Input
+                  value={overrideReason}
+                  placeholder="Reason (required)"
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  className={`bg-slate-800 text-slate-100 ${reasonMissing ? "border-red-500" : "border-slate-700"}`}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="text-sm space-y-1 border-t border-slate-700 pt-3">
+            <div className="flex justify-between text-slate-300">
+              <span>Cost</span>
+              <span>{formatCurrency(preview.costTotal, currency)}</span>
+            </div>
+            <div className="flex justify-between text-slate-300">
+              <span>Margin ({preview.marginPercent}%)</span>
+              <span>+{formatCurrency(preview.marginAmount, currency)}</span>
+            </div>
+            {preview.discountTotal > 0 && (
+              <div className="flex justify-between text-slate-300">
+                <span>Line discounts</span>
+                <span>−{formatCurrency(preview.discountTotal, currency)}</span>
+              </div>
+            )}
+            {preview.isOverridden && (
+              <div className="flex justify-between text-slate-400 line-through">
+                <span>Calculated price</span>
+                <span>{formatCurrency(preview.calculatedPrice, currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-medium text-emerald-300">
+              <span>Sell price</span>
+              <span>{formatCurrency(preview.sellPrice, currency)}</span>
+            </div>
+            {preview.belowFloor && (
+              <div className="flex items-center gap-2 text-red-400 text-xs pt-1">
+                <AlertTriangle className="h-3 w-3" />
+                Below the floor price of {formatCurrency(preview.floorPrice, currency)}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="text-slate-300 border-slate-700 hover:bg-slate-800 hover:text-white"
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || reasonMissing} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Pricing
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlanPricingModal;
@@ -0,0 +1,52 @@
+import React from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { QuoteCollaborator } from "@/hooks/useQuoteRealtime";
+import { Lock } from "lucide-react";
+
+const MAX_AVATARS = 4;
+
+interface QuotePresenceProps {
+  collaborators: QuoteCollaborator[];
+  fieldLabels?: Record<string, string>; // Names of the lockable fields, shown in the tooltip
+}
+
+// Avatars of the other members who have the quote open
+const QuotePresence: React.FC<QuotePresenceProps> = ({ collaborators, fieldLabels = {} }) => {
+  if (collaborators.length === 0) return null;
+
+  const shown = collaborators.slice(0, MAX_AVATARS);
+  const hiddenCount = collaborators.length - shown.length;
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {shown.map(collaborator => (
+        <div
+          key={collaborator.userId}
+          className="relative"
+          title={collaborator.editingField
+            ? `${collaborator.name} is editing ${fieldLabels[collaborator.editingField] ?? collaborator.editingField}`
+            : collaborator.name}
+        >
+          <Avatar className="w-8 h-8 border-2 border-slate-900">
+            <AvatarImage src={collaborator.avatarUrl || ""} />
+            <AvatarFallback className="bg-blue-800 text-gray-100 text-xs">
+              {collaborator.name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          {collaborator.editingField && (
+            <span className="absolute -bottom-1 -right-1 rounded-full bg-amber-500 p-0.5">
+              <Lock className="h-2.5 w-2.5 text-slate-900" />
+            </span>
+          )}
+        </div>
+      ))}
+      {hiddenCount > 0 && (
+        <div className="w-8 h-8 rounded-full border-2 border-slate-900 bg-slate-700 text-gray-200 text-xs flex items-center justify-center">
+          +{hiddenCount}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotePresence;
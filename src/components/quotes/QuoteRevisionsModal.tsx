@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuoteRevisions, QuoteRevision } from "@/hooks/useQuoteRevisions";
+import { diffRevisions, isEmptyDiff, ListChange } from "@/utils/revisionDiff";
+import { formatDate } from "@/utils/formatters";
+import { toast } from "sonner";
+import { GitBranch, Loader2, Save } from "lucide-react";
+
+interface QuoteRevisionsModalProps {
+  open: boolean;
+  onClose: () => void;
+  quoteId: string | undefined;
+  onBranched: () => void; // The working draft changed, reload the page data
+}
+
+const ListChangeRows: React.FC<{ title: string; change: ListChange }> = ({ title, change }) => {
+  if (change.added.length === 0 && change.removed.length === 0) return null;
+  return (
+    <div className="text-sm">
+      <div className="text-slate-400 mb-1">{title}</div>
+      {change.added.map(name => <div key={`+${name}`} className="text-emerald-300">+ {name}</div>)}
+      {change.removed.map(name => <div key={`-${name}`} className="text-red-300">− {name}</div>)}
+    </div>
+  );
+};
+
+const QuoteRevisionsModal: React.FC<QuoteRevisionsModalProps> = ({
+  open,
+  onClose,
+  quoteId,
+  onBranched,
+}) => {
+  const { revisions, basedOnRevisionId, loading, createRevision, branchFromRevision } = useQuoteRevisions(
+    open ? quoteId : undefined
+  );
+  const [label, setLabel] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [branchTarget, setBranchTarget] = useState<QuoteRevision | null>(null);
+  const [isBranching, setIsBranching] = useState(false);
+
+  // Default comparison: the two latest revisions
+  useEffect(() => {
+    if (revisions.length >= 2) {
+      setFromId(String(revisions[1].revision_id));
+      setToId(String(revisions[0].revision_id));
+    }
+  }, [revisions]);
+
+  const diff = useMemo(() => {
+    const from = revisions.find(r => String(r.revision_id) === fromId);
+    const to = revisions.find(r => String(r.revision_id) === toId);
+    return from && to ? diffRevisions(from.snapshot, to.snapshot) : null;
+  }, [revisions, fromId, toId]);
+
+  const revisionName = (revisionId: number | null) => {
+    const revision = revisions.find(r => r.revision_id === revisionId);
+    return revision ? `r${revision.revision_number}` : null;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await createRevision(label.trim() || null);
+    setIsSaving(false);
+    if (saved) {
+      toast.success("Revision saved");
+      setLabel("");
+    }
+  };
+
+  const handleBranch = async () => {
+    if (!branchTarget) return;
+    setIsBranching(true);
+    const branched = await branchFromRevision(branchTarget.revision_id);
+    setIsBranching(false);
+    setBranchTarget(null);
+    if (branched) {
+      toast.success(`Working draft restored from revision ${branchTarget.revision_number}`);
+      onBranched();
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-[760px] bg-slate-900 border-slate-800 text-slate-100">
+          <DialogHeader>
+            <DialogTitle>Revision History</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label for a new revision (optional), e.g. Sent to customer"
+                className="bg-slate-800 border-slate-700 text-slate-100"
+              />
+              <Button onClick={handleSave} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Revision
+              </Button>
+            </div>
+
+            <div className="max-h-[220px] overflow-y-auto rounded-md border border-slate-700 bg-slate-800">
+              {loading ? (
+                <div className="p-6 flex justify-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+                </div>
+              ) : revisions.length === 0 ? (
+                <div className="p-6 text-center text-slate-400 text-sm">
+                  No revisions yet. Save one to freeze the current selections, planning and totals.
+                </div>
+              ) : (
+                revisions.map(revision => (
+                  <div
+                    key={revision.revision_id}
+                    className="flex items-center justify-between px-3 py-2 border-b border-slate-700/50 last:border-b-0"
+                  >
+                    <div className="flex items-center gap-3 text-sm">
+                      <span className="font-medium w-10">r{revision.revision_number}</span>
+                      <span className="text-slate-400 w-28">{formatDate(revision.created_at)}</span>
+                      <span className="text-slate-200">{revision.label || "Untitled"}</span>
+                      {revisionName(revision.parent_revision_id) && (
+                        <span className="text-xs text-slate-500">from {revisionName(revision.parent_revision_id)}</span>
+                      )}
+                      {revision.revision_id === basedOnRevisionId && (
+                        <span className="text-[10px] uppercase px-1 rounded bg-indigo-700/50 text-indigo-200">Draft base</span>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-slate-300 hover:text-white hover:bg-slate-700"
+                      onClick={() => setBranchTarget(revision)}
+                    >
+                      <GitBranch className="mr-1 h-4 w-4" />
+                      Branch
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {revisions.length >= 2 && (
+              <div className="grid gap-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-400">Compare</span>
+                  <Select value={fromId} onValueChange={setFromId}>
+                    <SelectTrigger className="w-[90px] bg-slate-800 border-slate-700 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700 text-slate-100">
+                      {revisions.map(r => <SelectItem key={r.revision_id} value={String(r.revision_id)}>r{r.revision_number}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-slate-400">with</span>
+                  <Select value={toId} onValueChange={setToId}>
+                    <SelectTrigger className="w-[90px] bg-slate-800 border-slate-700 text-slate-100">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700 text-slate-100">
+                      {revisions.map(r => <SelectItem key={r.revision_id} value={String(r.revision_id)}>r{r.revision_number}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="max-h-[260px] overflow-y-auto rounded-md border border-slate-700 bg-slate-800 p-3 space-y-3">
+                  {!diff || isEmptyDiff(diff) ? (
+                    <div className="text-center text-slate-400 text-sm">No differences.</div>
+                  ) : (
+                    <>
+                      {diff.fields.map(field => (
+                        <div key={field.label} className="grid grid-cols-[160px_1fr] text-sm">
+                          <span className="text-slate-400">{field.label}</span>
+                          <span>
+                            <span className="text-red-300 line-through">{field.before}</span>
+                            {" → "}
+                            <span className="text-emerald-300">{field.after}</span>
+                          </span>
+                        </div>
+                      ))}
+                      <ListChangeRows title="Machines" change={diff.machines} />
+                      <ListChangeRows title="Software" change={diff.software} />
+                      <ListChangeRows title="Trainee groups" change={diff.traineeGroups} />
+                      {diff.plans.map((change, index) => (
+                        <div key={`${change.planId}-${change.label}-${index}`} className="grid grid-cols-[160px_1fr] text-sm">
+                          <span className="text-slate-400">{change.planName} – {change.label}</span>
+                          <span>
+                            <span className="text-red-300">{change.before ?? "—"}</span>
+                            {" → "}
+                            <span className="text-emerald-300">{change.after ?? "—"}</span>
+                          </span>
+                        </div>
+                      ))}
+                      {diff.scheduleOverrides.before !== diff.scheduleOverrides.after && (
+                        <div className="text-sm text-slate-300">
+                          Manual schedule changes: {diff.scheduleOverrides.before} → {diff.scheduleOverrides.after}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button onClick={onClose} className="bg-blue-700 hover:bg-blue-800">
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!branchTarget} onOpenChange={(isOpen) => !isOpen && setBranchTarget(null)}>
+        <AlertDialogContent className="bg-slate-800 border-gray-700 text-gray-200">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-gray-100">Branch from revision {branchTarget?.revision_number}</AlertDialogTitle>
+            <AlertDialogDescription className="text-gray-400">
+              The working draft will be replaced by revision {branchTarget?.revision_number}. The current state is saved as a
+              new revision first, so nothing is lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              className="bg-transparent border-gray-600 hover:bg-gray-700 text-gray-300"
+              disabled={isBranching}
+            >
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              onClick={handleBranch}
+              disabled={isBranching}
+            >
+              {isBranching ? "Branching..." : "Branch"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default QuoteRevisionsModal;
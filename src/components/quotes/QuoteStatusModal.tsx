@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { QuoteStatusChange } from "@/hooks/useQuoteStatus";
+import {
+  ApprovalContext,
+  QuoteStatus,
+  QUOTE_STATUS_LABELS,
+  QUOTE_STATUS_STYLES,
+  QUOTE_TRANSITION_LABELS,
+  getAllowedTransitions,
+  requiresApproval,
+} from "@/utils/quoteStatus";
+import { formatCurrency } from "@/utils/formatters";
+import { BASE_CURRENCY } from "@/utils/currency";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+interface QuoteStatusModalProps {
+  open: boolean;
+  onClose: () => void;
+  status: QuoteStatus;
+  history: QuoteStatusChange[];
+  approval: ApprovalContext;
+  currentUserId: string | undefined;
+  onChangeStatus: (toStatus: QuoteStatus, comment?: string) => Promise<boolean>;
+}
+
+const QuoteStatusModal: React.FC<QuoteStatusModalProps> = ({
+  open,
+  onClose,
+  status,
+  history,
+  approval,
+  currentUserId,
+  onChangeStatus,
+}) => {
+  const [comment, setComment] = useState("");
+  const [pendingStatus, setPendingStatus] = useState<QuoteStatus | null>(null);
+  const allowed = getAllowedTransitions(status, approval);
+  const needsApproval = requiresApproval(approval);
+
+  const handleTransition = async (toStatus: QuoteStatus) => {
+    setPendingStatus(toStatus);
+    const changed = await onChangeStatus(toStatus, comment);
+    setPendingStatus(null);
+    if (changed) {
+      toast.success(`Quote is now ${QUOTE_STATUS_LABELS[toStatus].toLowerCase()}`);
+      setComment("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Quote Status
+            <span className={`text-xs px-2 py-0.5 rounded ${QUOTE_STATUS_STYLES[status]}`}>{QUOTE_STATUS_LABELS[status]}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {approval.approvalThreshold !== null && (
+            <div className="flex items-center gap-2 text-sm text-slate-400">
+              <ShieldCheck className="h-4 w-4" />
+              {needsApproval
+                ? `Quote total ${formatCurrency(approval.totalInBaseCurrency, BASE_CURRENCY)} exceeds ${formatCurrency(approval.approvalThreshold, BASE_CURRENCY)}: a manager must approve.`
+                : `No manager approval needed up to ${formatCurrency(approval.approvalThreshold, BASE_CURRENCY)}.`}
+            </div>
+          )}
+
+          {status === "draft" && !approval.hasSavedTotals && (
+            <div className="text-sm text-amber-300">
+              Save the quote at checkout before submitting or approving it.
+            </div>
+          )}
+
+          {allowed.length > 0 ? (
+            <>
+              <div className="grid gap-2">
+                <Label htmlFor="statusComment" className="text-white">Comment (optional)</Label>
+                <Textarea
+                  id="statusComment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  className="bg-slate-800 border-slate-700 text-slate-100"
+                  rows={2}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {allowed.map(next => (
+                  <Button
+                    key={next}
+                    onClick={() => handleTransition(next)}
+                    disabled={pendingStatus !== null}
+                    className="bg-blue-700 hover:bg-blue-800"
+                  >
+                    {pendingStatus === next && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {QUOTE_TRANSITION_LABELS[next]}
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="text-sm text-slate-400">
+              {status === "submitted" && needsApproval && !approval.isManager
+                ? "Waiting for a manager to approve this quote."
+                : "No further status changes are possible."}
+            </div>
+          )}
+
+          <div className="max-h-[240px] overflow-y-auto rounded-md border border-slate-700 bg-slate-800">
+            {history.length === 0 ? (
+              <div className="p-4 text-center text-slate-400 text-sm">No status changes yet.</div>
+            ) : (
+              history.map(change => (
+                <div key={change.history_id} className="px-3 py-2 border-b border-slate-700/50 last:border-b-0 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span>
+                      {QUOTE_STATUS_LABELS[change.from_status]} → <span className="font-medium">{QUOTE_STATUS_LABELS[change.to_status]}</span>
+                    </span>
+                    <span className="text-xs text-slate-400">
+                      {format(parseISO(change.changed_at), "MMM d, yyyy HH:mm")}
+                      {change.changed_by_user_id === currentUserId ? " · you" : ""}
+                    </span>
+                  </div>
+                  {change.comment && <div className="text-slate-400 text-xs mt-1">{change.comment}</div>}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} className="bg-blue-700 hover:bg-blue-800">
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuoteStatusModal;
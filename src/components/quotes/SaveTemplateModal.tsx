@@ -0,0 +1,106 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useQuoteTemplates } from "@/hooks/useQuoteTemplates";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface SaveTemplateModalProps {
+  open: boolean;
+  onClose: () => void;
+  quoteId: string | undefined;
+  defaultName: string;
+}
+
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
+  open,
+  onClose,
+  quoteId,
+  defaultName,
+}) => {
+  const { saveTemplate } = useQuoteTemplates();
+  const [templateName, setTemplateName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) onClose();
+  };
+
+  const handleSave = async () => {
+    if (!quoteId) return;
+    const name = (templateName || defaultName).trim();
+    if (!name) {
+      toast.error("Template name is required");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await saveTemplate(quoteId, name, description);
+    setIsSaving(false);
+
+    if (saved) {
+      toast.success(`Template "${name}" saved`);
+      setTemplateName("");
+      setDescription("");
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[440px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <p className="text-sm text-slate-400">
+            The template keeps this quote's area, machines, software, trainee groups and weekend settings. Quotes
+            created from it take training hours and trainers from the catalog at that time.
+            Client and prices are not included.
+          </p>
+          <div className="grid gap-2">
+            <Label htmlFor="templateName" className="text-white">Name</Label>
+            <Input
+              id="templateName"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder={defaultName}
+              className="bg-slate-800 border-slate-700 text-slate-100"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="templateDescription" className="text-white">Description (optional)</Label>
+            <Input
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="bg-slate-800 border-slate-700 text-slate-100"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} className="border-slate-700 hover:bg-slate-800 text-slate-300">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveTemplateModal;
@@ -16,6 +16,10 @@ import { supabase } from "@/lib/supabaseClient";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { DEFAULT_DAILY_HOURS } from "@/utils/scheduleTasks";
+import { useCatalogImpact } from "@/hooks/useCatalogImpact";
+import { QuoteImpact } from "@/utils/catalogImpact";
+import CatalogImpactModal from "@/components/shared/CatalogImpactModal";
 
 interface ResourceModalProps {
   open: boolean;
@@ -32,19 +36,25 @@ const ResourceModal: React.FC<ResourceModalProps> = ({
 }) => {
   const [name, setName] = useState("");
   const [hourlyRate, setHourlyRate] = useState<number>(0);
+  const [dailyHours, setDailyHours] = useState<number>(DEFAULT_DAILY_HOURS);
   const [iconName, setIconName] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const { icons, loading: loadingIcons } = useResourceIcons();
+  const { previewChange, applyChange } = useCatalogImpact();
+  // Quotes affected by a changed hourly rate, waiting for the admin's choice
+  const [pendingImpacts, setPendingImpacts] = useState<QuoteImpact[] | null>(null);
   
   useEffect(() => {
     if (resource) {
       setName(resource.name || "");
       setHourlyRate(resource.hourly_rate || 0);
+      setDailyHours(resource.daily_hours || DEFAULT_DAILY_HOURS);
       setIconName(resource.icon_name || "");
     } else {
       setName("");
       setHourlyRate(0);
+      setDailyHours(DEFAULT_DAILY_HOURS);
       setIconName("");
     }
   }, [resource]);
@@ -60,15 +70,38 @@ const ResourceModal: React.FC<ResourceModalProps> = ({
       return;
     }
 
-    try {
-      setIsSaving(true);
+    if (dailyHours <= 0 || dailyHours > 24) {
+      toast.error("Working hours per day must be between 1 and 24");
+      return;
+    }
+
+    setIsSaving(true);
+
+    if (resource && hourlyRate !== resource.hourly_rate) {
+      const impacts = await previewChange({ kind: "resource_rate", resourceId: resource.resource_id, hourlyRate });
+      if (!impacts) {
+        setIsSaving(false);
+        return;
+      }
+      if (impacts.length > 0) {
+        setPendingImpacts(impacts);
+        return;
+      }
+    }
 
+    await saveResource([]);
+  };
+
+  // Saves the resource, then applies the new rate to the affected quotes' saved totals
+  const saveResource = async (impactsToApply: QuoteImpact[]) => {
+    try {
       if (resource) {
         const { error } = await supabase
           .from("resources")
           .update({
             name,
             hourly_rate: hourlyRate,
+            daily_hours: dailyHours,
             is_active: true, // Always set to true since we're removing the switch
             icon_name: iconName,
           })
@@ -83,6 +116,7 @@ const ResourceModal: React.FC<ResourceModalProps> = ({
         const { error } = await supabase.from("resources").insert({
           name,
           hourly_rate: hourlyRate,
+          daily_hours: dailyHours,
           is_active: true, // Always set to true since we're removing the switch
           icon_name: iconName,
         });
@@ -94,6 +128,10 @@ const ResourceModal: React.FC<ResourceModalProps> = ({
         toast.success("Resource created successfully");
       }
 
+      if (resource && impactsToApply.length > 0) {
+        await applyChange({ kind: "resource_rate", resourceId: resource.resource_id, hourlyRate }, impactsToApply);
+      }
+
       onSave();
       onClose();
     } catch (error: any) {
@@ -104,6 +142,17 @@ const ResourceModal: React.FC<ResourceModalProps> = ({
     }
   };
 
+  const handleApplyImpact = async () => {
+    if (!pendingImpacts) return;
+    await saveResource(pendingImpacts);
+    setPendingImpacts(null);
+  };
+
+  const handleCancelImpact = () => {
+    setPendingImpacts(null);
+    setIsSaving(false);
+  };
+
   const handleDelete = async () => {
     if (!resource) return;
 
@@ -133,129 +182,160 @@ const ResourceModal: React.FC<ResourceModalProps> = ({
     setHourlyRate(value);
   };
 
+  const handleDailyHoursChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value === "" ? 0 : parseFloat(e.target.value);
+    setDailyHours(value);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px] bg-slate-900 border-slate-800 text-slate-100">
-        <DialogHeader>
-          <DialogTitle>
-            {resource ? "Edit Resource" : "Add New Resource"}
-          </DialogTitle>
-        </DialogHeader>
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-[500px] bg-slate-900 border-slate-800 text-slate-100">
+          <DialogHeader>
+            <DialogTitle>
+              {resource ? "Edit Resource" : "Add New Resource"}
+            </DialogTitle>
+          </DialogHeader>
 
-        <div className="grid gap-4 py-4">
-          <div className="grid gap-2">
-            <Label htmlFor="name" className="text-white">Name</Label>
-            <Input
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              className="bg-slate-800 border-slate-700 text-slate-100"
-              placeholder="Enter resource name"
-            />
-          </div>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="name" className="text-white">Name</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-slate-100"
+                placeholder="Enter resource name"
+              />
+            </div>
 
-          <div className="grid gap-2">
-            <Label htmlFor="hourlyRate" className="text-white">Hourly Rate (€)</Label>
-            <Input
-              id="hourlyRate"
-              type="number"
-              step="0.01"
-              value={hourlyRate}
-              onChange={handleHourlyRateChange}
-              className="bg-slate-800 border-slate-700 text-slate-100"
-              placeholder="Enter hourly rate"
-            />
-          </div>
+            <div className="grid gap-2">
+              <Label htmlFor="hourlyRate" className="text-white">Hourly Rate (€)</Label>
+              <Input
+                id="hourlyRate"
+                type="number"
+                step="0.01"
+                value={hourlyRate}
+                onChange={handleHourlyRateChange}
+                className="bg-slate-800 border-slate-700 text-slate-100"
+                placeholder="Enter hourly rate"
+              />
+              <p className="text-xs text-slate-400">
+                Catalog rate. Quotes dated in a price list use the list's rate (Settings › Price Lists).
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="dailyHours" className="text-white">Working Hours per Day</Label>
+              <Input
+                id="dailyHours"
+                type="number"
+                step="0.5"
+                min="1"
+                max="24"
+                value={dailyHours}
+                onChange={handleDailyHoursChange}
+                className="bg-slate-800 border-slate-700 text-slate-100"
+                placeholder="Enter working hours per day"
+              />
+            </div>
 
-          <div className="grid gap-2">
-            <Label className="text-white">Icon</Label>
+            <div className="grid gap-2">
+              <Label className="text-white">Icon</Label>
             
-            {loadingIcons ? (
-              <div className="grid grid-cols-4 gap-2 max-h-[300px] overflow-y-auto p-2 bg-slate-800 rounded-md border border-slate-700">
-                {Array.from({ length: 8 }).map((_, i) => (
-                  <Skeleton 
-                    key={i}
-                    className="aspect-square rounded-md h-16"
-                  />
-                ))}
-              </div>
-            ) : icons.length > 0 ? (
-              <div className="grid grid-cols-4 gap-2 max-h-[300px] overflow-y-auto p-2 bg-slate-800 rounded-md border border-slate-700">
-                {icons.map((icon) => (
-                  <button
-                    key={icon.name}
-                    type="button"
-                    onClick={() => setIconName(icon.name)}
-                    className={`cursor-pointer rounded-md p-2 hover:bg-slate-700 flex flex-col items-center justify-center transition-all ${
-                      iconName === icon.name ? 'ring-2 ring-blue-500 bg-slate-700' : 'bg-slate-800'
-                    }`}
-                    title={icon.name}
-                  >
-                    <div className="h-10 w-10 flex items-center justify-center">
-                      <img 
-                        src={icon.url} 
-                        alt={icon.name}
-                        className="max-h-full max-w-full"
-                        onError={(e) => {
-                          console.error(`Error loading icon: ${icon.url}`);
-                          const target = e.target as HTMLImageElement;
-                          target.src = "/placeholder.svg";
-                        }}
-                      />
-                    </div>
-                  </button>
-                ))}
-              </div>
-            ) : (
-              <div className="p-8 text-center bg-slate-800 rounded-md border border-slate-700">
-                <p className="text-slate-400">No icons available in the resource_icons bucket.</p>
-              </div>
-            )}
+              {loadingIcons ? (
+                <div className="grid grid-cols-4 gap-2 max-h-[300px] overflow-y-auto p-2 bg-slate-800 rounded-md border border-slate-700">
+                  {Array.from({ length: 8 }).map((_, i) => (
+                    <Skeleton 
+                      key={i}
+                      className="aspect-square rounded-md h-16"
+                    />
+                  ))}
+                </div>
+              ) : icons.length > 0 ? (
+                <div className="grid grid-cols-4 gap-2 max-h-[300px] overflow-y-auto p-2 bg-slate-800 rounded-md border border-slate-700">
+                  {icons.map((icon) => (
+                    <button
+                      key={icon.name}
+                      type="button"
+                      onClick={() => setIconName(icon.name)}
+                      className={`cursor-pointer rounded-md p-2 hover:bg-slate-700 flex flex-col items-center justify-center transition-all ${
+                        iconName === icon.name ? 'ring-2 ring-blue-500 bg-slate-700' : 'bg-slate-800'
+                      }`}
+                      title={icon.name}
+                    >
+                      <div className="h-10 w-10 flex items-center justify-center">
+                        <img 
+                          src={icon.url} 
+                          alt={icon.name}
+                          className="max-h-full max-w-full"
+                          onError={(e) => {
+                            console.error(`Error loading icon: ${icon.url}`);
+                            const target = e.target as HTMLImageElement;
+                            target.src = "/placeholder.svg";
+                          }}
+                        />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="p-8 text-center bg-slate-800 rounded-md border border-slate-700">
+                  <p className="text-slate-400">No icons available in the resource_icons bucket.</p>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
 
-        <DialogFooter>
-          {resource && (
+          <DialogFooter>
+            {resource && (
+              <Button
+                variant="destructive"
+                onClick={handleDelete}
+                disabled={isDeleting || isSaving}
+                className="mr-auto"
+              >
+                {isDeleting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  "Delete Resource"
+                )}
+              </Button>
+            )}
+            <Button 
+              variant="outline" 
+              onClick={onClose}
+              className="text-blue-700 border-slate-700 hover:bg-slate-800 hover:text-white"
+            >
+              Cancel
+            </Button>
             <Button
-              variant="destructive"
-              onClick={handleDelete}
-              disabled={isDeleting || isSaving}
-              className="mr-auto"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="bg-blue-700 hover:bg-blue-800"
             >
-              {isDeleting ? (
+              {isSaving ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
+                  Saving...
                 </>
               ) : (
-                "Delete Resource"
+                "Save Changes"
               )}
             </Button>
-          )}
-          <Button 
-            variant="outline" 
-            onClick={onClose}
-            className="text-blue-700 border-slate-700 hover:bg-slate-800 hover:text-white"
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleSave}
-            disabled={isSaving}
-            className="bg-blue-700 hover:bg-blue-800"
-          >
-            {isSaving ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Saving...
-              </>
-            ) : (
-              "Save Changes"
-            )}
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <CatalogImpactModal
+        open={pendingImpacts !== null}
+        impacts={pendingImpacts ?? []}
+        onApply={handleApplyImpact}
+        onCancel={handleCancelImpact}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Resource } from "@/hooks/useResources";
+import { useResourceUnavailability } from "@/hooks/useResourceUnavailability";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface ResourceUnavailabilityModalProps {
+  open: boolean;
+  onClose: () => void;
+  resource: Resource | null;
+}
+
+const ResourceUnavailabilityModal: React.FC<ResourceUnavailabilityModalProps> = ({
+  open,
+  onClose,
+  resource,
+}) => {
+  const { periods, loading, addPeriod, deletePeriod } = useResourceUnavailability(
+    open && resource ? resource.resource_id : null
+  );
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = async () => {
+    if (!startDate) {
+      toast.error("Please select a start date");
+      return;
+    }
+
+    const periodEnd = endDate || startDate;
+    if (periodEnd < startDate) {
+      toast.error("End date cannot be before the start date");
+      return;
+    }
+
+    setIsAdding(true);
+    const added = await addPeriod({ start_date: startDate, end_date: periodEnd, reason: reason.trim() || null });
+    setIsAdding(false);
+
+    if (added) {
+      toast.success("Unavailable period added");
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+    }
+  };
+
+  const formatPeriod = (start: string, end: string) =>
+    start === end
+      ? format(parseISO(start), "EEE, MMM d, yyyy")
+      : `${format(parseISO(start), "MMM d")} – ${format(parseISO(end), "MMM d, yyyy")}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>
+            Unavailable Periods{resource ? ` – ${resource.name}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-[150px_150px_1fr_auto] gap-2 items-end">
+            <div className="grid gap-2">
+              <Label htmlFor="unavailableFrom" className="text-white">From</Label>
+              <Input
+                id="unavailableFrom"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-slate-100"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="unavailableTo" className="text-white">To</Label>
+              <Input
+                id="unavailableTo"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-slate-100"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="unavailableReason" className="text-white">Reason</Label>
+              <Input
+                id="unavailableReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Vacation"
+                className="bg-slate-800 border-slate-700 text-slate-100"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isAdding} className="bg-blue-700 hover:bg-blue-800">
+              {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          <div className="max-h-[300px] overflow-y-auto rounded-md border border-slate-700 bg-slate-800">
+            {loading ? (
+              <div className="p-6 flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+              </div>
+            ) : periods.length === 0 ? (
+              <div className="p-6 text-center text-slate-400 text-sm">
+                No unavailable periods. This resource can be scheduled on every working day.
+              </div>
+            ) : (
+              periods.map((period) => (
+                <div
+                  key={period.unavailability_id}
+                  className="flex items-center justify-between px-3 py-2 border-b border-slate-700/50 last:border-b-0"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium w-48">{formatPeriod(period.start_date, period.end_date)}</span>
+                    <span className="text-sm text-slate-300">{period.reason || "Unavailable"}</span>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                    onClick={() => deletePeriod(period.unavailability_id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} className="bg-blue-700 hover:bg-blue-800">
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResourceUnavailabilityModal;
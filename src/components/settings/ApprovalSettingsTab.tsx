@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { useAppSettings } from "@/hooks/useAppSettings";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BASE_CURRENCY } from "@/utils/currency";
+import { formatCurrency } from "@/utils/formatters";
+import { toast } from "sonner";
+import { Loader2, Save } from "lucide-react";
+
+interface ApprovalSettingsTabProps {
+  readOnly?: boolean;
+}
+
+const ApprovalSettingsTab = ({ readOnly = false }: ApprovalSettingsTabProps) => {
+  const { approvalThreshold, loading, error, fetchSettings, saveApprovalThreshold } = useAppSettings();
+  const [threshold, setThreshold] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setThreshold(approvalThreshold !== null ? String(approvalThreshold) : "");
+  }, [approvalThreshold]);
+
+  const handleSave = async () => {
+    const value = threshold.trim() === "" ? null : parseFloat(threshold);
+    if (value !== null && (isNaN(value) || value < 0)) {
+      toast.error("Enter a positive amount, or leave empty to disable approvals");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await saveApprovalThreshold(value);
+    setIsSaving(false);
+
+    if (saved) toast.success("Approval threshold saved");
+  };
+
+  if (loading) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading Approval Settings
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchSettings()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-gray-100">Approvals</h2>
+      </div>
+      <p className="text-sm text-gray-400 mb-6 max-w-2xl">
+        Quotes whose saved sell price exceeds this amount must be submitted for approval and approved by a pricing
+        manager or admin before they can be sent. Quotes in other currencies are converted at the rate saved with their
+        totals.
+      </p>
+
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-gray-400">Approval required above</span>
+        <Input
+          type="number"
+          min="0"
+          step="100"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          placeholder="No approval"
+          disabled={readOnly}
+          className="w-[160px] bg-slate-800 border-slate-700 text-gray-200"
+        />
+        <span className="text-sm text-gray-400">{BASE_CURRENCY}</span>
+        {!readOnly && (
+          <Button onClick={handleSave} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        {approvalThreshold !== null
+          ? `Currently: manager approval above ${formatCurrency(approvalThreshold, BASE_CURRENCY)}.`
+          : "Currently: no manager approval required."}
+      </p>
+    </div>
+  );
+};
+
+export default ApprovalSettingsTab;
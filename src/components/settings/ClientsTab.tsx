@@ -0,0 +1,148 @@
+import React, { useState } from "react";
+import { useClients, Client, ClientInput } from "@/hooks/useClients";
+import { useGeographicAreas } from "@/hooks/useGeographicAreas";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import ClientModal from "@/components/clients/ClientModal";
+import { toast } from "sonner";
+import { Building2, Pencil, Plus } from "lucide-react";
+
+interface ClientsTabProps {
+  readOnly?: boolean;
+}
+
+const ClientsTab = ({ readOnly = false }: ClientsTabProps) => {
+  const { clients, loading, error, fetchClients, saveClient, deleteClient } = useClients();
+  const { areas } = useGeographicAreas();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+
+  const handleAddNew = () => {
+    setSelectedClient(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (client: Client) => {
+    setSelectedClient(client);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedClient(null);
+  };
+
+  const handleSave = async (client: ClientInput, clientId?: number) => {
+    const saved = await saveClient(client, clientId);
+    if (saved) toast.success(clientId ? "Client updated successfully" : "Client created successfully");
+    return saved;
+  };
+
+  const handleDelete = async (clientId: number) => {
+    const deleted = await deleteClient(clientId);
+    if (deleted) toast.success("Client deleted successfully");
+    return deleted;
+  };
+
+  if (loading) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading Clients
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchClients()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-100">Clients</h2>
+        {!readOnly && (
+          <Button onClick={handleAddNew} className="bg-blue-700 hover:bg-blue-800">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Client
+          </Button>
+        )}
+      </div>
+
+      <div className="max-w-4xl rounded-md border border-slate-700 bg-slate-800/60">
+        {clients.length === 0 ? (
+          <div className="p-6 text-center text-gray-400 text-sm">
+            No clients yet. Add one to link it to your quotes.
+          </div>
+        ) : (
+          clients.map(client => {
+            const areaName = areas.find(a => a.area_id === client.default_area_id)?.area_name;
+            const primaryContact = client.contacts[0];
+            return (
+              <div
+                key={client.client_id}
+                className="flex items-center justify-between px-4 py-3 border-b border-slate-700/50 last:border-b-0"
+              >
+                <div className="flex items-start gap-3 text-sm">
+                  <Building2 className="h-4 w-4 mt-0.5 text-gray-400" />
+                  <div>
+                    <div className="text-gray-200 font-medium">
+                      {client.company_name}
+                      {client.country_code && <span className="ml-2 text-xs text-gray-400">{client.country_code}</span>}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {[
+                        primaryContact && `${primaryContact.name}${primaryContact.email ? ` <${primaryContact.email}>` : ""}`,
+                        areaName && `Area: ${areaName}`,
+                        client.default_currency && `Currency: ${client.default_currency}`,
+                      ].filter(Boolean).join(" · ") || "No contact details"}
+                    </div>
+                  </div>
+                </div>
+                {!readOnly && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-gray-400 hover:text-gray-200 hover:bg-slate-700"
+                    onClick={() => handleEdit(client)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <ClientModal
+        open={isModalOpen}
+        onClose={handleCloseModal}
+        client={selectedClient}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+    </div>
+  );
+};
+
+export default ClientsTab;
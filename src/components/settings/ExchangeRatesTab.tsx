@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES, getExchangeRate } from "@/utils/currency";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+const FOREIGN_CURRENCIES = SUPPORTED_CURRENCIES.filter(currency => currency !== BASE_CURRENCY);
+
+interface ExchangeRatesTabProps {
+  readOnly?: boolean;
+}
+
+const ExchangeRatesTab = ({ readOnly = false }: ExchangeRatesTabProps) => {
+  const { rates, loading, error, fetchRates, saveRate, deleteRate } = useExchangeRates();
+  const [currency, setCurrency] = useState(FOREIGN_CURRENCIES[0]);
+  const [rate, setRate] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [isSaving, setIsSaving] = useState(false);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const handleSave = async () => {
+    const value = parseFloat(rate);
+    if (!value || value <= 0) {
+      toast.error("Enter a rate greater than zero");
+      return;
+    }
+    if (!effectiveDate) {
+      toast.error("Select the date the rate applies from");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await saveRate({ currency, rate: value, effective_date: effectiveDate });
+    setIsSaving(false);
+
+    if (saved) {
+      toast.success("Exchange rate saved");
+      setRate("");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading Exchange Rates
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchRates()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-gray-100">Exchange Rates</h2>
+      </div>
+      <p className="text-sm text-gray-400 mb-6">
+        Resource rates and area costs are maintained in {BASE_CURRENCY}. Quotes in another currency use the latest rate
+        effective on their quote date.
+      </p>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <span className="text-sm text-gray-400">1 {BASE_CURRENCY} =</span>
+          <Input
+            type="number"
+            step="0.0001"
+            min="0"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="Rate"
+            className="w-[140px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-[100px] bg-slate-800 border-slate-700 text-gray-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+              {FOREIGN_CURRENCIES.map(code => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-gray-400">from</span>
+          <Input
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            className="w-[170px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <Button onClick={handleSave} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Save Rate
+          </Button>
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3 max-w-5xl">
+        {FOREIGN_CURRENCIES.map(code => {
+          const currencyRates = rates.filter(r => r.currency === code);
+          const currentRate = getExchangeRate(rates, code, today);
+          return (
+            <div key={code} className="rounded-md border border-slate-700 bg-slate-800/60">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+                <span className="font-medium text-gray-200">{code}</span>
+                <span className="text-xs text-gray-400">
+                  {currentRate !== null ? `Today: ${currentRate}` : "No rate in effect"}
+                </span>
+              </div>
+              {currencyRates.length === 0 ? (
+                <div className="p-4 text-center text-gray-400 text-sm">No rates defined.</div>
+              ) : (
+                currencyRates.map(r => (
+                  <div
+                    key={r.rate_id}
+                    className="flex items-center justify-between px-4 py-2 border-b border-slate-700/50 last:border-b-0"
+                  >
+                    <div className="flex items-center gap-3 text-sm text-gray-200">
+                      <span className="w-28 text-gray-400">{format(parseISO(r.effective_date), "MMM d, yyyy")}</span>
+                      <span className="font-medium">{r.rate}</span>
+                    </div>
+                    {!readOnly && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-slate-700"
+                        onClick={() => deleteRate(r.rate_id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRatesTab;
@@ -6,7 +6,11 @@ import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import MachineTypeCard from "@/components/machines/MachineTypeCard";
 import MachineTypeModal from "@/components/machines/MachineTypeModal";
 
-const MachineTypesTab = () => {
+interface MachineTypesTabProps {
+  readOnly?: boolean;
+}
+
+const MachineTypesTab = ({ readOnly = false }: MachineTypesTabProps) => {
   const { machines, loading, error, fetchMachines } = useMachineTypes();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedMachine, setSelectedMachine] = useState<MachineType | null>(null);
@@ -70,14 +74,14 @@ const MachineTypesTab = () => {
 
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
         {/* Add New Card */}
-        <MachineTypeCard isAddCard onAddNew={handleAddNew} />
+        {!readOnly && <MachineTypeCard isAddCard onAddNew={handleAddNew} />}
         
         {/* Machine Type Cards */}
         {machines.map((machine) => (
           <MachineTypeCard 
             key={machine.machine_type_id} 
             machine={machine} 
-            onEdit={() => handleEdit(machine)}
+            onEdit={readOnly ? undefined : () => handleEdit(machine)}
             showSelectionIndicator={false}
           />
         ))}
@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { useOrganization, getMemberName } from "@/hooks/useOrganization";
+import { useAuth } from "@/hooks/useAuth";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ORG_ROLES, ORG_ROLE_LABELS, OrgRole } from "@/utils/roles";
+import { Loader2, Plus, Trash2, Users } from "lucide-react";
+
+const OrganizationTab = () => {
+  const { user } = useAuth();
+  const {
+    organization,
+    role,
+    members,
+    loading,
+    error,
+    fetchOrganization,
+    createOrganization,
+    addMember,
+    updateMemberRole,
+    removeMember,
+  } = useOrganization();
+  const [orgName, setOrgName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newRole, setNewRole] = useState<OrgRole>("sales");
+  const [isSaving, setIsSaving] = useState(false);
+  const isAdmin = role === "admin";
+
+  const handleCreate = async () => {
+    if (!orgName.trim()) {
+      toast.error("Enter a name for the organization");
+      return;
+    }
+
+    setIsSaving(true);
+    const created = await createOrganization(orgName.trim());
+    setIsSaving(false);
+
+    if (created) toast.success("Organization created");
+  };
+
+  const handleAddMember = async () => {
+    if (!newEmail.trim()) {
+      toast.error("Enter the email the colleague signed up with");
+      return;
+    }
+
+    setIsSaving(true);
+    const added = await addMember(newEmail.trim(), newRole);
+    setIsSaving(false);
+
+    if (added) {
+      toast.success("Member added");
+      setNewEmail("");
+      setNewRole("sales");
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const removed = await removeMember(userId);
+    if (removed) toast.success(userId === user?.id ? "You left the organization" : "Member removed");
+  };
+
+  if (loading) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading Organization
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchOrganization()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (!organization) {
+    return (
+      <div className="p-6 h-full">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold text-gray-100">Organization</h2>
+        </div>
+        <p className="text-sm text-gray-400 mb-6 max-w-2xl">
+          You don't belong to an organization yet. Create one to start quoting, or ask an admin of your company's
+          organization to add you.
+        </p>
+
+        <div className="flex items-center gap-3">
+          <Input
+            value={orgName}
+            onChange={(e) => setOrgName(e.target.value)}
+            placeholder="Organization name"
+            className="w-[280px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <Button onClick={handleCreate} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Create Organization
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-gray-100">{organization.name}</h2>
+        <span className="text-sm text-gray-400">Your role: {role ? ORG_ROLE_LABELS[role] : "—"}</span>
+      </div>
+      <p className="text-sm text-gray-400 mb-6 max-w-2xl">
+        Everyone in the organization sees its quotes. Pricing managers maintain the catalog, prices and approvals;
+        sales edit clients and templates; viewers only read. Only admins can add members and change roles.
+      </p>
+
+      {isAdmin && (
+        <div className="flex items-center gap-3 mb-6">
+          <Input
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            placeholder="colleague@example.com"
+            className="w-[280px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <Select value={newRole} onValueChange={(value) => setNewRole(value as OrgRole)}>
+            <SelectTrigger className="w-[160px] bg-slate-800 border-slate-700 text-gray-200">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+              {ORG_ROLES.map(r => (
+                <SelectItem key={r} value={r}>{ORG_ROLE_LABELS[r]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAddMember} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Member
+          </Button>
+        </div>
+      )}
+
+      <div className="max-w-4xl rounded-md border border-slate-700 bg-slate-800/60">
+        {members.map(member => {
+          const isSelf = member.user_id === user?.id;
+          return (
+            <div
+              key={member.user_id}
+              className="flex items-center justify-between px-4 py-3 border-b border-slate-700/50 last:border-b-0"
+            >
+              <div className="flex items-start gap-3 text-sm">
+                <Users className="h-4 w-4 mt-0.5 text-gray-400" />
+                <div>
+                  <div className="text-gray-200 font-medium">
+                    {getMemberName(member)}
+                    {isSelf && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                  </div>
+                  <div className="text-xs text-gray-400">{member.email}</div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {isAdmin ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => updateMemberRole(member.user_id, value as OrgRole)}
+                  >
+                    <SelectTrigger className="w-[160px] h-8 bg-slate-800 border-slate-700 text-gray-200">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                      {ORG_ROLES.map(r => (
+                        <SelectItem key={r} value={r}>{ORG_ROLE_LABELS[r]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-xs text-gray-400">{ORG_ROLE_LABELS[member.role]}</span>
+                )}
+                {(isAdmin || isSelf) && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title={isSelf ? "Leave organization" : "Remove member"}
+                    className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-slate-700"
+                    onClick={() => handleRemove(member.user_id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OrganizationTab;
@@ -0,0 +1,315 @@
+import React, { useState } from "react";
+import { usePriceLists, AreaCostsInput } from "@/hooks/usePriceLists";
+import { useResources } from "@/hooks/useResources";
+import { useAreaCosts } from "@/hooks/useAreaCosts";
+import { PriceList, isPriceListEffective } from "@/utils/priceLists";
+import { BASE_CURRENCY } from "@/utils/currency";
+import { formatCurrency } from "@/utils/formatters";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface PriceListsTabProps {
+  readOnly?: boolean;
+}
+
+const AREA_COST_FIELDS: Array<{ key: keyof AreaCostsInput; label: string }> = [
+  { key: "daily_accommodation_food_cost", label: "Accommodation & food" },
+  { key: "daily_allowance", label: "Allowance" },
+  { key: "daily_pocket_money", label: "Pocket money" },
+];
+
+const formatPeriod = (list: PriceList) =>
+  `${format(parseISO(list.valid_from), "MMM d, yyyy")} – ${list.valid_to ? format(parseISO(list.valid_to), "MMM d, yyyy") : "open"}`;
+
+// Amount edited in place and saved on blur when it changed
+const PriceInput = ({ value, readOnly, onSave }: { value: number; readOnly: boolean; onSave: (value: number) => void }) => {
+  if (readOnly) return <span>{formatCurrency(value, BASE_CURRENCY)}</span>;
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const newValue = parseFloat(e.target.value);
+    if (isNaN(newValue) || newValue < 0) {
+      toast.error("Enter an amount of zero or more");
+      e.target.value = String(value);
+      return;
+    }
+    if (newValue !== value) onSave(newValue);
+  };
+
+  return (
+    <Input
+      type="number"
+      step="0.01"
+      min="0"
+      defaultValue={value}
+      onBlur={handleBlur}
+      className="w-[110px] h-8 ml-auto bg-slate-800 border-slate-700 text-gray-200 text-right"
+    />
+  );
+};
+
+const PriceListsTab = ({ readOnly = false }: PriceListsTabProps) => {
+  const {
+    priceLists,
+    loading,
+    error,
+    fetchPriceLists,
+    createPriceList,
+    saveResourceRate,
+    saveAreaCosts,
+    deletePriceList,
+  } = usePriceLists();
+  const { resources } = useResources();
+  const { areaCosts } = useAreaCosts();
+  const today = format(new Date(), "yyyy-MM-dd");
+  // Next year after the newest list, so the form is ready for the yearly update
+  const nextYear = Math.max(
+    new Date().getFullYear(),
+    ...priceLists.map(list => parseISO(list.valid_from).getFullYear())
+  ) + 1;
+  const [name, setName] = useState("");
+  const [validFrom, setValidFrom] = useState("");
+  const [increasePercent, setIncreasePercent] = useState("0");
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const selectedList = priceLists.find(list => list.price_list_id === selectedId)
+    ?? priceLists.find(list => isPriceListEffective(list, today))
+    ?? priceLists[0]
+    ?? null;
+
+  const handleCreate = async () => {
+    const listName = name.trim() || `Prices ${nextYear}`;
+    const startDate = validFrom || `${nextYear}-01-01`;
+    const percent = parseFloat(increasePercent) || 0;
+
+    setIsSaving(true);
+    const created = await createPriceList(listName, startDate, percent);
+    setIsSaving(false);
+
+    if (created) {
+      toast.success(`Price list "${listName}" created`);
+      setName("");
+      setValidFrom("");
+      setIncreasePercent("0");
+    }
+  };
+
+  const handleDelete = async (list: PriceList) => {
+    if (!window.confirm(`Delete the price list "${list.name}"? Quotes dated in its period will use the previous list, or the catalog prices if there is none.`)) return;
+
+    const deleted = await deletePriceList(list.price_list_id);
+    if (deleted) {
+      toast.success("Price list deleted");
+      if (selectedId === list.price_list_id) setSelectedId(null);
+    }
+  };
+
+  const handleSaveAreaCost = (list: PriceList, areaId: number, key: keyof AreaCostsInput, value: number) => {
+    const catalogArea = areaCosts.find(area => area.area_id === areaId);
+    const current = list.area_costs.find(cost => cost.area_id === areaId) ?? catalogArea;
+    if (!current) return;
+
+    saveAreaCosts(list.price_list_id, areaId, {
+      daily_accommodation_food_cost: current.daily_accommodation_food_cost,
+      daily_allowance: current.daily_allowance,
+      daily_pocket_money: current.daily_pocket_money,
+      [key]: value,
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading Price Lists
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchPriceLists()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-gray-100">Price Lists</h2>
+      </div>
+      <p className="text-sm text-gray-400 mb-6 max-w-3xl">
+        Quotes are priced with the list in effect on their quote date, so new prices don't change older quotes.
+        Resource rates and area costs from the catalog apply to dates no list covers and to resources or areas a
+        list has no price for. A new list closes the current one the day before it starts and copies its prices,
+        raised by the given percentage. All prices are in {BASE_CURRENCY}.
+      </p>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={`Prices ${nextYear}`}
+            className="w-[200px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <span className="text-sm text-gray-400">from</span>
+          <Input
+            type="date"
+            value={validFrom || `${nextYear}-01-01`}
+            onChange={(e) => setValidFrom(e.target.value)}
+            className="w-[170px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <span className="text-sm text-gray-400">raising prices by</span>
+          <Input
+            type="number"
+            step="0.1"
+            value={increasePercent}
+            onChange={(e) => setIncreasePercent(e.target.value)}
+            className="w-[90px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <span className="text-sm text-gray-400">%</span>
+          <Button onClick={handleCreate} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            New Price List
+          </Button>
+        </div>
+      )}
+
+      {priceLists.length === 0 ? (
+        <div className="p-6 text-center text-gray-400 bg-slate-800/60 border border-slate-700 rounded-md max-w-3xl">
+          No price lists yet. All quotes use the current catalog prices.
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr] max-w-6xl">
+          <div className="rounded-md border border-slate-700 bg-slate-800/60 h-fit">
+            {priceLists.map(list => (
+              <div
+                key={list.price_list_id}
+                onClick={() => setSelectedId(list.price_list_id)}
+                className={`flex items-center justify-between px-4 py-3 border-b border-slate-700/50 last:border-b-0 cursor-pointer ${
+                  list.price_list_id === selectedList?.price_list_id ? "bg-slate-700/60" : "hover:bg-slate-700/30"
+                }`}
+              >
+                <div className="text-sm">
+                  <div className="text-gray-200 font-medium">
+                    {list.name}
+                    {isPriceListEffective(list, today) && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded bg-green-900/60 text-green-300">In effect</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-400">{formatPeriod(list)}</div>
+                </div>
+                {!readOnly && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete price list"
+                    className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-slate-700"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(list);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {selectedList && (
+            <div key={selectedList.price_list_id} className="space-y-6">
+              <div className="rounded-md border border-slate-700 bg-slate-800/60">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-slate-700 hover:bg-transparent">
+                      <TableHead className="text-slate-300">Resource</TableHead>
+                      <TableHead className="text-slate-300 text-right">Catalog rate</TableHead>
+                      <TableHead className="text-slate-300 text-right">Hourly rate in {selectedList.name}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {resources.map(resource => {
+                      const entry = selectedList.resource_rates.find(rate => rate.resource_id === resource.resource_id);
+                      return (
+                        <TableRow key={resource.resource_id} className="border-slate-800 hover:bg-slate-800/50">
+                          <TableCell className="text-slate-200">{resource.name}</TableCell>
+                          <TableCell className="text-right text-sm text-slate-400">
+                            {formatCurrency(resource.hourly_rate, BASE_CURRENCY)}
+                          </TableCell>
+                          <TableCell className="text-right text-sm text-slate-200">
+                            <PriceInput
+                              value={entry?.hourly_rate ?? resource.hourly_rate}
+                              readOnly={readOnly}
+                              onSave={(value) => saveResourceRate(selectedList.price_list_id, resource.resource_id, value)}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="rounded-md border border-slate-700 bg-slate-800/60">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-slate-700 hover:bg-transparent">
+                      <TableHead className="text-slate-300">Area (daily)</TableHead>
+                      {AREA_COST_FIELDS.map(field => (
+                        <TableHead key={field.key} className="text-slate-300 text-right">{field.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {areaCosts.map(area => {
+                      const entry = selectedList.area_costs.find(cost => cost.area_id === area.area_id) ?? area;
+                      return (
+                        <TableRow key={area.area_id} className="border-slate-800 hover:bg-slate-800/50">
+                          <TableCell className="text-slate-200">{area.area_name}</TableCell>
+                          {AREA_COST_FIELDS.map(field => (
+                            <TableCell key={field.key} className="text-right text-sm text-slate-200">
+                              <PriceInput
+                                value={entry[field.key]}
+                                readOnly={readOnly}
+                                onSave={(value) => handleSaveAreaCost(selectedList, area.area_id, field.key, value)}
+                              />
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceListsTab;
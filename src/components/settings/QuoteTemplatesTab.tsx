@@ -0,0 +1,98 @@
+import React from "react";
+import { useQuoteTemplates } from "@/hooks/useQuoteTemplates";
+import { useGeographicAreas } from "@/hooks/useGeographicAreas";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import { formatDate } from "@/utils/formatters";
+import { Trash2 } from "lucide-react";
+
+interface QuoteTemplatesTabProps {
+  readOnly?: boolean;
+}
+
+const QuoteTemplatesTab = ({ readOnly = false }: QuoteTemplatesTabProps) => {
+  const { templates, loading, error, fetchTemplates, deleteTemplate } = useQuoteTemplates();
+  const { areas } = useGeographicAreas();
+
+  if (loading) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading Quote Templates
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchTemplates()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-gray-100">Quote Templates</h2>
+      </div>
+      <p className="text-sm text-gray-400 mb-6">
+        Templates are saved from a quote's configuration page and can be picked when creating a new quote.
+      </p>
+
+      <div className="max-w-3xl rounded-md border border-slate-700 bg-slate-800/60">
+        {templates.length === 0 ? (
+          <div className="p-6 text-center text-gray-400 text-sm">
+            No templates yet. Open a quote and use "Save as template".
+          </div>
+        ) : (
+          templates.map(template => {
+            const areaName = areas.find(a => a.area_id === template.content.area_id)?.area_name;
+            return (
+              <div
+                key={template.template_id}
+                className="flex items-center justify-between px-4 py-2 border-b border-slate-700/50 last:border-b-0"
+              >
+                <div className="text-sm">
+                  <div className="text-gray-200 font-medium">{template.template_name}</div>
+                  <div className="text-xs text-gray-400">
+                    {template.content.machine_type_ids.length} machines · {template.content.software_type_ids.length} software
+                    {areaName ? ` · ${areaName}` : ""} · saved {formatDate(template.created_at)}
+                  </div>
+                  {template.description && <div className="text-xs text-gray-500 mt-0.5">{template.description}</div>}
+                </div>
+                {!readOnly && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-slate-700"
+                    onClick={() => deleteTemplate(template.template_id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuoteTemplatesTab;
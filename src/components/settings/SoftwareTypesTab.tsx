@@ -6,7 +6,11 @@ import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import SoftwareTypeCard from "@/components/software/SoftwareTypeCard";
 import SoftwareTypeModal from "@/components/software/SoftwareTypeModal";
 
-const SoftwareTypesTab = () => {
+interface SoftwareTypesTabProps {
+  readOnly?: boolean;
+}
+
+const SoftwareTypesTab = ({ readOnly = false }: SoftwareTypesTabProps) => {
   const { software, loading, error, fetchSoftware } = useSoftwareTypes();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedSoftware, setSelectedSoftware] = useState<SoftwareType | null>(null);
@@ -70,14 +74,14 @@ const SoftwareTypesTab = () => {
 
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
         {/* Add New Card */}
-        <SoftwareTypeCard isAddCard onAddNew={handleAddNew} />
+        {!readOnly && <SoftwareTypeCard isAddCard onAddNew={handleAddNew} />}
         
         {/* Software Type Cards */}
         {software.map((softwareItem) => (
           <SoftwareTypeCard 
             key={softwareItem.software_type_id} 
             software={softwareItem} 
-            onEdit={() => handleEdit(softwareItem)}
+            onEdit={readOnly ? undefined : () => handleEdit(softwareItem)}
           />
         ))}
       </div>
@@ -10,10 +10,18 @@ import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { usePlanningDetailsSync } from "@/services/planningDetailsSync";
 import { Loader2 } from "lucide-react";
+import { useCatalogImpact } from "@/hooks/useCatalogImpact";
+import { CatalogChange, QuoteImpact } from "@/utils/catalogImpact";
+import CatalogImpactModal from "@/components/shared/CatalogImpactModal";
 
-const TrainingOffersTab = () => {
+type TrainingOfferChange = Extract<CatalogChange, { kind: "training_offer" }>;
+
+interface TrainingOffersTabProps {
+  readOnly?: boolean;
+}
+
+const TrainingOffersTab = ({ readOnly = false }: TrainingOffersTabProps) => {
   const {
     offersMatrix,
     softwareOffersMatrix,
@@ -36,13 +44,18 @@ const TrainingOffersTab = () => {
     loading: loadingPlans
   } = useTrainingPlans();
 
-  const { syncTrainingOfferChanges } = usePlanningDetailsSync();
-
   // State to track which cell is being edited { 'type-itemId-planId': currentValue }
   const [editCells, setEditCells] = useState<Record<string, number | null>>({});
   // State to track which cell is currently saving
   const [savingCells, setSavingCells] = useState<Record<string, boolean>>({});
   const [activeTab, setActiveTab] = useState<string>("machines");
+  const { previewChange, applyChange } = useCatalogImpact();
+  // Edited cell and the quotes its new hours affect, waiting for the admin's choice
+  const [pendingCell, setPendingCell] = useState<{
+    key: string;
+    change: TrainingOfferChange;
+    impacts: QuoteImpact[];
+  } | null>(null);
 
   const isLoading = loadingOffers || loadingMachines || loadingSoftware || loadingPlans;
 
@@ -90,6 +103,9 @@ const TrainingOffersTab = () => {
   };
 
   const handleSaveCell = async (key: string) => {
+    // Enter saves and the blur that follows would save again; also waits for the impact preview
+    if (savingCells[key]) return;
+
     const [type, itemIdStr, planIdStr] = key.split('-');
     const itemId = parseInt(itemIdStr, 10);
     const planId = parseInt(planIdStr, 10);
@@ -104,17 +120,38 @@ const TrainingOffersTab = () => {
 
     setSavingCells(prev => ({ ...prev, [key]: true }));
 
+    const change: TrainingOfferChange = {
+      kind: "training_offer",
+      machineTypeId: isForSoftware ? null : itemId,
+      softwareTypeId: isForSoftware ? itemId : null,
+      planId,
+      hoursRequired: hours,
+    };
+    const impacts = await previewChange(change);
+    if (!impacts) {
+      clearSavingCell(key);
+      return;
+    }
+    if (impacts.length > 0) {
+      setPendingCell({ key, change, impacts });
+      return;
+    }
+
+    await saveCell(key, change, []);
+  };
+
+  // Saves the offer, then re-syncs the affected quotes' planning details
+  const saveCell = async (key: string, change: TrainingOfferChange, impactsToApply: QuoteImpact[]) => {
     try {
       let success = false;
-      if (isForSoftware) {
-        success = await updateSoftwareTrainingHours(itemId, planId, hours);
-      } else {
-        success = await updateTrainingHours(itemId, planId, hours);
+      if (change.softwareTypeId !== null) {
+        success = await updateSoftwareTrainingHours(change.softwareTypeId, change.planId, change.hoursRequired);
+      } else if (change.machineTypeId !== null) {
+        success = await updateTrainingHours(change.machineTypeId, change.planId, change.hoursRequired);
       }
 
       if (success) {
-        // After successful save, sync planning details
-        await syncTrainingOfferChanges();
+        await applyChange(change, impactsToApply);
 
         // Clear editing and saving state for this cell
         setEditCells(prev => {
@@ -130,14 +167,30 @@ const TrainingOffersTab = () => {
       console.error("Error saving cell:", err);
       toast.error(`Failed to save: ${err.message || "Unknown error"}`);
     } finally {
-      setSavingCells(prev => {
-         const newState = { ...prev };
-         delete newState[key];
-         return newState;
-      });
+      clearSavingCell(key);
     }
   };
 
+  const clearSavingCell = (key: string) => {
+    setSavingCells(prev => {
+       const newState = { ...prev };
+       delete newState[key];
+       return newState;
+    });
+  };
+
+  const handleApplyImpact = async () => {
+    if (!pendingCell) return;
+    await saveCell(pendingCell.key, pendingCell.change, pendingCell.impacts);
+    setPendingCell(null);
+  };
+
+  // Keeps the cell in edit mode so the value can be corrected or discarded
+  const handleCancelImpact = () => {
+    if (pendingCell) clearSavingCell(pendingCell.key);
+    setPendingCell(null);
+  };
+
   // Cancel editing
   const handleCancelEdit = (key: string) => {
       setEditCells(prev => {
@@ -229,7 +282,7 @@ const TrainingOffersTab = () => {
                         <TableCell
                           key={key}
                           className="text-center relative border-l border-slate-700 px-2 py-1 h-14"
-                          onDoubleClick={() => !isSaving && handleCellDoubleClick(itemId, plan.plan_id, hoursRequired, isForSoftware)}
+                          onDoubleClick={() => !readOnly && !isSaving && handleCellDoubleClick(itemId, plan.plan_id, hoursRequired, isForSoftware)}
                         >
                           {isEditing ? (
                             <div className="flex items-center justify-center h-full">
@@ -249,7 +302,7 @@ const TrainingOffersTab = () => {
                                {isSaving && <Loader2 className="absolute top-1/2 right-2 transform -translate-y-1/2 h-4 w-4 animate-spin text-blue-400" />}
                             </div>
                           ) : (
-                            <div className="flex items-center justify-center h-full px-3 py-1 rounded-md cursor-pointer hover:bg-slate-700/50 transition-colors" title="Double-click to edit">
+                            <div className={`flex items-center justify-center h-full px-3 py-1 rounded-md ${readOnly ? '' : 'cursor-pointer hover:bg-slate-700/50'} transition-colors`} title={readOnly ? undefined : "Double-click to edit"}>
                                {isSaving ? (
                                     <Loader2 className="h-4 w-4 animate-spin text-blue-400" />
                                 ) : (
@@ -278,7 +331,7 @@ const TrainingOffersTab = () => {
       <div>
         <h2 className="text-xl font-semibold text-gray-100">Training Offers</h2>
         <p className="text-sm text-gray-400 mt-1">
-          Configure required training hours (h) for each item per training plan. Double-click a cell to edit.
+          Configure required training hours (h) for each item per training plan.{!readOnly && " Double-click a cell to edit."}
         </p>
       </div>
 
@@ -299,9 +352,18 @@ const TrainingOffersTab = () => {
       </Tabs>
 
       {/* Instructions */}
-      <div className="text-xs text-gray-500">
-        <span>Double-click cell to edit. Press Enter or click outside to save. Press Escape to cancel.</span>
-      </div>
+      {!readOnly && (
+        <div className="text-xs text-gray-500">
+          <span>Double-click cell to edit. Press Enter or click outside to save. Press Escape to cancel.</span>
+        </div>
+      )}
+
+      <CatalogImpactModal
+        open={pendingCell !== null}
+        impacts={pendingCell?.impacts ?? []}
+        onApply={handleApplyImpact}
+        onCancel={handleCancelImpact}
+      />
     </div>
   );
 };
@@ -6,7 +6,11 @@ import TrainingPlanCard from "@/components/training/TrainingPlanCard";
 import TrainingPlanModal from "@/components/training/TrainingPlanModal";
 import { Button } from "@/components/ui/button";
 
-const TrainingPlansTab = () => {
+interface TrainingPlansTabProps {
+  readOnly?: boolean;
+}
+
+const TrainingPlansTab = ({ readOnly = false }: TrainingPlansTabProps) => {
   const { plans, loading, error, fetchPlans } = useTrainingPlans();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<TrainingPlan | null>(null);
@@ -66,14 +70,14 @@ const TrainingPlansTab = () => {
 
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
         {/* Add New Card */}
-        <TrainingPlanCard isAddCard onAddNew={handleAddNew} />
+        {!readOnly && <TrainingPlanCard isAddCard onAddNew={handleAddNew} />}
         
         {/* Training Plan Cards */}
         {plans.map((plan) => (
           <TrainingPlanCard 
             key={plan.plan_id} 
             plan={plan} 
-            onEdit={() => handleEdit(plan)}
+            onEdit={readOnly ? undefined : () => handleEdit(plan)}
           />
         ))}
       </div>
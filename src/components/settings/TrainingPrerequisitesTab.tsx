@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import { useTrainingPrerequisites, TrainingPrerequisite } from "@/hooks/useTrainingPrerequisites";
+import { useMachineTypes } from "@/hooks/useMachineTypes";
+import { useSoftwareTypes } from "@/hooks/useSoftwareTypes";
+import { getTrainingTypeKey } from "@/utils/scheduleTasks";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowRight, Loader2, Plus, Trash2 } from "lucide-react";
+
+// Select values are training type keys ("machine:3" / "software:7")
+const parseTrainingTypeKey = (key: string): { machineTypeId: number | null; softwareTypeId: number | null } => {
+  const [kind, id] = key.split(":");
+  return {
+    machineTypeId: kind === "machine" ? Number(id) : null,
+    softwareTypeId: kind === "software" ? Number(id) : null,
+  };
+};
+
+interface TrainingPrerequisitesTabProps {
+  readOnly?: boolean;
+}
+
+const TrainingPrerequisitesTab = ({ readOnly = false }: TrainingPrerequisitesTabProps) => {
+  const { prerequisites, loading, error, fetchPrerequisites, addPrerequisite, deletePrerequisite } = useTrainingPrerequisites();
+  const { machines, loading: loadingMachines } = useMachineTypes();
+  const { software, loading: loadingSoftware } = useSoftwareTypes();
+  const [dependentKey, setDependentKey] = useState("");
+  const [requiredKey, setRequiredKey] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const getTypeName = (machineTypeId: number | null, softwareTypeId: number | null) => {
+    if (softwareTypeId != null) {
+      return software.find(s => s.software_type_id === softwareTypeId)?.name ?? `Software ${softwareTypeId}`;
+    }
+    return machines.find(m => m.machine_type_id === machineTypeId)?.name ?? `Machine ${machineTypeId}`;
+  };
+
+  const handleAdd = async () => {
+    if (!dependentKey || !requiredKey) {
+      toast.error("Select both trainings");
+      return;
+    }
+    if (dependentKey === requiredKey) {
+      toast.error("A training cannot depend on itself");
+      return;
+    }
+
+    const dependent = parseTrainingTypeKey(dependentKey);
+    const required = parseTrainingTypeKey(requiredKey);
+
+    setIsAdding(true);
+    const added = await addPrerequisite({
+      machine_type_id: dependent.machineTypeId,
+      software_type_id: dependent.softwareTypeId,
+      required_machine_type_id: required.machineTypeId,
+      required_software_type_id: required.softwareTypeId,
+    });
+    setIsAdding(false);
+
+    if (added) {
+      toast.success("Prerequisite added");
+      setDependentKey("");
+      setRequiredKey("");
+    }
+  };
+
+  const renderTypeOptions = () => (
+    <>
+      <SelectGroup>
+        <SelectLabel>Machines</SelectLabel>
+        {machines.map(machine => (
+          <SelectItem key={`machine-${machine.machine_type_id}`} value={getTrainingTypeKey(machine.machine_type_id, null)}>
+            {machine.name}
+          </SelectItem>
+        ))}
+      </SelectGroup>
+      <SelectGroup>
+        <SelectLabel>Software</SelectLabel>
+        {software.map(item => (
+          <SelectItem key={`software-${item.software_type_id}`} value={getTrainingTypeKey(null, item.software_type_id)}>
+            {item.name}
+          </SelectItem>
+        ))}
+      </SelectGroup>
+    </>
+  );
+
+  if (loading || loadingMachines || loadingSoftware) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading Training Order
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchPrerequisites()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-gray-100">Training Order</h2>
+      </div>
+      <p className="text-sm text-gray-400 mb-6">
+        A training only starts once all of its prerequisites are finished, even when another resource teaches them.
+      </p>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Select value={dependentKey} onValueChange={setDependentKey}>
+            <SelectTrigger className="w-[240px] bg-slate-800 border-slate-700 text-gray-200">
+              <SelectValue placeholder="Training" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">{renderTypeOptions()}</SelectContent>
+          </Select>
+          <span className="text-sm text-gray-400">starts after</span>
+          <Select value={requiredKey} onValueChange={setRequiredKey}>
+            <SelectTrigger className="w-[240px] bg-slate-800 border-slate-700 text-gray-200">
+              <SelectValue placeholder="Prerequisite" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">{renderTypeOptions()}</SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={isAdding} className="bg-blue-700 hover:bg-blue-800">
+            {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+      )}
+
+      <div className="rounded-md border border-slate-700 bg-slate-800/60 max-w-3xl">
+        {prerequisites.length === 0 ? (
+          <div className="p-6 text-center text-gray-400 text-sm">
+            No prerequisites defined. Trainings are scheduled in the order of the planning details.
+          </div>
+        ) : (
+          prerequisites.map((prerequisite: TrainingPrerequisite) => (
+            <div
+              key={prerequisite.prerequisite_id}
+              className="flex items-center justify-between px-4 py-2 border-b border-slate-700/50 last:border-b-0"
+            >
+              <div className="flex items-center gap-3 text-sm text-gray-200">
+                <span>{getTypeName(prerequisite.required_machine_type_id, prerequisite.required_software_type_id)}</span>
+                <ArrowRight className="h-4 w-4 text-gray-400" />
+                <span className="font-medium">{getTypeName(prerequisite.machine_type_id, prerequisite.software_type_id)}</span>
+              </div>
+              {!readOnly && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-slate-700"
+                  onClick={() => deletePrerequisite(prerequisite.prerequisite_id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrainingPrerequisitesTab;
@@ -29,8 +29,12 @@ import {
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabaseClient';
 
+interface TrainingTopicsTabProps {
+  readOnly?: boolean;
+}
+
 // Static items for the sidebar
-export default function TrainingTopicsTab() {
+export default function TrainingTopicsTab({ readOnly = false }: TrainingTopicsTabProps) {
   const { machines, loading: machinesLoading } = useMachineTypes();
   const { software, loading: softwareLoading } = useSoftwareTypes();
   const { plans, loading: plansLoading } = useTrainingPlans();
@@ -368,74 +372,80 @@ export default function TrainingTopicsTab() {
                                                       <FileText size={14} className="text-white" />
                                                       <span className="text-gray-300 text-xs">{topic.topic_text}</span>
                                                     </div>
-                                                    <div className="flex items-center space-x-1">
-                                                      <Button
-                                                        type="button"
-                                                        variant="ghost"
-                                                        size="icon"
-                                                        className="h-6 w-6"
-                                                        onClick={() => handleStartEdit(topic.topic_id, topic.topic_text)}
-                                                      >
-                                                        <Pencil className="h-3 w-3 text-white" />
-                                                      </Button>
-                                                      <Button
-                                                        type="button"
-                                                        variant="ghost"
-                                                        size="icon"
-                                                        className="h-6 w-6"
-                                                        onClick={() => handleDeleteTopic(topic.topic_id)}
-                                                      >
-                                                        <Trash2 className="h-3 w-3 text-red-500" />
-                                                      </Button>
-                                                    </div>
+                                                    {!readOnly && (
+                                                      <div className="flex items-center space-x-1">
+                                                        <Button
+                                                          type="button"
+                                                          variant="ghost"
+                                                          size="icon"
+                                                          className="h-6 w-6"
+                                                          onClick={() => handleStartEdit(topic.topic_id, topic.topic_text)}
+                                                        >
+                                                          <Pencil className="h-3 w-3 text-white" />
+                                                        </Button>
+                                                        <Button
+                                                          type="button"
+                                                          variant="ghost"
+                                                          size="icon"
+                                                          className="h-6 w-6"
+                                                          onClick={() => handleDeleteTopic(topic.topic_id)}
+                                                        >
+                                                          <Trash2 className="h-3 w-3 text-red-500" />
+                                                        </Button>
+                                                      </div>
+                                                    )}
                                                   </>
                                                 )}
                                               </div>
                                             ))}
                                             
                                             {/* Add new topic field after existing topics */}
-                                            <div className="flex items-center space-x-2 mt-2">
-                                              <Input
-                                                type="text"
-                                                className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
-                                                value={newTopic}
-                                                onChange={(e) => setNewTopic(e.target.value)}
-                                                placeholder="Enter new topic"
-                                              />
-                                              <Button 
-                                                type="button" 
-                                                variant="secondary" 
-                                                size="sm"
-                                                className="h-8"
-                                                onClick={handleAddTopic}
-                                              >
-                                                <PlusCircle className="h-3 w-3 mr-1 text-white" />
-                                                <span className="text-xs">Add</span>
-                                              </Button>
-                                            </div>
+                                            {!readOnly && (
+                                              <div className="flex items-center space-x-2 mt-2">
+                                                <Input
+                                                  type="text"
+                                                  className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
+                                                  value={newTopic}
+                                                  onChange={(e) => setNewTopic(e.target.value)}
+                                                  placeholder="Enter new topic"
+                                                />
+                                                <Button 
+                                                  type="button" 
+                                                  variant="secondary" 
+                                                  size="sm"
+                                                  className="h-8"
+                                                  onClick={handleAddTopic}
+                                                >
+                                                  <PlusCircle className="h-3 w-3 mr-1 text-white" />
+                                                  <span className="text-xs">Add</span>
+                                                </Button>
+                                              </div>
+                                            )}
                                           </>
                                         ) : (
                                           <>
-                                            <p className="text-gray-400 text-xs mb-2">No topics available. Add one below!</p>
-                                            <div className="flex items-center space-x-2">
-                                              <Input
-                                                type="text"
-                                                className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
-                                                value={newTopic}
-                                                onChange={(e) => setNewTopic(e.target.value)}
-                                                placeholder="Enter new topic"
-                                              />
-                                              <Button 
-                                                type="button" 
-                                                variant="secondary" 
-                                                size="sm"
-                                                className="h-8"
-                                                onClick={handleAddTopic}
-                                              >
-                                                <PlusCircle className="h-3 w-3 mr-1 text-white" />
-                                                <span className="text-xs">Add</span>
-                                              </Button>
-                                            </div>
+                                            <p className="text-gray-400 text-xs mb-2">{readOnly ? "No topics yet." : "No topics available. Add one below!"}</p>
+                                            {!readOnly && (
+                                              <div className="flex items-center space-x-2">
+                                                <Input
+                                                  type="text"
+                                                  className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
+                                                  value={newTopic}
+                                                  onChange={(e) => setNewTopic(e.target.value)}
+                                                  placeholder="Enter new topic"
+                                                />
+                                                <Button 
+                                                  type="button" 
+                                                  variant="secondary" 
+                                                  size="sm"
+                                                  className="h-8"
+                                                  onClick={handleAddTopic}
+                                                >
+                                                  <PlusCircle className="h-3 w-3 mr-1 text-white" />
+                                                  <span className="text-xs">Add</span>
+                                                </Button>
+                                              </div>
+                                            )}
                                           </>
                                         )}
                                       </div>
@@ -552,74 +562,80 @@ export default function TrainingTopicsTab() {
                                                       <FileText size={14} className="text-white" />
                                                       <span className="text-gray-300 text-xs">{topic.topic_text}</span>
                                                     </div>
-                                                    <div className="flex items-center space-x-1">
-                                                      <Button
-                                                        type="button"
-                                                        variant="ghost"
-                                                        size="icon"
-                                                        className="h-6 w-6"
-                                                        onClick={() => handleStartEdit(topic.topic_id, topic.topic_text)}
-                                                      >
-                                                        <Pencil className="h-3 w-3 text-white" />
-                                                      </Button>
-                                                      <Button
-                                                        type="button"
-                                                        variant="ghost"
-                                                        size="icon"
-                                                        className="h-6 w-6"
-                                                        onClick={() => handleDeleteTopic(topic.topic_id)}
-                                                      >
-                                                        <Trash2 className="h-3 w-3 text-red-500" />
-                                                      </Button>
-                                                    </div>
+                                                    {!readOnly && (
+                                                      <div className="flex items-center space-x-1">
+                                                        <Button
+                                                          type="button"
+                                                          variant="ghost"
+                                                          size="icon"
+                                                          className="h-6 w-6"
+                                                          onClick={() => handleStartEdit(topic.topic_id, topic.topic_text)}
+                                                        >
+                                                          <Pencil className="h-3 w-3 text-white" />
+                                                        </Button>
+                                                        <Button
+                                                          type="button"
+                                                          variant="ghost"
+                                                          size="icon"
+                                                          className="h-6 w-6"
+                                                          onClick={() => handleDeleteTopic(topic.topic_id)}
+                                                        >
+                                                          <Trash2 className="h-3 w-3 text-red-500" />
+                                                        </Button>
+                                                      </div>
+                                                    )}
                                                   </>
                                                 )}
                                               </div>
                                             ))}
                                             
                                             {/* Add new topic field after existing topics */}
-                                            <div className="flex items-center space-x-2 mt-2">
-                                              <Input
-                                                type="text"
-                                                className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
-                                                value={newTopic}
-                                                onChange={(e) => setNewTopic(e.target.value)}
-                                                placeholder="Enter new topic"
-                                              />
-                                              <Button 
-                                                type="button" 
-                                                variant="secondary" 
-                                                size="sm"
-                                                className="h-8"
-                                                onClick={handleAddTopic}
-                                              >
-                                                <PlusCircle className="h-3 w-3 mr-1 text-white" />
-                                                <span className="text-xs">Add</span>
-                                              </Button>
-                                            </div>
+                                            {!readOnly && (
+                                              <div className="flex items-center space-x-2 mt-2">
+                                                <Input
+                                                  type="text"
+                                                  className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
+                                                  value={newTopic}
+                                                  onChange={(e) => setNewTopic(e.target.value)}
+                                                  placeholder="Enter new topic"
+                                                />
+                                                <Button 
+                                                  type="button" 
+                                                  variant="secondary" 
+                                                  size="sm"
+                                                  className="h-8"
+                                                  onClick={handleAddTopic}
+                                                >
+                                                  <PlusCircle className="h-3 w-3 mr-1 text-white" />
+                                                  <span className="text-xs">Add</span>
+                                                </Button>
+                                              </div>
+                                            )}
                                           </>
                                         ) : (
                                           <>
-                                            <p className="text-gray-400 text-xs mb-2">No topics available. Add one below!</p>
-                                            <div className="flex items-center space-x-2">
-                                              <Input
-                                                type="text"
-                                                className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
-                                                value={newTopic}
-                                                onChange={(e) => setNewTopic(e.target.value)}
-                                                placeholder="Enter new topic"
-                                              />
-                                              <Button 
-                                                type="button" 
-                                                variant="secondary" 
-                                                size="sm"
-                                                className="h-8"
-                                                onClick={handleAddTopic}
-                                              >
-                                                <PlusCircle className="h-3 w-3 mr-1 text-white" />
-                                                <span className="text-xs">Add</span>
-                                              </Button>
-                                            </div>
+                                            <p className="text-gray-400 text-xs mb-2">{readOnly ? "No topics yet." : "No topics available. Add one below!"}</p>
+                                            {!readOnly && (
+                                              <div className="flex items-center space-x-2">
+                                                <Input
+                                                  type="text"
+                                                  className="bg-slate-700 border-slate-600 text-gray-200 text-xs h-8"
+                                                  value={newTopic}
+                                                  onChange={(e) => setNewTopic(e.target.value)}
+                                                  placeholder="Enter new topic"
+                                                />
+                                                <Button 
+                                                  type="button" 
+                                                  variant="secondary" 
+                                                  size="sm"
+                                                  className="h-8"
+                                                  onClick={handleAddTopic}
+                                                >
+                                                  <PlusCircle className="h-3 w-3 mr-1 text-white" />
+                                                  <span className="text-xs">Add</span>
+                                                </Button>
+                                              </div>
+                                            )}
                                           </>
                                         )}
                                       </div>
@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { useVatRules } from "@/hooks/useVatRules";
+import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface VatRulesTabProps {
+  readOnly?: boolean;
+}
+
+const VatRulesTab = ({ readOnly = false }: VatRulesTabProps) => {
+  const { rules, loading, error, fetchRules, saveRule, deleteRule } = useVatRules();
+  const [countryCode, setCountryCode] = useState("");
+  const [vatRate, setVatRate] = useState("");
+  const [reverseCharge, setReverseCharge] = useState(false);
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const code = countryCode.trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(code)) {
+      toast.error("Enter a two-letter country code (e.g. DE)");
+      return;
+    }
+    const rate = parseFloat(vatRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error("Enter a VAT rate between 0 and 100");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await saveRule({
+      country_code: code,
+      vat_rate: rate,
+      reverse_charge: reverseCharge,
+      description: description.trim() || null,
+    });
+    setIsSaving(false);
+
+    if (saved) {
+      toast.success("VAT rule saved");
+      setCountryCode("");
+      setVatRate("");
+      setReverseCharge(false);
+      setDescription("");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-4">
+        <TextShimmerWave
+          className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg"
+          duration={1}
+          spread={1}
+          zDistance={1}
+          scaleDistance={1.1}
+          rotateYDistance={10}
+        >
+          Loading VAT Rules
+        </TextShimmerWave>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
+        <p className="text-red-300">{error}</p>
+        <Button
+          onClick={() => fetchRules()}
+          variant="outline"
+          className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-gray-100">VAT Rules</h2>
+      </div>
+      <p className="text-sm text-gray-400 mb-6">
+        A rule for the client's country takes precedence over the VAT rate of the quote's area. With reverse charge,
+        clients that have a VAT id are quoted without VAT.
+      </p>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Input
+            value={countryCode}
+            onChange={(e) => setCountryCode(e.target.value)}
+            placeholder="Country (DE)"
+            maxLength={2}
+            className="w-[120px] bg-slate-800 border-slate-700 text-gray-200 uppercase"
+          />
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            max="100"
+            value={vatRate}
+            onChange={(e) => setVatRate(e.target.value)}
+            placeholder="Rate %"
+            className="w-[110px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="w-[240px] bg-slate-800 border-slate-700 text-gray-200"
+          />
+          <div className="flex items-center gap-2">
+            <Switch id="reverseCharge" checked={reverseCharge} onCheckedChange={setReverseCharge} />
+            <Label htmlFor="reverseCharge" className="text-sm text-gray-300">Reverse charge</Label>
+          </div>
+          <Button onClick={handleSave} disabled={isSaving} className="bg-blue-700 hover:bg-blue-800">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Save Rule
+          </Button>
+        </div>
+      )}
+
+      <div className="max-w-3xl rounded-md border border-slate-700 bg-slate-800/60">
+        {rules.length === 0 ? (
+          <div className="p-6 text-center text-gray-400 text-sm">
+            No VAT rules defined. Quotes use the VAT rate of their area.
+          </div>
+        ) : (
+          rules.map(rule => (
+            <div
+              key={rule.vat_rule_id}
+              className="flex items-center justify-between px-4 py-2 border-b border-slate-700/50 last:border-b-0"
+            >
+              <div className="flex items-center gap-4 text-sm text-gray-200">
+                <span className="w-10 font-medium">{rule.country_code}</span>
+                <span className="w-16">{rule.vat_rate}%</span>
+                {rule.reverse_charge && (
+                  <span className="text-[10px] uppercase px-1 rounded bg-indigo-700/50 text-indigo-200">Reverse charge</span>
+                )}
+                <span className="text-gray-400">{rule.description}</span>
+              </div>
+              {!readOnly && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 text-gray-400 hover:text-red-400 hover:bg-slate-700"
+                  onClick={() => deleteRule(rule.vat_rule_id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VatRulesTab;
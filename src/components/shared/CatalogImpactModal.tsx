@@ -0,0 +1,117 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table";
+import { QuoteImpact } from "@/utils/catalogImpact";
+import { QUOTE_STATUS_LABELS, QUOTE_STATUS_STYLES } from "@/utils/quoteStatus";
+import { formatCurrency } from "@/utils/formatters";
+import { Loader2 } from "lucide-react";
+
+interface CatalogImpactModalProps {
+  open: boolean;
+  impacts: QuoteImpact[];
+  onApply: () => Promise<void>; // Saves the change, then applies it to the listed quotes
+  onCancel: () => void; // Discards the change
+}
+
+const formatChange = (oldValue: number | null, newValue: number | null, format: (value: number) => string) => {
+  if (oldValue === null || newValue === null) return <span className="text-slate-500">—</span>;
+  if (Math.round(oldValue * 100) === Math.round(newValue * 100)) return format(newValue);
+  return (
+    <>
+      <span className="text-slate-500">{format(oldValue)}</span> → <span className="text-amber-300">{format(newValue)}</span>
+    </>
+  );
+};
+
+const CatalogImpactModal: React.FC<CatalogImpactModalProps> = ({
+  open,
+  impacts,
+  onApply,
+  onCancel,
+}) => {
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen && !isApplying) onCancel();
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    await onApply();
+    setIsApplying(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] bg-slate-900 border-slate-800 text-slate-100">
+        <DialogHeader>
+          <DialogTitle>This change affects {impacts.length} quote(s)</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2">
+          <p className="text-sm text-slate-400">
+            Costs are the totals saved on checkout, repriced with the new value; hour changes are estimates until
+            the quote is priced again. Every listed quote picks up the new value, since planning is synced from the
+            catalog. Quotes waiting for approval, approved, sent or accepted are never changed.
+          </p>
+          <div className="max-h-[360px] overflow-y-auto rounded-md border border-slate-700">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-300">Quote</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                  <TableHead className="text-slate-300 text-right">Hours</TableHead>
+                  <TableHead className="text-slate-300 text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {impacts.map(impact => (
+                  <TableRow key={impact.quoteId} className="border-slate-800 hover:bg-slate-800/50">
+                    <TableCell className="text-slate-200">{impact.quoteName}</TableCell>
+                    <TableCell>
+                      <span className={`text-xs px-2 py-0.5 rounded ${QUOTE_STATUS_STYLES[impact.status]}`}>
+                        {QUOTE_STATUS_LABELS[impact.status]}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatChange(impact.oldHours, impact.newHours, value => `${value}h`)}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {impact.oldCost === null
+                        ? <span className="text-slate-500">Not priced yet</span>
+                        : formatChange(impact.oldCost, impact.newCost, value => formatCurrency(value, impact.currency))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            disabled={isApplying}
+            className="border-slate-700 hover:bg-slate-800 text-slate-300"
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isApplying} className="bg-blue-700 hover:bg-blue-800">
+            {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save and update quotes ({impacts.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CatalogImpactModal;
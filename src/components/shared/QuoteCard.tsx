@@ -1,8 +1,9 @@
 
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { formatDate } from "@/utils/formatters";
-import { FileText, Calendar, Trash2, MapPin } from "lucide-react";
+import { formatCurrency, formatDate } from "@/utils/formatters";
+import { QuoteStatus, QUOTE_STATUS_LABELS, QUOTE_STATUS_STYLES } from "@/utils/quoteStatus";
+import { FileText, Calendar, Trash2, MapPin, Wallet, Copy, UserRound } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -22,8 +23,13 @@ type QuoteCardProps = {
   quote_name: string;
   client_name?: string;
   area_name?: string;
+  currency?: string;
+  quoted_total?: number;
+  status?: QuoteStatus;
+  salesperson?: string;
   created_at: string;
   onDelete?: () => void;
+  onDuplicate?: () => void;
 };
 
 const QuoteCard = ({ 
@@ -31,12 +37,18 @@ const QuoteCard = ({
   quote_name, 
   client_name, 
   area_name, 
+  currency,
+  quoted_total,
+  status,
+  salesperson,
   created_at,
-  onDelete 
+  onDelete,
+  onDuplicate
 }: QuoteCardProps) => {
   const navigate = useNavigate();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
 
   const handleClick = () => {
     navigate(`/quote/${quote_id}/config`);
@@ -47,6 +59,32 @@ const QuoteCard = ({
     setShowDeleteDialog(true);
   };
 
+  const handleDuplicateClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      setIsDuplicating(true);
+
+      const { error } = await supabase.rpc("duplicate_quote", {
+        quote_id_param: quote_id,
+        quote_name_param: `${quote_name} (copy)`
+      });
+
+      if (error) throw error;
+
+      toast.success(`"${quote_name}" duplicated`);
+
+      // Refresh the quotes list so the copy shows up
+      if (onDuplicate) {
+        onDuplicate();
+      }
+    } catch (error) {
+      console.error("Error duplicating quote:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to duplicate quote");
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
   const handleDeleteConfirm = async () => {
     try {
       setIsDeleting(true);
@@ -85,14 +123,29 @@ const QuoteCard = ({
           <div className="flex items-center gap-2">
             <FileText className="h-5 w-5 text-gray-400" />
             <span className="font-medium text-lg text-gray-200">{quote_name}</span>
+            {status && (
+              <span className={`text-[10px] uppercase px-1.5 py-0.5 rounded ${QUOTE_STATUS_STYLES[status]}`}>
+                {QUOTE_STATUS_LABELS[status]}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button 
+              className="p-1 h-auto text-gray-400 hover:text-blue-400 transition-colors"
+              onClick={handleDuplicateClick}
+              disabled={isDuplicating}
+              title="Duplicate quote"
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+            <button 
+              className="p-1 h-auto text-gray-400 hover:text-red-400 transition-colors"
+              onClick={handleDeleteClick}
+              disabled={isDeleting}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
           </div>
-          <button 
-            className="p-1 h-auto text-gray-400 hover:text-red-400 transition-colors"
-            onClick={handleDeleteClick}
-            disabled={isDeleting}
-          >
-            <Trash2 className="h-4 w-4" />
-          </button>
         </div>
         
         <div className="space-y-3 flex-1">
@@ -101,22 +154,44 @@ const QuoteCard = ({
             <p className="font-medium text-gray-300">{client_name || "No client specified"}</p>
           </div>
           
-          <div>
-            <p className="text-sm text-gray-400">Area</p>
-            <p className="font-medium text-gray-300 flex items-center gap-1">
-              {area_name ? (
-                <>
-                  <MapPin className="h-3 w-3" /> 
-                  {area_name}
-                </>
-              ) : "Not specified"}
-            </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-sm text-gray-400">Area</p>
+              <p className="font-medium text-gray-300 flex items-center gap-1">
+                {area_name ? (
+                  <>
+                    <MapPin className="h-3 w-3" /> 
+                    {area_name}
+                  </>
+                ) : "Not specified"}
+              </p>
+            </div>
+
+            <div>
+              <p className="text-sm text-gray-400">Salesperson</p>
+              <p className="font-medium text-gray-300 flex items-center gap-1 truncate">
+                {salesperson ? (
+                  <>
+                    <UserRound className="h-3 w-3" />
+                    {salesperson}
+                  </>
+                ) : "Unassigned"}
+              </p>
+            </div>
           </div>
         </div>
         
-        <div className="flex items-center mt-4 text-sm text-gray-400">
-          <Calendar className="h-4 w-4 mr-1" />
-          Created {formatDate(created_at)}
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-400">
+          <span className="flex items-center">
+            <Calendar className="h-4 w-4 mr-1" />
+            Created {formatDate(created_at)}
+          </span>
+          {quoted_total !== undefined && (
+            <span className="flex items-center text-emerald-300 font-medium">
+              <Wallet className="h-4 w-4 mr-1" />
+              {formatCurrency(quoted_total, currency)}
+            </span>
+          )}
         </div>
       </Card>
 
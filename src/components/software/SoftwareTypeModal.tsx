@@ -183,7 +183,7 @@ const SoftwareTypeModal: React.FC<SoftwareTypeModalProps> = ({
             toast.success("Software training requirements updated.");
         }
 
-        await syncSoftwareTypeChanges();
+        await syncSoftwareTypeChanges(savedSoftwareTypeId);
 
         onSave();
         onClose();
@@ -231,7 +231,7 @@ const SoftwareTypeModal: React.FC<SoftwareTypeModalProps> = ({
 
       toast.success("Software deleted successfully");
 
-      await syncSoftwareTypeChanges();
+      await syncSoftwareTypeChanges(idToDelete);
 
       onSave();
       onClose();
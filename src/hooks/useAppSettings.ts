@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+const APPROVAL_THRESHOLD_KEY = "approval_threshold";
+
+export const useAppSettings = () => {
+  const [approvalThreshold, setApprovalThreshold] = useState<number | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("app_settings")
+        .select("setting_key, setting_value")
+        .eq("setting_key", APPROVAL_THRESHOLD_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setApprovalThreshold(typeof data?.setting_value === "number" ? data.setting_value : null);
+    } catch (err) {
+      console.error("Error fetching app settings:", err);
+      setError(err instanceof Error ? err.message : "Failed to load settings");
+      toast.error("Failed to load settings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // null removes the threshold: no quote needs a manager's approval
+  const saveApprovalThreshold = async (threshold: number | null) => {
+    try {
+      const { error } = threshold === null
+        ? await supabase.from("app_settings").delete().eq("setting_key", APPROVAL_THRESHOLD_KEY)
+        : await supabase
+            .from("app_settings")
+            .upsert(
+              { setting_key: APPROVAL_THRESHOLD_KEY, setting_value: threshold, updated_at: new Date().toISOString() },
+              { onConflict: "org_id,setting_key" }
+            );
+
+      if (error) throw error;
+
+      setApprovalThreshold(threshold);
+      return true;
+    } catch (err) {
+      console.error("Error saving approval threshold:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save approval threshold");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  return {
+    approvalThreshold,
+    loading,
+    error,
+    fetchSettings,
+    saveApprovalThreshold
+  };
+};
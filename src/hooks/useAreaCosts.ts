@@ -10,6 +10,7 @@ export interface AreaCost {
   daily_accommodation_food_cost: number;
   daily_allowance: number;
   daily_pocket_money: number;
+  vat_rate: number; // Percent, used when no VAT rule matches the client's country
   created_at: string;
   updated_at: string;
   icon_name?: string | null;
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { ICalHoliday } from "@/utils/icalParser";
+
+export interface AreaHoliday {
+  holiday_id: number;
+  area_id: number;
+  holiday_date: string;
+  name: string | null;
+  source: string;
+  created_at: string;
+}
+
+export const useAreaHolidays = (areaId: number | null | undefined) => {
+  const [holidays, setHolidays] = useState<AreaHoliday[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHolidays = useCallback(async () => {
+    if (!areaId) {
+      setHolidays([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("area_holidays")
+        .select("*")
+        .eq("area_id", areaId)
+        .order("holiday_date");
+
+      if (error) throw error;
+
+      setHolidays(data || []);
+    } catch (err) {
+      console.error("Error fetching area holidays:", err);
+      setError(err instanceof Error ? err.message : "Failed to load holidays");
+      toast.error("Failed to load holidays");
+    } finally {
+      setLoading(false);
+    }
+  }, [areaId]);
+
+  const addHoliday = async (holidayDate: string, name: string | null) => {
+    if (!areaId) return false;
+
+    try {
+      const { error } = await supabase
+        .from("area_holidays")
+        .upsert(
+          { area_id: areaId, holiday_date: holidayDate, name, source: "manual" },
+          { onConflict: "area_id,holiday_date" }
+        );
+
+      if (error) throw error;
+
+      await fetchHolidays();
+      return true;
+    } catch (err) {
+      console.error("Error adding holiday:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to add holiday");
+      return false;
+    }
+  };
+
+  // Bulk insert from an iCal file; dates already in the calendar are left untouched
+  const importHolidays = async (entries: ICalHoliday[]) => {
+    if (!areaId || entries.length === 0) return 0;
+
+    try {
+      const existingDates = new Set(holidays.map(h => h.holiday_date));
+      const newEntries = entries.filter(entry => !existingDates.has(entry.date));
+      if (newEntries.length === 0) return 0;
+
+      const { error } = await supabase
+        .from("area_holidays")
+        .upsert(
+          newEntries.map(entry => ({
+            area_id: areaId,
+            holiday_date: entry.date,
+            name: entry.name,
+            source: "ical",
+          })),
+          { onConflict: "area_id,holiday_date", ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+
+      await fetchHolidays();
+      return newEntries.length;
+    } catch (err) {
+      console.error("Error importing holidays:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to import holidays");
+      return 0;
+    }
+  };
+
+  const deleteHoliday = async (holidayId: number) => {
+    try {
+      const { error } = await supabase
+        .from("area_holidays")
+        .delete()
+        .eq("holiday_id", holidayId);
+
+      if (error) throw error;
+
+      setHolidays(prev => prev.filter(h => h.holiday_id !== holidayId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting holiday:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete holiday");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  return {
+    holidays,
+    loading,
+    error,
+    fetchHolidays,
+    addHoliday,
+    importHolidays,
+    deleteHoliday
+  };
+};
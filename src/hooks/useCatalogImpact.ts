@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { ResourceTotalsSnapshot } from "@/hooks/useQuoteTotals";
+import { LOCKED_QUOTE_STATUSES, QuoteStatus } from "@/utils/quoteStatus";
+import { CatalogChange, QuoteImpact, SavedPlanTotals, repricePlanTotals, toQuoteTotalsRows } from "@/utils/catalogImpact";
+import { isPriceListEffective } from "@/utils/priceLists";
+
+type AffectedQuote = { quote_id: string; quote_name: string; status: string; currency: string; quote_date: string };
+
+// Periods of the price lists with their own price for the changed resource or area
+const fetchPricedPeriods = async (change: CatalogChange) => {
+  if (change.kind === "training_offer") return [];
+
+  const { data, error } = change.kind === "resource_rate"
+    ? await supabase
+        .from("price_list_resource_rates")
+        .select("price_lists (valid_from, valid_to)")
+        .eq("resource_id", change.resourceId)
+    : await supabase
+        .from("price_list_area_costs")
+        .select("price_lists (valid_from, valid_to)")
+        .eq("area_id", change.areaId);
+
+  if (error) throw error;
+  return (data || []).flatMap(row => row.price_lists ? [row.price_lists] : []);
+};
+
+// Quotes a change can reach; locked and accepted quotes are never changed, and a rate change doesn't reach
+// quotes dated in a price list that has its own price for the resource or area
+const fetchAffectedQuotes = async (change: CatalogChange): Promise<AffectedQuote[]> => {
+  let query = supabase
+    .from("quotes")
+    .select("quote_id, quote_name, status, currency, quote_date")
+    .not("status", "in", `(${[...LOCKED_QUOTE_STATUSES, "accepted"].join(",")})`);
+
+  if (change.kind === "training_offer") {
+    query = change.machineTypeId !== null
+      ? query.contains("machine_type_ids", [change.machineTypeId])
+      : query.contains("software_type_ids", [change.softwareTypeId]);
+  } else if (change.kind === "resource_rate") {
+    const { data: rows, error } = await supabase
+      .from("planning_details")
+      .select("quote_id")
+      .eq("resource_id", change.resourceId);
+
+    if (error) throw error;
+    if (!rows || rows.length === 0) return [];
+    query = query.in("quote_id", Array.from(new Set(rows.map(row => row.quote_id))));
+  } else {
+    query = query.eq("area_id", change.areaId);
+  }
+
+  const [{ data, error }, pricedPeriods] = await Promise.all([query.order("quote_name"), fetchPricedPeriods(change)]);
+
+  if (error) throw error;
+  return (data || []).filter(quote => !pricedPeriods.some(period => isPriceListEffective(period, quote.quote_date)));
+};
+
+// Planning rows whose hours the change affects or which are billed at the changed rate
+const fetchAffectedDetails = async (change: CatalogChange, quoteIds: string[]) => {
+  if (change.kind === "area_costs") return [];
+
+  let query = supabase
+    .from("planning_details")
+    .select("quote_id, resource_id, allocated_hours")
+    .in("quote_id", quoteIds);
+
+  if (change.kind === "resource_rate") {
+    query = query.eq("resource_id", change.resourceId);
+  } else {
+    query = query.eq("plan_id", change.planId);
+    query = change.machineTypeId !== null
+      ? query.eq("machine_types_id", change.machineTypeId)
+      : query.eq("software_types_id", change.softwareTypeId as number);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Resource the sync assigns to planning rows it creates for an offer (the newest requirement)
+const fetchRequirementResource = async (change: CatalogChange): Promise<number | null> => {
+  if (change.kind !== "training_offer") return null;
+
+  const { data, error } = change.machineTypeId !== null
+    ? await supabase
+        .from("machine_training_requirements")
+        .select("resource_id")
+        .eq("machine_type_id", change.machineTypeId)
+        .eq("plan_id", change.planId)
+        .order("id", { ascending: false })
+        .limit(1)
+    : await supabase
+        .from("software_training_requirements")
+        .select("resource_id")
+        .eq("software_type_id", change.softwareTypeId as number)
+        .eq("plan_id", change.planId)
+        .order("id", { ascending: false })
+        .limit(1);
+
+  if (error) throw error;
+  return data?.[0]?.resource_id ?? null;
+};
+
+/**
+ * Dry run of a catalog change against the saved quotes, and applying it to the ones the admin picks.
+ * Hours come from planning_details, costs from the totals saved on checkout (quote_totals).
+ */
+export const useCatalogImpact = () => {
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const previewChange = async (change: CatalogChange): Promise<QuoteImpact[] | null> => {
+    try {
+      setLoading(true);
+
+      const quotes = await fetchAffectedQuotes(change);
+      if (quotes.length === 0) return [];
+
+      const quoteIds = quotes.map(quote => quote.quote_id);
+      const [details, requirementResourceId, { data: totalsRows, error: totalsError }] = await Promise.all([
+        fetchAffectedDetails(change, quoteIds),
+        fetchRequirementResource(change),
+        supabase.from("quote_totals").select("*").in("quote_id", quoteIds).order("plan_id"),
+      ]);
+
+      if (totalsError) throw totalsError;
+
+      return quotes.map((quote): QuoteImpact => {
+        const quoteDetails = details.filter(detail => detail.quote_id === quote.quote_id);
+        const oldHours = quoteDetails.reduce((total, detail) => total + detail.allocated_hours, 0);
+        let newHours: number | null = change.kind === "area_costs" ? null : oldHours;
+
+        // Hours added or removed per resource; the sync creates the row when the quote has none yet
+        const hourDeltas = new Map<number, number>();
+        if (change.kind === "training_offer") {
+          const rows = quoteDetails.length > 0
+            ? quoteDetails
+            : [{ resource_id: requirementResourceId, allocated_hours: 0 }];
+          rows.forEach(row => {
+            if (row.resource_id === null) return;
+            const delta = change.hoursRequired - row.allocated_hours;
+            hourDeltas.set(row.resource_id, (hourDeltas.get(row.resource_id) ?? 0) + delta);
+          });
+          newHours = change.hoursRequired * rows.length;
+        }
+
+        const savedPlans: SavedPlanTotals[] = (totalsRows || [])
+          .filter(row => row.quote_id === quote.quote_id)
+          .map(({ resource_breakdown, ...row }) => ({
+            ...row,
+            resources: (resource_breakdown ?? []) as unknown as ResourceTotalsSnapshot[],
+          }));
+        const plans = savedPlans.map(plan => repricePlanTotals(plan, change, hourDeltas));
+        const sumCost = (rows: SavedPlanTotals[]) => rows.reduce((total, plan) => total + plan.total_cost, 0);
+
+        return {
+          quoteId: quote.quote_id,
+          quoteName: quote.quote_name,
+          status: quote.status as QuoteStatus,
+          currency: savedPlans[0]?.currency ?? quote.currency, // Saved totals keep the currency they were priced in
+          oldHours: change.kind === "area_costs" ? null : oldHours,
+          newHours,
+          oldCost: savedPlans.length > 0 ? sumCost(savedPlans) : null,
+          newCost: plans.length > 0 ? sumCost(plans) : null,
+          plans,
+        };
+      });
+    } catch (err) {
+      console.error("Error previewing catalog change:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to preview the change");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Call after the catalog row is saved: re-syncs planning (offer changes) and rewrites the saved totals
+  const applyChange = async (change: CatalogChange, impacts: QuoteImpact[]) => {
+    if (impacts.length === 0) return true;
+
+    try {
+      const { error } = await supabase.rpc("apply_catalog_change", {
+        quote_ids_param: impacts.map(impact => impact.quoteId),
+        sync_planning_param: change.kind === "training_offer",
+        totals_param: toQuoteTotalsRows(impacts),
+      });
+
+      if (error) throw error;
+
+      toast.success(`Change applied to ${impacts.length} quote(s)`);
+      return true;
+    } catch (err) {
+      console.error("Error applying catalog change:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to apply the change to quotes");
+      return false;
+    }
+  };
+
+  return {
+    loading,
+    previewChange,
+    applyChange
+  };
+};
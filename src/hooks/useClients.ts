@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Json } from "@/integrations/supabase/types";
+
+export interface ClientContact {
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface Client {
+  client_id: number;
+  company_name: string;
+  billing_address: string | null;
+  site_address: string | null;
+  country_code: string | null;
+  vat_id: string | null;
+  contacts: ClientContact[];
+  default_area_id: number | null;
+  default_currency: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ClientInput = Omit<Client, "client_id" | "created_at" | "updated_at">;
+
+/**
+ * The client columns stored on a quote when it is linked to a client. The name, country and
+ * VAT id are copied so the quote keeps its tax treatment if the client record changes later.
+ */
+export const toQuoteClientFields = (client: Client | null) => ({
+  client_id: client?.client_id ?? null,
+  client_name: client?.company_name ?? null,
+  client_country: client?.country_code ?? null,
+  client_vat_id: client?.vat_id ?? null,
+});
+
+export const useClients = () => {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClients = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("clients")
+        .select("*")
+        .order("company_name");
+
+      if (error) throw error;
+
+      setClients((data || []) as unknown as Client[]);
+    } catch (err) {
+      console.error("Error fetching clients:", err);
+      setError(err instanceof Error ? err.message : "Failed to load clients");
+      toast.error("Failed to load clients");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Creates the client when no id is given
+  const saveClient = async (client: ClientInput, clientId?: number) => {
+    try {
+      const row = {
+        ...client,
+        contacts: client.contacts as unknown as Json,
+        updated_at: new Date().toISOString(),
+      };
+      const { error } = clientId
+        ? await supabase.from("clients").update(row).eq("client_id", clientId)
+        : await supabase.from("clients").insert(row);
+
+      if (error) throw error;
+
+      await fetchClients();
+      return true;
+    } catch (err) {
+      console.error("Error saving client:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save client");
+      return false;
+    }
+  };
+
+  // Quotes of a deleted client keep their copied name but lose the link
+  const deleteClient = async (clientId: number) => {
+    try {
+      const { error } = await supabase
+        .from("clients")
+        .delete()
+        .eq("client_id", clientId);
+
+      if (error) throw error;
+
+      setClients(prev => prev.filter(c => c.client_id !== clientId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting client:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete client");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchClients();
+  }, [fetchClients]);
+
+  return {
+    clients,
+    loading,
+    error,
+    fetchClients,
+    saveClient,
+    deleteClient
+  };
+};
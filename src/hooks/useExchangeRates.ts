@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { ExchangeRate } from "@/utils/currency";
+
+export type ExchangeRateInput = Pick<ExchangeRate, "currency" | "rate" | "effective_date">;
+
+export const useExchangeRates = () => {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("*")
+        .order("currency")
+        .order("effective_date", { ascending: false });
+
+      if (error) throw error;
+
+      setRates(data || []);
+    } catch (err) {
+      console.error("Error fetching exchange rates:", err);
+      setError(err instanceof Error ? err.message : "Failed to load exchange rates");
+      toast.error("Failed to load exchange rates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // One rate per currency and effective date: saving the same date again replaces the rate
+  const saveRate = async (rate: ExchangeRateInput) => {
+    try {
+      const { error } = await supabase
+        .from("exchange_rates")
+        .upsert(rate, { onConflict: "org_id,currency,effective_date" });
+
+      if (error) throw error;
+
+      await fetchRates();
+      return true;
+    } catch (err) {
+      console.error("Error saving exchange rate:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save exchange rate");
+      return false;
+    }
+  };
+
+  const deleteRate = async (rateId: number) => {
+    try {
+      const { error } = await supabase
+        .from("exchange_rates")
+        .delete()
+        .eq("rate_id", rateId);
+
+      if (error) throw error;
+
+      setRates(prev => prev.filter(r => r.rate_id !== rateId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting exchange rate:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete exchange rate");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  return {
+    rates,
+    loading,
+    error,
+    fetchRates,
+    saveRate,
+    deleteRate
+  };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { OrgRole } from "@/utils/roles";
+
+/**
+ * Role of the signed-in user in their organization (null without one). Lighter than
+ * useOrganization for components that only need to check permissions.
+ */
+export const useOrgRole = () => {
+  const { user } = useAuth();
+  const [role, setRole] = useState<OrgRole | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    const fetchRole = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("organization_members")
+        .select("role")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) console.error("Error fetching organization role:", error);
+
+      if (!cancelled) {
+        setRole((data?.role as OrgRole | undefined) ?? null);
+        setLoading(false);
+      }
+    };
+
+    fetchRole();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return { role, loading };
+};
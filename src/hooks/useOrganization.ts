@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { OrgRole } from "@/utils/roles";
+
+export interface Organization {
+  org_id: string;
+  name: string;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  role: OrgRole;
+  joined_at: string;
+}
+
+// Full name when the profile has one, otherwise the email
+export const getMemberName = (member: OrganizationMember): string =>
+  [member.first_name, member.last_name].filter(Boolean).join(" ") || member.email;
+
+/**
+ * The signed-in user's organization, their role in it and its members.
+ * Membership changes go through RPCs that check the caller is an admin.
+ */
+export const useOrganization = () => {
+  const { user } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [role, setRole] = useState<OrgRole | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrganization = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data: membership, error: membershipError } = await supabase
+        .from("organization_members")
+        .select("role, organizations(org_id, name)")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (membershipError) throw membershipError;
+
+      if (!membership?.organizations) {
+        setOrganization(null);
+        setRole(null);
+        setMembers([]);
+        return;
+      }
+
+      const { data: memberRows, error: membersError } = await supabase.rpc("get_organization_members");
+
+      if (membersError) throw membersError;
+
+      setOrganization(membership.organizations);
+      setRole(membership.role as OrgRole);
+      setMembers((memberRows || []) as OrganizationMember[]);
+    } catch (err) {
+      console.error("Error fetching organization:", err);
+      setError(err instanceof Error ? err.message : "Failed to load organization");
+      toast.error("Failed to load organization");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const createOrganization = async (name: string) => {
+    try {
+      const { error } = await supabase.rpc("create_organization", { name_param: name });
+
+      if (error) throw error;
+
+      await fetchOrganization();
+      return true;
+    } catch (err) {
+      console.error("Error creating organization:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to create organization");
+      return false;
+    }
+  };
+
+  // The user must already have signed up and must not belong to another organization
+  const addMember = async (email: string, memberRole: OrgRole) => {
+    try {
+      const { error } = await supabase.rpc("add_organization_member", {
+        email_param: email,
+        role_param: memberRole,
+      });
+
+      if (error) throw error;
+
+      await fetchOrganization();
+      return true;
+    } catch (err) {
+      console.error("Error adding member:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to add member");
+      return false;
+    }
+  };
+
+  const updateMemberRole = async (userId: string, memberRole: OrgRole) => {
+    try {
+      const { error } = await supabase.rpc("set_organization_member_role", {
+        user_id_param: userId,
+        role_param: memberRole,
+      });
+
+      if (error) throw error;
+
+      setMembers(prev => prev.map(m => (m.user_id === userId ? { ...m, role: memberRole } : m)));
+      if (userId === user?.id) setRole(memberRole);
+      return true;
+    } catch (err) {
+      console.error("Error updating member role:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to update role");
+      return false;
+    }
+  };
+
+  // Removing yourself leaves the organization
+  const removeMember = async (userId: string) => {
+    try {
+      const { error } = await supabase.rpc("remove_organization_member", { user_id_param: userId });
+
+      if (error) throw error;
+
+      if (userId === user?.id) {
+        await fetchOrganization();
+      } else {
+        setMembers(prev => prev.filter(m => m.user_id !== userId));
+      }
+      return true;
+    } catch (err) {
+      console.error("Error removing member:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to remove member");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  return {
+    organization,
+    role,
+    members,
+    loading,
+    error,
+    fetchOrganization,
+    createOrganization,
+    addMember,
+    updateMemberRole,
+    removeMember
+  };
+};
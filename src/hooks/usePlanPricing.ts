@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { PlanPricingAdjustments } from "@/utils/pricing";
+
+export interface PlanPricing {
+  pricing_id: number;
+  quote_id: string;
+  plan_id: number;
+  margin_percent: number;
+  line_discounts: Record<number, number>; // Discount percent keyed by resource_id
+  override_price: number | null; // In the quote currency
+  override_reason: string | null;
+  updated_at: string;
+}
+
+export type PlanPricingInput = Pick<PlanPricing, "margin_percent" | "line_discounts" | "override_price" | "override_reason">;
+
+// Shape calculateSellPrice expects; no saved pricing means selling at cost
+export const toPricingAdjustments = (pricing: PlanPricing | null): PlanPricingAdjustments => ({
+  marginPercent: pricing?.margin_percent ?? 0,
+  lineDiscounts: pricing?.line_discounts ?? {},
+  overridePrice: pricing?.override_price ?? null,
+});
+
+export const usePlanPricing = (quoteId: string | undefined, planId: number | null) => {
+  const [pricing, setPricing] = useState<PlanPricing | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPricing = useCallback(async () => {
+    if (!quoteId || typeof planId !== "number") {
+      setPricing(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("quote_plan_pricing")
+        .select("*")
+        .eq("quote_id", quoteId)
+        .eq("plan_id", planId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setPricing(data ? { ...data, line_discounts: (data.line_discounts ?? {}) as unknown as Record<number, number> } : null);
+    } catch (err) {
+      console.error("Error fetching plan pricing:", err);
+      setError(err instanceof Error ? err.message : "Failed to load plan pricing");
+      toast.error("Failed to load plan pricing");
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId, planId]);
+
+  const savePricing = async (input: PlanPricingInput) => {
+    if (!quoteId || typeof planId !== "number") return false;
+
+    if (input.override_price !== null && !input.override_reason?.trim()) {
+      toast.error("A reason is required when overriding the price");
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("quote_plan_pricing")
+        .upsert(
+          {
+            quote_id: quoteId,
+            plan_id: planId,
+            margin_percent: input.margin_percent,
+            line_discounts: input.line_discounts as unknown as Json,
+            override_price: input.override_price,
+            override_reason: input.override_price !== null ? input.override_reason?.trim() : null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "quote_id,plan_id" }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setPricing({ ...data, line_discounts: (data.line_discounts ?? {}) as unknown as Record<number, number> });
+      return true;
+    } catch (err) {
+      console.error("Error saving plan pricing:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save plan pricing");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchPricing();
+  }, [fetchPricing]);
+
+  return {
+    pricing,
+    loading,
+    error,
+    fetchPricing,
+    savePricing
+  };
+};
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { PriceList, PriceListAreaCost } from "@/utils/priceLists";
+
+export type AreaCostsInput = Omit<PriceListAreaCost, "area_id">;
+
+export const usePriceLists = () => {
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPriceLists = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("price_lists")
+        .select(`
+          *,
+          price_list_resource_rates (resource_id, hourly_rate),
+          price_list_area_costs (area_id, daily_accommodation_food_cost, daily_allowance, daily_pocket_money)
+        `)
+        .order("valid_from", { ascending: false });
+
+      if (error) throw error;
+
+      setPriceLists((data || []).map(({ price_list_resource_rates, price_list_area_costs, ...list }) => ({
+        ...list,
+        resource_rates: price_list_resource_rates,
+        area_costs: price_list_area_costs,
+      })));
+    } catch (err) {
+      console.error("Error fetching price lists:", err);
+      setError(err instanceof Error ? err.message : "Failed to load price lists");
+      toast.error("Failed to load price lists");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Closes the current list the day before validFrom and copies its prices, raised by increasePercent
+  const createPriceList = async (name: string, validFrom: string, increasePercent: number) => {
+    try {
+      const { error } = await supabase.rpc("create_price_list", {
+        name_param: name,
+        valid_from_param: validFrom,
+        increase_percent_param: increasePercent,
+      });
+
+      if (error) throw new Error(error.message);
+
+      await fetchPriceLists();
+      return true;
+    } catch (err) {
+      console.error("Error creating price list:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to create price list");
+      return false;
+    }
+  };
+
+  const saveResourceRate = async (priceListId: number, resourceId: number, hourlyRate: number) => {
+    try {
+      const { error } = await supabase
+        .from("price_list_resource_rates")
+        .upsert({ price_list_id: priceListId, resource_id: resourceId, hourly_rate: hourlyRate });
+
+      if (error) throw new Error(error.message);
+
+      setPriceLists(prev => prev.map(list => list.price_list_id !== priceListId ? list : {
+        ...list,
+        resource_rates: [
+          ...list.resource_rates.filter(rate => rate.resource_id !== resourceId),
+          { resource_id: resourceId, hourly_rate: hourlyRate },
+        ],
+      }));
+      return true;
+    } catch (err) {
+      console.error("Error saving price list rate:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save rate");
+      return false;
+    }
+  };
+
+  const saveAreaCosts = async (priceListId: number, areaId: number, costs: AreaCostsInput) => {
+    try {
+      const { error } = await supabase
+        .from("price_list_area_costs")
+        .upsert({ price_list_id: priceListId, area_id: areaId, ...costs });
+
+      if (error) throw new Error(error.message);
+
+      setPriceLists(prev => prev.map(list => list.price_list_id !== priceListId ? list : {
+        ...list,
+        area_costs: [
+          ...list.area_costs.filter(cost => cost.area_id !== areaId),
+          { area_id: areaId, ...costs },
+        ],
+      }));
+      return true;
+    } catch (err) {
+      console.error("Error saving price list area costs:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save area costs");
+      return false;
+    }
+  };
+
+  // Deleting the newest list reopens the one before it
+  const deletePriceList = async (priceListId: number) => {
+    try {
+      const { error } = await supabase.rpc("delete_price_list", { price_list_id_param: priceListId });
+
+      if (error) throw new Error(error.message);
+
+      await fetchPriceLists();
+      return true;
+    } catch (err) {
+      console.error("Error deleting price list:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete price list");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchPriceLists();
+  }, [fetchPriceLists]);
+
+  return {
+    priceLists,
+    loading,
+    error,
+    fetchPriceLists,
+    createPriceList,
+    saveResourceRate,
+    saveAreaCosts,
+    deletePriceList
+  };
+};
@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+// Another member with the quote open, and the field they are editing (a soft lock)
+export interface QuoteCollaborator {
+  userId: string;
+  name: string;
+  avatarUrl: string | null;
+  editingField: string | null;
+}
+
+interface QuoteRealtimeHandlers {
+  onQuoteChange?: () => void; // The quote row was saved by anyone, including this user
+  onPlanningChange?: () => void; // Planning details of the quote were created or updated
+}
+
+// Bursts of row events (a planning sync touches many rows) are reported once
+const CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * Live updates and presence for an open quote, over one Supabase channel per quote.
+ * Deletes of planning details can't be filtered by quote, but they follow a selection change on the
+ * quote row, so views refreshing on onQuoteChange pick them up.
+ */
+export const useQuoteRealtime = (quoteId: string | undefined, handlers: QuoteRealtimeHandlers = {}) => {
+  const { user } = useAuth();
+  const [collaborators, setCollaborators] = useState<QuoteCollaborator[]>([]);
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [subscribed, setSubscribed] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const userId = user?.id;
+  const name = [user?.user_metadata?.first_name, user?.user_metadata?.last_name].filter(Boolean).join(" ")
+    || user?.email?.split("@")[0]
+    || "Unknown";
+  const avatarUrl: string | null = user?.user_metadata?.avatar_url || null;
+
+  useEffect(() => {
+    if (!quoteId || !userId) return;
+
+    const timers: Record<string, ReturnType<typeof setTimeout>> = {};
+    const notify = (handler: keyof QuoteRealtimeHandlers) => {
+      clearTimeout(timers[handler]);
+      timers[handler] = setTimeout(() => handlersRef.current[handler]?.(), CHANGE_DEBOUNCE_MS);
+    };
+
+    const channel = supabase.channel(`quote:${quoteId}`, { config: { presence: { key: userId } } });
+    channel
+      .on("postgres_changes", { event: "*", schema: "public", table: "quotes", filter: `quote_id=eq.${quoteId}` }, () => notify("onQuoteChange"))
+      .on("postgres_changes", { event: "*", schema: "public", table: "planning_details", filter: `quote_id=eq.${quoteId}` }, () => notify("onPlanningChange"))
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<QuoteCollaborator>();
+        // One entry per member, even with the quote open in several tabs
+        setCollaborators(Object.entries(state)
+          .filter(([key]) => key !== userId)
+          .map(([, sessions]) => sessions.find(session => session.editingField) ?? sessions[0])
+          .map(({ userId, name, avatarUrl, editingField }) => ({ userId, name, avatarUrl, editingField })));
+      })
+      .subscribe(status => setSubscribed(status === "SUBSCRIBED"));
+    channelRef.current = channel;
+
+    return () => {
+      Object.values(timers).forEach(clearTimeout);
+      channelRef.current = null;
+      setSubscribed(false);
+      setCollaborators([]);
+      supabase.removeChannel(channel);
+    };
+  }, [quoteId, userId]);
+
+  // Announce this user, and the field they are editing, to the others
+  useEffect(() => {
+    if (!subscribed || !userId) return;
+    const presence: QuoteCollaborator = { userId, name, avatarUrl, editingField };
+    channelRef.current?.track(presence);
+  }, [subscribed, userId, name, avatarUrl, editingField]);
+
+  // The member editing a field, if anyone else is
+  const getFieldLock = useCallback((field: string) =>
+    collaborators.find(collaborator => collaborator.editingField === field) ?? null, [collaborators]);
+
+  // Focus handlers that hold the soft lock on a field while it has focus
+  const lockField = useCallback((field: string) => ({
+    onFocus: () => setEditingField(field),
+    onBlur: () => setEditingField(current => current === field ? null : current),
+  }), []);
+
+  return {
+    collaborators,
+    editingField,
+    setEditingField,
+    getFieldLock,
+    lockField
+  };
+};
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { QuoteRevisionSnapshot } from "@/utils/revisionDiff";
+
+export interface QuoteRevision {
+  revision_id: number;
+  quote_id: string;
+  revision_number: number;
+  label: string | null;
+  parent_revision_id: number | null;
+  snapshot: QuoteRevisionSnapshot;
+  created_by_user_id: string | null;
+  created_at: string;
+}
+
+export const useQuoteRevisions = (quoteId: string | undefined) => {
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [basedOnRevisionId, setBasedOnRevisionId] = useState<number | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!quoteId) {
+      setRevisions([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [{ data, error }, { data: quote, error: quoteError }] = await Promise.all([
+        supabase
+          .from("quote_revisions")
+          .select("*")
+          .eq("quote_id", quoteId)
+          .order("revision_number", { ascending: false }),
+        supabase
+          .from("quotes")
+          .select("based_on_revision_id")
+          .eq("quote_id", quoteId)
+          .single(),
+      ]);
+
+      if (error) throw error;
+      if (quoteError) throw quoteError;
+
+      setRevisions((data || []).map(row => ({ ...row, snapshot: row.snapshot as unknown as QuoteRevisionSnapshot })));
+      setBasedOnRevisionId(quote?.based_on_revision_id ?? null);
+    } catch (err) {
+      console.error("Error fetching quote revisions:", err);
+      setError(err instanceof Error ? err.message : "Failed to load revisions");
+      toast.error("Failed to load revisions");
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId]);
+
+  // Snapshot is taken server-side so selections, planning and totals are read consistently
+  const createRevision = async (label: string | null) => {
+    if (!quoteId) return false;
+
+    try {
+      const { error } = await supabase.rpc("create_quote_revision", {
+        quote_id_param: quoteId,
+        label_param: label || undefined,
+      });
+
+      if (error) throw error;
+
+      await fetchRevisions();
+      return true;
+    } catch (err) {
+      console.error("Error creating quote revision:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save revision");
+      return false;
+    }
+  };
+
+  // Restores an old revision as the working draft (the current state is saved as a revision first)
+  const branchFromRevision = async (revisionId: number) => {
+    try {
+      const { error } = await supabase.rpc("branch_quote_revision", {
+        revision_id_param: revisionId,
+      });
+
+      if (error) throw error;
+
+      await fetchRevisions();
+      return true;
+    } catch (err) {
+      console.error("Error branching quote revision:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to branch from revision");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  return {
+    revisions,
+    basedOnRevisionId,
+    loading,
+    error,
+    fetchRevisions,
+    createRevision,
+    branchFromRevision
+  };
+};
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { QuoteStatus } from "@/utils/quoteStatus";
+
+export interface QuoteStatusChange {
+  history_id: number;
+  quote_id: string;
+  from_status: QuoteStatus;
+  to_status: QuoteStatus;
+  comment: string | null;
+  changed_by_user_id: string | null;
+  changed_at: string;
+}
+
+export const useQuoteStatus = (quoteId: string | undefined) => {
+  const [status, setStatus] = useState<QuoteStatus>("draft");
+  const [history, setHistory] = useState<QuoteStatusChange[]>([]);
+  const [approvalTotal, setApprovalTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    if (!quoteId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [{ data: quote, error: quoteError }, { data, error }, { data: total, error: totalError }] = await Promise.all([
+        supabase
+          .from("quotes")
+          .select("status")
+          .eq("quote_id", quoteId)
+          .single(),
+        supabase
+          .from("quote_status_history")
+          .select("*")
+          .eq("quote_id", quoteId)
+          .order("changed_at", { ascending: false }),
+        // Same total the database checks the approval threshold against
+        supabase.rpc("quote_approval_total", { quote_id_param: quoteId }),
+      ]);
+
+      if (quoteError) throw quoteError;
+      if (error) throw error;
+      if (totalError) throw totalError;
+
+      setStatus(quote.status as QuoteStatus);
+      setHistory((data || []) as QuoteStatusChange[]);
+      setApprovalTotal(total ?? 0);
+    } catch (err) {
+      console.error("Error fetching quote status:", err);
+      setError(err instanceof Error ? err.message : "Failed to load quote status");
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId]);
+
+  // The transition rules (and the manager check) are enforced by the database function
+  const changeStatus = async (toStatus: QuoteStatus, comment?: string) => {
+    if (!quoteId) return false;
+
+    try {
+      const { error } = await supabase.rpc("transition_quote_status", {
+        quote_id_param: quoteId,
+        to_status_param: toStatus,
+        comment_param: comment?.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      await fetchStatus();
+      return true;
+    } catch (err) {
+      console.error("Error changing quote status:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to change quote status");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  return {
+    status,
+    history,
+    approvalTotal,
+    loading,
+    error,
+    fetchStatus,
+    changeStatus
+  };
+};
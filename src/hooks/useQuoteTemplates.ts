@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+// What a template carries over into a new quote (see build_quote_template_content)
+export interface QuoteTemplateContent {
+  area_id: number | null;
+  currency: string;
+  work_on_saturday: boolean | null;
+  work_on_sunday: boolean | null;
+  daily_hours_override: number | null;
+  machine_type_ids: number[];
+  software_type_ids: number[];
+  planning_details: unknown[];
+  trainee_groups: unknown[];
+}
+
+export interface QuoteTemplate {
+  template_id: number;
+  template_name: string;
+  description: string | null;
+  content: QuoteTemplateContent;
+  created_by_user_id: string | null;
+  created_at: string;
+}
+
+export const useQuoteTemplates = () => {
+  const [templates, setTemplates] = useState<QuoteTemplate[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("quote_templates")
+        .select("*")
+        .order("template_name");
+
+      if (error) throw error;
+
+      setTemplates((data || []) as unknown as QuoteTemplate[]);
+    } catch (err) {
+      console.error("Error fetching quote templates:", err);
+      setError(err instanceof Error ? err.message : "Failed to load quote templates");
+      toast.error("Failed to load quote templates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const saveTemplate = async (quoteId: string, templateName: string, description?: string) => {
+    try {
+      const { error } = await supabase.rpc("save_quote_template", {
+        quote_id_param: quoteId,
+        template_name_param: templateName,
+        description_param: description?.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      await fetchTemplates();
+      return true;
+    } catch (err) {
+      console.error("Error saving quote template:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save quote template");
+      return false;
+    }
+  };
+
+  const deleteTemplate = async (templateId: number) => {
+    try {
+      const { error } = await supabase
+        .from("quote_templates")
+        .delete()
+        .eq("template_id", templateId);
+
+      if (error) throw error;
+
+      setTemplates(prev => prev.filter(t => t.template_id !== templateId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting quote template:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete quote template");
+      return false;
+    }
+  };
+
+  // Returns the id of the new quote, or null when it could not be created
+  const createQuoteFromTemplate = async (
+    templateId: number,
+    quoteName: string,
+    clientName?: string,
+    areaId?: number
+  ) => {
+    try {
+      const { data, error } = await supabase.rpc("create_quote_from_template", {
+        template_id_param: templateId,
+        quote_name_param: quoteName,
+        client_name_param: clientName || undefined,
+        area_id_param: areaId,
+      });
+
+      if (error) throw error;
+
+      return data;
+    } catch (err) {
+      console.error("Error creating quote from template:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to create quote from template");
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  return {
+    templates,
+    loading,
+    error,
+    fetchTemplates,
+    saveTemplate,
+    deleteTemplate,
+    createQuoteFromTemplate
+  };
+};
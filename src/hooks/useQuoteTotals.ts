@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { PlanCostBreakdown, PlanSellPrice } from "@/utils/pricing";
+import { TaxTreatment, applyTax } from "@/utils/tax";
+import { BASE_CURRENCY } from "@/utils/currency";
+import { getDateForScheduleDay } from "@/utils/scheduleTasks";
+import { format } from "date-fns";
+
+// Per-resource line of a plan snapshot (stored in quote_totals.resource_breakdown)
+export interface ResourceTotalsSnapshot {
+  resource_id: number;
+  resource_name: string;
+  hourly_rate: number;
+  daily_hour_limit: number;
+  training_hours: number;
+  training_days: number;
+  business_trip_days: number;
+  training_cost: number;
+  travel_cost: number;
+  discount_percent: number;
+  sell_price: number;
+}
+
+// Costs of one plan as shown on the checkout page
+export interface PlanTotalsSnapshot {
+  plan_id: number;
+  plan_name: string;
+  training_cost: number;
+  travel_cost: number;
+  total_cost: number;
+  margin_percent: number;
+  discount_total: number;
+  sell_price: number; // What the client is quoted (after margin, discounts or override)
+  override_reason: string | null;
+  tax_rate: number; // Percent applied to the sell price (0 under reverse charge)
+  tax_amount: number;
+  gross_price: number;
+  reverse_charge: boolean;
+  training_days: number;
+  business_trip_days: number;
+  start_date: string | null; // First travel day, only known with a project start date
+  end_date: string | null;
+  resources: ResourceTotalsSnapshot[];
+}
+
+export interface QuoteTotals extends PlanTotalsSnapshot {
+  quote_totals_id: number;
+  quote_id: string;
+  area_id: number | null;
+  currency: string;
+  exchange_rate: number; // Rate from the base currency used for the amounts
+  saved_by_user_id: string | null;
+  saved_at: string;
+}
+
+// Snapshot shape of a plan's pricing breakdown (travel dates only with a project start date)
+export const toPlanTotalsSnapshot = (
+  plan: { plan_id: number; name: string },
+  costs: PlanCostBreakdown,
+  sell: PlanSellPrice,
+  overrideReason: string | null,
+  tax: TaxTreatment,
+  projectStartDate: string | null | undefined
+): PlanTotalsSnapshot => {
+  const taxed = applyTax(sell.sellPrice, tax);
+  const toIsoDate = (day: number | null) => {
+    const date = day !== null ? getDateForScheduleDay(projectStartDate, day) : null;
+    return date ? format(date, "yyyy-MM-dd") : null;
+  };
+  return {
+    plan_id: plan.plan_id,
+    plan_name: plan.name,
+    training_cost: costs.trainingTotal,
+    travel_cost: costs.businessTripTotal,
+    total_cost: costs.grandTotal,
+    margin_percent: sell.marginPercent,
+    discount_total: sell.discountTotal,
+    sell_price: sell.sellPrice,
+    override_reason: sell.isOverridden ? overrideReason : null,
+    tax_rate: taxed.taxRate,
+    tax_amount: taxed.tax,
+    gross_price: taxed.gross,
+    reverse_charge: tax.reverseCharge,
+    training_days: costs.trainingDays,
+    business_trip_days: costs.businessTripDays,
+    start_date: toIsoDate(costs.tripStart),
+    end_date: toIsoDate(costs.tripEnd),
+    resources: costs.resources.map((resource, index) => ({
+      resource_id: resource.resourceId,
+      resource_name: resource.resourceName,
+      hourly_rate: resource.hourlyRate,
+      daily_hour_limit: resource.dailyHourLimit,
+      training_hours: resource.totalHours,
+      training_days: resource.trainingDaysCount,
+      business_trip_days: resource.businessTripDays,
+      training_cost: resource.trainingCost,
+      travel_cost: resource.tripCosts.total,
+      discount_percent: sell.lines[index].discountPercent,
+      sell_price: sell.lines[index].sellPrice,
+    })),
+  };
+};
+
+export const useQuoteTotals = (quoteId: string | undefined) => {
+  const [totals, setTotals] = useState<QuoteTotals[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTotals = useCallback(async () => {
+    if (!quoteId) {
+      setTotals([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("quote_totals")
+        .select("*")
+        .eq("quote_id", quoteId)
+        .order("plan_id");
+
+      if (error) throw error;
+
+      setTotals((data || []).map(({ resource_breakdown, ...row }) => ({
+        ...row,
+        resources: (resource_breakdown ?? []) as unknown as ResourceTotalsSnapshot[],
+      })));
+    } catch (err) {
+      console.error("Error fetching quote totals:", err);
+      setError(err instanceof Error ? err.message : "Failed to load quote totals");
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId]);
+
+  // Replace the quote's snapshot: one row per plan, plans no longer present are removed
+  const saveTotals = async (
+    plans: PlanTotalsSnapshot[],
+    areaId: number | null,
+    userId: string | null,
+    currency: string = BASE_CURRENCY,
+    exchangeRate = 1
+  ) => {
+    if (!quoteId) return false;
+
+    try {
+      const savedAt = new Date().toISOString();
+      if (plans.length > 0) {
+        const { error: upsertError } = await supabase
+          .from("quote_totals")
+          .upsert(
+            plans.map(({ resources, ...plan }) => ({
+              ...plan,
+              quote_id: quoteId,
+              area_id: areaId,
+              currency,
+              exchange_rate: exchangeRate,
+              resource_breakdown: resources as unknown as Json,
+              saved_by_user_id: userId,
+              saved_at: savedAt,
+            })),
+            { onConflict: "quote_id,plan_id" }
+          );
+
+        if (upsertError) throw upsertError;
+      }
+
+      let staleQuery = supabase
+        .from("quote_totals")
+        .delete()
+        .eq("quote_id", quoteId);
+      if (plans.length > 0) staleQuery = staleQuery.not("plan_id", "in", `(${plans.map(plan => plan.plan_id).join(",")})`);
+      const { error: deleteError } = await staleQuery;
+
+      if (deleteError) throw deleteError;
+
+      await fetchTotals();
+      return true;
+    } catch (err) {
+      console.error("Error saving quote totals:", err);
+      setError(err instanceof Error ? err.message : "Failed to save quote totals");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchTotals();
+  }, [fetchTotals]);
+
+  return {
+    totals,
+    loading,
+    error,
+    fetchTotals,
+    saveTotals
+  };
+};
@@ -3,96 +3,168 @@ import { useEffect, useState, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
+import { QuoteStatus } from "@/utils/quoteStatus";
+import {
+  QUOTE_PAGE_SIZE,
+  QuoteCursor,
+  QuoteFilters,
+  buildCursorFilter,
+  buildSearchFilter,
+  getSortColumn,
+} from "@/utils/quoteSearch";
 
 export type Quote = {
   quote_id: string;
   quote_name: string;
+  client_id?: number;
   client_name?: string;
   area_id?: number;
   area_name?: string;
+  currency: string;
+  status: QuoteStatus;
+  created_by_user_id: string; // Owner
+  assigned_to_user_id?: string; // Salesperson
+  quoted_total?: number; // Sum of the plan sell prices saved on checkout
+  quoted_currency?: string; // Currency of that snapshot (the quote currency at the time it was saved)
   created_at: string;
 };
 
-export const useQuotes = () => {
+// Search, status, scope and sort are applied by the database; grouping is done on the loaded page(s)
+export type QuoteQuery = Pick<QuoteFilters, "search" | "status" | "sort" | "scope">;
+
+// Row-level security limits the quotes to the user's organization
+export const useQuotes = ({ search, status, sort, scope }: QuoteQuery) => {
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [hasMore, setHasMore] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
-  const fetchInProgress = useRef<boolean>(false);
+  // Incremented by every new search; responses of older searches are dropped
+  const requestId = useRef<number>(0);
   const retryTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const retryCount = useRef<number>(0);
   const maxRetries = 3;
   const isMounted = useRef<boolean>(true);
 
+  // One page of quotes, starting after `cursor` (the first page when there is none)
+  const fetchPage = async (userId: string, cursor?: QuoteCursor): Promise<Quote[]> => {
+    const { column, ascending } = getSortColumn(sort);
+
+    let query = supabase
+      .from("quotes")
+      .select(`
+        quote_id,
+        quote_name,
+        client_id,
+        client_name,
+        created_at,
+        area_id,
+        currency,
+        status,
+        created_by_user_id,
+        assigned_to_user_id,
+        area_costs(area_name),
+        quote_totals(sell_price, currency)
+      `);
+
+    if (scope === "mine") {
+      query = query.eq("created_by_user_id", userId);
+    } else if (scope === "assigned") {
+      query = query.eq("assigned_to_user_id", userId);
+    }
+
+    if (status !== "all") {
+      query = query.eq("status", status);
+    }
+
+    const term = search.trim().replace(/[%_]/g, "");
+    if (term) {
+      const [{ data: areaRows, error: areaError }, { data: machineRows, error: machineError }] = await Promise.all([
+        supabase.from("area_costs").select("area_id").ilike("area_name", `%${term}%`),
+        supabase.from("machine_types").select("machine_type_id").ilike("name", `%${term}%`),
+      ]);
+
+      if (areaError) throw areaError;
+      if (machineError) throw machineError;
+
+      query = query.or(buildSearchFilter(
+        term,
+        (areaRows || []).map(row => row.area_id),
+        (machineRows || []).map(row => row.machine_type_id)
+      ));
+    }
+
+    if (cursor) {
+      query = query.or(buildCursorFilter(sort, cursor));
+    }
+
+    const { data, error } = await query
+      .order(column, { ascending })
+      .order("quote_id", { ascending })
+      .limit(QUOTE_PAGE_SIZE);
+
+    if (error) throw error;
+
+    // Transform the data to match our expected Quote type
+    return data ? data.map((item: any) => ({
+      quote_id: item.quote_id,
+      quote_name: item.quote_name,
+      client_id: item.client_id ?? undefined,
+      client_name: item.client_name,
+      area_id: item.area_id,
+      area_name: item.area_costs?.area_name,
+      currency: item.currency,
+      status: item.status,
+      created_by_user_id: item.created_by_user_id,
+      assigned_to_user_id: item.assigned_to_user_id ?? undefined,
+      quoted_total: item.quote_totals?.length
+        ? item.quote_totals.reduce((total: number, row: { sell_price: number }) => total + Number(row.sell_price), 0)
+        : undefined,
+      quoted_currency: item.quote_totals?.[0]?.currency,
+      created_at: item.created_at
+    })) : [];
+  };
+
   const fetchQuotes = async () => {
-    // Check if we should fetch quotes
-    if (fetchInProgress.current || !user || !isMounted.current) return;
-    
+    if (!user || !isMounted.current) return;
+
     // Clear any existing retry timeouts
     if (retryTimeout.current) {
       clearTimeout(retryTimeout.current);
       retryTimeout.current = null;
     }
 
+    const currentRequest = ++requestId.current;
     setLoading(true);
     setError(null);
-    fetchInProgress.current = true;
-    
+
     try {
-      console.log("Fetching quotes for user:", user.id);
-      
-      const { data, error } = await supabase
-        .from("quotes")
-        .select(`
-          quote_id,
-          quote_name,
-          client_name,
-          created_at,
-          area_id,
-          area_costs(area_name)
-        `)
-        .eq("created_by_user_id", user.id)
-        .order("created_at", { ascending: false });
-      
-      if (error) throw error;
-
-      console.log("Received quotes data:", data);
-
-      // Only update state if component is still mounted
-      if (isMounted.current) {
+      const page = await fetchPage(user.id);
+
+      // Only update state if component is still mounted and the filters haven't changed since
+      if (isMounted.current && currentRequest === requestId.current) {
         // Reset retry count on success
         retryCount.current = 0;
-
-        // Transform the data to match our expected Quote type
-        const formattedQuotes = data ? data.map((item: any) => ({
-          quote_id: item.quote_id,
-          quote_name: item.quote_name,
-          client_name: item.client_name,
-          area_id: item.area_id,
-          area_name: item.area_costs?.area_name,
-          created_at: item.created_at
-        })) : [];
-
-        console.log("Formatted quotes:", formattedQuotes);
-        setQuotes(formattedQuotes);
+        setQuotes(page);
+        setHasMore(page.length === QUOTE_PAGE_SIZE);
       }
     } catch (err: any) {
       console.error("Error fetching quotes:", err);
-      
-      // Only update state if component is still mounted
-      if (isMounted.current) {
+
+      if (isMounted.current && currentRequest === requestId.current) {
         setError(err.message || "Failed to load quotes");
-        
+
         // Implement retry with exponential backoff
         if (retryCount.current < maxRetries) {
           const backoffTime = Math.pow(2, retryCount.current) * 1000;
           retryCount.current++;
-          
+
           console.log(`Retrying in ${backoffTime}ms (Attempt ${retryCount.current}/${maxRetries})`);
-          
+
           retryTimeout.current = setTimeout(() => {
+            retryTimeout.current = null;
             if (isMounted.current) {
-              fetchInProgress.current = false;
               fetchQuotes();
             }
           }, backoffTime);
@@ -101,14 +173,34 @@ export const useQuotes = () => {
         }
       }
     } finally {
-      // Only reset fetchInProgress if we're not scheduling a retry and component is mounted
-      if (!retryTimeout.current && isMounted.current) {
-        fetchInProgress.current = false;
+      if (isMounted.current && currentRequest === requestId.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Appends the next page (infinite scroll)
+  const loadMore = async () => {
+    if (!user || loading || loadingMore || !hasMore || quotes.length === 0) return;
+
+    const { column } = getSortColumn(sort);
+    const last = quotes[quotes.length - 1];
+    const currentRequest = requestId.current;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchPage(user.id, { value: last[column], quoteId: last.quote_id });
+
+      if (isMounted.current && currentRequest === requestId.current) {
+        setQuotes(prev => [...prev, ...page]);
+        setHasMore(page.length === QUOTE_PAGE_SIZE);
       }
-      
-      // Only update loading state if component is still mounted
+    } catch (err) {
+      console.error("Error loading more quotes:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to load more quotes");
+    } finally {
       if (isMounted.current) {
-        setLoading(false);
+        setLoadingMore(false);
       }
     }
   };
@@ -116,28 +208,30 @@ export const useQuotes = () => {
   useEffect(() => {
     // Reset mount state on component mount
     isMounted.current = true;
-    
-    // Always fetch quotes when user is available
+    retryCount.current = 0;
+
+    // Fetch the first page whenever the user or the filters change
     if (user) {
-      console.log("User available, fetching quotes");
-      fetchInProgress.current = false; // Reset this flag to ensure fetch can proceed
       fetchQuotes();
     }
-    
+
     // Cleanup function
     return () => {
-      console.log("Component unmounting, cleaning up");
       isMounted.current = false;
       if (retryTimeout.current) {
         clearTimeout(retryTimeout.current);
+        retryTimeout.current = null;
       }
     };
-  }, [user]);
+  }, [user, search, status, sort, scope]);
 
   return {
     quotes,
     loading,
+    loadingMore,
+    hasMore,
     error,
-    fetchQuotes
+    fetchQuotes,
+    loadMore
   };
 };
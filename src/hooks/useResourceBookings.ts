@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { ScheduledTaskSegment } from "@/utils/types";
+import { ResourceBooking } from "@/utils/resourceCalendar";
+import { BOOKED_QUOTE_STATUSES } from "@/utils/quoteStatus";
+
+/**
+ * Bookings of the given resources on all *other* accepted quotes, the plan booked for this quote,
+ * and a writer that books one plan's dated schedule so the other quotes can see it.
+ */
+export const useResourceBookings = (quoteId: string | undefined, resourceIds: number[]) => {
+  const [bookings, setBookings] = useState<ResourceBooking[]>([]);
+  const [bookedPlanId, setBookedPlanId] = useState<number | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const resourceKey = Array.from(new Set(resourceIds)).sort((a, b) => a - b).join(",");
+
+  const fetchBookings = useCallback(async () => {
+    if (!quoteId || !resourceKey) {
+      setBookings([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("resource_bookings")
+        .select("quote_id, resource_id, start_date, end_date, quotes:quote_id!inner (quote_name, status)")
+        .neq("quote_id", quoteId)
+        .in("quotes.status", BOOKED_QUOTE_STATUSES)
+        .in("resource_id", resourceKey.split(",").map(Number));
+
+      if (error) throw error;
+
+      setBookings((data || []).map(row => ({
+        quoteId: row.quote_id,
+        quoteName: row.quotes?.quote_name || "Untitled quote",
+        resourceId: row.resource_id,
+        startDate: row.start_date,
+        endDate: row.end_date,
+      })));
+    } catch (err) {
+      // Availability is advisory, so no toast: the schedule itself still works
+      console.error("Error fetching resource bookings:", err);
+      setError(err instanceof Error ? err.message : "Failed to load resource availability");
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId, resourceKey]);
+
+  const fetchBookedPlanId = useCallback(async () => {
+    if (!quoteId) return;
+
+    const { data, error } = await supabase
+      .from("resource_bookings")
+      .select("plan_id")
+      .eq("quote_id", quoteId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching the booked plan:", error);
+      return;
+    }
+    setBookedPlanId(data?.plan_id ?? null);
+  }, [quoteId]);
+
+  // Replace this quote's bookings with the dated segments of one plan; without a plan they are cleared
+  const saveQuoteBookings = async (planId: number | null, segments: ScheduledTaskSegment[]) => {
+    if (!quoteId) return false;
+
+    try {
+      const rows = segments
+        .filter(segment => segment.start_date && segment.end_date)
+        .map(segment => ({
+          resource_id: segment.resource_id,
+          start_date: segment.start_date as string,
+          end_date: segment.end_date as string,
+          hours: segment.segment_hours,
+        }));
+
+      const { error } = await supabase.rpc("save_quote_bookings", {
+        quote_id_param: quoteId,
+        plan_id_param: planId ?? undefined,
+        bookings_param: rows,
+      });
+
+      if (error) throw new Error(error.message);
+
+      setBookedPlanId(planId);
+      return true;
+    } catch (err) {
+      console.error("Error saving resource bookings:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to book the resources");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  useEffect(() => {
+    fetchBookedPlanId();
+  }, [fetchBookedPlanId]);
+
+  return {
+    bookings,
+    bookedPlanId,
+    loading,
+    error,
+    fetchBookings,
+    saveQuoteBookings
+  };
+};
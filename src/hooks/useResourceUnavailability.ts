@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { UnavailabilityConstraint } from "@/utils/scheduleTasks";
+
+export interface ResourceUnavailability {
+  unavailability_id: number;
+  resource_id: number;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export type ResourceUnavailabilityInput = Pick<ResourceUnavailability, "start_date" | "end_date" | "reason">;
+
+// Shape the scheduler expects in ScheduleOptions.unavailability
+export const toUnavailabilityConstraints = (periods: ResourceUnavailability[]): UnavailabilityConstraint[] =>
+  periods.map(period => ({
+    resourceId: period.resource_id,
+    startDate: period.start_date,
+    endDate: period.end_date,
+  }));
+
+/**
+ * Blocked periods of one resource, or of all resources when resourceId is undefined.
+ * Pass null to load nothing (e.g. while a modal is closed).
+ */
+export const useResourceUnavailability = (resourceId?: number | null) => {
+  const [periods, setPeriods] = useState<ResourceUnavailability[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPeriods = useCallback(async () => {
+    if (resourceId === null) {
+      setPeriods([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      let query = supabase
+        .from("resource_unavailability")
+        .select("*")
+        .order("start_date");
+      if (resourceId !== undefined) query = query.eq("resource_id", resourceId);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setPeriods(data || []);
+    } catch (err) {
+      console.error("Error fetching resource unavailability:", err);
+      setError(err instanceof Error ? err.message : "Failed to load unavailable periods");
+      toast.error("Failed to load unavailable periods");
+    } finally {
+      setLoading(false);
+    }
+  }, [resourceId]);
+
+  const addPeriod = async (period: ResourceUnavailabilityInput) => {
+    if (typeof resourceId !== "number") return false;
+
+    try {
+      const { error } = await supabase
+        .from("resource_unavailability")
+        .insert({ ...period, resource_id: resourceId });
+
+      if (error) throw error;
+
+      await fetchPeriods();
+      return true;
+    } catch (err) {
+      console.error("Error adding unavailable period:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to add unavailable period");
+      return false;
+    }
+  };
+
+  const deletePeriod = async (unavailabilityId: number) => {
+    try {
+      const { error } = await supabase
+        .from("resource_unavailability")
+        .delete()
+        .eq("unavailability_id", unavailabilityId);
+
+      if (error) throw error;
+
+      setPeriods(prev => prev.filter(p => p.unavailability_id !== unavailabilityId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting unavailable period:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete unavailable period");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchPeriods();
+  }, [fetchPeriods]);
+
+  return {
+    periods,
+    loading,
+    error,
+    fetchPeriods,
+    addPeriod,
+    deletePeriod
+  };
+};
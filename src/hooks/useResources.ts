@@ -7,6 +7,7 @@ export interface Resource {
   resource_id: number;
   name: string;
   hourly_rate: number;
+  daily_hours: number; // Working hours per day on customer sites
   is_active: boolean;
   icon_name?: string;
   created_at: string;
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { ScheduleOverride } from "@/utils/scheduleTasks";
+
+export interface ScheduleOverrideRow {
+  override_id: number;
+  quote_id: string;
+  plan_id: number;
+  requirement_id: number;
+  resource_id: number | null;
+  start_day: number;
+  duration_days: number;
+  created_at: string;
+  updated_at: string;
+  resources?: { name: string; daily_hours: number } | null; // Target resource, see ScheduleOverride.resourceName
+}
+
+const OVERRIDE_COLUMNS = "*, resources:resource_id (name, daily_hours)";
+
+export type ScheduleOverrideInput = Pick<ScheduleOverrideRow, "resource_id" | "start_day" | "duration_days">;
+
+// Shape the scheduler expects in ScheduleOptions.overrides
+export const toScheduleOverrides = (rows: ScheduleOverrideRow[]): ScheduleOverride[] =>
+  rows.map(row => ({
+    requirementId: row.requirement_id,
+    resourceId: row.resource_id,
+    startDay: row.start_day,
+    durationDays: row.duration_days,
+    resourceName: row.resources?.name ?? null,
+    resourceDailyHours: row.resources?.daily_hours ?? null,
+  }));
+
+export const useScheduleOverrides = (quoteId: string | undefined, planId: number | null) => {
+  const [overrides, setOverrides] = useState<ScheduleOverrideRow[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverrides = useCallback(async () => {
+    if (!quoteId || typeof planId !== "number") {
+      setOverrides([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("schedule_overrides")
+        .select(OVERRIDE_COLUMNS)
+        .eq("quote_id", quoteId)
+        .eq("plan_id", planId);
+
+      if (error) throw error;
+
+      setOverrides(data || []);
+    } catch (err) {
+      console.error("Error fetching schedule overrides:", err);
+      setError(err instanceof Error ? err.message : "Failed to load manual schedule changes");
+      toast.error("Failed to load manual schedule changes");
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId, planId]);
+
+  const saveOverride = async (requirementId: number, override: ScheduleOverrideInput) => {
+    if (!quoteId || typeof planId !== "number") return false;
+
+    const previousOverrides = overrides;
+    const optimisticRow: ScheduleOverrideRow = {
+      override_id: overrides.find(o => o.requirement_id === requirementId)?.override_id ?? -requirementId,
+      quote_id: quoteId,
+      plan_id: planId,
+      requirement_id: requirementId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      ...override,
+    };
+    // Optimistic update so the chart doesn't jump back while saving
+    setOverrides(prev => [...prev.filter(o => o.requirement_id !== requirementId), optimisticRow]);
+
+    try {
+      const { data, error } = await supabase
+        .from("schedule_overrides")
+        .upsert(
+          {
+            quote_id: quoteId,
+            plan_id: planId,
+            requirement_id: requirementId,
+            ...override,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "quote_id,plan_id,requirement_id" }
+        )
+        .select(OVERRIDE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      setOverrides(prev => [...prev.filter(o => o.requirement_id !== requirementId), data]);
+      return true;
+    } catch (err) {
+      console.error("Error saving schedule override:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save schedule change");
+      setOverrides(previousOverrides); // Rollback on error
+      return false;
+    }
+  };
+
+  const clearOverride = async (requirementId: number) => {
+    if (!quoteId || typeof planId !== "number") return false;
+
+    try {
+      const { error } = await supabase
+        .from("schedule_overrides")
+        .delete()
+        .eq("quote_id", quoteId)
+        .eq("plan_id", planId)
+        .eq("requirement_id", requirementId);
+
+      if (error) throw error;
+
+      setOverrides(prev => prev.filter(o => o.requirement_id !== requirementId));
+      return true;
+    } catch (err) {
+      console.error("Error clearing schedule override:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to reset schedule change");
+      return false;
+    }
+  };
+
+  const clearAllOverrides = async () => {
+    if (!quoteId || typeof planId !== "number") return false;
+
+    try {
+      const { error } = await supabase
+        .from("schedule_overrides")
+        .delete()
+        .eq("quote_id", quoteId)
+        .eq("plan_id", planId);
+
+      if (error) throw error;
+
+      setOverrides([]);
+      return true;
+    } catch (err) {
+      console.error("Error clearing schedule overrides:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to reset schedule changes");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchOverrides();
+  }, [fetchOverrides]);
+
+  return {
+    overrides,
+    loading,
+    error,
+    fetchOverrides,
+    saveOverride,
+    clearOverride,
+    clearAllOverrides
+  };
+};
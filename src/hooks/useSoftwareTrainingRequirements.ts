@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { toast } from "sonner";
-import { syncPlanningDetailsAfterChanges, syncSoftwareTrainingHours } from "@/services/planningDetailsSync";
+import { syncSoftwareTrainingHours } from "@/services/planningDetailsSync";
 
 export interface SoftwareTrainingRequirement {
   id: number;
@@ -69,8 +69,7 @@ export const useSoftwareTrainingRequirements = (softwareTypeId?: number) => {
           )
         );
         
-        await syncSoftwareTrainingHours();
-        await syncPlanningDetailsAfterChanges();
+        await syncSoftwareTrainingHours({ softwareTypeId });
         
         toast.success("Training requirement saved");
       } else {
@@ -91,8 +90,7 @@ export const useSoftwareTrainingRequirements = (softwareTypeId?: number) => {
         if (data && data.length > 0) {
           setRequirements(prev => [...prev, data[0]]);
           
-          await syncSoftwareTrainingHours();
-          await syncPlanningDetailsAfterChanges();
+          await syncSoftwareTrainingHours({ softwareTypeId });
         }
       }
       
@@ -200,8 +198,7 @@ export const useSoftwareTrainingRequirements = (softwareTypeId?: number) => {
       
       await removeResourceFromPlanningDetails(softwareTypeId, planId);
       
-      await syncSoftwareTrainingHours();
-      await syncPlanningDetailsAfterChanges();
+      await syncSoftwareTrainingHours({ softwareTypeId });
       
       setRequirements(prev => prev.filter(req => req.id !== existingReq.id));
       toast.success("Training requirement removed");
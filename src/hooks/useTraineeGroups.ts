@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { TraineeGroupConstraint } from "@/utils/scheduleTasks";
+
+export interface TraineeGroup {
+  group_id: number;
+  quote_id: string;
+  name: string;
+  machine_type_ids: number[];
+  software_type_ids: number[];
+  created_at: string;
+}
+
+export type TraineeGroupInput = Pick<TraineeGroup, "name" | "machine_type_ids" | "software_type_ids">;
+
+// Shape the scheduler expects in ScheduleOptions.traineeGroups
+export const toTraineeGroupConstraints = (groups: TraineeGroup[]): TraineeGroupConstraint[] =>
+  groups.map(group => ({
+    groupId: group.group_id,
+    name: group.name,
+    machineTypeIds: group.machine_type_ids,
+    softwareTypeIds: group.software_type_ids,
+  }));
+
+export const useTraineeGroups = (quoteId: string | undefined) => {
+  const [traineeGroups, setTraineeGroups] = useState<TraineeGroup[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTraineeGroups = useCallback(async () => {
+    if (!quoteId) {
+      setTraineeGroups([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("quote_trainee_groups")
+        .select("*")
+        .eq("quote_id", quoteId)
+        .order("created_at");
+
+      if (error) throw error;
+
+      setTraineeGroups(data || []);
+    } catch (err) {
+      console.error("Error fetching trainee groups:", err);
+      setError(err instanceof Error ? err.message : "Failed to load trainee groups");
+      toast.error("Failed to load trainee groups");
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId]);
+
+  const addTraineeGroup = async (group: TraineeGroupInput) => {
+    if (!quoteId) return false;
+
+    try {
+      const { error } = await supabase
+        .from("quote_trainee_groups")
+        .insert({ ...group, quote_id: quoteId });
+
+      if (error) throw error;
+
+      await fetchTraineeGroups();
+      return true;
+    } catch (err) {
+      console.error("Error adding trainee group:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to add trainee group");
+      return false;
+    }
+  };
+
+  const updateTraineeGroup = async (groupId: number, group: TraineeGroupInput) => {
+    try {
+      const { error } = await supabase
+        .from("quote_trainee_groups")
+        .update(group)
+        .eq("group_id", groupId);
+
+      if (error) throw error;
+
+      setTraineeGroups(prev => prev.map(g => (g.group_id === groupId ? { ...g, ...group } : g)));
+      return true;
+    } catch (err) {
+      console.error("Error updating trainee group:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to update trainee group");
+      return false;
+    }
+  };
+
+  const deleteTraineeGroup = async (groupId: number) => {
+    try {
+      const { error } = await supabase
+        .from("quote_trainee_groups")
+        .delete()
+        .eq("group_id", groupId);
+
+      if (error) throw error;
+
+      setTraineeGroups(prev => prev.filter(g => g.group_id !== groupId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting trainee group:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete trainee group");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchTraineeGroups();
+  }, [fetchTraineeGroups]);
+
+  return {
+    traineeGroups,
+    loading,
+    error,
+    fetchTraineeGroups,
+    addTraineeGroup,
+    updateTraineeGroup,
+    deleteTraineeGroup
+  };
+};
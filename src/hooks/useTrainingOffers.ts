@@ -4,7 +4,6 @@ import { useMachineTypes } from "./useMachineTypes";
 import { useSoftwareTypes } from "./useSoftwareTypes";
 import { useTrainingPlans } from "./useTrainingPlans";
 import { toast } from "sonner";
-import { syncPlanningDetailsAfterChanges, syncSoftwareTrainingHours } from "@/services/planningDetailsSync";
 
 export interface TrainingOffer {
   id: number;
@@ -92,6 +91,7 @@ export const useTrainingOffers = () => {
     }
   };
 
+  // Only the catalog rows change here; existing quotes are updated through the impact preview (useCatalogImpact)
   const updateTrainingHours = async (
     machine_type_id: number,
     plan_id: number,
@@ -132,12 +132,6 @@ export const useTrainingOffers = () => {
       // Refetch to update state
       await fetchOffers();
       
-      // Also update any planning_details that use this machine type and plan
-      await updatePlanningDetailsForAllQuotes(machine_type_id, plan_id, hours_required, false);
-      
-      // Sync planning details to ensure everything is consistent
-      await syncPlanningDetailsAfterChanges();
-      
       toast.success("Training hours updated");
       return true;
     } catch (err: any) {
@@ -189,12 +183,6 @@ export const useTrainingOffers = () => {
       // Refetch to update state
       await fetchOffers();
       
-      // Sync software training hours across all quotes with this software type
-      await syncSoftwareTrainingHours();
-      
-      // Also sync any other planning details that might be affected
-      await syncPlanningDetailsAfterChanges();
-      
       toast.success("Software training hours updated");
       return true;
     } catch (err: any) {
@@ -204,119 +192,6 @@ export const useTrainingOffers = () => {
     }
   };
 
-  const updatePlanningDetailsForAllQuotes = async (
-    type_id: number,
-    plan_id: number,
-    hours_required: number,
-    isSoftware: boolean = false
-  ) => {
-    try {
-      const columnName = isSoftware ? 'software_type_ids' : 'machine_type_ids';
-      
-      // First, get all quotes that have this type in their types array
-      const { data: quotesWithType, error: quotesError } = await supabase
-        .from("quotes")
-        .select("quote_id")
-        .contains(columnName, [type_id]);
-      
-      if (quotesError) {
-        console.error(`Error finding quotes with ${isSoftware ? 'software' : 'machine'} type:`, quotesError);
-        return;
-      }
-      
-      if (!quotesWithType || quotesWithType.length === 0) return;
-      
-      console.log(`Updating planning details for ${quotesWithType.length} quotes that use ${isSoftware ? 'software' : 'machine'} type ${type_id}`);
-      
-      // For each quote that has this type, update its planning details
-      for (const quote of quotesWithType) {
-        try {
-          // Get all planning details for this quote, type, and plan
-          const typesIdColumn = isSoftware ? 'software_types_id' : 'machine_types_id';
-          
-          // Also get the resource_id from software/machine training requirements
-          // This is to make sure we keep the resource assignment
-          let resourceId: number | null = null;
-          
-          if (isSoftware) {
-            // FIX: Using array return and checking length instead of single
-            const { data: requirements } = await supabase
-              .from("software_training_requirements")
-              .select("resource_id")
-              .eq("software_type_id", type_id)
-              .eq("plan_id", plan_id);
-              
-            resourceId = requirements && requirements.length > 0 ? requirements[0].resource_id : null;
-          } else {
-            // FIX: Using array return and checking length instead of single
-            const { data: requirements } = await supabase
-              .from("machine_training_requirements")
-              .select("resource_id")
-              .eq("machine_type_id", type_id)
-              .eq("plan_id", plan_id);
-              
-            resourceId = requirements && requirements.length > 0 ? requirements[0].resource_id : null;
-          }
-          
-          const { data: planningDetails, error: detailsError } = await supabase
-            .from("planning_details")
-            .select("id")
-            .eq("quote_id", quote.quote_id)
-            .eq("plan_id", plan_id)
-            .eq(typesIdColumn, type_id);
-          
-          if (detailsError) {
-            console.error(`Error checking planning details for quote ${quote.quote_id}:`, detailsError);
-            continue;
-          }
-          
-          if (!planningDetails || planningDetails.length === 0) {
-            // If no planning details exist for this combination, create one
-            const { error: insertError } = await supabase
-              .from("planning_details")
-              .insert({
-                quote_id: quote.quote_id,
-                plan_id: plan_id,
-                machine_types_id: isSoftware ? null : type_id,
-                software_types_id: isSoftware ? type_id : null,
-                resource_id: resourceId,
-                allocated_hours: hours_required,
-                resource_category: isSoftware ? 'Software' : 'Machine',
-                work_on_saturday: false,
-                work_on_sunday: false
-              });
-              
-            if (insertError) {
-              console.error(`Error creating planning detail for quote ${quote.quote_id}:`, insertError);
-            }
-          } else {
-            // Update each planning detail with the new allocated hours
-            for (const detail of planningDetails) {
-              const { error: updateError } = await supabase
-                .from("planning_details")
-                .update({ 
-                  allocated_hours: hours_required,
-                  resource_id: resourceId, // Make sure we update the resource_id too
-                  updated_at: new Date().toISOString()
-                })
-                .eq("id", detail.id);
-                
-              if (updateError) {
-                console.error(`Error updating planning detail ${detail.id}:`, updateError);
-              }
-            }
-          }
-        } catch (err) {
-          console.error(`Error processing quote ${quote.quote_id}:`, err);
-        }
-      }
-      
-      console.log(`Successfully updated planning details for all affected quotes`);
-    } catch (err) {
-      console.error("Error updating planning details hours:", err);
-    }
-  };
-
   useEffect(() => {
     if ((machines.length > 0 || software.length > 0) && plans.length > 0) {
       fetchOffers();
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { PrerequisiteConstraint } from "@/utils/scheduleTasks";
+
+export interface TrainingPrerequisite {
+  prerequisite_id: number;
+  machine_type_id: number | null;
+  software_type_id: number | null;
+  required_machine_type_id: number | null;
+  required_software_type_id: number | null;
+  created_at: string;
+}
+
+export type TrainingPrerequisiteInput = Omit<TrainingPrerequisite, "prerequisite_id" | "created_at">;
+
+// Shape the scheduler expects in ScheduleOptions.prerequisites
+export const toPrerequisiteConstraints = (prerequisites: TrainingPrerequisite[]): PrerequisiteConstraint[] =>
+  prerequisites.map(prerequisite => ({
+    machineTypeId: prerequisite.machine_type_id,
+    softwareTypeId: prerequisite.software_type_id,
+    requiredMachineTypeId: prerequisite.required_machine_type_id,
+    requiredSoftwareTypeId: prerequisite.required_software_type_id,
+  }));
+
+export const useTrainingPrerequisites = () => {
+  const [prerequisites, setPrerequisites] = useState<TrainingPrerequisite[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPrerequisites = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("training_prerequisites")
+        .select("*")
+        .order("created_at");
+
+      if (error) throw error;
+
+      setPrerequisites(data || []);
+    } catch (err) {
+      console.error("Error fetching training prerequisites:", err);
+      setError(err instanceof Error ? err.message : "Failed to load training prerequisites");
+      toast.error("Failed to load training prerequisites");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const addPrerequisite = async (prerequisite: TrainingPrerequisiteInput) => {
+    try {
+      const { error } = await supabase
+        .from("training_prerequisites")
+        .insert(prerequisite);
+
+      if (error) throw error;
+
+      await fetchPrerequisites();
+      return true;
+    } catch (err) {
+      console.error("Error adding training prerequisite:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to add prerequisite");
+      return false;
+    }
+  };
+
+  const deletePrerequisite = async (prerequisiteId: number) => {
+    try {
+      const { error } = await supabase
+        .from("training_prerequisites")
+        .delete()
+        .eq("prerequisite_id", prerequisiteId);
+
+      if (error) throw error;
+
+      setPrerequisites(prev => prev.filter(p => p.prerequisite_id !== prerequisiteId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting training prerequisite:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete prerequisite");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchPrerequisites();
+  }, [fetchPrerequisites]);
+
+  return {
+    prerequisites,
+    loading,
+    error,
+    fetchPrerequisites,
+    addPrerequisite,
+    deletePrerequisite
+  };
+};
@@ -1,7 +1,7 @@
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { fetchPlanningDetails } from '@/services/planningDetailsService'; // Ensure this service handles its own supabase import
-import { scheduleTrainingTasks } from '@/utils/scheduleTasks';
+import { scheduleTrainingTasks, ScheduleOptions } from '@/utils/scheduleTasks';
 import { ScheduledTaskSegment } from '@/utils/types';
 // Removed direct import of syncPlanningDetailsAfterChanges - syncs should happen on mutation, not read.
 
@@ -14,7 +14,10 @@ export interface TrainingRequirement {
   resource_name: string | null; // Allow null
   machine_name: string | null; // Allow null (might be software)
   software_name?: string | null; // Add if needed
+  machine_type_id?: number | null; // Used to match trainee groups
+  software_type_id?: number | null;
   training_hours: number;
+  daily_hours?: number | null; // Resource working hours per day (defaults to 8 when unset)
   resource_category?: 'Machine' | 'Software' | null; // Allow null
 }
 
@@ -22,13 +25,18 @@ export function useTrainingRequirements(
   quoteId: string | undefined,
   planId: number | null,
   workOnSaturday: boolean,
-  workOnSunday: boolean
+  workOnSunday: boolean,
+  scheduleOptions: ScheduleOptions = {}
 ) {
   const [rawRequirements, setRawRequirements] = useState<TrainingRequirement[]>([]);
   const [scheduledTasks, setScheduledTasks] = useState<ScheduledTaskSegment[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Callers pass a fresh options object on every render; key it by content so we only reschedule on real changes
+  const scheduleOptionsKey = JSON.stringify(scheduleOptions);
+  const stableScheduleOptions = useMemo<ScheduleOptions>(() => JSON.parse(scheduleOptionsKey), [scheduleOptionsKey]);
+
   const fetchRequirements = useCallback(async () => {
     if (!quoteId || typeof planId !== 'number') { // Stricter check for planId
       console.log("useTrainingRequirements: Invalid quoteId or planId. Clearing state.");
@@ -62,7 +70,10 @@ export function useTrainingRequirements(
           resource_name: detail.resource_name ?? `Resource ${detail.resource_id}`,
           machine_name: detail.machine_name ?? null,
           software_name: detail.software_name ?? null, // Add software name if available
+          machine_type_id: detail.machine_type_id ?? null,
+          software_type_id: detail.software_type_id ?? null,
           training_hours: detail.training_hours,
+          daily_hours: detail.daily_hours ?? null,
           resource_category: detail.resource_category ?? null, // Map category
         } as TrainingRequirement)); // Cast to type
 
@@ -95,7 +106,7 @@ export function useTrainingRequirements(
   useEffect(() => {
     // Only schedule if not loading and requirements exist
     if (!loading && rawRequirements.length > 0) {
-      console.log(`useTrainingRequirements: Scheduling ${rawRequirements.length} requirements. Sat: ${workOnSaturday}, Sun: ${workOnSunday}`);
+      console.log(`useTrainingRequirements: Scheduling ${rawRequirements.length} requirements. Sat: ${workOnSaturday}, Sun: ${workOnSunday}, Start: ${stableScheduleOptions.projectStartDate ?? 'unset'}, Holidays: ${stableScheduleOptions.holidays?.length ?? 0}, Hours/day override: ${stableScheduleOptions.dailyHoursOverride ?? 'none'}, Trainee groups: ${stableScheduleOptions.traineeGroups?.length ?? 0}, Prerequisites: ${stableScheduleOptions.prerequisites?.length ?? 0}`);
       // No need to set loading here again, fetch handles it.
       setError(null); // Clear previous scheduling errors
 
@@ -110,7 +121,8 @@ export function useTrainingRequirements(
         const scheduled = scheduleTrainingTasks(
           requirementsWithUniqueIds,
           workOnSaturday,
-          workOnSunday
+          workOnSunday,
+          stableScheduleOptions
         );
         console.log(`useTrainingRequirements: Scheduling complete, generated ${scheduled.length} segments.`);
         setScheduledTasks(scheduled);
@@ -124,7 +136,7 @@ export function useTrainingRequirements(
       // If not loading and no requirements, ensure schedule is empty
         setScheduledTasks([]);
     }
-  }, [rawRequirements, workOnSaturday, workOnSunday, loading]); // Dependencies for scheduling
+  }, [rawRequirements, workOnSaturday, workOnSunday, stableScheduleOptions, loading]); // Dependencies for scheduling
 
   return {
     scheduledTasks,
@@ -2,7 +2,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { toast } from "sonner";
-import { syncPlanningDetailsAfterChanges } from "@/services/planningDetailsSync";
 
 export interface TrainingTopicBase {
   topic_id: number;
@@ -111,7 +110,6 @@ export const useTrainingTopics = (
       if (successfulTopics.length > 0) {
         setTopics((prevTopics) => [...prevTopics, ...successfulTopics]);
         setNewTopic("");
-        await syncPlanningDetailsAfterChanges();
         toast.success("Training topic added successfully for selected machines!");
         return true;
       } else {
@@ -142,7 +140,6 @@ export const useTrainingTopics = (
           topic.topic_id === topicId ? { ...topic, topic_text: newText } : topic
         )
       );
-      await syncPlanningDetailsAfterChanges();
       toast.success("Training topic updated successfully");
       return true;
     } catch (err: any) {
@@ -162,7 +159,6 @@ export const useTrainingTopics = (
       if (error) throw error;
 
       setTopics((prevTopics) => prevTopics.filter((topic) => topic.topic_id !== topicId));
-      await syncPlanningDetailsAfterChanges();
       toast.success("Training topic deleted successfully");
       return true;
     } catch (err: any) {
@@ -183,7 +179,6 @@ export const useTrainingTopics = (
 
       if (error) throw error;
 
-      await syncPlanningDetailsAfterChanges();
       toast.success(`Training topics for ${itemType} deleted successfully`);
       return true;
     } catch (err: any) {
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { VatRule } from "@/utils/tax";
+
+export type VatRuleInput = Pick<VatRule, "country_code" | "vat_rate" | "reverse_charge" | "description">;
+
+export const useVatRules = () => {
+  const [rules, setRules] = useState<VatRule[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from("vat_rules")
+        .select("*")
+        .order("country_code");
+
+      if (error) throw error;
+
+      setRules(data || []);
+    } catch (err) {
+      console.error("Error fetching VAT rules:", err);
+      setError(err instanceof Error ? err.message : "Failed to load VAT rules");
+      toast.error("Failed to load VAT rules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // One rule per country in the organization: saving an existing country replaces its rule
+  const saveRule = async (rule: VatRuleInput) => {
+    try {
+      const { error } = await supabase
+        .from("vat_rules")
+        .upsert({ ...rule, country_code: rule.country_code.toUpperCase() }, { onConflict: "org_id,country_code" });
+
+      if (error) throw error;
+
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error("Error saving VAT rule:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save VAT rule");
+      return false;
+    }
+  };
+
+  const deleteRule = async (ruleId: number) => {
+    try {
+      const { error } = await supabase
+        .from("vat_rules")
+        .delete()
+        .eq("vat_rule_id", ruleId);
+
+      if (error) throw error;
+
+      setRules(prev => prev.filter(r => r.vat_rule_id !== ruleId));
+      return true;
+    } catch (err) {
+      console.error("Error deleting VAT rule:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to delete VAT rule");
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  return {
+    rules,
+    loading,
+    error,
+    fetchRules,
+    saveRule,
+    deleteRule
+  };
+};
@@ -9,6 +9,35 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          org_id: string
+          setting_key: string
+          setting_value: Json
+          updated_at: string
+        }
+        Insert: {
+          org_id?: string
+          setting_key: string
+          setting_value: Json
+          updated_at?: string
+        }
+        Update: {
+          org_id?: string
+          setting_key?: string
+          setting_value?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "app_settings_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
       area_costs: {
         Row: {
           area_cost_id: number
@@ -19,7 +48,9 @@ export type Database = {
           daily_allowance: number
           daily_pocket_money: number
           icon_name: string | null
+          org_id: string
           updated_at: string
+          vat_rate: number
         }
         Insert: {
           area_cost_id?: number
@@ -30,7 +61,9 @@ export type Database = {
           daily_allowance: number
           daily_pocket_money: number
           icon_name?: string | null
+          org_id?: string
           updated_at?: string
+          vat_rate?: number
         }
         Update: {
           area_cost_id?: number
@@ -41,15 +74,169 @@ export type Database = {
           daily_allowance?: number
           daily_pocket_money?: number
           icon_name?: string | null
+          org_id?: string
           updated_at?: string
+          vat_rate?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "area_costs_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      area_holidays: {
+        Row: {
+          area_id: number
+          created_at: string
+          holiday_date: string
+          holiday_id: number
+          name: string | null
+          org_id: string
+          source: string
+        }
+        Insert: {
+          area_id: number
+          created_at?: string
+          holiday_date: string
+          holiday_id?: number
+          name?: string | null
+          org_id?: string
+          source?: string
+        }
+        Update: {
+          area_id?: number
+          created_at?: string
+          holiday_date?: string
+          holiday_id?: number
+          name?: string | null
+          org_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "area_holidays_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "area_costs"
+            referencedColumns: ["area_id"]
+          },
+          {
+            foreignKeyName: "area_holidays_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          billing_address: string | null
+          client_id: number
+          company_name: string
+          contacts: Json
+          country_code: string | null
+          created_at: string
+          default_area_id: number | null
+          default_currency: string | null
+          notes: string | null
+          org_id: string
+          site_address: string | null
+          updated_at: string
+          vat_id: string | null
+        }
+        Insert: {
+          billing_address?: string | null
+          client_id?: number
+          company_name: string
+          contacts?: Json
+          country_code?: string | null
+          created_at?: string
+          default_area_id?: number | null
+          default_currency?: string | null
+          notes?: string | null
+          org_id?: string
+          site_address?: string | null
+          updated_at?: string
+          vat_id?: string | null
+        }
+        Update: {
+          billing_address?: string | null
+          client_id?: number
+          company_name?: string
+          contacts?: Json
+          country_code?: string | null
+          created_at?: string
+          default_area_id?: number | null
+          default_currency?: string | null
+          notes?: string | null
+          org_id?: string
+          site_address?: string | null
+          updated_at?: string
+          vat_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_default_area_id_fkey"
+            columns: ["default_area_id"]
+            isOneToOne: false
+            referencedRelation: "area_costs"
+            referencedColumns: ["area_id"]
+          },
+          {
+            foreignKeyName: "clients_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          effective_date: string
+          org_id: string
+          rate: number
+          rate_id: number
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          effective_date: string
+          org_id?: string
+          rate: number
+          rate_id?: number
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          effective_date?: string
+          org_id?: string
+          rate?: number
+          rate_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
       }
       machine_training_requirements: {
         Row: {
           created_at: string | null
           id: number
           machine_type_id: number | null
+          org_id: string
           plan_id: number | null
           resource_id: number | null
         }
@@ -57,6 +244,7 @@ export type Database = {
           created_at?: string | null
           id?: number
           machine_type_id?: number | null
+          org_id?: string
           plan_id?: number | null
           resource_id?: number | null
         }
@@ -64,6 +252,7 @@ export type Database = {
           created_at?: string | null
           id?: number
           machine_type_id?: number | null
+          org_id?: string
           plan_id?: number | null
           resource_id?: number | null
         }
@@ -75,6 +264,13 @@ export type Database = {
             referencedRelation: "machine_types"
             referencedColumns: ["machine_type_id"]
           },
+          {
+            foreignKeyName: "machine_training_requirements_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
           {
             foreignKeyName: "machine_training_requirements_plan_id_fkey"
             columns: ["plan_id"]
@@ -97,6 +293,7 @@ export type Database = {
           description: string | null
           machine_type_id: number
           name: string
+          org_id: string
           photo_url: string | null
         }
         Insert: {
@@ -104,6 +301,7 @@ export type Database = {
           description?: string | null
           machine_type_id?: number
           name: string
+          org_id?: string
           photo_url?: string | null
         }
         Update: {
@@ -111,8 +309,64 @@ export type Database = {
           description?: string | null
           machine_type_id?: number
           name?: string
+          org_id?: string
           photo_url?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "machine_types_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          joined_at: string
+          org_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          joined_at?: string
+          org_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          joined_at?: string
+          org_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          name: string
+          org_id: string
+        }
+        Insert: {
+          created_at?: string
+          name: string
+          org_id?: string
+        }
+        Update: {
+          created_at?: string
+          name?: string
+          org_id?: string
+        }
         Relationships: []
       }
       planning_details: {
@@ -121,6 +375,7 @@ export type Database = {
           created_at: string
           id: string
           machine_types_id: number | null
+          org_id: string
           plan_id: number
           quote_id: string
           resource_id: number | null
@@ -134,6 +389,7 @@ export type Database = {
           created_at?: string
           id?: string
           machine_types_id?: number | null
+          org_id?: string
           plan_id: number
           quote_id: string
           resource_id?: number | null
@@ -147,6 +403,7 @@ export type Database = {
           created_at?: string
           id?: string
           machine_types_id?: number | null
+          org_id?: string
           plan_id?: number
           quote_id?: string
           resource_id?: number | null
@@ -163,6 +420,13 @@ export type Database = {
             referencedRelation: "machine_types"
             referencedColumns: ["machine_type_id"]
           },
+          {
+            foreignKeyName: "planning_details_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
           {
             foreignKeyName: "planning_details_resource_id_fkey"
             columns: ["resource_id"]
@@ -179,10 +443,494 @@ export type Database = {
           },
         ]
       }
+      price_list_area_costs: {
+        Row: {
+          area_id: number
+          daily_accommodation_food_cost: number
+          daily_allowance: number
+          daily_pocket_money: number
+          org_id: string
+          price_list_id: number
+        }
+        Insert: {
+          area_id: number
+          daily_accommodation_food_cost: number
+          daily_allowance: number
+          daily_pocket_money: number
+          org_id?: string
+          price_list_id: number
+        }
+        Update: {
+          area_id?: number
+          daily_accommodation_food_cost?: number
+          daily_allowance?: number
+          daily_pocket_money?: number
+          org_id?: string
+          price_list_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_list_area_costs_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "area_costs"
+            referencedColumns: ["area_id"]
+          },
+          {
+            foreignKeyName: "price_list_area_costs_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "price_list_area_costs_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["price_list_id"]
+          },
+        ]
+      }
+      price_list_resource_rates: {
+        Row: {
+          hourly_rate: number
+          org_id: string
+          price_list_id: number
+          resource_id: number
+        }
+        Insert: {
+          hourly_rate: number
+          org_id?: string
+          price_list_id: number
+          resource_id: number
+        }
+        Update: {
+          hourly_rate?: number
+          org_id?: string
+          price_list_id?: number
+          resource_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_list_resource_rates_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "price_list_resource_rates_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["price_list_id"]
+          },
+          {
+            foreignKeyName: "price_list_resource_rates_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["resource_id"]
+          },
+        ]
+      }
+      price_lists: {
+        Row: {
+          created_at: string
+          name: string
+          org_id: string
+          price_list_id: number
+          valid_from: string
+          valid_to: string | null
+        }
+        Insert: {
+          created_at?: string
+          name: string
+          org_id?: string
+          price_list_id?: number
+          valid_from: string
+          valid_to?: string | null
+        }
+        Update: {
+          created_at?: string
+          name?: string
+          org_id?: string
+          price_list_id?: number
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_lists_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      quote_plan_pricing: {
+        Row: {
+          line_discounts: Json
+          margin_percent: number
+          org_id: string
+          override_price: number | null
+          override_reason: string | null
+          plan_id: number
+          pricing_id: number
+          quote_id: string
+          updated_at: string
+        }
+        Insert: {
+          line_discounts?: Json
+          margin_percent?: number
+          org_id?: string
+          override_price?: number | null
+          override_reason?: string | null
+          plan_id: number
+          pricing_id?: number
+          quote_id: string
+          updated_at?: string
+        }
+        Update: {
+          line_discounts?: Json
+          margin_percent?: number
+          org_id?: string
+          override_price?: number | null
+          override_reason?: string | null
+          plan_id?: number
+          pricing_id?: number
+          quote_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_plan_pricing_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "quote_plan_pricing_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "training_plans"
+            referencedColumns: ["plan_id"]
+          },
+          {
+            foreignKeyName: "quote_plan_pricing_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["quote_id"]
+          },
+        ]
+      }
+      quote_revisions: {
+        Row: {
+          created_at: string
+          created_by_user_id: string | null
+          label: string | null
+          org_id: string
+          parent_revision_id: number | null
+          quote_id: string
+          revision_id: number
+          revision_number: number
+          snapshot: Json
+        }
+        Insert: {
+          created_at?: string
+          created_by_user_id?: string | null
+          label?: string | null
+          org_id?: string
+          parent_revision_id?: number | null
+          quote_id: string
+          revision_id?: number
+          revision_number: number
+          snapshot: Json
+        }
+        Update: {
+          created_at?: string
+          created_by_user_id?: string | null
+          label?: string | null
+          org_id?: string
+          parent_revision_id?: number | null
+          quote_id?: string
+          revision_id?: number
+          revision_number?: number
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_revisions_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "quote_revisions_parent_revision_id_fkey"
+            columns: ["parent_revision_id"]
+            isOneToOne: false
+            referencedRelation: "quote_revisions"
+            referencedColumns: ["revision_id"]
+          },
+          {
+            foreignKeyName: "quote_revisions_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["quote_id"]
+          },
+        ]
+      }
+      quote_status_history: {
+        Row: {
+          changed_at: string
+          changed_by_user_id: string | null
+          comment: string | null
+          from_status: string
+          history_id: number
+          org_id: string
+          quote_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by_user_id?: string | null
+          comment?: string | null
+          from_status: string
+          history_id?: number
+          org_id?: string
+          quote_id: string
+          to_status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by_user_id?: string | null
+          comment?: string | null
+          from_status?: string
+          history_id?: number
+          org_id?: string
+          quote_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_status_history_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "quote_status_history_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["quote_id"]
+          },
+        ]
+      }
+      quote_templates: {
+        Row: {
+          content: Json
+          created_at: string
+          created_by_user_id: string | null
+          description: string | null
+          org_id: string
+          template_id: number
+          template_name: string
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          created_by_user_id?: string | null
+          description?: string | null
+          org_id?: string
+          template_id?: number
+          template_name: string
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          created_by_user_id?: string | null
+          description?: string | null
+          org_id?: string
+          template_id?: number
+          template_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_templates_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      quote_totals: {
+        Row: {
+          area_id: number | null
+          business_trip_days: number
+          currency: string
+          discount_total: number
+          end_date: string | null
+          exchange_rate: number
+          gross_price: number
+          margin_percent: number
+          org_id: string
+          override_reason: string | null
+          plan_id: number
+          plan_name: string
+          quote_id: string
+          quote_totals_id: number
+          resource_breakdown: Json
+          reverse_charge: boolean
+          saved_at: string
+          saved_by_user_id: string | null
+          sell_price: number
+          start_date: string | null
+          tax_amount: number
+          tax_rate: number
+          total_cost: number
+          training_cost: number
+          training_days: number
+          travel_cost: number
+        }
+        Insert: {
+          area_id?: number | null
+          business_trip_days?: number
+          currency?: string
+          discount_total?: number
+          end_date?: string | null
+          exchange_rate?: number
+          gross_price?: number
+          margin_percent?: number
+          org_id?: string
+          override_reason?: string | null
+          plan_id: number
+          plan_name: string
+          quote_id: string
+          quote_totals_id?: number
+          resource_breakdown?: Json
+          reverse_charge?: boolean
+          saved_at?: string
+          saved_by_user_id?: string | null
+          sell_price?: number
+          start_date?: string | null
+          tax_amount?: number
+          tax_rate?: number
+          total_cost?: number
+          training_cost?: number
+          training_days?: number
+          travel_cost?: number
+        }
+        Update: {
+          area_id?: number | null
+          business_trip_days?: number
+          currency?: string
+          discount_total?: number
+          end_date?: string | null
+          exchange_rate?: number
+          gross_price?: number
+          margin_percent?: number
+          org_id?: string
+          override_reason?: string | null
+          plan_id?: number
+          plan_name?: string
+          quote_id?: string
+          quote_totals_id?: number
+          resource_breakdown?: Json
+          reverse_charge?: boolean
+          saved_at?: string
+          saved_by_user_id?: string | null
+          sell_price?: number
+          start_date?: string | null
+          tax_amount?: number
+          tax_rate?: number
+          total_cost?: number
+          training_cost?: number
+          training_days?: number
+          travel_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_totals_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "quote_totals_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "training_plans"
+            referencedColumns: ["plan_id"]
+          },
+          {
+            foreignKeyName: "quote_totals_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["quote_id"]
+          },
+        ]
+      }
+      quote_trainee_groups: {
+        Row: {
+          created_at: string
+          group_id: number
+          machine_type_ids: number[]
+          name: string
+          org_id: string
+          quote_id: string
+          software_type_ids: number[]
+        }
+        Insert: {
+          created_at?: string
+          group_id?: number
+          machine_type_ids?: number[]
+          name: string
+          org_id?: string
+          quote_id: string
+          software_type_ids?: number[]
+        }
+        Update: {
+          created_at?: string
+          group_id?: number
+          machine_type_ids?: number[]
+          name?: string
+          org_id?: string
+          quote_id?: string
+          software_type_ids?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_trainee_groups_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "quote_trainee_groups_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["quote_id"]
+          },
+        ]
+      }
       quote_training_plan_hours: {
         Row: {
           created_at: string | null
           id: number
+          org_id: string
           plan_id: number
           quote_id: string
           training_hours: number
@@ -191,6 +939,7 @@ export type Database = {
         Insert: {
           created_at?: string | null
           id?: number
+          org_id?: string
           plan_id: number
           quote_id: string
           training_hours?: number
@@ -199,6 +948,7 @@ export type Database = {
         Update: {
           created_at?: string | null
           id?: number
+          org_id?: string
           plan_id?: number
           quote_id?: string
           training_hours?: number
@@ -206,99 +956,360 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "quote_training_plan_hours_plan_id_fkey"
+            foreignKeyName: "quote_training_plan_hours_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "quote_training_plan_hours_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "training_plans"
+            referencedColumns: ["plan_id"]
+          },
+          {
+            foreignKeyName: "quote_training_plan_hours_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["quote_id"]
+          },
+        ]
+      }
+      quotes: {
+        Row: {
+          area_id: number | null
+          assigned_to_user_id: string | null
+          based_on_revision_id: number | null
+          client_country: string | null
+          client_id: number | null
+          client_name: string | null
+          client_vat_id: string | null
+          created_at: string
+          created_by_user_id: string
+          currency: string
+          daily_hours_override: number | null
+          machine_type_ids: number[] | null
+          org_id: string
+          project_start_date: string | null
+          quote_date: string
+          quote_id: string
+          quote_name: string
+          software_type_ids: number[] | null
+          status: string
+          work_on_saturday: boolean | null
+          work_on_sunday: boolean | null
+        }
+        Insert: {
+          area_id?: number | null
+          assigned_to_user_id?: string | null
+          based_on_revision_id?: number | null
+          client_country?: string | null
+          client_id?: number | null
+          client_name?: string | null
+          client_vat_id?: string | null
+          created_at?: string
+          created_by_user_id: string
+          currency?: string
+          daily_hours_override?: number | null
+          machine_type_ids?: number[] | null
+          org_id?: string
+          project_start_date?: string | null
+          quote_date?: string
+          quote_id?: string
+          quote_name: string
+          software_type_ids?: number[] | null
+          status?: string
+          work_on_saturday?: boolean | null
+          work_on_sunday?: boolean | null
+        }
+        Update: {
+          area_id?: number | null
+          assigned_to_user_id?: string | null
+          based_on_revision_id?: number | null
+          client_country?: string | null
+          client_id?: number | null
+          client_name?: string | null
+          client_vat_id?: string | null
+          created_at?: string
+          created_by_user_id?: string
+          currency?: string
+          daily_hours_override?: number | null
+          machine_type_ids?: number[] | null
+          org_id?: string
+          project_start_date?: string | null
+          quote_date?: string
+          quote_id?: string
+          quote_name?: string
+          software_type_ids?: number[] | null
+          status?: string
+          work_on_saturday?: boolean | null
+          work_on_sunday?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotes_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "area_costs"
+            referencedColumns: ["area_id"]
+          },
+          {
+            foreignKeyName: "quotes_based_on_revision_id_fkey"
+            columns: ["based_on_revision_id"]
+            isOneToOne: false
+            referencedRelation: "quote_revisions"
+            referencedColumns: ["revision_id"]
+          },
+          {
+            foreignKeyName: "quotes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["client_id"]
+          },
+          {
+            foreignKeyName: "quotes_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      resource_bookings: {
+        Row: {
+          booking_id: number
+          created_at: string
+          end_date: string
+          hours: number
+          org_id: string
+          plan_id: number
+          quote_id: string
+          resource_id: number
+          start_date: string
+        }
+        Insert: {
+          booking_id?: number
+          created_at?: string
+          end_date: string
+          hours?: number
+          org_id?: string
+          plan_id: number
+          quote_id: string
+          resource_id: number
+          start_date: string
+        }
+        Update: {
+          booking_id?: number
+          created_at?: string
+          end_date?: string
+          hours?: number
+          org_id?: string
+          plan_id?: number
+          quote_id?: string
+          resource_id?: number
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_bookings_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "resource_bookings_plan_id_fkey"
             columns: ["plan_id"]
             isOneToOne: false
             referencedRelation: "training_plans"
             referencedColumns: ["plan_id"]
           },
           {
-            foreignKeyName: "quote_training_plan_hours_quote_id_fkey"
+            foreignKeyName: "resource_bookings_quote_id_fkey"
             columns: ["quote_id"]
             isOneToOne: false
             referencedRelation: "quotes"
             referencedColumns: ["quote_id"]
           },
+          {
+            foreignKeyName: "resource_bookings_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["resource_id"]
+          },
         ]
       }
-      quotes: {
+      resource_unavailability: {
         Row: {
-          area_id: number | null
-          client_name: string | null
           created_at: string
-          created_by_user_id: string
-          machine_type_ids: number[] | null
-          quote_id: string
-          quote_name: string
-          software_type_ids: number[] | null
-          work_on_saturday: boolean | null
-          work_on_sunday: boolean | null
+          end_date: string
+          org_id: string
+          reason: string | null
+          resource_id: number
+          start_date: string
+          unavailability_id: number
         }
         Insert: {
-          area_id?: number | null
-          client_name?: string | null
           created_at?: string
-          created_by_user_id: string
-          machine_type_ids?: number[] | null
-          quote_id?: string
-          quote_name: string
-          software_type_ids?: number[] | null
-          work_on_saturday?: boolean | null
-          work_on_sunday?: boolean | null
+          end_date: string
+          org_id?: string
+          reason?: string | null
+          resource_id: number
+          start_date: string
+          unavailability_id?: number
         }
         Update: {
-          area_id?: number | null
-          client_name?: string | null
           created_at?: string
-          created_by_user_id?: string
-          machine_type_ids?: number[] | null
-          quote_id?: string
-          quote_name?: string
-          software_type_ids?: number[] | null
-          work_on_saturday?: boolean | null
-          work_on_sunday?: boolean | null
+          end_date?: string
+          org_id?: string
+          reason?: string | null
+          resource_id?: number
+          start_date?: string
+          unavailability_id?: number
         }
         Relationships: [
           {
-            foreignKeyName: "quotes_area_id_fkey"
-            columns: ["area_id"]
+            foreignKeyName: "resource_unavailability_org_id_fkey"
+            columns: ["org_id"]
             isOneToOne: false
-            referencedRelation: "area_costs"
-            referencedColumns: ["area_id"]
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "resource_unavailability_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["resource_id"]
           },
         ]
       }
       resources: {
         Row: {
           created_at: string
+          daily_hours: number
           hourly_rate: number
           icon_name: string | null
           is_active: boolean
           name: string
+          org_id: string
           resource_id: number
         }
         Insert: {
           created_at?: string
+          daily_hours?: number
           hourly_rate: number
           icon_name?: string | null
           is_active?: boolean
           name: string
+          org_id?: string
           resource_id?: number
         }
         Update: {
           created_at?: string
+          daily_hours?: number
           hourly_rate?: number
           icon_name?: string | null
           is_active?: boolean
           name?: string
+          org_id?: string
           resource_id?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "resources_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      schedule_overrides: {
+        Row: {
+          created_at: string
+          duration_days: number
+          org_id: string
+          override_id: number
+          plan_id: number
+          quote_id: string
+          requirement_id: number
+          resource_id: number | null
+          start_day: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          duration_days?: number
+          org_id?: string
+          override_id?: number
+          plan_id: number
+          quote_id: string
+          requirement_id: number
+          resource_id?: number | null
+          start_day: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          duration_days?: number
+          org_id?: string
+          override_id?: number
+          plan_id?: number
+          quote_id?: string
+          requirement_id?: number
+          resource_id?: number | null
+          start_day?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_overrides_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "schedule_overrides_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "training_plans"
+            referencedColumns: ["plan_id"]
+          },
+          {
+            foreignKeyName: "schedule_overrides_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["quote_id"]
+          },
+          {
+            foreignKeyName: "schedule_overrides_requirement_id_fkey"
+            columns: ["requirement_id"]
+            isOneToOne: false
+            referencedRelation: "planning_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_overrides_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "resources"
+            referencedColumns: ["resource_id"]
+          },
+        ]
       }
       software_training_requirements: {
         Row: {
           created_at: string
           id: number
+          org_id: string
           plan_id: number
           resource_id: number | null
           software_type_id: number
@@ -306,6 +1317,7 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: number
+          org_id?: string
           plan_id: number
           resource_id?: number | null
           software_type_id: number
@@ -313,11 +1325,19 @@ export type Database = {
         Update: {
           created_at?: string
           id?: number
+          org_id?: string
           plan_id?: number
           resource_id?: number | null
           software_type_id?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "software_training_requirements_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
           {
             foreignKeyName: "software_training_requirements_plan_id_fkey"
             columns: ["plan_id"]
@@ -347,6 +1367,7 @@ export type Database = {
           created_at: string
           description: string | null
           name: string
+          org_id: string
           photo_url: string | null
           software_type_id: number
         }
@@ -355,6 +1376,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           name: string
+          org_id?: string
           photo_url?: string | null
           software_type_id?: number
         }
@@ -363,10 +1385,19 @@ export type Database = {
           created_at?: string
           description?: string | null
           name?: string
+          org_id?: string
           photo_url?: string | null
           software_type_id?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "software_types_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
       }
       training_offers: {
         Row: {
@@ -374,6 +1405,7 @@ export type Database = {
           hours_required: number
           id: number
           machine_type_id: number | null
+          org_id: string
           plan_id: number
           software_type_id: number | null
           updated_at: string
@@ -383,6 +1415,7 @@ export type Database = {
           hours_required?: number
           id?: number
           machine_type_id?: number | null
+          org_id?: string
           plan_id: number
           software_type_id?: number | null
           updated_at?: string
@@ -392,6 +1425,7 @@ export type Database = {
           hours_required?: number
           id?: number
           machine_type_id?: number | null
+          org_id?: string
           plan_id?: number
           software_type_id?: number | null
           updated_at?: string
@@ -411,6 +1445,13 @@ export type Database = {
             referencedRelation: "machine_types"
             referencedColumns: ["machine_type_id"]
           },
+          {
+            foreignKeyName: "training_offers_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
           {
             foreignKeyName: "training_offers_plan_id_fkey"
             columns: ["plan_id"]
@@ -427,6 +1468,7 @@ export type Database = {
           display_order: number | null
           icon_name: string | null
           name: string
+          org_id: string
           plan_id: number
         }
         Insert: {
@@ -435,6 +1477,7 @@ export type Database = {
           display_order?: number | null
           icon_name?: string | null
           name: string
+          org_id?: string
           plan_id?: number
         }
         Update: {
@@ -443,9 +1486,84 @@ export type Database = {
           display_order?: number | null
           icon_name?: string | null
           name?: string
+          org_id?: string
           plan_id?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "training_plans_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
+      training_prerequisites: {
+        Row: {
+          created_at: string
+          machine_type_id: number | null
+          org_id: string
+          prerequisite_id: number
+          required_machine_type_id: number | null
+          required_software_type_id: number | null
+          software_type_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          machine_type_id?: number | null
+          org_id?: string
+          prerequisite_id?: number
+          required_machine_type_id?: number | null
+          required_software_type_id?: number | null
+          software_type_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          machine_type_id?: number | null
+          org_id?: string
+          prerequisite_id?: number
+          required_machine_type_id?: number | null
+          required_software_type_id?: number | null
+          software_type_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_prerequisites_machine_type_id_fkey"
+            columns: ["machine_type_id"]
+            isOneToOne: false
+            referencedRelation: "machine_types"
+            referencedColumns: ["machine_type_id"]
+          },
+          {
+            foreignKeyName: "training_prerequisites_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+          {
+            foreignKeyName: "training_prerequisites_required_machine_type_id_fkey"
+            columns: ["required_machine_type_id"]
+            isOneToOne: false
+            referencedRelation: "machine_types"
+            referencedColumns: ["machine_type_id"]
+          },
+          {
+            foreignKeyName: "training_prerequisites_required_software_type_id_fkey"
+            columns: ["required_software_type_id"]
+            isOneToOne: false
+            referencedRelation: "software_types"
+            referencedColumns: ["software_type_id"]
+          },
+          {
+            foreignKeyName: "training_prerequisites_software_type_id_fkey"
+            columns: ["software_type_id"]
+            isOneToOne: false
+            referencedRelation: "software_types"
+            referencedColumns: ["software_type_id"]
+          },
+        ]
       }
       training_topics: {
         Row: {
@@ -453,6 +1571,7 @@ export type Database = {
           display_order: number | null
           item_type: string | null
           machine_type_id: number | null
+          org_id: string
           plan_id: number | null
           requirement_id: number
           software_type_id: number | null
@@ -465,6 +1584,7 @@ export type Database = {
           display_order?: number | null
           item_type?: string | null
           machine_type_id?: number | null
+          org_id?: string
           plan_id?: number | null
           requirement_id: number
           software_type_id?: number | null
@@ -477,6 +1597,7 @@ export type Database = {
           display_order?: number | null
           item_type?: string | null
           machine_type_id?: number | null
+          org_id?: string
           plan_id?: number | null
           requirement_id?: number
           software_type_id?: number | null
@@ -492,6 +1613,13 @@ export type Database = {
             referencedRelation: "machine_types"
             referencedColumns: ["machine_type_id"]
           },
+          {
+            foreignKeyName: "training_topics_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
           {
             foreignKeyName: "training_topics_plan_id_fkey"
             columns: ["plan_id"]
@@ -508,11 +1636,134 @@ export type Database = {
           },
         ]
       }
+      vat_rules: {
+        Row: {
+          country_code: string
+          created_at: string
+          description: string | null
+          org_id: string
+          reverse_charge: boolean
+          vat_rate: number
+          vat_rule_id: number
+        }
+        Insert: {
+          country_code: string
+          created_at?: string
+          description?: string | null
+          org_id?: string
+          reverse_charge?: boolean
+          vat_rate: number
+          vat_rule_id?: number
+        }
+        Update: {
+          country_code?: string
+          created_at?: string
+          description?: string | null
+          org_id?: string
+          reverse_charge?: boolean
+          vat_rate?: number
+          vat_rule_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vat_rules_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["org_id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_organization_member: {
+        Args: { email_param: string; role_param?: string }
+        Returns: string
+      }
+      apply_catalog_change: {
+        Args: {
+          quote_ids_param: string[]
+          sync_planning_param: boolean
+          totals_param?: Json
+        }
+        Returns: number
+      }
+      branch_quote_revision: {
+        Args: { revision_id_param: number }
+        Returns: undefined
+      }
+      build_quote_snapshot: {
+        Args: { quote_id_param: string }
+        Returns: Json
+      }
+      build_quote_template_content: {
+        Args: { quote_id_param: string }
+        Returns: Json
+      }
+      create_organization: {
+        Args: { name_param: string }
+        Returns: string
+      }
+      create_price_list: {
+        Args: {
+          increase_percent_param?: number
+          name_param: string
+          valid_from_param: string
+        }
+        Returns: number
+      }
+      create_quote_from_content: {
+        Args: {
+          content_param: Json
+          quote_name_param: string
+          client_name_param?: string
+          area_id_param?: number
+        }
+        Returns: string
+      }
+      create_quote_from_template: {
+        Args: {
+          template_id_param: number
+          quote_name_param: string
+          client_name_param?: string
+          area_id_param?: number
+        }
+        Returns: string
+      }
+      create_quote_revision: {
+        Args: { quote_id_param: string; label_param?: string }
+        Returns: number
+      }
+      current_org_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_org_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_price_list: {
+        Args: { price_list_id_param: number }
+        Returns: undefined
+      }
+      duplicate_quote: {
+        Args: { quote_id_param: string; quote_name_param: string }
+        Returns: string
+      }
+      get_organization_members: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          email: string
+          first_name: string
+          last_name: string
+          role: string
+          joined_at: string
+        }[]
+      }
       get_quote_machines: {
         Args: { quote_id_param: string }
         Returns: {
@@ -604,6 +1855,22 @@ export type Database = {
           machines: Json
         }[]
       }
+      quote_approval_total: {
+        Args: { quote_id_param: string }
+        Returns: number
+      }
+      remove_organization_member: {
+        Args: { user_id_param: string }
+        Returns: undefined
+      }
+      reopen_edited_quote: {
+        Args: { quote_id_param: string }
+        Returns: undefined
+      }
+      save_quote_bookings: {
+        Args: { quote_id_param: string; plan_id_param?: number; bookings_param?: Json }
+        Returns: number
+      }
       save_quote_planning_item: {
         Args: {
           p_quote_id: string
@@ -621,6 +1888,14 @@ export type Database = {
         }
         Returns: string
       }
+      save_quote_template: {
+        Args: {
+          quote_id_param: string
+          template_name_param: string
+          description_param?: string
+        }
+        Returns: number
+      }
       save_training_plan_detail: {
         Args:
           | {
@@ -650,6 +1925,33 @@ export type Database = {
             }
         Returns: string
       }
+      set_organization_member_role: {
+        Args: { user_id_param: string; role_param: string }
+        Returns: undefined
+      }
+      sync_planning_details_for_quotes: {
+        Args: {
+          quote_id_param?: string
+          machine_type_id_param?: number
+          software_type_id_param?: number
+        }
+        Returns: {
+          quote_id: string
+          quote_name: string
+          created: number
+          updated: number
+          deleted: number
+          skipped: boolean
+        }[]
+      }
+      sync_quote_planning_details: {
+        Args: { quote_id_param: string }
+        Returns: Json
+      }
+      transition_quote_status: {
+        Args: { quote_id_param: string; to_status_param: string; comment_param?: string }
+        Returns: undefined
+      }
       update_quote_machines: {
         Args: { quote_id_param: string; machine_ids: number[] }
         Returns: undefined
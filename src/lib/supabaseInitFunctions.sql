@@ -148,3 +148,2046 @@ END;
 $$;
 
 COMMENT ON FUNCTION public.get_quote_training_requirements IS 'Gets all training requirements for resources related to the selected quote and plan';
+
+-- Add project start date to quotes table if it doesn't exist.
+-- Day 1 of the training schedule (the outbound travel day) falls on this date.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'project_start_date'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN project_start_date DATE;
+    END IF;
+END
+$$;
+
+-- Public holiday calendars per geographic area (area_costs row).
+-- Rows come from manual entry in Settings or from an iCal (.ics) import.
+CREATE TABLE IF NOT EXISTS public.area_holidays (
+  holiday_id BIGSERIAL PRIMARY KEY,
+  area_id BIGINT NOT NULL REFERENCES public.area_costs(area_id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ical')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (area_id, holiday_date)
+);
+
+CREATE INDEX IF NOT EXISTS area_holidays_area_id_idx ON public.area_holidays (area_id);
+
+COMMENT ON TABLE public.area_holidays IS 'Public holidays per geographic area, skipped by the training scheduler';
+
+-- Working hours per day: each resource has its own capacity, a quote may override it for all resources.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'resources'
+        AND column_name = 'daily_hours'
+    ) THEN
+        ALTER TABLE public.resources ADD COLUMN daily_hours NUMERIC NOT NULL DEFAULT 8
+            CHECK (daily_hours > 0 AND daily_hours <= 24);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'daily_hours_override'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN daily_hours_override NUMERIC
+            CHECK (daily_hours_override IS NULL OR (daily_hours_override > 0 AND daily_hours_override <= 24));
+    END IF;
+END
+$$;
+
+-- Trainee groups per quote: the customer people attending a set of machine/software trainings.
+-- The scheduler never runs two trainings of the same group at the same time, even with different resources.
+CREATE TABLE IF NOT EXISTS public.quote_trainee_groups (
+  group_id BIGSERIAL PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(quote_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  machine_type_ids BIGINT[] NOT NULL DEFAULT '{}',
+  software_type_ids BIGINT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quote_trainee_groups_quote_id_idx ON public.quote_trainee_groups (quote_id);
+
+COMMENT ON TABLE public.quote_trainee_groups IS 'Customer trainee groups of a quote; trainings of one group are scheduled without overlap';
+
+-- Training prerequisites between machine and software types ("software X after machine Y").
+-- Exactly one type is set on each side; the scheduler starts the dependent training once the required one is finished.
+CREATE TABLE IF NOT EXISTS public.training_prerequisites (
+  prerequisite_id BIGSERIAL PRIMARY KEY,
+  machine_type_id BIGINT REFERENCES public.machine_types(machine_type_id) ON DELETE CASCADE,
+  software_type_id BIGINT REFERENCES public.software_types(software_type_id) ON DELETE CASCADE,
+  required_machine_type_id BIGINT REFERENCES public.machine_types(machine_type_id) ON DELETE CASCADE,
+  required_software_type_id BIGINT REFERENCES public.software_types(software_type_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((machine_type_id IS NULL) <> (software_type_id IS NULL)),
+  CHECK ((required_machine_type_id IS NULL) <> (required_software_type_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS training_prerequisites_unique_idx ON public.training_prerequisites (
+  COALESCE(machine_type_id, 0),
+  COALESCE(software_type_id, 0),
+  COALESCE(required_machine_type_id, 0),
+  COALESCE(required_software_type_id, 0)
+);
+
+COMMENT ON TABLE public.training_prerequisites IS 'Machine/software trainings that must be finished before another training starts';
+
+-- Manual schedule overrides from the Gantt chart (drag, resize, move to another resource).
+-- One row per quote, plan and requirement (planning_details row); the scheduler treats them as fixed anchors.
+CREATE TABLE IF NOT EXISTS public.schedule_overrides (
+  override_id BIGSERIAL PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(quote_id) ON DELETE CASCADE,
+  plan_id BIGINT NOT NULL REFERENCES public.training_plans(plan_id) ON DELETE CASCADE,
+  requirement_id BIGINT NOT NULL REFERENCES public.planning_details(id) ON DELETE CASCADE,
+  resource_id BIGINT REFERENCES public.resources(resource_id) ON DELETE SET NULL,
+  start_day INTEGER NOT NULL CHECK (start_day >= 1),
+  duration_days INTEGER NOT NULL DEFAULT 1 CHECK (duration_days >= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (quote_id, plan_id, requirement_id)
+);
+
+COMMENT ON TABLE public.schedule_overrides IS 'Manually placed training requirements, used as fixed anchors by the scheduler';
+
+-- Resource bookings: dated training segments of the plan booked for a quote with a project start date.
+-- Written by save_quote_bookings when the quote is saved at checkout, so availability checks across quotes
+-- don't have to re-run the scheduler for every other quote.
+CREATE TABLE IF NOT EXISTS public.resource_bookings (
+  booking_id BIGSERIAL PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(quote_id) ON DELETE CASCADE,
+  plan_id BIGINT NOT NULL REFERENCES public.training_plans(plan_id) ON DELETE CASCADE,
+  resource_id BIGINT NOT NULL REFERENCES public.resources(resource_id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  hours NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS resource_bookings_resource_dates_idx ON public.resource_bookings (resource_id, start_date, end_date);
+
+COMMENT ON TABLE public.resource_bookings IS 'Scheduled training segments per resource and quote, used to detect double bookings across quotes';
+
+-- Replace a quote's bookings with the segments of one plan in one transaction; without a plan they are cleared.
+-- bookings_param holds resource_bookings rows (resource_id, start_date, end_date, hours).
+CREATE OR REPLACE FUNCTION public.save_quote_bookings(
+  quote_id_param UUID,
+  plan_id_param BIGINT DEFAULT NULL,
+  bookings_param JSONB DEFAULT '[]'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  saved_count INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.quotes WHERE quote_id = quote_id_param) THEN
+    RAISE EXCEPTION 'Quote % not found', quote_id_param;
+  END IF;
+
+  DELETE FROM public.resource_bookings WHERE quote_id = quote_id_param;
+
+  INSERT INTO public.resource_bookings (quote_id, plan_id, resource_id, start_date, end_date, hours)
+  SELECT quote_id_param, plan_id_param, b.resource_id, b.start_date, b.end_date, COALESCE(b.hours, 0)
+  FROM jsonb_populate_recordset(NULL::public.resource_bookings, bookings_param) b;
+
+  GET DIAGNOSTICS saved_count = ROW_COUNT;
+  RETURN saved_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.save_quote_bookings IS 'Replaces a quote''s resource bookings with the dated segments of the booked plan; returns the number of bookings';
+
+-- Resource unavailability: date ranges a trainer cannot be scheduled (vacation, sick leave, internal work).
+-- Skipped by the scheduler once a quote has a project start date.
+CREATE TABLE IF NOT EXISTS public.resource_unavailability (
+  unavailability_id BIGSERIAL PRIMARY KEY,
+  resource_id BIGINT NOT NULL REFERENCES public.resources(resource_id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS resource_unavailability_resource_idx ON public.resource_unavailability (resource_id, start_date);
+
+COMMENT ON TABLE public.resource_unavailability IS 'Blocked date ranges per resource, skipped by the training scheduler';
+
+-- Quote totals: cost snapshot per quote and plan, written on checkout ("Save & Close").
+-- Holds the agreed numbers so dashboards, reports and audits don't recompute them from settings that may have changed since.
+CREATE TABLE IF NOT EXISTS public.quote_totals (
+  quote_totals_id BIGSERIAL PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(quote_id) ON DELETE CASCADE,
+  plan_id BIGINT NOT NULL REFERENCES public.training_plans(plan_id) ON DELETE CASCADE,
+  plan_name TEXT NOT NULL,
+  area_id BIGINT,
+  training_cost NUMERIC NOT NULL DEFAULT 0,
+  travel_cost NUMERIC NOT NULL DEFAULT 0,
+  total_cost NUMERIC NOT NULL DEFAULT 0,
+  training_days INTEGER NOT NULL DEFAULT 0,
+  business_trip_days INTEGER NOT NULL DEFAULT 0,
+  start_date DATE,
+  end_date DATE,
+  resource_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  saved_by_user_id UUID,
+  saved_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (quote_id, plan_id)
+);
+
+COMMENT ON TABLE public.quote_totals IS 'Cost snapshot per quote and plan saved on checkout (training, travel, days, per-resource breakdown)';
+COMMENT ON COLUMN public.quote_totals.area_id IS 'Area whose daily travel rates were used (no FK: the snapshot outlives the area)';
+
+-- Quote currency: catalog prices (resource rates, area costs) are kept in EUR and converted for display and documents.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'currency'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN currency TEXT NOT NULL DEFAULT 'EUR'
+            CHECK (currency ~ '^[A-Z]{3}$');
+    END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.quotes.currency IS 'ISO 4217 code the quote is presented in; amounts are converted from EUR via exchange_rates';
+
+-- Exchange rates from EUR, with the date from which each rate applies.
+-- A quote uses the latest rate effective on its quote date (its creation date when it has none).
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  rate_id BIGSERIAL PRIMARY KEY,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (currency, effective_date)
+);
+
+COMMENT ON TABLE public.exchange_rates IS 'Units of the currency per 1 EUR, effective from effective_date';
+
+-- Quote totals are stored in the quote currency, together with the rate that was applied
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quote_totals'
+        AND column_name = 'currency'
+    ) THEN
+        ALTER TABLE public.quote_totals ADD COLUMN currency TEXT NOT NULL DEFAULT 'EUR';
+        ALTER TABLE public.quote_totals ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1;
+    END IF;
+END
+$$;
+
+-- Sales pricing per quote and plan: margin on cost, line discounts per resource and an optional manual price.
+-- All amounts are in the quote currency.
+CREATE TABLE IF NOT EXISTS public.quote_plan_pricing (
+  pricing_id BIGSERIAL PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(quote_id) ON DELETE CASCADE,
+  plan_id BIGINT NOT NULL REFERENCES public.training_plans(plan_id) ON DELETE CASCADE,
+  margin_percent NUMERIC NOT NULL DEFAULT 0 CHECK (margin_percent >= 0),
+  line_discounts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  override_price NUMERIC CHECK (override_price >= 0),
+  override_reason TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (quote_id, plan_id),
+  CHECK (override_price IS NULL OR length(trim(coalesce(override_reason, ''))) > 0)
+);
+
+COMMENT ON TABLE public.quote_plan_pricing IS 'Margin, line discounts and manual price override applied to a plan''s cost on checkout';
+COMMENT ON COLUMN public.quote_plan_pricing.line_discounts IS 'Discount percent per resource line, keyed by resource_id';
+COMMENT ON COLUMN public.quote_plan_pricing.override_reason IS 'Required whenever override_price is set';
+
+-- Quote totals also keep the sell price derived from the cost
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quote_totals'
+        AND column_name = 'sell_price'
+    ) THEN
+        ALTER TABLE public.quote_totals ADD COLUMN margin_percent NUMERIC NOT NULL DEFAULT 0;
+        ALTER TABLE public.quote_totals ADD COLUMN discount_total NUMERIC NOT NULL DEFAULT 0;
+        ALTER TABLE public.quote_totals ADD COLUMN sell_price NUMERIC NOT NULL DEFAULT 0;
+        ALTER TABLE public.quote_totals ADD COLUMN override_reason TEXT;
+    END IF;
+END
+$$;
+
+-- VAT: a default rate per area, overridable by a rule for the client's country.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'area_costs'
+        AND column_name = 'vat_rate'
+    ) THEN
+        ALTER TABLE public.area_costs ADD COLUMN vat_rate NUMERIC NOT NULL DEFAULT 0
+            CHECK (vat_rate >= 0 AND vat_rate <= 100);
+    END IF;
+END
+$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'client_country'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN client_country TEXT CHECK (client_country ~ '^[A-Z]{2}$');
+        ALTER TABLE public.quotes ADD COLUMN client_vat_id TEXT;
+    END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.quotes.client_country IS 'ISO 3166-1 alpha-2 country of the client, used to pick the VAT rule';
+COMMENT ON COLUMN public.quotes.client_vat_id IS 'Client VAT registration number; makes the client eligible for reverse charge';
+
+CREATE TABLE IF NOT EXISTS public.vat_rules (
+  vat_rule_id BIGSERIAL PRIMARY KEY,
+  country_code TEXT NOT NULL UNIQUE CHECK (country_code ~ '^[A-Z]{2}$'),
+  vat_rate NUMERIC NOT NULL CHECK (vat_rate >= 0 AND vat_rate <= 100),
+  reverse_charge BOOLEAN NOT NULL DEFAULT false,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.vat_rules IS 'VAT rate per client country; takes precedence over the area rate';
+COMMENT ON COLUMN public.vat_rules.reverse_charge IS 'Clients with a VAT id in this country are invoiced without VAT (tax due by the recipient)';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quote_totals'
+        AND column_name = 'tax_rate'
+    ) THEN
+        ALTER TABLE public.quote_totals ADD COLUMN tax_rate NUMERIC NOT NULL DEFAULT 0;
+        ALTER TABLE public.quote_totals ADD COLUMN tax_amount NUMERIC NOT NULL DEFAULT 0;
+        ALTER TABLE public.quote_totals ADD COLUMN gross_price NUMERIC NOT NULL DEFAULT 0;
+        ALTER TABLE public.quote_totals ADD COLUMN reverse_charge BOOLEAN NOT NULL DEFAULT false;
+    END IF;
+END
+$$;
+
+-- Quote revisions: immutable snapshots of a quote (selections, planning, pricing and totals).
+-- parent_revision_id records which revision the working draft was based on, so branching from an old revision forms a tree.
+CREATE TABLE IF NOT EXISTS public.quote_revisions (
+  revision_id BIGSERIAL PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(quote_id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  label TEXT,
+  parent_revision_id BIGINT REFERENCES public.quote_revisions(revision_id) ON DELETE SET NULL,
+  snapshot JSONB NOT NULL,
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (quote_id, revision_number)
+);
+
+COMMENT ON TABLE public.quote_revisions IS 'Immutable numbered snapshots of a quote; see create_quote_revision and branch_quote_revision';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'based_on_revision_id'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN based_on_revision_id BIGINT
+            REFERENCES public.quote_revisions(revision_id) ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.quotes.based_on_revision_id IS 'Revision the current working draft descends from (parent of the next revision)';
+
+-- Revisions are never edited; only the parent link may be cleared when its parent disappears
+CREATE OR REPLACE FUNCTION public.prevent_quote_revision_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.snapshot IS DISTINCT FROM OLD.snapshot
+     OR NEW.revision_number IS DISTINCT FROM OLD.revision_number
+     OR NEW.quote_id IS DISTINCT FROM OLD.quote_id
+     OR NEW.label IS DISTINCT FROM OLD.label THEN
+    RAISE EXCEPTION 'Quote revisions are immutable';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quote_revisions_immutable ON public.quote_revisions;
+CREATE TRIGGER quote_revisions_immutable
+  BEFORE UPDATE ON public.quote_revisions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_quote_revision_update();
+
+-- Current state of a quote as revision snapshot JSON
+CREATE OR REPLACE FUNCTION public.build_quote_snapshot(quote_id_param UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'quote', jsonb_build_object(
+      'quote_name', q.quote_name,
+      'client_id', q.client_id,
+      'client_name', q.client_name,
+      'client_country', q.client_country,
+      'client_vat_id', q.client_vat_id,
+      'area_id', q.area_id,
+      'area_name', ac.area_name,
+      'currency', q.currency,
+      'project_start_date', q.project_start_date,
+      'work_on_saturday', q.work_on_saturday,
+      'work_on_sunday', q.work_on_sunday,
+      'daily_hours_override', q.daily_hours_override,
+      'machine_type_ids', COALESCE(to_jsonb(q.machine_type_ids), '[]'::jsonb),
+      'software_type_ids', COALESCE(to_jsonb(q.software_type_ids), '[]'::jsonb)
+    ),
+    'machines', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', mt.machine_type_id, 'name', mt.name) ORDER BY mt.name)
+      FROM public.machine_types mt
+      WHERE mt.machine_type_id = ANY(q.machine_type_ids)
+    ), '[]'::jsonb),
+    'software', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', st.software_type_id, 'name', st.name) ORDER BY st.name)
+      FROM public.software_types st
+      WHERE st.software_type_id = ANY(q.software_type_ids)
+    ), '[]'::jsonb),
+    'planning_details', COALESCE((
+      SELECT jsonb_agg(to_jsonb(pd) || jsonb_build_object('plan_name', tp.name) ORDER BY pd.plan_id, pd.id)
+      FROM public.planning_details pd
+      LEFT JOIN public.training_plans tp ON tp.plan_id = pd.plan_id
+      WHERE pd.quote_id = q.quote_id
+    ), '[]'::jsonb),
+    'trainee_groups', COALESCE((
+      SELECT jsonb_agg(to_jsonb(g) ORDER BY g.group_id)
+      FROM public.quote_trainee_groups g
+      WHERE g.quote_id = q.quote_id
+    ), '[]'::jsonb),
+    'schedule_overrides', COALESCE((
+      SELECT jsonb_agg(to_jsonb(so) ORDER BY so.override_id)
+      FROM public.schedule_overrides so
+      WHERE so.quote_id = q.quote_id
+    ), '[]'::jsonb),
+    'plan_pricing', COALESCE((
+      SELECT jsonb_agg(to_jsonb(pp) ORDER BY pp.plan_id)
+      FROM public.quote_plan_pricing pp
+      WHERE pp.quote_id = q.quote_id
+    ), '[]'::jsonb),
+    'totals', COALESCE((
+      SELECT jsonb_agg(to_jsonb(qt) ORDER BY qt.plan_id)
+      FROM public.quote_totals qt
+      WHERE qt.quote_id = q.quote_id
+    ), '[]'::jsonb)
+  )
+  FROM public.quotes q
+  LEFT JOIN public.area_costs ac ON ac.area_id = q.area_id
+  WHERE q.quote_id = quote_id_param
+$$;
+
+-- Freeze the current state of a quote as its next revision.
+-- Revisions are an audit trail members can only read, so this runs with the owner's rights and checks the
+-- caller's organization itself.
+CREATE OR REPLACE FUNCTION public.create_quote_revision(
+  quote_id_param UUID,
+  label_param TEXT DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_id BIGINT;
+  quote_org UUID;
+  next_number INTEGER;
+  new_revision_id BIGINT;
+BEGIN
+  -- Lock the quote so concurrent saves can't take the same revision number
+  SELECT based_on_revision_id, org_id INTO parent_id, quote_org
+  FROM public.quotes
+  WHERE quote_id = quote_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND OR quote_org IS DISTINCT FROM public.current_org_id() THEN
+    RAISE EXCEPTION 'Quote % not found', quote_id_param;
+  END IF;
+
+  IF COALESCE(public.current_org_role(), '') NOT IN ('admin', 'pricing_manager', 'sales') THEN
+    RAISE EXCEPTION 'Viewers cannot save quote revisions';
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_number
+  FROM public.quote_revisions
+  WHERE quote_id = quote_id_param;
+
+  INSERT INTO public.quote_revisions (quote_id, revision_number, label, parent_revision_id, snapshot, created_by_user_id)
+  VALUES (quote_id_param, next_number, label_param, parent_id, public.build_quote_snapshot(quote_id_param), auth.uid())
+  RETURNING revision_id INTO new_revision_id;
+
+  UPDATE public.quotes
+  SET based_on_revision_id = new_revision_id
+  WHERE quote_id = quote_id_param;
+
+  RETURN new_revision_id;
+END;
+$$;
+
+-- Replace the working draft of a quote with an old revision.
+-- The current state is saved as a revision first, so branching never loses work.
+CREATE OR REPLACE FUNCTION public.branch_quote_revision(revision_id_param BIGINT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  source_revision public.quote_revisions%ROWTYPE;
+  snap JSONB;
+BEGIN
+  SELECT * INTO source_revision
+  FROM public.quote_revisions
+  WHERE revision_id = revision_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', revision_id_param;
+  END IF;
+
+  snap := source_revision.snapshot;
+
+  PERFORM public.create_quote_revision(
+    source_revision.quote_id,
+    'Draft before branching from revision ' || source_revision.revision_number
+  );
+
+  UPDATE public.quotes
+  SET quote_name = snap->'quote'->>'quote_name',
+      -- The client may have been deleted since the revision was taken
+      client_id = (SELECT c.client_id FROM public.clients c WHERE c.client_id = (snap->'quote'->>'client_id')::BIGINT),
+      client_name = snap->'quote'->>'client_name',
+      client_country = snap->'quote'->>'client_country',
+      client_vat_id = snap->'quote'->>'client_vat_id',
+      area_id = (snap->'quote'->>'area_id')::BIGINT,
+      currency = COALESCE(snap->'quote'->>'currency', 'EUR'),
+      project_start_date = (snap->'quote'->>'project_start_date')::DATE,
+      work_on_saturday = (snap->'quote'->>'work_on_saturday')::BOOLEAN,
+      work_on_sunday = (snap->'quote'->>'work_on_sunday')::BOOLEAN,
+      daily_hours_override = (snap->'quote'->>'daily_hours_override')::NUMERIC,
+      machine_type_ids = ARRAY(SELECT jsonb_array_elements_text(snap->'quote'->'machine_type_ids')::BIGINT),
+      software_type_ids = ARRAY(SELECT jsonb_array_elements_text(snap->'quote'->'software_type_ids')::BIGINT),
+      based_on_revision_id = source_revision.revision_id
+  WHERE quote_id = source_revision.quote_id;
+
+  -- Deleting planning_details also removes the schedule overrides pointing at them
+  DELETE FROM public.planning_details WHERE quote_id = source_revision.quote_id;
+  DELETE FROM public.quote_trainee_groups WHERE quote_id = source_revision.quote_id;
+  DELETE FROM public.schedule_overrides WHERE quote_id = source_revision.quote_id;
+  DELETE FROM public.quote_plan_pricing WHERE quote_id = source_revision.quote_id;
+  DELETE FROM public.quote_totals WHERE quote_id = source_revision.quote_id;
+
+  -- Rows get new ids and the default org_id: stored keys may be taken and older snapshots have no org_id
+  INSERT INTO public.planning_details (
+    quote_id, plan_id, resource_id, machine_types_id, software_types_id,
+    allocated_hours, work_on_saturday, work_on_sunday
+  )
+  SELECT source_revision.quote_id, pd.plan_id, pd.resource_id, pd.machine_types_id, pd.software_types_id,
+         pd.allocated_hours, pd.work_on_saturday, pd.work_on_sunday
+  FROM jsonb_populate_recordset(NULL::public.planning_details, snap->'planning_details') pd;
+
+  INSERT INTO public.quote_trainee_groups (quote_id, name, machine_type_ids, software_type_ids)
+  SELECT source_revision.quote_id, g.name, g.machine_type_ids, g.software_type_ids
+  FROM jsonb_populate_recordset(NULL::public.quote_trainee_groups, snap->'trainee_groups') g;
+
+  -- Overrides point at the old planning rows; a quote has one row per plan and machine or software
+  INSERT INTO public.schedule_overrides (quote_id, plan_id, requirement_id, resource_id, start_day, duration_days)
+  SELECT source_revision.quote_id, so.plan_id, pd.id, so.resource_id, so.start_day, so.duration_days
+  FROM jsonb_populate_recordset(NULL::public.schedule_overrides, snap->'schedule_overrides') so
+  JOIN jsonb_populate_recordset(NULL::public.planning_details, snap->'planning_details') old_pd
+    ON old_pd.id = so.requirement_id
+  JOIN public.planning_details pd
+    ON pd.quote_id = source_revision.quote_id
+    AND pd.plan_id = old_pd.plan_id
+    AND pd.machine_types_id IS NOT DISTINCT FROM old_pd.machine_types_id
+    AND pd.software_types_id IS NOT DISTINCT FROM old_pd.software_types_id;
+
+  INSERT INTO public.quote_plan_pricing (quote_id, plan_id, margin_percent, line_discounts, override_price, override_reason)
+  SELECT source_revision.quote_id, pp.plan_id, pp.margin_percent, pp.line_discounts, pp.override_price, pp.override_reason
+  FROM jsonb_populate_recordset(NULL::public.quote_plan_pricing, snap->'plan_pricing') pp;
+
+  INSERT INTO public.quote_totals (
+    quote_id, plan_id, plan_name, area_id, training_cost, travel_cost, total_cost,
+    training_days, business_trip_days, start_date, end_date, resource_breakdown,
+    currency, exchange_rate, margin_percent, discount_total, sell_price, override_reason,
+    tax_rate, tax_amount, gross_price, reverse_charge, saved_by_user_id, saved_at
+  )
+  SELECT source_revision.quote_id, qt.plan_id, qt.plan_name, qt.area_id, qt.training_cost, qt.travel_cost, qt.total_cost,
+         qt.training_days, qt.business_trip_days, qt.start_date, qt.end_date, qt.resource_breakdown,
+         qt.currency, qt.exchange_rate, qt.margin_percent, qt.discount_total, qt.sell_price, qt.override_reason,
+         qt.tax_rate, qt.tax_amount, qt.gross_price, qt.reverse_charge, qt.saved_by_user_id, qt.saved_at
+  FROM jsonb_populate_recordset(NULL::public.quote_totals, snap->'totals') qt;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_quote_revision IS 'Saves the current quote state as its next immutable revision and returns the revision id';
+COMMENT ON FUNCTION public.branch_quote_revision IS 'Restores an old revision as the working draft, saving the current state as a revision first';
+
+-- Application-wide settings (key → JSON value), e.g. the quote approval threshold
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  setting_key TEXT PRIMARY KEY,
+  setting_value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.app_settings IS 'Application settings; approval_threshold = quote total in EUR above which a manager must approve';
+
+-- Quote lifecycle: draft → submitted → approved → sent → accepted / rejected / expired
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'status'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN status TEXT NOT NULL DEFAULT 'draft'
+            CHECK (status IN ('draft', 'submitted', 'approved', 'sent', 'accepted', 'rejected', 'expired'));
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS public.quote_status_history (
+  history_id BIGSERIAL PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(quote_id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  comment TEXT,
+  changed_by_user_id UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quote_status_history_quote_idx ON public.quote_status_history (quote_id, changed_at);
+
+COMMENT ON TABLE public.quote_status_history IS 'Every status change of a quote, with who made it and when';
+
+-- Move a quote to another status, enforcing the lifecycle and the manager approval above the threshold.
+-- Managers are users whose app_metadata.role is 'manager' (set by an administrator, not editable by the user)
+-- or who are a pricing manager or admin of their organization.
+-- The status history is an audit trail members can only read, so this runs with the owner's rights and checks
+-- the caller's organization itself.
+CREATE OR REPLACE FUNCTION public.transition_quote_status(
+  quote_id_param UUID,
+  to_status_param TEXT,
+  comment_param TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_status TEXT;
+  quote_org UUID;
+  threshold NUMERIC;
+  quote_total NUMERIC;
+  needs_approval BOOLEAN;
+  is_manager BOOLEAN := COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'manager'
+    OR COALESCE(public.current_org_role(), '') IN ('pricing_manager', 'admin');
+BEGIN
+  SELECT status, org_id INTO current_status, quote_org
+  FROM public.quotes
+  WHERE quote_id = quote_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND OR quote_org IS DISTINCT FROM public.current_org_id() THEN
+    RAISE EXCEPTION 'Quote % not found', quote_id_param;
+  END IF;
+
+  IF COALESCE(public.current_org_role(), '') NOT IN ('admin', 'pricing_manager', 'sales') THEN
+    RAISE EXCEPTION 'Viewers cannot change the quote status';
+  END IF;
+
+  SELECT (setting_value #>> '{}')::NUMERIC INTO threshold
+  FROM public.app_settings
+  WHERE setting_key = 'approval_threshold'
+    AND org_id = quote_org;
+
+  -- Saved totals are written by the client; quote_approval_total (with the price lists below) checks them against the planning
+  quote_total := public.quote_approval_total(quote_id_param);
+
+  needs_approval := threshold IS NOT NULL AND quote_total > threshold;
+
+  -- Without saved totals the quote would count as free and pass any threshold
+  IF to_status_param IN ('submitted', 'approved') AND NOT EXISTS (
+    SELECT 1 FROM public.quote_totals WHERE quote_id = quote_id_param
+  ) THEN
+    RAISE EXCEPTION 'Save the quote at checkout before submitting or approving it';
+  END IF;
+
+  IF NOT (
+    (current_status = 'draft' AND to_status_param = 'submitted' AND needs_approval) OR
+    (current_status = 'draft' AND to_status_param = 'approved' AND NOT needs_approval) OR
+    (current_status = 'submitted' AND to_status_param = 'approved' AND (NOT needs_approval OR is_manager)) OR
+    (current_status = 'submitted' AND to_status_param = 'draft') OR
+    (current_status = 'approved' AND to_status_param IN ('sent', 'draft')) OR
+    (current_status = 'sent' AND to_status_param IN ('accepted', 'rejected', 'expired', 'draft')) OR
+    (current_status IN ('rejected', 'expired') AND to_status_param = 'draft')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change quote status from % to %', current_status, to_status_param;
+  END IF;
+
+  PERFORM set_config('app.quote_status_transition', 'on', true);
+  UPDATE public.quotes
+  SET status = to_status_param
+  WHERE quote_id = quote_id_param;
+  PERFORM set_config('app.quote_status_transition', 'off', true);
+
+  INSERT INTO public.quote_status_history (quote_id, from_status, to_status, comment, changed_by_user_id)
+  VALUES (quote_id_param, current_status, to_status_param, comment_param, auth.uid());
+END;
+$$;
+
+COMMENT ON FUNCTION public.transition_quote_status IS 'Changes a quote''s status along the lifecycle (approval judged on quote_approval_total) and records the change in quote_status_history';
+
+-- Send a submitted, approved or sent quote back to draft, so an edited quote needs a new approval.
+-- Writes the status history, so like transition_quote_status it checks the organization itself.
+CREATE OR REPLACE FUNCTION public.reopen_edited_quote(quote_id_param UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_status TEXT;
+BEGIN
+  SELECT status INTO current_status
+  FROM public.quotes
+  WHERE quote_id = quote_id_param
+    AND org_id = public.current_org_id()
+    AND public.current_org_role() IN ('admin', 'pricing_manager', 'sales')
+  FOR UPDATE;
+
+  IF current_status IN ('submitted', 'approved', 'sent') THEN
+    PERFORM set_config('app.quote_status_transition', 'on', true);
+    UPDATE public.quotes
+    SET status = 'draft'
+    WHERE quote_id = quote_id_param;
+    PERFORM set_config('app.quote_status_transition', 'off', true);
+
+    INSERT INTO public.quote_status_history (quote_id, from_status, to_status, comment, changed_by_user_id)
+    VALUES (quote_id_param, current_status, 'draft', 'Reopened as draft after an edit', auth.uid());
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.reopen_edited_quote IS 'Moves a submitted, approved or sent quote back to draft and records the change';
+
+-- The status only changes through transition_quote_status. A member editing a submitted, approved or sent
+-- quote sends it back to draft; changes cascading from deleted clients or catalog rows and maintenance
+-- updates without a signed-in user (backfills) are not edits. Security definer to write the status history;
+-- the row itself already passed the caller's row-level security.
+CREATE OR REPLACE FUNCTION public.guard_quote_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  non_content_fields TEXT[] := ARRAY['status', 'based_on_revision_id', 'created_by_user_id', 'assigned_to_user_id'];
+BEGIN
+  IF current_setting('app.quote_status_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'New quotes start as drafts';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Change the quote status with transition_quote_status';
+  END IF;
+
+  IF OLD.status IN ('submitted', 'approved', 'sent')
+    AND pg_trigger_depth() = 1
+    AND auth.uid() IS NOT NULL
+    AND to_jsonb(NEW) - non_content_fields IS DISTINCT FROM to_jsonb(OLD) - non_content_fields THEN
+    NEW.status := 'draft';
+    INSERT INTO public.quote_status_history (quote_id, from_status, to_status, comment, changed_by_user_id)
+    VALUES (NEW.quote_id, OLD.status, 'draft', 'Reopened as draft after an edit', auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quotes_guard_status ON public.quotes;
+CREATE TRIGGER quotes_guard_status
+  BEFORE INSERT OR UPDATE ON public.quotes
+  FOR EACH ROW EXECUTE FUNCTION public.guard_quote_status();
+
+-- Planning, pricing and totals are part of the quote too. Updates that only touch timestamps, like the
+-- planner re-saving unchanged weekend settings on load, are not edits.
+CREATE OR REPLACE FUNCTION public.reopen_quote_on_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  timestamp_fields TEXT[] := ARRAY['updated_at', 'saved_at'];
+BEGIN
+  IF TG_OP = 'UPDATE' AND to_jsonb(NEW) - timestamp_fields = to_jsonb(OLD) - timestamp_fields THEN
+    RETURN NULL;
+  END IF;
+
+  IF pg_trigger_depth() = 1 AND auth.uid() IS NOT NULL THEN
+    PERFORM public.reopen_edited_quote(CASE WHEN TG_OP = 'DELETE' THEN OLD.quote_id ELSE NEW.quote_id END);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+    quote_table TEXT;
+BEGIN
+    FOREACH quote_table IN ARRAY ARRAY['planning_details', 'quote_trainee_groups', 'schedule_overrides', 'quote_plan_pricing', 'quote_totals']
+    LOOP
+        EXECUTE format('DROP TRIGGER IF EXISTS %I ON public.%I', quote_table || '_reopen_quote', quote_table);
+        EXECUTE format(
+            'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.reopen_quote_on_edit()',
+            quote_table || '_reopen_quote', quote_table
+        );
+    END LOOP;
+END
+$$;
+
+-- Named starting points for new quotes: selections, planning details, weekend settings and area
+CREATE TABLE IF NOT EXISTS public.quote_templates (
+  template_id BIGSERIAL PRIMARY KEY,
+  template_name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  content JSONB NOT NULL,
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.quote_templates IS 'Reusable quote setups; content is built by build_quote_template_content';
+
+-- The reusable part of a quote: everything except its name, client, dates and prices
+CREATE OR REPLACE FUNCTION public.build_quote_template_content(quote_id_param UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'area_id', q.area_id,
+    'currency', q.currency,
+    'work_on_saturday', q.work_on_saturday,
+    'work_on_sunday', q.work_on_sunday,
+    'daily_hours_override', q.daily_hours_override,
+    'machine_type_ids', COALESCE(to_jsonb(q.machine_type_ids), '[]'::jsonb),
+    'software_type_ids', COALESCE(to_jsonb(q.software_type_ids), '[]'::jsonb),
+    'planning_details', COALESCE((
+      SELECT jsonb_agg(to_jsonb(pd) ORDER BY pd.plan_id, pd.id)
+      FROM public.planning_details pd
+      WHERE pd.quote_id = q.quote_id
+    ), '[]'::jsonb),
+    'trainee_groups', COALESCE((
+      SELECT jsonb_agg(to_jsonb(g) ORDER BY g.group_id)
+      FROM public.quote_trainee_groups g
+      WHERE g.quote_id = q.quote_id
+    ), '[]'::jsonb)
+  )
+  FROM public.quotes q
+  WHERE q.quote_id = quote_id_param
+$$;
+
+-- Create a draft quote from template content; the planning rows get new ids. Rows of plans, resources and
+-- machine or software types deleted since the content was built are left out.
+CREATE OR REPLACE FUNCTION public.create_quote_from_content(
+  content_param JSONB,
+  quote_name_param TEXT,
+  client_name_param TEXT DEFAULT NULL,
+  area_id_param BIGINT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_quote_id UUID;
+BEGIN
+  INSERT INTO public.quotes (
+    quote_name, client_name, created_by_user_id, area_id, currency,
+    work_on_saturday, work_on_sunday, daily_hours_override, machine_type_ids, software_type_ids
+  )
+  VALUES (
+    quote_name_param,
+    client_name_param,
+    auth.uid(),
+    COALESCE(area_id_param, (content_param->>'area_id')::BIGINT),
+    COALESCE(content_param->>'currency', 'EUR'),
+    (content_param->>'work_on_saturday')::BOOLEAN,
+    (content_param->>'work_on_sunday')::BOOLEAN,
+    (content_param->>'daily_hours_override')::NUMERIC,
+    ARRAY(SELECT jsonb_array_elements_text(content_param->'machine_type_ids')::BIGINT),
+    ARRAY(SELECT jsonb_array_elements_text(content_param->'software_type_ids')::BIGINT)
+  )
+  RETURNING quote_id INTO new_quote_id;
+
+  INSERT INTO public.planning_details (
+    quote_id, plan_id, resource_id, machine_types_id, software_types_id,
+    allocated_hours, work_on_saturday, work_on_sunday
+  )
+  SELECT new_quote_id, pd.plan_id, pd.resource_id, pd.machine_types_id, pd.software_types_id,
+         pd.allocated_hours, pd.work_on_saturday, pd.work_on_sunday
+  FROM jsonb_populate_recordset(NULL::public.planning_details, content_param->'planning_details') pd
+  WHERE EXISTS (SELECT 1 FROM public.training_plans tp WHERE tp.plan_id = pd.plan_id)
+    AND (pd.resource_id IS NULL OR EXISTS (SELECT 1 FROM public.resources r WHERE r.resource_id = pd.resource_id))
+    AND (pd.machine_types_id IS NULL OR EXISTS (SELECT 1 FROM public.machine_types mt WHERE mt.machine_type_id = pd.machine_types_id))
+    AND (pd.software_types_id IS NULL OR EXISTS (SELECT 1 FROM public.software_types st WHERE st.software_type_id = pd.software_types_id));
+
+  INSERT INTO public.quote_trainee_groups (quote_id, name, machine_type_ids, software_type_ids)
+  SELECT new_quote_id, g.name, g.machine_type_ids, g.software_type_ids
+  FROM jsonb_populate_recordset(NULL::public.quote_trainee_groups, content_param->'trainee_groups') g;
+
+  RETURN new_quote_id;
+END;
+$$;
+
+-- Copy a quote (same client) into a new draft
+CREATE OR REPLACE FUNCTION public.duplicate_quote(
+  quote_id_param UUID,
+  quote_name_param TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  source_quote public.quotes%ROWTYPE;
+  new_quote_id UUID;
+BEGIN
+  SELECT * INTO source_quote
+  FROM public.quotes
+  WHERE quote_id = quote_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', quote_id_param;
+  END IF;
+
+  new_quote_id := public.create_quote_from_content(
+    public.build_quote_template_content(quote_id_param),
+    quote_name_param,
+    source_quote.client_name
+  );
+
+  UPDATE public.quotes
+  SET client_id = source_quote.client_id,
+      client_country = source_quote.client_country,
+      client_vat_id = source_quote.client_vat_id,
+      project_start_date = source_quote.project_start_date
+  WHERE quote_id = new_quote_id;
+
+  RETURN new_quote_id;
+END;
+$$;
+
+-- Save the reusable part of a quote as a named template
+CREATE OR REPLACE FUNCTION public.save_quote_template(
+  quote_id_param UUID,
+  template_name_param TEXT,
+  description_param TEXT DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_template_id BIGINT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.quotes WHERE quote_id = quote_id_param) THEN
+    RAISE EXCEPTION 'Quote % not found', quote_id_param;
+  END IF;
+
+  INSERT INTO public.quote_templates (template_name, description, content, created_by_user_id)
+  VALUES (template_name_param, description_param, public.build_quote_template_content(quote_id_param), auth.uid())
+  RETURNING template_id INTO new_template_id;
+
+  RETURN new_template_id;
+END;
+$$;
+
+-- Start a new quote from a template; an explicit area replaces the template's. Templates can be older than the
+-- catalog, so the planning is synced to the current training offers and requirements afterwards.
+CREATE OR REPLACE FUNCTION public.create_quote_from_template(
+  template_id_param BIGINT,
+  quote_name_param TEXT,
+  client_name_param TEXT DEFAULT NULL,
+  area_id_param BIGINT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  template_content JSONB;
+  new_quote_id UUID;
+BEGIN
+  SELECT content INTO template_content
+  FROM public.quote_templates
+  WHERE template_id = template_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template % not found', template_id_param;
+  END IF;
+
+  new_quote_id := public.create_quote_from_content(template_content, quote_name_param, client_name_param, area_id_param);
+  PERFORM public.sync_quote_planning_details(new_quote_id);
+
+  RETURN new_quote_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.duplicate_quote IS 'Copies a quote''s client, selections, planning details, weekend settings and area into a new draft quote';
+COMMENT ON FUNCTION public.save_quote_template IS 'Saves a quote''s selections, planning details, weekend settings and area as a named template';
+COMMENT ON FUNCTION public.create_quote_from_template IS 'Creates a new draft quote from a template, syncs its planning with the current catalog and returns its id';
+
+-- Customer master data; quotes link to a client instead of carrying a free-text name
+CREATE TABLE IF NOT EXISTS public.clients (
+  client_id BIGSERIAL PRIMARY KEY,
+  company_name TEXT NOT NULL UNIQUE,
+  billing_address TEXT,
+  site_address TEXT,
+  country_code TEXT CHECK (country_code IS NULL OR country_code ~ '^[A-Z]{2}$'),
+  vat_id TEXT,
+  contacts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  default_area_id BIGINT REFERENCES public.area_costs(area_id) ON DELETE SET NULL,
+  default_currency TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.clients IS 'Customers; contacts is an array of {name, role, email, phone}';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'client_id'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN client_id BIGINT REFERENCES public.clients(client_id) ON DELETE SET NULL;
+
+        -- Turn the existing free-text names into client records
+        INSERT INTO public.clients (company_name)
+        SELECT DISTINCT trim(client_name)
+        FROM public.quotes
+        WHERE trim(COALESCE(client_name, '')) <> ''
+        ON CONFLICT (company_name) DO NOTHING;
+
+        UPDATE public.quotes q
+        SET client_id = c.client_id
+        FROM public.clients c
+        WHERE c.company_name = trim(q.client_name);
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS quotes_client_idx ON public.quotes (client_id);
+
+COMMENT ON COLUMN public.quotes.client_name IS 'Company name of the linked client at the time it was picked';
+
+-- Dashboard paging: keyset order per user (sort column, then quote_id) and machine search
+CREATE INDEX IF NOT EXISTS quotes_user_created_idx ON public.quotes (created_by_user_id, created_at, quote_id);
+CREATE INDEX IF NOT EXISTS quotes_user_name_idx ON public.quotes (created_by_user_id, quote_name, quote_id);
+CREATE INDEX IF NOT EXISTS quotes_machine_types_idx ON public.quotes USING GIN (machine_type_ids);
+
+-- Organizations (tenants). Every user belongs to one organization; all data is shared within it.
+CREATE TABLE IF NOT EXISTS public.organizations (
+  org_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(org_id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'manager', 'member')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_org_idx ON public.organization_members (org_id);
+
+COMMENT ON TABLE public.organizations IS 'Tenants; every other table carries the org_id of the organization that owns the row';
+COMMENT ON TABLE public.organization_members IS 'Organization of each user and their role in it (admin, manager or member)';
+
+-- Security definer so the RLS policies below can call them without recursing into organization_members' own policy
+CREATE OR REPLACE FUNCTION public.current_org_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT org_id FROM public.organization_members WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_org_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members WHERE user_id = auth.uid();
+$$;
+
+COMMENT ON FUNCTION public.current_org_id IS 'Organization of the calling user (NULL when they have none)';
+COMMENT ON FUNCTION public.current_org_role IS 'Role of the calling user in their organization';
+
+-- Existing installations: put every user into one organization that owns all existing data.
+-- The earliest user becomes its admin and users with the manager app role become managers.
+DO $$
+DECLARE
+    default_org UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.organizations) AND EXISTS (SELECT 1 FROM auth.users) THEN
+        INSERT INTO public.organizations (name)
+        VALUES ('Default organization')
+        RETURNING org_id INTO default_org;
+
+        INSERT INTO public.organization_members (user_id, org_id, role)
+        SELECT
+            u.id,
+            default_org,
+            CASE
+                WHEN u.id = (SELECT id FROM auth.users ORDER BY created_at LIMIT 1) THEN 'admin'
+                WHEN u.raw_app_meta_data ->> 'role' = 'manager' THEN 'manager'
+                ELSE 'member'
+            END
+        FROM auth.users u;
+    END IF;
+END
+$$;
+
+-- Tenant column and row-level security on every table. The restrictive policy keeps rows of
+-- other organizations out even if a broader permissive policy is added later.
+-- Existing rows go to the default organization, which is created here when there were no users
+-- to create it above; empty tables (a fresh project) need no organization.
+DO $$
+DECLARE
+    tenant_table TEXT;
+    has_rows BOOLEAN;
+    default_org UUID := (SELECT org_id FROM public.organizations ORDER BY created_at LIMIT 1);
+BEGIN
+    FOREACH tenant_table IN ARRAY ARRAY[
+        'app_settings', 'area_costs', 'area_holidays', 'clients', 'exchange_rates',
+        'machine_training_requirements', 'machine_types', 'planning_details', 'quote_machines',
+        'quote_plan_pricing', 'quote_revisions', 'quote_status_history', 'quote_templates',
+        'quote_totals', 'quote_trainee_groups', 'quote_training_plan_hours', 'quotes',
+        'resource_bookings', 'resource_unavailability', 'resources', 'schedule_overrides',
+        'software_training_requirements', 'software_types', 'training_offers', 'training_plans',
+        'training_prerequisites', 'training_topics', 'vat_rules'
+    ]
+    LOOP
+        CONTINUE WHEN to_regclass('public.' || tenant_table) IS NULL;
+
+        IF NOT EXISTS (
+            SELECT 1
+            FROM information_schema.columns
+            WHERE table_name = tenant_table
+            AND column_name = 'org_id'
+        ) THEN
+            EXECUTE format('ALTER TABLE public.%I ADD COLUMN org_id UUID REFERENCES public.organizations(org_id) ON DELETE CASCADE', tenant_table);
+            EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I)', tenant_table) INTO has_rows;
+
+            IF has_rows THEN
+                IF default_org IS NULL THEN
+                    INSERT INTO public.organizations (name)
+                    VALUES ('Default organization')
+                    RETURNING org_id INTO default_org;
+                END IF;
+
+                EXECUTE format('UPDATE public.%I SET org_id = $1', tenant_table) USING default_org;
+            END IF;
+            EXECUTE format('ALTER TABLE public.%I ALTER COLUMN org_id SET DEFAULT public.current_org_id(), ALTER COLUMN org_id SET NOT NULL', tenant_table);
+            EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I (org_id)', tenant_table || '_org_idx', tenant_table);
+        END IF;
+
+        EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', tenant_table);
+        EXECUTE format('DROP POLICY IF EXISTS org_isolation ON public.%I', tenant_table);
+        EXECUTE format('CREATE POLICY org_isolation ON public.%I AS RESTRICTIVE FOR ALL TO authenticated USING (org_id = public.current_org_id()) WITH CHECK (org_id = public.current_org_id())', tenant_table);
+        EXECUTE format('DROP POLICY IF EXISTS org_members_access ON public.%I', tenant_table);
+        EXECUTE format('CREATE POLICY org_members_access ON public.%I FOR ALL TO authenticated USING (true) WITH CHECK (true)', tenant_table);
+    END LOOP;
+END
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS organizations_own ON public.organizations;
+CREATE POLICY organizations_own ON public.organizations FOR SELECT TO authenticated USING (org_id = public.current_org_id());
+
+-- Membership changes go through the admin functions below
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS organization_members_own ON public.organization_members;
+CREATE POLICY organization_members_own ON public.organization_members FOR SELECT TO authenticated USING (org_id = public.current_org_id());
+
+-- Names and keys that were unique across the installation are now unique per organization
+ALTER TABLE public.vat_rules DROP CONSTRAINT IF EXISTS vat_rules_country_code_key;
+CREATE UNIQUE INDEX IF NOT EXISTS vat_rules_org_country_idx ON public.vat_rules (org_id, country_code);
+
+ALTER TABLE public.exchange_rates DROP CONSTRAINT IF EXISTS exchange_rates_currency_effective_date_key;
+CREATE UNIQUE INDEX IF NOT EXISTS exchange_rates_org_currency_date_idx ON public.exchange_rates (org_id, currency, effective_date);
+
+ALTER TABLE public.clients DROP CONSTRAINT IF EXISTS clients_company_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS clients_org_company_name_idx ON public.clients (org_id, company_name);
+
+ALTER TABLE public.quote_templates DROP CONSTRAINT IF EXISTS quote_templates_template_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS quote_templates_org_name_idx ON public.quote_templates (org_id, template_name);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.key_column_usage
+        WHERE table_name = 'app_settings'
+        AND constraint_name = 'app_settings_pkey'
+        AND column_name = 'org_id'
+    ) THEN
+        ALTER TABLE public.app_settings DROP CONSTRAINT app_settings_pkey;
+        ALTER TABLE public.app_settings ADD PRIMARY KEY (org_id, setting_key);
+    END IF;
+END
+$$;
+
+-- Quotes are shared across the organization: paging indexes per org instead of per user
+DROP INDEX IF EXISTS public.quotes_user_created_idx;
+DROP INDEX IF EXISTS public.quotes_user_name_idx;
+CREATE INDEX IF NOT EXISTS quotes_org_created_idx ON public.quotes (org_id, created_at, quote_id);
+CREATE INDEX IF NOT EXISTS quotes_org_name_idx ON public.quotes (org_id, quote_name, quote_id);
+
+-- Salesperson responsible for the quote; created_by_user_id is the owner and can be transferred
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'assigned_to_user_id'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN assigned_to_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS quotes_assigned_idx ON public.quotes (assigned_to_user_id);
+
+COMMENT ON COLUMN public.quotes.created_by_user_id IS 'Owner of the quote; any member of the organization can transfer it to a colleague';
+COMMENT ON COLUMN public.quotes.assigned_to_user_id IS 'Salesperson assigned to the quote';
+
+-- Owners and salespeople must belong to the quote's organization. The owner is only checked when it
+-- changes, so quotes of members who left the organization can still be edited.
+CREATE OR REPLACE FUNCTION public.check_quote_members()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by_user_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.created_by_user_id IS DISTINCT FROM OLD.created_by_user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE user_id = NEW.created_by_user_id AND org_id = NEW.org_id
+    ) THEN
+    RAISE EXCEPTION 'The quote owner must be a member of the organization';
+  END IF;
+
+  IF NEW.assigned_to_user_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.assigned_to_user_id IS DISTINCT FROM OLD.assigned_to_user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE user_id = NEW.assigned_to_user_id AND org_id = NEW.org_id
+    ) THEN
+    RAISE EXCEPTION 'The assigned salesperson must be a member of the organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quotes_check_members ON public.quotes;
+CREATE TRIGGER quotes_check_members
+BEFORE INSERT OR UPDATE OF created_by_user_id, assigned_to_user_id ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.check_quote_members();
+
+-- The quote functions above run with the caller's rights, so row-level security limits them to the
+-- caller's organization (a quote of another organization is simply not found). create_quote_revision and
+-- transition_quote_status write the read-only audit trail and check the organization themselves.
+ALTER FUNCTION public.get_quote_machines(UUID) SECURITY INVOKER;
+ALTER FUNCTION public.update_quote_machines(UUID, BIGINT[]) SECURITY INVOKER;
+ALTER FUNCTION public.get_quote_training_requirements(UUID, BIGINT) SECURITY INVOKER;
+ALTER FUNCTION public.build_quote_snapshot(UUID) SECURITY INVOKER;
+ALTER FUNCTION public.branch_quote_revision(BIGINT) SECURITY INVOKER;
+ALTER FUNCTION public.build_quote_template_content(UUID) SECURITY INVOKER;
+ALTER FUNCTION public.create_quote_from_content(JSONB, TEXT, TEXT, BIGINT) SECURITY INVOKER;
+ALTER FUNCTION public.duplicate_quote(UUID, TEXT) SECURITY INVOKER;
+ALTER FUNCTION public.save_quote_template(UUID, TEXT, TEXT) SECURITY INVOKER;
+ALTER FUNCTION public.create_quote_from_template(BIGINT, TEXT, TEXT, BIGINT) SECURITY INVOKER;
+
+-- Members of the caller's organization with their name and email from the auth profile
+CREATE OR REPLACE FUNCTION public.get_organization_members()
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  role TEXT,
+  joined_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.user_id,
+    u.email::TEXT,
+    u.raw_user_meta_data ->> 'first_name',
+    u.raw_user_meta_data ->> 'last_name',
+    m.role,
+    m.joined_at
+  FROM public.organization_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.org_id = public.current_org_id()
+  ORDER BY u.email;
+$$;
+
+-- Creates an organization with the caller as its admin; only for users without one
+CREATE OR REPLACE FUNCTION public.create_organization(name_param TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_org_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF public.current_org_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'You already belong to an organization';
+  END IF;
+
+  IF trim(COALESCE(name_param, '')) = '' THEN
+    RAISE EXCEPTION 'Organization name is required';
+  END IF;
+
+  INSERT INTO public.organizations (name)
+  VALUES (trim(name_param))
+  RETURNING org_id INTO new_org_id;
+
+  INSERT INTO public.organization_members (user_id, org_id, role)
+  VALUES (auth.uid(), new_org_id, 'admin');
+
+  RETURN new_org_id;
+END;
+$$;
+
+-- Adds an existing user (by sign-up email) who has no organization yet
+CREATE OR REPLACE FUNCTION public.add_organization_member(email_param TEXT, role_param TEXT DEFAULT 'sales')
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_user_id UUID;
+BEGIN
+  IF public.current_org_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only organization admins can add members';
+  END IF;
+
+  SELECT id INTO new_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(trim(email_param));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No user has signed up with %', email_param;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = new_user_id) THEN
+    RAISE EXCEPTION '% already belongs to an organization', email_param;
+  END IF;
+
+  INSERT INTO public.organization_members (user_id, org_id, role)
+  VALUES (new_user_id, public.current_org_id(), role_param);
+
+  RETURN new_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_organization_member_role(user_id_param UUID, role_param TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.current_org_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only organization admins can change roles';
+  END IF;
+
+  IF role_param <> 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE org_id = public.current_org_id() AND role = 'admin' AND user_id <> user_id_param
+  ) THEN
+    RAISE EXCEPTION 'The organization needs at least one admin';
+  END IF;
+
+  UPDATE public.organization_members
+  SET role = role_param
+  WHERE user_id = user_id_param AND org_id = public.current_org_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % is not a member of this organization', user_id_param;
+  END IF;
+END;
+$$;
+
+-- Admins can remove anyone and members can leave; their quotes stay with the organization
+CREATE OR REPLACE FUNCTION public.remove_organization_member(user_id_param UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF user_id_param <> auth.uid() AND public.current_org_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only organization admins can remove members';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE org_id = public.current_org_id() AND role = 'admin' AND user_id <> user_id_param
+  ) THEN
+    RAISE EXCEPTION 'The organization needs at least one admin';
+  END IF;
+
+  DELETE FROM public.organization_members
+  WHERE user_id = user_id_param AND org_id = public.current_org_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % is not a member of this organization', user_id_param;
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_organization_members IS 'Members of the caller''s organization with email, name and role';
+COMMENT ON FUNCTION public.create_organization IS 'Creates an organization with the caller as admin and returns its id';
+COMMENT ON FUNCTION public.add_organization_member IS 'Adds a signed-up user without an organization to the caller''s organization (admins only)';
+COMMENT ON FUNCTION public.set_organization_member_role IS 'Changes a member''s role (admins only; the last admin cannot be demoted)';
+COMMENT ON FUNCTION public.remove_organization_member IS 'Removes a member from the caller''s organization (admins, or the member themselves)';
+
+-- Roles: admin (everything, incl. members), pricing_manager (catalog, prices, approvals),
+-- sales (quotes, clients, templates) and viewer (read-only)
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM information_schema.check_constraints
+        WHERE constraint_name = 'organization_members_role_check'
+        AND check_clause LIKE '%member%'
+    ) THEN
+        ALTER TABLE public.organization_members DROP CONSTRAINT organization_members_role_check;
+
+        UPDATE public.organization_members SET role = 'pricing_manager' WHERE role = 'manager';
+        UPDATE public.organization_members SET role = 'sales' WHERE role = 'member';
+
+        ALTER TABLE public.organization_members ADD CONSTRAINT organization_members_role_check
+            CHECK (role IN ('admin', 'pricing_manager', 'sales', 'viewer'));
+        ALTER TABLE public.organization_members ALTER COLUMN role SET DEFAULT 'sales';
+    END IF;
+END
+$$;
+
+-- Write access by role, on top of the tenant isolation above: every member reads the organization's rows,
+-- only the listed roles may insert, update or delete them. Quotes and everything planned or priced on them
+-- are written by sales and up, so viewers are read-only. Mirrored by SETTINGS_TAB_ACCESS in src/utils/roles.ts.
+DO $$
+DECLARE
+    tenant_table TEXT;
+    catalog_tables TEXT[] := ARRAY[
+        'app_settings', 'area_costs', 'area_holidays', 'exchange_rates', 'machine_training_requirements',
+        'machine_types', 'resource_unavailability', 'resources', 'software_training_requirements',
+        'software_types', 'training_offers', 'training_plans', 'training_prerequisites', 'training_topics',
+        'vat_rules'
+    ];
+    sales_tables TEXT[] := ARRAY[
+        'clients', 'planning_details', 'quote_machines', 'quote_plan_pricing', 'quote_templates', 'quote_totals',
+        'quote_trainee_groups', 'quote_training_plan_hours', 'quotes', 'resource_bookings', 'schedule_overrides'
+    ];
+BEGIN
+    FOREACH tenant_table IN ARRAY catalog_tables || sales_tables
+    LOOP
+        CONTINUE WHEN to_regclass('public.' || tenant_table) IS NULL;
+
+        EXECUTE format('DROP POLICY IF EXISTS org_members_access ON public.%I', tenant_table);
+        EXECUTE format('DROP POLICY IF EXISTS org_members_read ON public.%I', tenant_table);
+        EXECUTE format('CREATE POLICY org_members_read ON public.%I FOR SELECT TO authenticated USING (true)', tenant_table);
+        EXECUTE format('DROP POLICY IF EXISTS role_write ON public.%I', tenant_table);
+        EXECUTE format(
+            'CREATE POLICY role_write ON public.%I FOR ALL TO authenticated USING (public.current_org_role() = ANY (%L)) WITH CHECK (public.current_org_role() = ANY (%L))',
+            tenant_table,
+            CASE WHEN tenant_table = ANY (sales_tables) THEN '{admin,pricing_manager,sales}' ELSE '{admin,pricing_manager}' END,
+            CASE WHEN tenant_table = ANY (sales_tables) THEN '{admin,pricing_manager,sales}' ELSE '{admin,pricing_manager}' END
+        );
+    END LOOP;
+END
+$$;
+
+-- The audit trail (status history and revisions) is only written by transition_quote_status,
+-- reopen_edited_quote and create_quote_revision; members can read it but not change or delete it
+DO $$
+DECLARE
+    audit_table TEXT;
+BEGIN
+    FOREACH audit_table IN ARRAY ARRAY['quote_revisions', 'quote_status_history']
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS org_members_access ON public.%I', audit_table);
+        EXECUTE format('DROP POLICY IF EXISTS org_members_read ON public.%I', audit_table);
+        EXECUTE format('CREATE POLICY org_members_read ON public.%I FOR SELECT TO authenticated USING (true)', audit_table);
+    END LOOP;
+END
+$$;
+
+-- Reconcile a quote's planning_details with its selected machines and software in one transaction:
+-- one row per selected item and training plan, with the hours of the matching training offer and the
+-- resource of the matching training requirement (the newest one when there are several).
+-- Rows of deselected items are deleted. Returns the number of rows created, updated and deleted.
+CREATE OR REPLACE FUNCTION public.sync_quote_planning_details(quote_id_param UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  machine_ids BIGINT[];
+  software_ids BIGINT[];
+  created_count INTEGER;
+  updated_count INTEGER;
+  deleted_count INTEGER;
+BEGIN
+  -- Locking the quote serializes concurrent syncs of the same quote
+  SELECT machine_type_ids, software_type_ids INTO machine_ids, software_ids
+  FROM public.quotes
+  WHERE quote_id = quote_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', quote_id_param;
+  END IF;
+
+  DELETE FROM public.planning_details pd
+  WHERE pd.quote_id = quote_id_param
+    AND NOT COALESCE(
+      CASE
+        WHEN pd.machine_types_id IS NOT NULL THEN pd.machine_types_id = ANY (machine_ids)
+        ELSE pd.software_types_id = ANY (software_ids)
+      END,
+      false
+    );
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  -- Selections can still hold ids of deleted machine or software types; those get no rows
+  WITH items AS (
+    SELECT mt.machine_type_id AS machine_types_id, NULL::BIGINT AS software_types_id
+    FROM public.machine_types mt
+    WHERE mt.machine_type_id = ANY (machine_ids)
+    UNION
+    SELECT NULL::BIGINT, st.software_type_id
+    FROM public.software_types st
+    WHERE st.software_type_id = ANY (software_ids)
+  ),
+  expected AS (
+    SELECT
+      tp.plan_id,
+      items.machine_types_id,
+      items.software_types_id,
+      COALESCE(offer.hours_required, 0) AS allocated_hours,
+      requirement.resource_id
+    FROM public.training_plans tp
+    CROSS JOIN items
+    LEFT JOIN LATERAL (
+      SELECT o.hours_required
+      FROM public.training_offers o
+      WHERE o.plan_id = tp.plan_id
+        AND o.machine_type_id IS NOT DISTINCT FROM items.machine_types_id
+        AND o.software_type_id IS NOT DISTINCT FROM items.software_types_id
+      ORDER BY o.id DESC
+      LIMIT 1
+    ) offer ON true
+    LEFT JOIN LATERAL (
+      SELECT r.id, r.resource_id
+      FROM public.machine_training_requirements r
+      WHERE r.plan_id = tp.plan_id AND r.machine_type_id = items.machine_types_id
+      UNION ALL
+      SELECT r.id, r.resource_id
+      FROM public.software_training_requirements r
+      WHERE r.plan_id = tp.plan_id AND r.software_type_id = items.software_types_id
+      ORDER BY 1 DESC
+      LIMIT 1
+    ) requirement ON true
+  ),
+  updated AS (
+    UPDATE public.planning_details pd
+    SET allocated_hours = e.allocated_hours,
+        resource_id = e.resource_id,
+        updated_at = now()
+    FROM expected e
+    WHERE pd.quote_id = quote_id_param
+      AND pd.plan_id = e.plan_id
+      AND pd.machine_types_id IS NOT DISTINCT FROM e.machine_types_id
+      AND pd.software_types_id IS NOT DISTINCT FROM e.software_types_id
+      AND (pd.allocated_hours IS DISTINCT FROM e.allocated_hours OR pd.resource_id IS DISTINCT FROM e.resource_id)
+    RETURNING pd.id
+  ),
+  created AS (
+    INSERT INTO public.planning_details (
+      quote_id, plan_id, machine_types_id, software_types_id, resource_id, allocated_hours
+    )
+    SELECT quote_id_param, e.plan_id, e.machine_types_id, e.software_types_id, e.resource_id, e.allocated_hours
+    FROM expected e
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.planning_details pd
+      WHERE pd.quote_id = quote_id_param
+        AND pd.plan_id = e.plan_id
+        AND pd.machine_types_id IS NOT DISTINCT FROM e.machine_types_id
+        AND pd.software_types_id IS NOT DISTINCT FROM e.software_types_id
+    )
+    RETURNING id
+  )
+  SELECT (SELECT count(*) FROM created), (SELECT count(*) FROM updated)
+  INTO created_count, updated_count;
+
+  RETURN jsonb_build_object('created', created_count, 'updated', updated_count, 'deleted', deleted_count);
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_quote_planning_details IS 'Creates, updates and deletes a quote''s planning_details to match its selections, offers and requirements; returns the counts';
+
+-- Re-reconcile the planning_details of every quote matching the filters (all of the organization's quotes
+-- when none is given) after a catalog change. Quotes waiting for approval, with the customer or accepted
+-- keep their planning; they are returned with skipped = true. Other quotes are returned only when
+-- sync_quote_planning_details changed something.
+CREATE OR REPLACE FUNCTION public.sync_planning_details_for_quotes(
+  quote_id_param UUID DEFAULT NULL,
+  machine_type_id_param BIGINT DEFAULT NULL,
+  software_type_id_param BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  quote_id UUID,
+  quote_name TEXT,
+  created INTEGER,
+  updated INTEGER,
+  deleted INTEGER,
+  skipped BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  target RECORD;
+  summary JSONB;
+BEGIN
+  FOR target IN
+    SELECT q.quote_id, q.quote_name, q.status
+    FROM public.quotes q
+    WHERE (quote_id_param IS NULL OR q.quote_id = quote_id_param)
+      AND (machine_type_id_param IS NULL OR machine_type_id_param = ANY (q.machine_type_ids))
+      AND (software_type_id_param IS NULL OR software_type_id_param = ANY (q.software_type_ids))
+    ORDER BY q.created_at
+  LOOP
+    quote_id := target.quote_id;
+    quote_name := target.quote_name;
+
+    IF target.status IN ('submitted', 'approved', 'sent', 'accepted') THEN
+      created := 0;
+      updated := 0;
+      deleted := 0;
+      skipped := true;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    summary := public.sync_quote_planning_details(target.quote_id);
+    created := (summary ->> 'created')::INTEGER;
+    updated := (summary ->> 'updated')::INTEGER;
+    deleted := (summary ->> 'deleted')::INTEGER;
+    skipped := false;
+
+    IF created + updated + deleted > 0 THEN
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_planning_details_for_quotes IS 'Runs sync_quote_planning_details for the matching quotes in one transaction, skipping locked and accepted quotes; returns the quotes it changed or skipped';
+
+-- Apply a previewed catalog change to the quotes the admin picked, in one transaction: re-sync their
+-- planning details (training offer changes) and replace their saved totals with the repriced ones.
+-- totals_param holds quote_totals rows (quote_id, plan_id and the amounts); locked and accepted quotes are
+-- left alone, as in sync_planning_details_for_quotes.
+CREATE OR REPLACE FUNCTION public.apply_catalog_change(
+  quote_ids_param UUID[],
+  sync_planning_param BOOLEAN,
+  totals_param JSONB DEFAULT '[]'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  target_ids UUID[];
+  target_id UUID;
+BEGIN
+  SELECT COALESCE(array_agg(q.quote_id), '{}') INTO target_ids
+  FROM public.quotes q
+  WHERE q.quote_id = ANY (quote_ids_param)
+    AND q.status NOT IN ('submitted', 'approved', 'sent', 'accepted');
+
+  IF sync_planning_param THEN
+    FOREACH target_id IN ARRAY target_ids
+    LOOP
+      PERFORM public.sync_quote_planning_details(target_id);
+    END LOOP;
+  END IF;
+
+  UPDATE public.quote_totals qt
+  SET training_cost = t.training_cost,
+      travel_cost = t.travel_cost,
+      total_cost = t.total_cost,
+      discount_total = t.discount_total,
+      sell_price = t.sell_price,
+      tax_amount = t.tax_amount,
+      gross_price = t.gross_price,
+      resource_breakdown = t.resource_breakdown,
+      saved_by_user_id = auth.uid(),
+      saved_at = now()
+  FROM jsonb_populate_recordset(NULL::public.quote_totals, totals_param) t
+  WHERE qt.quote_id = t.quote_id
+    AND qt.plan_id = t.plan_id
+    AND qt.quote_id = ANY (target_ids);
+
+  RETURN cardinality(target_ids);
+END;
+$$;
+
+COMMENT ON FUNCTION public.apply_catalog_change IS 'Re-syncs planning and writes repriced saved totals for the affected quotes after a catalog change; returns how many quotes were changed';
+
+-- Date the quote is priced on: the price list effective on this date supplies resource and area rates
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'quotes'
+        AND column_name = 'quote_date'
+    ) THEN
+        ALTER TABLE public.quotes ADD COLUMN quote_date DATE NOT NULL DEFAULT CURRENT_DATE;
+        UPDATE public.quotes SET quote_date = created_at::date;
+    END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.quotes.quote_date IS 'Date the quote is priced on; selects the effective price list';
+
+-- Versioned prices. A list is valid from valid_from through valid_to (inclusive, open-ended when NULL) and
+-- overrides the catalog values (resources.hourly_rate, area_costs daily costs) for quotes dated in that period.
+-- Resources and areas a list has no entry for, and dates no list covers, use the catalog values.
+CREATE TABLE IF NOT EXISTS public.price_lists (
+  price_list_id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  valid_from DATE NOT NULL,
+  valid_to DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  org_id UUID NOT NULL DEFAULT public.current_org_id() REFERENCES public.organizations(org_id) ON DELETE CASCADE,
+  CHECK (valid_to IS NULL OR valid_to >= valid_from)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS price_lists_org_valid_from_idx ON public.price_lists (org_id, valid_from);
+
+CREATE TABLE IF NOT EXISTS public.price_list_resource_rates (
+  price_list_id BIGINT NOT NULL REFERENCES public.price_lists(price_list_id) ON DELETE CASCADE,
+  resource_id BIGINT NOT NULL REFERENCES public.resources(resource_id) ON DELETE CASCADE,
+  hourly_rate NUMERIC NOT NULL CHECK (hourly_rate >= 0),
+  org_id UUID NOT NULL DEFAULT public.current_org_id() REFERENCES public.organizations(org_id) ON DELETE CASCADE,
+  PRIMARY KEY (price_list_id, resource_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.price_list_area_costs (
+  price_list_id BIGINT NOT NULL REFERENCES public.price_lists(price_list_id) ON DELETE CASCADE,
+  area_id BIGINT NOT NULL REFERENCES public.area_costs(area_id) ON DELETE CASCADE,
+  daily_accommodation_food_cost NUMERIC NOT NULL CHECK (daily_accommodation_food_cost >= 0),
+  daily_allowance NUMERIC NOT NULL CHECK (daily_allowance >= 0),
+  daily_pocket_money NUMERIC NOT NULL CHECK (daily_pocket_money >= 0),
+  org_id UUID NOT NULL DEFAULT public.current_org_id() REFERENCES public.organizations(org_id) ON DELETE CASCADE,
+  PRIMARY KEY (price_list_id, area_id)
+);
+
+COMMENT ON TABLE public.price_lists IS 'Effective-dated price lists; quotes use the list covering their quote_date';
+COMMENT ON TABLE public.price_list_resource_rates IS 'Hourly rate of a resource (EUR) in a price list';
+COMMENT ON TABLE public.price_list_area_costs IS 'Daily travel costs of an area (EUR) in a price list';
+
+-- Same tenant isolation and catalog write access as the tables above
+DO $$
+DECLARE
+    tenant_table TEXT;
+BEGIN
+    FOREACH tenant_table IN ARRAY ARRAY['price_lists', 'price_list_resource_rates', 'price_list_area_costs']
+    LOOP
+        EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I (org_id)', tenant_table || '_org_idx', tenant_table);
+        EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', tenant_table);
+        EXECUTE format('DROP POLICY IF EXISTS org_isolation ON public.%I', tenant_table);
+        EXECUTE format('CREATE POLICY org_isolation ON public.%I AS RESTRICTIVE FOR ALL TO authenticated USING (org_id = public.current_org_id()) WITH CHECK (org_id = public.current_org_id())', tenant_table);
+        EXECUTE format('DROP POLICY IF EXISTS org_members_read ON public.%I', tenant_table);
+        EXECUTE format('CREATE POLICY org_members_read ON public.%I FOR SELECT TO authenticated USING (true)', tenant_table);
+        EXECUTE format('DROP POLICY IF EXISTS role_write ON public.%I', tenant_table);
+        EXECUTE format('CREATE POLICY role_write ON public.%I FOR ALL TO authenticated USING (public.current_org_role() = ANY (%L)) WITH CHECK (public.current_org_role() = ANY (%L))', tenant_table, '{admin,pricing_manager}', '{admin,pricing_manager}');
+    END LOOP;
+END
+$$;
+
+-- Existing installations: save the current catalog values as an open-ended "Current prices" list covering
+-- every quote of the organization, so catalog edits no longer reprice old quotes and the first new list
+-- starts after it
+DO $$
+DECLARE
+    org RECORD;
+    baseline_id BIGINT;
+BEGIN
+    FOR org IN
+        SELECT q.org_id, MIN(q.quote_date) AS first_quote_date
+        FROM public.quotes q
+        WHERE NOT EXISTS (SELECT 1 FROM public.price_lists pl WHERE pl.org_id = q.org_id)
+        GROUP BY q.org_id
+    LOOP
+        INSERT INTO public.price_lists (name, valid_from, org_id)
+        VALUES ('Current prices', org.first_quote_date, org.org_id)
+        RETURNING price_list_id INTO baseline_id;
+
+        INSERT INTO public.price_list_resource_rates (price_list_id, resource_id, hourly_rate, org_id)
+        SELECT baseline_id, r.resource_id, COALESCE(r.hourly_rate, 0), r.org_id
+        FROM public.resources r
+        WHERE r.org_id = org.org_id;
+
+        INSERT INTO public.price_list_area_costs (price_list_id, area_id, daily_accommodation_food_cost, daily_allowance, daily_pocket_money, org_id)
+        SELECT baseline_id, a.area_id, COALESCE(a.daily_accommodation_food_cost, 0), COALESCE(a.daily_allowance, 0), COALESCE(a.daily_pocket_money, 0), a.org_id
+        FROM public.area_costs a
+        WHERE a.org_id = org.org_id;
+    END LOOP;
+END
+$$;
+
+-- Start a new price list on valid_from_param, e.g. next year's prices. The list in effect on that date is closed
+-- the day before, and its prices (catalog values for resources and areas it has no entry for) are copied into the
+-- new open-ended list, raised by increase_percent_param and rounded to cents. In an organization without lists
+-- (created after the migration above) the current catalog values are first saved as a list covering all earlier
+-- quotes, so they keep their prices.
+CREATE OR REPLACE FUNCTION public.create_price_list(
+  name_param TEXT,
+  valid_from_param DATE,
+  increase_percent_param NUMERIC DEFAULT 0
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  source_id BIGINT;
+  new_id BIGINT;
+  factor NUMERIC := 1 + COALESCE(increase_percent_param, 0) / 100;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.price_lists WHERE valid_from >= valid_from_param) THEN
+    RAISE EXCEPTION 'A price list already starts on or after %', valid_from_param;
+  END IF;
+
+  SELECT price_list_id INTO source_id
+  FROM public.price_lists
+  ORDER BY valid_from DESC
+  LIMIT 1;
+
+  IF source_id IS NULL THEN
+    INSERT INTO public.price_lists (name, valid_from, valid_to)
+    SELECT 'Current prices',
+           LEAST(COALESCE(MIN(q.quote_date), valid_from_param - 1), valid_from_param - 1),
+           valid_from_param - 1
+    FROM public.quotes q
+    RETURNING price_list_id INTO source_id;
+
+    INSERT INTO public.price_list_resource_rates (price_list_id, resource_id, hourly_rate)
+    SELECT source_id, r.resource_id, COALESCE(r.hourly_rate, 0)
+    FROM public.resources r;
+
+    INSERT INTO public.price_list_area_costs (price_list_id, area_id, daily_accommodation_food_cost, daily_allowance, daily_pocket_money)
+    SELECT source_id, a.area_id, COALESCE(a.daily_accommodation_food_cost, 0), COALESCE(a.daily_allowance, 0), COALESCE(a.daily_pocket_money, 0)
+    FROM public.area_costs a;
+  ELSE
+    UPDATE public.price_lists
+    SET valid_to = valid_from_param - 1
+    WHERE price_list_id = source_id
+      AND (valid_to IS NULL OR valid_to >= valid_from_param);
+  END IF;
+
+  INSERT INTO public.price_lists (name, valid_from)
+  VALUES (name_param, valid_from_param)
+  RETURNING price_list_id INTO new_id;
+
+  INSERT INTO public.price_list_resource_rates (price_list_id, resource_id, hourly_rate)
+  SELECT new_id, r.resource_id, round(COALESCE(s.hourly_rate, r.hourly_rate, 0) * factor, 2)
+  FROM public.resources r
+  LEFT JOIN public.price_list_resource_rates s
+    ON s.price_list_id = source_id AND s.resource_id = r.resource_id;
+
+  INSERT INTO public.price_list_area_costs (price_list_id, area_id, daily_accommodation_food_cost, daily_allowance, daily_pocket_money)
+  SELECT new_id,
+         a.area_id,
+         round(COALESCE(s.daily_accommodation_food_cost, a.daily_accommodation_food_cost, 0) * factor, 2),
+         round(COALESCE(s.daily_allowance, a.daily_allowance, 0) * factor, 2),
+         round(COALESCE(s.daily_pocket_money, a.daily_pocket_money, 0) * factor, 2)
+  FROM public.area_costs a
+  LEFT JOIN public.price_list_area_costs s
+    ON s.price_list_id = source_id AND s.area_id = a.area_id;
+
+  RETURN new_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_price_list IS 'Closes the current price list and starts a new one on the given date with prices raised by a percentage; returns the new price_list_id';
+
+-- Delete a price list. The list before it takes over its period (and is reopened when the newest list is
+-- deleted), so no gap is left between lists; only the first list's period falls back to the catalog values.
+CREATE OR REPLACE FUNCTION public.delete_price_list(price_list_id_param BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  deleted public.price_lists%ROWTYPE;
+BEGIN
+  DELETE FROM public.price_lists
+  WHERE price_list_id = price_list_id_param
+  RETURNING * INTO deleted;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Price list % not found', price_list_id_param;
+  END IF;
+
+  UPDATE public.price_lists
+  SET valid_to = deleted.valid_to
+  WHERE valid_to = deleted.valid_from - 1;
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_price_list IS 'Deletes a price list and extends the previous list over its period';
+
+-- Quote total the approval threshold is checked against, in EUR. Saved totals are written by the client, so
+-- each plan counts with at least its training price computed here: planning hours at the rates of the price
+-- list covering the quote date (or the catalog rates), with the plan margin and line discounts. Lowering the
+-- saved totals or setting an override price therefore can't skip the approval.
+CREATE OR REPLACE FUNCTION public.quote_approval_total(quote_id_param UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH saved AS (
+    SELECT plan_id, SUM(sell_price / NULLIF(exchange_rate, 0)) AS sell_price
+    FROM public.quote_totals
+    WHERE quote_id = quote_id_param
+    GROUP BY plan_id
+  ),
+  computed AS (
+    SELECT
+      pd.plan_id,
+      SUM(
+        pd.allocated_hours
+        * COALESCE(plr.hourly_rate, r.hourly_rate, 0)
+        * (1 + COALESCE(pp.margin_percent, 0) / 100)
+        * (1 - LEAST(GREATEST(COALESCE((pp.line_discounts ->> r.resource_id::TEXT)::NUMERIC, 0), 0), 100) / 100)
+      ) AS sell_price
+    FROM public.planning_details pd
+    JOIN public.quotes q ON q.quote_id = pd.quote_id
+    -- Work moved to another resource on the Gantt chart is billed at that resource's rate
+    LEFT JOIN public.schedule_overrides so ON so.requirement_id = pd.id
+    JOIN public.resources r ON r.resource_id = COALESCE(so.resource_id, pd.resource_id)
+    LEFT JOIN public.price_lists pl
+      ON pl.org_id = q.org_id
+      AND q.quote_date BETWEEN pl.valid_from AND COALESCE(pl.valid_to, 'infinity'::DATE)
+    LEFT JOIN public.price_list_resource_rates plr
+      ON plr.price_list_id = pl.price_list_id AND plr.resource_id = r.resource_id
+    LEFT JOIN public.quote_plan_pricing pp ON pp.quote_id = pd.quote_id AND pp.plan_id = pd.plan_id
+    WHERE pd.quote_id = quote_id_param
+    GROUP BY pd.plan_id
+  )
+  SELECT COALESCE(SUM(GREATEST(saved.sell_price, computed.sell_price)), 0)
+  FROM saved
+  FULL JOIN computed USING (plan_id)
+$$;
+
+COMMENT ON FUNCTION public.quote_approval_total IS 'Quote total in EUR for the approval threshold: per plan the saved sell price or the training price computed from the planning, whichever is higher';
+
+-- Live updates for open quote pages: changes to quotes and planning_details are broadcast to subscribed clients
+-- (filtered by quote_id and by row-level security, so members only receive their organization's rows)
+DO $$
+DECLARE
+    realtime_table TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        FOREACH realtime_table IN ARRAY ARRAY['quotes', 'planning_details']
+        LOOP
+            IF NOT EXISTS (
+                SELECT 1
+                FROM pg_publication_tables
+                WHERE pubname = 'supabase_realtime'
+                AND schemaname = 'public'
+                AND tablename = realtime_table
+            ) THEN
+                EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+            END IF;
+        END LOOP;
+    END IF;
+END
+$$;
@@ -1,8 +1,8 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { Sidebar, SidebarBody, SidebarLink, Logo, LogoIcon } from "@/components/ui/sidebar-custom";
-import { LayoutDashboard, Settings, LogOut, UserCog, MapPin, Euro, ChevronDown, FileText, Briefcase, CalendarDays, Wallet, Coffee, Gift, DollarSign, BadgeCheck, User, Save } from "lucide-react";
+import { LayoutDashboard, Settings, LogOut, UserCog, MapPin, ChevronDown, FileText, Briefcase, CalendarDays, Wallet, Coffee, Gift, DollarSign, BadgeCheck, User, Save, Loader2, AlertTriangle, Percent, Tag } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useUserProfile } from "@/hooks/use-user-profile";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -12,16 +12,39 @@ import { useTrainingRequirements, TrainingRequirement } from "@/hooks/useTrainin
 import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import { useAreaCosts } from "@/hooks/useAreaCosts";
 import { useResources } from "@/hooks/useResources";
+import { useAreaHolidays } from "@/hooks/useAreaHolidays";
+import { useTraineeGroups, toTraineeGroupConstraints } from "@/hooks/useTraineeGroups";
+import { useTrainingPrerequisites, toPrerequisiteConstraints } from "@/hooks/useTrainingPrerequisites";
+import { useScheduleOverrides, toScheduleOverrides } from "@/hooks/useScheduleOverrides";
+import { useResourceUnavailability, toUnavailabilityConstraints } from "@/hooks/useResourceUnavailability";
+import { useQuoteTotals, PlanTotalsSnapshot, toPlanTotalsSnapshot } from "@/hooks/useQuoteTotals";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { usePriceLists } from "@/hooks/usePriceLists";
+import { usePlanPricing, toPricingAdjustments } from "@/hooks/usePlanPricing";
+import { useVatRules } from "@/hooks/useVatRules";
+import { useQuoteRevisions } from "@/hooks/useQuoteRevisions";
+import { useResourceBookings } from "@/hooks/useResourceBookings";
+import PlanPricingModal from "@/components/quotes/PlanPricingModal";
 import { supabase } from "@/integrations/supabase/client";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { RainbowButton } from "@/components/ui/rainbow-button";
 import { useResourceIcons } from "@/hooks/useResourceIcons";
 import { useTrainingIcons } from "@/hooks/useTrainingIcons";
 import { generateQuotePDF, PlanCostData } from "@/utils/pdfExporter";
+import { ClientContact } from "@/hooks/useClients";
 import { ScheduledTaskSegment } from "@/utils/types";
+import { formatCurrency, formatScheduleDay } from "@/utils/formatters";
+import { calculatePlanCosts, calculateSellPrice, getFloorPrice } from "@/utils/pricing";
+import { BASE_CURRENCY, getExchangeRate } from "@/utils/currency";
+import { applyPriceListToAreas, applyPriceListToResources, getEffectivePriceList } from "@/utils/priceLists";
+import { REVERSE_CHARGE_NOTE, TaxTreatment, applyTax, resolveTaxTreatment } from "@/utils/tax";
+import { QUOTE_STATUS_LABELS, QuoteStatus, isQuoteLocked } from "@/utils/quoteStatus";
+import { PrerequisiteConstraint, TraineeGroupConstraint, UnavailabilityConstraint } from "@/utils/scheduleTasks";
 import { ArrowLeft } from "lucide-react";
+import { format } from "date-fns";
 
 const CheckoutPage: React.FC = () => {
   const {
@@ -53,8 +76,94 @@ const CheckoutPage: React.FC = () => {
     area_id?: number | null;
     area_name?: string;
     client_name?: string;
+    client_country?: string | null;
+    client_vat_id?: string | null;
+    client_address?: string | null; // Billing address of the linked client
+    client_contact?: string;
+    currency?: string;
+    quote_date?: string;
+    created_at?: string;
+    project_start_date?: string | null;
+    work_on_saturday?: boolean;
+    work_on_sunday?: boolean;
+    daily_hours_override?: number | null;
+    status?: QuoteStatus;
   }>({});
   const [loadingQuote, setLoadingQuote] = useState(true);
+  const {
+    holidays
+  } = useAreaHolidays(quoteData.area_id);
+  const holidayDates = React.useMemo(() => holidays.map(holiday => holiday.holiday_date), [holidays]);
+  const {
+    traineeGroups
+  } = useTraineeGroups(quoteId);
+  const traineeGroupConstraints = React.useMemo(() => toTraineeGroupConstraints(traineeGroups), [traineeGroups]);
+  const {
+    prerequisites
+  } = useTrainingPrerequisites();
+  const prerequisiteConstraints = React.useMemo(() => toPrerequisiteConstraints(prerequisites), [prerequisites]);
+  const {
+    periods: unavailability
+  } = useResourceUnavailability();
+  const unavailabilityConstraints = React.useMemo(() => toUnavailabilityConstraints(unavailability), [unavailability]);
+  const {
+    rates: exchangeRates
+  } = useExchangeRates();
+  // Quote currency conversion, using the rate in effect on the quote date (the creation date for quotes without one),
+  // so the price stays put when the project is planned or moved
+  const quoteCurrency = quoteData.currency || BASE_CURRENCY;
+  const rateDate = quoteData.quote_date || quoteData.created_at?.slice(0, 10) || format(new Date(), "yyyy-MM-dd");
+  const quoteExchangeRate = React.useMemo(() => getExchangeRate(exchangeRates, quoteCurrency, rateDate), [exchangeRates, quoteCurrency, rateDate]);
+  // Without an applicable rate prices stay in the base currency
+  const pricingCurrency = quoteExchangeRate !== null ? quoteCurrency : BASE_CURRENCY;
+  const exchangeRate = quoteExchangeRate ?? 1;
+  const {
+    priceLists
+  } = usePriceLists();
+  // Rates and area costs from the price list in effect on the quote date (catalog values where it has none)
+  const priceDate = quoteData.quote_date || format(new Date(), "yyyy-MM-dd");
+  const priceList = React.useMemo(() => getEffectivePriceList(priceLists, priceDate), [priceLists, priceDate]);
+  const pricedResources = React.useMemo(() => applyPriceListToResources(resources, priceList), [resources, priceList]);
+  const pricedAreaCosts = React.useMemo(() => applyPriceListToAreas(areaCosts, priceList), [areaCosts, priceList]);
+  const {
+    rules: vatRules
+  } = useVatRules();
+  const taxTreatment = React.useMemo(() => resolveTaxTreatment({
+    clientCountry: quoteData.client_country,
+    clientVatId: quoteData.client_vat_id,
+    areaVatRate: areaCosts.find(area => area.area_id === quoteData.area_id)?.vat_rate
+  }, vatRules), [quoteData.client_country, quoteData.client_vat_id, quoteData.area_id, areaCosts, vatRules]);
+  const {
+    saveTotals
+  } = useQuoteTotals(quoteId);
+  const {
+    createRevision
+  } = useQuoteRevisions(quoteId);
+  const [planTotals, setPlanTotals] = useState<Record<number, PlanTotalsSnapshot>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const handlePlanTotalsChange = useCallback((totals: PlanTotalsSnapshot) => {
+    setPlanTotals(prev => ({
+      ...prev,
+      [totals.plan_id]: totals
+    }));
+  }, []);
+  // Dated schedule per plan; the plan picked for booking reserves its trainers on save
+  const [planSchedules, setPlanSchedules] = useState<Record<number, ScheduledTaskSegment[]>>({});
+  const handlePlanScheduleChange = useCallback((planId: number, segments: ScheduledTaskSegment[]) => {
+    setPlanSchedules(prev => ({
+      ...prev,
+      [planId]: segments
+    }));
+  }, []);
+  const {
+    bookedPlanId,
+    saveQuoteBookings
+  } = useResourceBookings(quoteId, []);
+  const [selectedBookingPlanId, setSelectedBookingPlanId] = useState<number | null>(null);
+  const bookablePlans = plans.filter(plan => (planSchedules[plan.plan_id] || []).some(segment => segment.start_date));
+  const bookingPlanId = [selectedBookingPlanId, bookedPlanId].find(planId => bookablePlans.some(plan => plan.plan_id === planId))
+    ?? bookablePlans[0]?.plan_id
+    ?? null;
   const {
     icons: resourceIcons
   } = useResourceIcons();
@@ -78,6 +187,20 @@ const CheckoutPage: React.FC = () => {
           quote_id,
           area_id,
           client_name,
+          client_country,
+          client_vat_id,
+          currency,
+          quote_date,
+          created_at,
+          project_start_date,
+          clients (
+            billing_address,
+            contacts
+          ),
+          work_on_saturday,
+          work_on_sunday,
+          daily_hours_override,
+          status,
           area_costs (
             area_id,
             area_name,
@@ -90,7 +213,19 @@ const CheckoutPage: React.FC = () => {
         setQuoteData({
           area_id: data.area_id,
           area_name: areaName,
-          client_name: data.client_name
+          client_name: data.client_name,
+          client_country: data.client_country,
+          client_vat_id: data.client_vat_id,
+          client_address: data.clients?.billing_address,
+          client_contact: (data.clients?.contacts as unknown as ClientContact[] | undefined)?.[0]?.name,
+          currency: data.currency,
+          quote_date: data.quote_date,
+          created_at: data.created_at,
+          project_start_date: data.project_start_date,
+          work_on_saturday: data.work_on_saturday ?? false,
+          work_on_sunday: data.work_on_sunday ?? false,
+          daily_hours_override: data.daily_hours_override,
+          status: data.status as QuoteStatus
         });
       }
     } catch (err) {
@@ -108,80 +243,35 @@ const CheckoutPage: React.FC = () => {
 
   const handleExport = async () => {
     try {
+      // Same figures as the plan cards (reported by each card from the pricing module)
       const planCostData: PlanCostData[] = plans
-        .map(plan => {
-          const planId = plan.plan_id;
-          
-          if (!quoteId) return null;
-          
-          const fetchRequirementsForPlan = async () => {
-            const { data, error } = await supabase
-              .from('planning_details')
-              .select('*, resources(name, hourly_rate, icon_name)')
-              .eq('quote_id', quoteId)
-              .eq('plan_id', planId);
-              
-            if (error) throw error;
-            return data || [];
-          };
-          
-          const requirements = plan.requirements || [];
-          if (requirements.length === 0) return null;
-          
-          const trainingDays = Math.ceil(
-            requirements.reduce((total, req) => total + (req.training_hours || 0), 0) / 8
-          );
-          
-          let totalCost = 0;
-          const resourceMap = new Map();
-          
-          requirements.forEach(req => {
-            if (!req.resource_id) return;
-            
-            if (!resourceMap.has(req.resource_id)) {
-              const resource = resources.find(r => r.resource_id === req.resource_id);
-              if (!resource) return;
-              
-              resourceMap.set(req.resource_id, {
-                hourlyRate: resource.hourly_rate || 0,
-                totalHours: 0,
-              });
-            }
-            
-            const resourceData = resourceMap.get(req.resource_id);
-            resourceData.totalHours += req.training_hours || 0;
-          });
-          
-          Array.from(resourceMap.values()).forEach(resource => {
-            const trainingCost = resource.hourlyRate * resource.totalHours;
-            
-            const businessTripDays = Math.ceil(resource.totalHours / 8) + 2;
-            
-            const selectedArea = areaCosts.find(area => area.area_id === quoteData.area_id);
-            const tripCosts = selectedArea ? (
-              selectedArea.daily_accommodation_food_cost +
-              selectedArea.daily_allowance +
-              selectedArea.daily_pocket_money
-            ) * businessTripDays : 0;
-            
-            totalCost += trainingCost + tripCosts;
-          });
-          
-          return {
-            planId: planId,
-            planName: plan.name,
-            trainingDays,
-            totalCost
-          };
-        })
-        .filter(Boolean) as PlanCostData[];
+        .map(plan => planTotals[plan.plan_id])
+        .filter(totals => totals && totals.resources.length > 0)
+        .map(totals => ({
+          planId: totals.plan_id,
+          planName: totals.plan_name,
+          trainingDays: totals.training_days,
+          totalCost: totals.sell_price, // The client only sees the sell price, never the cost
+          taxRate: totals.tax_rate,
+          taxAmount: totals.tax_amount,
+          grossPrice: totals.gross_price,
+          reverseCharge: totals.reverse_charge,
+          startDate: totals.start_date ?? undefined,
+          endDate: totals.end_date ?? undefined
+        }));
       
       const success = await generateQuotePDF(
         quoteId || 'unknown',
         profileData.firstName ? `${profileData.firstName} ${profileData.lastName || ''}` : user?.email,
-        quoteData.client_name,
+        {
+          name: quoteData.client_name,
+          addressLines: quoteData.client_address?.split('\n').map(line => line.trim()).filter(Boolean) ?? [],
+          contactName: quoteData.client_contact,
+          vatId: quoteData.client_vat_id
+        },
         planCostData,
-        '/placeholder.svg'
+        '/placeholder.svg',
+        pricingCurrency
       );
       
       if (success) {
@@ -199,7 +289,38 @@ const CheckoutPage: React.FC = () => {
     navigate(`/quote/${quoteId}/planning`);
   };
   
-  const handleSaveAndClose = () => {
+  const handleSaveAndClose = async () => {
+    if (plans.some(plan => !planTotals[plan.plan_id])) {
+      toast.error("Costs are still being calculated, please try again in a moment");
+      return;
+    }
+
+    // Plans without assigned resources have nothing to snapshot
+    const snapshots = plans.map(plan => planTotals[plan.plan_id]).filter(totals => totals.resources.length > 0);
+    const belowFloor = snapshots.filter(totals => Math.round(totals.sell_price * 100) < Math.round(getFloorPrice(totals.total_cost) * 100));
+    if (belowFloor.length > 0) {
+      toast.error(`Sell price below the floor price for: ${belowFloor.map(totals => totals.plan_name).join(", ")}`);
+      return;
+    }
+
+    // New totals change the quote, so the database sends a submitted, approved or sent quote back to draft
+    if (quoteData.status && isQuoteLocked(quoteData.status) && !window.confirm(
+      `This quote is ${QUOTE_STATUS_LABELS[quoteData.status].toLowerCase()}. Saving reopens it as a draft. Continue?`
+    )) return;
+
+    setIsSaving(true);
+    const saved = await saveTotals(snapshots, quoteData.area_id ?? null, user?.id ?? null, pricingCurrency, exchangeRate);
+    // Every checkout save is also kept as an immutable revision of the quote
+    if (saved) await createRevision("Saved at checkout");
+    // Without a start date nothing is dated, and the quote's bookings are cleared
+    const booked = saved && await saveQuoteBookings(bookingPlanId, bookingPlanId === null ? [] : planSchedules[bookingPlanId] || []);
+    setIsSaving(false);
+
+    if (!saved) {
+      toast.error("Failed to save quote totals");
+      return;
+    }
+    if (!booked) return;
     toast.success("Quote saved successfully");
     navigate("/home");
   };
@@ -285,16 +406,42 @@ const CheckoutPage: React.FC = () => {
                       {loadingQuote ? "Loading area..." : quoteData.area_name || "No Area Selected"}
                     </span>
                   </div>
+
+                  {!loadingQuote && priceList && <div className="text-gray-300 bg-slate-800/50 px-3 py-1 rounded-md text-sm" title={`Prices in effect on ${priceDate}`}>
+                      {priceList.name}
+                    </div>}
+
+                  {!loadingQuote && <div className="text-gray-300 bg-slate-800/50 px-3 py-1 rounded-md text-sm" title={taxTreatment.reverseCharge ? REVERSE_CHARGE_NOTE : undefined}>
+                      {taxTreatment.label}
+                    </div>}
+
+                  {!loadingQuote && quoteCurrency !== BASE_CURRENCY && (quoteExchangeRate !== null ? <div className="text-gray-300 bg-slate-800/50 px-3 py-1 rounded-md text-sm">
+                      {quoteCurrency} (1 {BASE_CURRENCY} = {quoteExchangeRate} {quoteCurrency})
+                    </div> : <div className="flex items-center gap-2 text-amber-300 bg-amber-900/30 px-3 py-1 rounded-md text-sm">
+                      <AlertTriangle className="h-4 w-4" />
+                      <span>No {quoteCurrency} exchange rate for {rateDate}, showing {BASE_CURRENCY}</span>
+                    </div>)}
                 </div>
               </div>
 
               <div className="flex items-center gap-3">
+                {bookablePlans.length > 0 && <Select value={bookingPlanId?.toString() ?? ""} onValueChange={value => setSelectedBookingPlanId(parseInt(value))}>
+                    <SelectTrigger className="bg-slate-800 border-slate-700 text-gray-200 w-[220px]" title="Plan whose trainers are booked when the quote is saved">
+                      <SelectValue placeholder="Book trainers for" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                      {bookablePlans.map(plan => <SelectItem key={plan.plan_id} value={plan.plan_id.toString()}>
+                          Book trainers for {plan.name}
+                        </SelectItem>)}
+                    </SelectContent>
+                  </Select>}
                 <Button 
                   variant="default" 
                   onClick={handleSaveAndClose}
+                  disabled={isSaving}
                   className="bg-blue-500 text-white flex items-center gap-2 hover:bg-blue-600"
                 >
-                  <Save className="h-5 w-5" />
+                  {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : <Save className="h-5 w-5" />}
                   Save & Close
                 </Button>
                 
@@ -312,7 +459,7 @@ const CheckoutPage: React.FC = () => {
               </TextShimmerWave>
             </div> : <>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {plans.map(plan => <TrainingPlanCard key={plan.plan_id} plan={plan} quoteId={quoteId || ''} areaId={quoteData.area_id || null} resources={resources} areaCosts={areaCosts} resourceIcons={resourceIcons} trainingIcons={trainingIcons} />)}
+                {plans.map(plan => <TrainingPlanCard key={plan.plan_id} plan={plan} quoteId={quoteId || ''} areaId={quoteData.area_id || null} projectStartDate={quoteData.project_start_date ?? null} workOnSaturday={quoteData.work_on_saturday ?? false} workOnSunday={quoteData.work_on_sunday ?? false} holidayDates={holidayDates} dailyHoursOverride={quoteData.daily_hours_override ?? null} traineeGroups={traineeGroupConstraints} prerequisites={prerequisiteConstraints} unavailability={unavailabilityConstraints} currency={pricingCurrency} exchangeRate={exchangeRate} taxTreatment={taxTreatment} onTotalsChange={handlePlanTotalsChange} onScheduleChange={handlePlanScheduleChange} resources={pricedResources} areaCosts={pricedAreaCosts} resourceIcons={resourceIcons} trainingIcons={trainingIcons} />)}
               </div>
             </>}
         </div>
@@ -326,10 +473,22 @@ interface TrainingPlanCardProps {
     name: string;
     description: string | null;
     icon_name: string | null;
-    requirements?: any[];
   };
   quoteId: string;
   areaId: number | null;
+  projectStartDate: string | null;
+  workOnSaturday: boolean;
+  workOnSunday: boolean;
+  holidayDates: string[];
+  dailyHoursOverride: number | null;
+  traineeGroups: TraineeGroupConstraint[];
+  prerequisites: PrerequisiteConstraint[];
+  unavailability: UnavailabilityConstraint[];
+  currency: string;
+  exchangeRate: number; // Quote currency units per base-currency unit
+  taxTreatment: TaxTreatment;
+  onTotalsChange: (totals: PlanTotalsSnapshot) => void; // Reports the computed costs for the checkout snapshot
+  onScheduleChange: (planId: number, segments: ScheduledTaskSegment[]) => void; // Reports the schedule for booking
   resources: Array<{
     resource_id: number;
     name: string;
@@ -360,25 +519,46 @@ const TrainingPlanCard: React.FC<TrainingPlanCardProps> = ({
   plan,
   quoteId,
   areaId,
+  projectStartDate,
+  workOnSaturday,
+  workOnSunday,
+  holidayDates,
+  dailyHoursOverride,
+  traineeGroups,
+  prerequisites,
+  unavailability,
+  currency,
+  exchangeRate,
+  taxTreatment,
+  onTotalsChange,
+  onScheduleChange,
   resources,
   areaCosts,
   resourceIcons,
   trainingIcons
 }) => {
+  // Manual Gantt changes are per plan, so each card loads its own
+  const {
+    overrides
+  } = useScheduleOverrides(quoteId, plan.plan_id);
+  const {
+    pricing,
+    loading: loadingPricing,
+    savePricing
+  } = usePlanPricing(quoteId, plan.plan_id);
+  const [pricingModalOpen, setPricingModalOpen] = useState(false);
   const {
     scheduledTasks,
     loading
-  } = useTrainingRequirements(quoteId, plan.plan_id, false, false);
-
-  useEffect(() => {
-    if (!loading && scheduledTasks.length > 0) {
-      plan.requirements = scheduledTasks.map(task => ({
-        resource_id: task.resource_id,
-        training_hours: task.segment_hours,
-        originalRequirementId: task.originalRequirementId
-      }));
-    }
-  }, [scheduledTasks, loading, plan]);
+  } = useTrainingRequirements(quoteId, plan.plan_id, workOnSaturday, workOnSunday, {
+    projectStartDate,
+    holidays: holidayDates,
+    dailyHoursOverride,
+    traineeGroups,
+    prerequisites,
+    overrides: toScheduleOverrides(overrides),
+    unavailability
+  });
 
   const selectedArea = React.useMemo(() => {
     return areaCosts.find(area => area.area_id === areaId) || null;
@@ -393,72 +573,23 @@ const TrainingPlanCard: React.FC<TrainingPlanCardProps> = ({
     const icon = resourceIcons.find(icon => icon.name === resourceIconName);
     return icon?.url || null;
   };
-  const resourceMap = React.useMemo(() => {
-    const map = new Map();
-    scheduledTasks.forEach(task => {
-      if (!map.has(task.resource_id)) {
-        const resource = resources.find(r => r.resource_id === task.resource_id);
-        map.set(task.resource_id, {
-          resourceId: task.resource_id,
-          resourceName: task.resource_name,
-          resourceIcon: resource?.icon_name || null,
-          hourlyRate: resource?.hourly_rate || 0,
-          totalHours: 0,
-          trainingDays: [],
-          startDates: [],
-          endDates: []
-        });
-      }
-      const resource = map.get(task.resource_id);
-      resource.totalHours += task.segment_hours;
-      const startDay = task.start_day;
-      const endDay = task.start_day + task.duration_days - 1;
-      resource.trainingDays.push({
-        start: startDay,
-        end: endDay
-      });
-      resource.startDates.push(startDay);
-      resource.endDates.push(endDay);
-    });
-    return Array.from(map.values()).map(resource => {
-      const trainingDaysCount = Math.ceil(resource.totalHours / 8);
-      const earliestStart = Math.min(...resource.startDates);
-      const latestEnd = Math.max(...resource.endDates);
-      const tripStart = earliestStart - 1;
-      const tripEnd = latestEnd + 1;
-      let businessTripDays = tripEnd - tripStart + 1;
-      const trainingCost = resource.hourlyRate * resource.totalHours;
-      const tripCosts = {
-        accommodationFood: selectedArea ? selectedArea.daily_accommodation_food_cost * businessTripDays : 0,
-        allowance: selectedArea ? selectedArea.daily_allowance * businessTripDays : 0,
-        pocketMoney: selectedArea ? selectedArea.daily_pocket_money * businessTripDays : 0,
-        total: 0
-      };
-      tripCosts.total = tripCosts.accommodationFood + tripCosts.allowance + tripCosts.pocketMoney;
-      return {
-        ...resource,
-        trainingDaysCount,
-        businessTripDays,
-        tripStart,
-        tripEnd,
-        trainingCost,
-        tripCosts
-      };
-    });
-  }, [scheduledTasks, resources, selectedArea]);
-  const totalCosts = React.useMemo(() => {
-    let trainingTotal = 0;
-    let businessTripTotal = 0;
-    resourceMap.forEach(resource => {
-      trainingTotal += resource.trainingCost;
-      businessTripTotal += resource.tripCosts.total;
-    });
-    return {
-      trainingTotal,
-      businessTripTotal,
-      grandTotal: trainingTotal + businessTripTotal
-    };
-  }, [resourceMap]);
+  const planCosts = React.useMemo(() => calculatePlanCosts(scheduledTasks, resources, selectedArea, {
+    projectStartDate,
+    holidays: holidayDates,
+    exchangeRate
+  }), [scheduledTasks, resources, selectedArea, projectStartDate, holidayDates, exchangeRate]);
+  const sellPrice = React.useMemo(() => calculateSellPrice(planCosts, toPricingAdjustments(pricing)), [planCosts, pricing]);
+
+  // Report the numbers shown on this card so "Save & Close" and the PDF use exactly the same figures
+  useEffect(() => {
+    if (loading || loadingPricing) return;
+    onTotalsChange(toPlanTotalsSnapshot(plan, planCosts, sellPrice, pricing?.override_reason ?? null, taxTreatment, projectStartDate));
+  }, [loading, loadingPricing, plan, planCosts, sellPrice, pricing, taxTreatment, projectStartDate, onTotalsChange]);
+  useEffect(() => {
+    if (loading) return;
+    onScheduleChange(plan.plan_id, scheduledTasks);
+  }, [loading, plan.plan_id, scheduledTasks, onScheduleChange]);
+  const taxedTotal = applyTax(sellPrice.sellPrice, taxTreatment);
 
   return <Card className="bg-slate-800/80 border border-white/5 overflow-hidden h-full flex flex-col">
       <CardHeader className="bg-slate-700/50 flex flex-row items-center justify-between pb-4">
@@ -481,10 +612,10 @@ const TrainingPlanCard: React.FC<TrainingPlanCardProps> = ({
       <CardContent className="pt-4 flex-grow">
         {loading ? <div className="py-4 text-center text-gray-400">
             Loading resources...
-          </div> : resourceMap.length === 0 ? <div className="py-4 text-center text-gray-400">
+          </div> : planCosts.resources.length === 0 ? <div className="py-4 text-center text-gray-400">
             No resources assigned to this plan
           </div> : <div className="space-y-4">
-            {resourceMap.map(resource => <div key={resource.resourceId} className="border border-white/5 rounded-md bg-transparent">
+            {planCosts.resources.map((resource, index) => <div key={resource.resourceId} className="border border-white/5 rounded-md bg-transparent">
                 <div className="flex items-center gap-2 font-medium text-gray-200 mb-2 pt-2 pb-2 pl-2">
                   {getResourceIcon(resource.resourceIcon) ? <img src={getResourceIcon(resource.resourceIcon)} alt={resource.resourceName} className="h-5 w-5" onError={e => {
               (e.target as HTMLImageElement).src = "/placeholder.svg";
@@ -493,16 +624,24 @@ const TrainingPlanCard: React.FC<TrainingPlanCardProps> = ({
                 </div>
                 
                 <div className="flex flex-col gap-2">
+                  <div className="bg-slate-700/40 p-2 rounded border border-white/5">
+                    <div className="text-gray-400 text-xs">On Site</div>
+                    <div className="text-gray-200 text-sm font-medium flex items-center">
+                      <CalendarDays className="h-3 w-3 mr-1 text-gray-400" />
+                      {formatScheduleDay(resource.tripStart, projectStartDate)} – {formatScheduleDay(resource.tripEnd, projectStartDate)}
+                    </div>
+                  </div>
+
                   <div className="bg-slate-700/40 p-2 rounded border border-white/5">
                     <div className="text-gray-400 text-xs">Training Days</div>
                     <div className="text-gray-200 font-medium flex justify-between items-center">
                       <span className="flex items-center">
                         <CalendarDays className="h-3 w-3 mr-1 text-gray-400" />
                         {resource.trainingDaysCount}
+                        <span className="ml-1 text-gray-400 text-xs">({resource.dailyHourLimit}h/day)</span>
                       </span>
                       <span className="text-emerald-300 text-xs flex items-center">
-                        <Euro className="h-3 w-3 mr-1" />
-                        {resource.trainingCost.toFixed(2)}
+                        {formatCurrency(resource.trainingCost, currency)}
                       </span>
                     </div>
                   </div>
@@ -513,10 +652,12 @@ const TrainingPlanCard: React.FC<TrainingPlanCardProps> = ({
                       <span className="flex items-center">
                         <Briefcase className="h-3 w-3 mr-1 text-gray-400" />
                         {resource.businessTripDays}
+                        {resource.holidaysOnSite > 0 && <span className="ml-1 text-xs text-rose-300 font-normal">
+                            (incl. {resource.holidaysOnSite} public holiday{resource.holidaysOnSite === 1 ? "" : "s"})
+                          </span>}
                       </span>
                       <span className="text-emerald-300 text-xs flex items-center">
-                        <Euro className="h-3 w-3 mr-1" />
-                        {resource.tripCosts.total.toFixed(2)}
+                        {formatCurrency(resource.tripCosts.total, currency)}
                       </span>
                     </div>
                     
@@ -526,30 +667,35 @@ const TrainingPlanCard: React.FC<TrainingPlanCardProps> = ({
                             <Coffee className="h-3 w-3 mr-1" />
                             Accommodation & Food:
                           </span>
-                          <span>€{resource.tripCosts.accommodationFood.toFixed(2)}</span>
+                          <span>{formatCurrency(resource.tripCosts.accommodationFood, currency)}</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="flex items-center">
                             <DollarSign className="h-3 w-3 mr-1" />
                             Daily Allowance:
                           </span>
-                          <span>€{resource.tripCosts.allowance.toFixed(2)}</span>
+                          <span>{formatCurrency(resource.tripCosts.allowance, currency)}</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="flex items-center">
                             <Gift className="h-3 w-3 mr-1" />
                             Pocket Money:
                           </span>
-                          <span>€{resource.tripCosts.pocketMoney.toFixed(2)}</span>
+                          <span>{formatCurrency(resource.tripCosts.pocketMoney, currency)}</span>
                         </div>
                       </div>}
                   </div>
+
+                  <div className="bg-slate-700/40 p-2 rounded border border-white/5 text-xs text-gray-400 flex justify-between">
+                    <span>Sell {formatCurrency(sellPrice.lines[index].sellPrice, currency)} net</span>
+                    <span>{taxTreatment.label}: {formatCurrency(applyTax(sellPrice.lines[index].sellPrice, taxTreatment).tax, currency)}</span>
+                  </div>
                 </div>
               </div>)}
           </div>}
       </CardContent>
       
-      {resourceMap.length > 0 && <CardFooter className="bg-slate-700/30 p-4 flex flex-col">
+      {planCosts.resources.length > 0 && <CardFooter className="bg-slate-700/30 p-4 flex flex-col">
           <Separator className="mb-3 bg-white/10" />
           <div className="w-full text-sm">
             <div className="flex justify-between text-gray-300">
@@ -557,24 +703,55 @@ const TrainingPlanCard: React.FC<TrainingPlanCardProps> = ({
                 <BadgeCheck className="h-4 w-4 mr-1" />
                 Training Cost:
               </span>
-              <span className="font-medium">€{totalCosts.trainingTotal.toFixed(2)}</span>
+              <span className="font-medium">{formatCurrency(planCosts.trainingTotal, currency)}</span>
             </div>
             <div className="flex justify-between text-gray-300">
               <span className="flex items-center">
                 <Briefcase className="h-4 w-4 mr-1" />
                 Business Trip Cost:
               </span>
-              <span className="font-medium">€{totalCosts.businessTripTotal.toFixed(2)}</span>
+              <span className="font-medium">{formatCurrency(planCosts.businessTripTotal, currency)}</span>
             </div>
             <Separator className="my-2 bg-white/10" />
-            <div className="flex justify-between text-emerald-300 font-medium">
+            <div className="flex justify-between text-gray-200 font-medium">
               <span className="flex items-center">
                 <Wallet className="h-4 w-4 mr-1" />
-                Total:
+                Cost Total:
+              </span>
+              <span>{formatCurrency(planCosts.grandTotal, currency)}</span>
+            </div>
+            <div className="flex justify-between text-gray-400 text-xs mt-1">
+              <span className="flex items-center">
+                <Percent className="h-3 w-3 mr-1" />
+                Margin {sellPrice.marginPercent}%{sellPrice.discountTotal > 0 && `, discounts −${formatCurrency(sellPrice.discountTotal, currency)}`}
               </span>
-              <span>€{totalCosts.grandTotal.toFixed(2)}</span>
+              {sellPrice.isOverridden && <span className="text-amber-300" title={pricing?.override_reason ?? undefined}>Overridden</span>}
             </div>
+            <div className={`flex justify-between font-medium mt-1 ${sellPrice.belowFloor ? "text-red-400" : "text-emerald-300"}`}>
+              <span className="flex items-center">
+                <Tag className="h-4 w-4 mr-1" />
+                Sell Price (net):
+              </span>
+              <span>{formatCurrency(sellPrice.sellPrice, currency)}</span>
+            </div>
+            <div className="flex justify-between text-gray-300 text-xs mt-1">
+              <span>{taxTreatment.label}</span>
+              <span>{formatCurrency(taxedTotal.tax, currency)}</span>
+            </div>
+            <div className="flex justify-between text-gray-100 font-medium mt-1">
+              <span>Gross:</span>
+              <span>{formatCurrency(taxedTotal.gross, currency)}</span>
+            </div>
+            {taxTreatment.reverseCharge && <div className="text-gray-400 text-xs mt-1">{REVERSE_CHARGE_NOTE}</div>}
+            {sellPrice.belowFloor && <div className="flex items-center gap-1 text-red-400 text-xs mt-1">
+                <AlertTriangle className="h-3 w-3" />
+                Below floor price ({formatCurrency(sellPrice.floorPrice, currency)})
+              </div>}
+            <Button variant="outline" size="sm" onClick={() => setPricingModalOpen(true)} disabled={loadingPricing} className="w-full mt-3 text-gray-300 border-slate-600 hover:bg-slate-700 hover:text-white">
+              Adjust Pricing
+            </Button>
           </div>
+          <PlanPricingModal open={pricingModalOpen} onClose={() => setPricingModalOpen(false)} planName={plan.name} costs={planCosts} pricing={pricing} currency={currency} onSave={savePricing} />
         </CardFooter>}
     </Card>;
 };
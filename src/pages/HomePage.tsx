@@ -1,38 +1,80 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import React, { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
-import { useQuotes } from "@/hooks/useQuotes";
+import { useQuotes, Quote } from "@/hooks/useQuotes";
 import { useGeographicAreas } from "@/hooks/useGeographicAreas";
+import { useQuoteTemplates } from "@/hooks/useQuoteTemplates";
+import { useClients, toQuoteClientFields } from "@/hooks/useClients";
+import { useOrganization, getMemberName } from "@/hooks/useOrganization";
 import { Button } from "@/components/ui/button";
 import QuoteCard from "@/components/shared/QuoteCard";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Sidebar, SidebarBody, SidebarLink, Logo, LogoIcon } from "@/components/ui/sidebar-custom";
-import { LayoutDashboard, Settings, LogOut, UserCog, Plus, FileText, X } from "lucide-react";
+import { LayoutDashboard, Settings, LogOut, UserCog, Plus, FileText, X, Search, Loader2 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useUserProfile } from "@/hooks/use-user-profile";
 import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import { APP_VERSION } from "@/utils/types";
 import { APP_NAME } from "@/utils/constants";
+import { QUOTE_STATUSES, QUOTE_STATUS_LABELS, QuoteStatus } from "@/utils/quoteStatus";
+import { QUOTE_SCOPES, QUOTE_SCOPE_LABELS, QUOTE_SORTS, QUOTE_SORT_LABELS, QuoteFilters, QuoteGrouping, QuoteScope, QuoteSort, parseQuoteFilters, toSearchParams } from "@/utils/quoteSearch";
 
 const formSchema = z.object({
   quote_name: z.string().min(1, {
     message: "Quote name is required"
   }),
-  client_name: z.string().optional(),
+  client_id: z.string().optional(),
   geographic_area: z.string().min(1, {
     message: "Geographic area is required"
-  })
+  }),
+  template_id: z.string().optional()
 });
 type FormValues = z.infer<typeof formSchema>;
+type QuoteGroup = {
+  key: string;
+  label: string;
+  quotes: Quote[];
+};
+
+// Sections of the dashboard grid; statuses keep their lifecycle order, clients are alphabetical
+const groupQuotes = (quotes: Quote[], groupBy: QuoteGrouping): QuoteGroup[] => {
+  if (groupBy === "status") {
+    return QUOTE_STATUSES.map(status => ({
+      key: status,
+      label: QUOTE_STATUS_LABELS[status],
+      quotes: quotes.filter(quote => quote.status === status)
+    })).filter(group => group.quotes.length > 0);
+  }
+  if (groupBy === "client") {
+    const groups = new Map<string, QuoteGroup>();
+    quotes.forEach(quote => {
+      const key = quote.client_id ? `client-${quote.client_id}` : quote.client_name || "none";
+      if (!groups.has(key)) {
+        groups.set(key, {
+          key,
+          label: quote.client_name || "No client",
+          quotes: []
+        });
+      }
+      groups.get(key)!.quotes.push(quote);
+    });
+    return Array.from(groups.values()).sort((a, b) => a.label.localeCompare(b.label));
+  }
+  return [{
+    key: "all",
+    label: "",
+    quotes
+  }];
+};
 const getSidebarState = () => {
   const savedState = localStorage.getItem('sidebar-state');
   return savedState ? savedState === 'true' : true;
@@ -44,27 +86,52 @@ const HomePage = () => {
   } = useAuth();
   const navigate = useNavigate();
   const [dialogOpen, setDialogOpen] = useState<boolean>(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseQuoteFilters(searchParams);
+  const [searchInput, setSearchInput] = useState(filters.search);
   const {
     quotes,
     loading,
+    loadingMore,
+    hasMore,
     error,
-    fetchQuotes
-  } = useQuotes();
+    fetchQuotes,
+    loadMore
+  } = useQuotes(filters);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const {
     areas,
     loading: areasLoading
   } = useGeographicAreas();
+  const {
+    templates,
+    createQuoteFromTemplate
+  } = useQuoteTemplates();
+  const {
+    clients
+  } = useClients();
+  const {
+    organization,
+    members,
+    loading: organizationLoading,
+    createOrganization
+  } = useOrganization();
+  const [organizationName, setOrganizationName] = useState("");
+  const [isCreatingOrganization, setIsCreatingOrganization] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(getSidebarState());
   const {
     profileData
   } = useUserProfile(user);
   const [logoDialogOpen, setLogoDialogOpen] = useState(false);
+  const quoteGroups = groupQuotes(quotes, filters.groupBy);
+  const hasFilters = filters.search !== "" || filters.status !== "all" || filters.scope !== "all";
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       quote_name: "",
-      client_name: "",
-      geographic_area: ""
+      client_id: "",
+      geographic_area: "",
+      template_id: ""
     }
   });
   useEffect(() => {
@@ -75,6 +142,40 @@ const HomePage = () => {
   useEffect(() => {
     localStorage.setItem('sidebar-state', sidebarOpen.toString());
   }, [sidebarOpen]);
+  // Filters live in the URL (replace, so typing doesn't fill the history)
+  const updateFilters = (changes: Partial<QuoteFilters>) => {
+    setSearchParams(toSearchParams({
+      ...filters,
+      ...changes
+    }), {
+      replace: true
+    });
+  };
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchParams(params => {
+      const current = parseQuoteFilters(params);
+      return current.search === searchInput.trim() ? params : toSearchParams({
+        ...current,
+        search: searchInput
+      });
+    }, {
+      replace: true
+    }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, setSearchParams]);
+  // Infinite scroll: load the next page when the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, {
+      rootMargin: "200px"
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
   const handleLogoClick = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -84,6 +185,24 @@ const HomePage = () => {
     await signOut();
     navigate("/");
   };
+  const handleCreateOrganization = async () => {
+    if (!organizationName.trim()) {
+      toast.error("Enter a name for the organization");
+      return;
+    }
+    setIsCreatingOrganization(true);
+    const created = await createOrganization(organizationName.trim());
+    setIsCreatingOrganization(false);
+    if (created) {
+      toast.success("Organization created");
+      fetchQuotes();
+    }
+  };
+  const getSalespersonName = (quote: Quote) => {
+    const member = members.find(m => m.user_id === quote.assigned_to_user_id);
+    return member ? getMemberName(member) : undefined;
+  };
+  const renderQuoteCard = (quote: Quote) => <QuoteCard key={quote.quote_id} quote_id={quote.quote_id} quote_name={quote.quote_name} client_name={quote.client_name} area_name={quote.area_name} currency={quote.quoted_currency ?? quote.currency} quoted_total={quote.quoted_total} status={quote.status} salesperson={getSalespersonName(quote)} created_at={quote.created_at} onDelete={handleQuoteDeleted} onDuplicate={fetchQuotes} />;
   const handleOpenDialog = () => {
     form.reset();
     setDialogOpen(true);
@@ -91,15 +210,60 @@ const HomePage = () => {
   const handleCloseDialog = () => {
     setDialogOpen(false);
   };
+  // A template's area is only a suggestion: it fills the area field if none is picked yet
+  const handleTemplateChange = (templateId: string) => {
+    form.setValue("template_id", templateId);
+    const template = templates.find(t => t.template_id.toString() === templateId);
+    if (template?.content.area_id && !form.getValues("geographic_area")) {
+      form.setValue("geographic_area", template.content.area_id.toString(), {
+        shouldValidate: true
+      });
+    }
+  };
+  // The client's default area fills the area field the same way
+  const handleClientChange = (clientId: string) => {
+    form.setValue("client_id", clientId);
+    const client = clients.find(c => c.client_id.toString() === clientId);
+    if (client?.default_area_id && !form.getValues("geographic_area")) {
+      form.setValue("geographic_area", client.default_area_id.toString(), {
+        shouldValidate: true
+      });
+    }
+  };
   const onSubmit = async (data: FormValues) => {
     if (!user) return;
+    const client = clients.find(c => c.client_id.toString() === data.client_id) ?? null;
+    const clientFields = {
+      ...toQuoteClientFields(client),
+      ...(client?.default_currency ? {
+        currency: client.default_currency
+      } : {})
+    };
+    if (data.template_id) {
+      const newQuoteId = await createQuoteFromTemplate(parseInt(data.template_id, 10), data.quote_name, client?.company_name, parseInt(data.geographic_area, 10));
+      if (!newQuoteId) return;
+      if (client) {
+        // The template only sets the client name; link the client record as well
+        const {
+          error: linkError
+        } = await supabase.from("quotes").update(clientFields).eq("quote_id", newQuoteId);
+        if (linkError) {
+          console.error("Error linking client to quote:", linkError);
+          toast.error("Quote created, but the client could not be linked");
+        }
+      }
+      toast.success("Quote created from template!");
+      setDialogOpen(false);
+      navigate(`/quote/${newQuoteId}/config`);
+      return;
+    }
     try {
       const {
         data: newQuote,
         error: insertError
       } = await supabase.from("quotes").insert({
         quote_name: data.quote_name,
-        client_name: data.client_name || null,
+        ...clientFields,
         created_by_user_id: user.id,
         area_id: parseInt(data.geographic_area, 10)
       }).select().single();
@@ -162,7 +326,64 @@ const HomePage = () => {
           <div className="mb-6 flex items-center">
             <h1 className="text-2xl font-bold text-gray-100">Dashboard</h1>
             {loading && <div className="pl-4 flex items-center"> <TextShimmerWave className="[--base-color:#a1a1aa] [--base-gradient-color:#ffffff] text-lg" duration={1} spread={1} zDistance={1} scaleDistance={1.1} rotateYDistance={10}> Loading Quotes </TextShimmerWave> </div>}
+            <div className="ml-auto flex items-center gap-4">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+                <Input value={searchInput} onChange={e => setSearchInput(e.target.value)} placeholder="Search name, client, machine, area" className="w-[280px] pl-8 bg-slate-800 border-slate-700 text-gray-200 placeholder:text-gray-500" />
+              </div>
+              <Select value={filters.scope} onValueChange={value => updateFilters({
+              scope: value as QuoteScope
+            })}>
+                <SelectTrigger className="w-[160px] bg-slate-800 border-slate-700 text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                  {QUOTE_SCOPES.map(scope => <SelectItem key={scope} value={scope}>{QUOTE_SCOPE_LABELS[scope]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={filters.status} onValueChange={value => updateFilters({
+              status: value as QuoteStatus | "all"
+            })}>
+                <SelectTrigger className="w-[200px] bg-slate-800 border-slate-700 text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {QUOTE_STATUSES.map(status => <SelectItem key={status} value={status}>{QUOTE_STATUS_LABELS[status]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={filters.sort} onValueChange={value => updateFilters({
+              sort: value as QuoteSort
+            })}>
+                <SelectTrigger className="w-[160px] bg-slate-800 border-slate-700 text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                  {QUOTE_SORTS.map(sort => <SelectItem key={sort} value={sort}>{QUOTE_SORT_LABELS[sort]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={filters.groupBy} onValueChange={value => updateFilters({
+              groupBy: value as QuoteGrouping
+            })}>
+                <SelectTrigger className="w-[180px] bg-slate-800 border-slate-700 text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                  <SelectItem value="none">No grouping</SelectItem>
+                  <SelectItem value="status">Group by status</SelectItem>
+                  <SelectItem value="client">Group by client</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
+          {!organizationLoading && !organization && <div className="mb-6 p-4 bg-amber-900/30 border border-amber-700/50 rounded-lg text-amber-200 text-sm flex items-center gap-4">
+              <span className="flex-1">You don't belong to an organization yet, so there are no quotes or settings to show. Create one, or ask an admin of your company's organization to add you.</span>
+              <Input value={organizationName} onChange={e => setOrganizationName(e.target.value)} placeholder="Organization name" className="w-[220px] bg-slate-800 border-slate-700 text-gray-200" />
+              <Button onClick={handleCreateOrganization} disabled={isCreatingOrganization} className="bg-blue-700 hover:bg-blue-800">
+                {isCreatingOrganization ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Create Organization
+              </Button>
+            </div>}
           {error ? <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
               <p className="text-red-300">{error}</p>
               <Button onClick={() => {
@@ -173,8 +394,15 @@ const HomePage = () => {
               <Card className="bg-slate-800/80 p-6 rounded-lg border border-white/5 shadow-sm hover:shadow-md hover:bg-slate-700/80 transition-all cursor-pointer h-[220px] flex flex-col items-center justify-center" onClick={handleOpenDialog}>
                 <div className="flex flex-col items-center justify-center gap-4 text-center"> <div className="w-16 h-16 rounded-full bg-slate-700/80 flex items-center justify-center"> <Plus className="h-8 w-8 text-gray-300" /> </div> <h3 className="text-xl font-semibold text-gray-200">Create New Quote</h3> <p className="text-gray-400 text-center">Start a new training quote for your client</p> </div>
               </Card>
-              {quotes.length > 0 && quotes.map(quote => <QuoteCard key={quote.quote_id} quote_id={quote.quote_id} quote_name={quote.quote_name} client_name={quote.client_name} area_name={quote.area_name} created_at={quote.created_at} onDelete={handleQuoteDeleted} />)}
-              {quotes.length === 0 && !loading && <div className="col-span-full text-center py-10"> <FileText className="h-12 w-12 mx-auto text-gray-500 mb-3" /> <h3 className="text-lg font-medium text-gray-300 mb-1">No quotes yet</h3> <p className="text-gray-400 mb-6">Create your first quote to get started</p> </div>}
+              {quoteGroups.map(group => <React.Fragment key={group.key}>
+                  {filters.groupBy !== "none" && <h2 className="col-span-full text-lg font-semibold text-gray-300 mt-2">{group.label} ({group.quotes.length})</h2>}
+                  {group.quotes.map(renderQuoteCard)}
+                </React.Fragment>)}
+              {hasMore && <div ref={loadMoreRef} className="col-span-full flex justify-center py-4 text-gray-400">
+                  {loadingMore && <Loader2 className="h-5 w-5 animate-spin" />}
+                </div>}
+              {quotes.length === 0 && !loading && hasFilters && <div className="col-span-full text-center py-10 text-gray-400">No quotes match these filters</div>}
+              {quotes.length === 0 && !loading && !hasFilters && <div className="col-span-full text-center py-10"> <FileText className="h-12 w-12 mx-auto text-gray-500 mb-3" /> <h3 className="text-lg font-medium text-gray-300 mb-1">No quotes yet</h3> <p className="text-gray-400 mb-6">Create your first quote to get started</p> </div>}
             </div>}
         </div>
       </main>
@@ -237,17 +465,34 @@ const HomePage = () => {
               />
               <FormField 
                 control={form.control} 
-                name="client_name" 
+                name="client_id" 
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-gray-300">Customer Name</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="Enter customer name" 
-                        {...field} 
-                        className="bg-slate-700 border-gray-600 text-gray-200 placeholder:text-gray-500" 
-                      />
-                    </FormControl>
+                    <FormLabel className="text-gray-300">Customer</FormLabel>
+                    <Select onValueChange={value => handleClientChange(value === "none" ? "" : value)} value={field.value || "none"}>
+                      <FormControl>
+                        <SelectTrigger className="bg-slate-700 border-gray-600 text-gray-200">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-slate-700 border-gray-600 text-gray-200 z-[200]">
+                        <SelectItem value="none" className="text-gray-200 focus:bg-slate-600 focus:text-white hover:bg-slate-600">
+                          No customer yet
+                        </SelectItem>
+                        {clients.map(client => (
+                          <SelectItem 
+                            key={client.client_id} 
+                            value={client.client_id.toString()} 
+                            className="text-gray-200 focus:bg-slate-600 focus:text-white hover:bg-slate-600"
+                          >
+                            {client.company_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription className="text-gray-500">
+                      New customers are added under Settings → Clients
+                    </FormDescription>
                     <FormMessage className="text-red-400" />
                   </FormItem>
                 )}
@@ -258,7 +503,7 @@ const HomePage = () => {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-gray-300">Geographic Area</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger className="bg-slate-700 border-gray-600 text-gray-200">
                           <SelectValue placeholder="Select an area" />
@@ -286,6 +531,39 @@ const HomePage = () => {
                   </FormItem>
                 )}
               />
+              {templates.length > 0 && (
+                <FormField 
+                  control={form.control} 
+                  name="template_id" 
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-300">Start From Template</FormLabel>
+                      <Select onValueChange={value => handleTemplateChange(value === "none" ? "" : value)} value={field.value || "none"}>
+                        <FormControl>
+                          <SelectTrigger className="bg-slate-700 border-gray-600 text-gray-200">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-slate-700 border-gray-600 text-gray-200 z-[200]">
+                          <SelectItem value="none" className="text-gray-200 focus:bg-slate-600 focus:text-white hover:bg-slate-600">
+                            Blank quote
+                          </SelectItem>
+                          {templates.map(template => (
+                            <SelectItem 
+                              key={template.template_id} 
+                              value={template.template_id.toString()} 
+                              className="text-gray-200 focus:bg-slate-600 focus:text-white hover:bg-slate-600"
+                            >
+                              {template.template_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage className="text-red-400" />
+                    </FormItem>
+                  )}
+                />
+              )}
               <DialogFooter className="pt-4">
                 <Button 
                   type="button" 
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { 
@@ -9,33 +9,102 @@ import {
   Logo,
   LogoIcon
 } from "@/components/ui/sidebar-custom";
-import { LayoutDashboard, Settings, LogOut, UserCog, ArrowLeft, Edit, Save, Calendar } from "lucide-react";
+import { LayoutDashboard, Settings, LogOut, UserCog, ArrowLeft, Edit, Save, Calendar, History, LayoutTemplate, Lock } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useUserProfile } from "@/hooks/use-user-profile";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
+import { TablesUpdate } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { TextShimmerWave } from "@/components/ui/text-shimmer-wave";
 import MachineSelector from "@/components/quotes/MachineSelector";
 import SoftwareSelector from "@/components/quotes/SoftwareSelector";
 import SelectedItemsList from "@/components/quotes/SelectedItemsList";
 import QuoteTrainingTopics from "@/components/quotes/QuoteTrainingTopics";
+import QuoteRevisionsModal from "@/components/quotes/QuoteRevisionsModal";
+import QuoteStatusModal from "@/components/quotes/QuoteStatusModal";
+import SaveTemplateModal from "@/components/quotes/SaveTemplateModal";
+import QuotePresence from "@/components/quotes/QuotePresence";
+import { useQuoteStatus } from "@/hooks/useQuoteStatus";
+import { useQuoteRealtime } from "@/hooks/useQuoteRealtime";
+import { useQuoteTotals } from "@/hooks/useQuoteTotals";
+import { useAppSettings } from "@/hooks/useAppSettings";
+import { QUOTE_STATUS_LABELS, QUOTE_STATUS_STYLES, isQuoteLocked } from "@/utils/quoteStatus";
 import { useQuoteMachines } from "@/hooks/useQuoteMachines";
 import { useQuoteSoftware } from "@/hooks/useQuoteSoftware";
 import { Input } from "@/components/ui/input";
 import { useGeographicAreas } from "@/hooks/useGeographicAreas";
+import { useClients, toQuoteClientFields } from "@/hooks/useClients";
+import { useOrganization, getMemberName } from "@/hooks/useOrganization";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from "@/utils/currency";
+import { APPROVER_ROLES } from "@/utils/roles";
 
 type Quote = {
   quote_id: string;
   quote_name: string;
+  client_id: number | null;
   client_name: string | null;
+  client_country: string | null;
+  client_vat_id: string | null;
   area_name?: string;
   area_id?: number;
+  currency: string;
+  quote_date: string; // Selects the price list the quote is priced with
+  created_by_user_id: string;
+  assigned_to_user_id: string | null;
   created_at: string;
 };
 
+type EditedQuote = {
+  quote_name: string;
+  client_id: number | null;
+  client_name: string | null;
+  client_country: string | null;
+  client_vat_id: string | null;
+  area_id?: number;
+  currency: string;
+  quote_date: string;
+  created_by_user_id: string;
+  assigned_to_user_id: string | null;
+};
+
+// Header fields other members see a soft lock on while someone edits them
+const QUOTE_FIELD_LABELS: Record<string, string> = {
+  quote_name: "Quote Name",
+  client: "Client",
+  client_country: "Country",
+  client_vat_id: "VAT ID",
+  area: "Area",
+  currency: "Currency",
+  quote_date: "Quote Date",
+  owner: "Owner",
+  salesperson: "Salesperson",
+};
+
+const toEditedQuote = (quote: Quote): EditedQuote => ({
+  quote_name: quote.quote_name,
+  client_id: quote.client_id,
+  client_name: quote.client_name || '',
+  client_country: quote.client_country || '',
+  client_vat_id: quote.client_vat_id || '',
+  area_id: quote.area_id,
+  currency: quote.currency,
+  quote_date: quote.quote_date,
+  created_by_user_id: quote.created_by_user_id,
+  assigned_to_user_id: quote.assigned_to_user_id
+});
+
+// Fields still as loaded take the saved value; fields the user changed keep their edit
+const mergeUntouchedFields = (edited: EditedQuote, loaded: EditedQuote, saved: EditedQuote): EditedQuote => {
+  const merged = { ...edited };
+  (Object.keys(saved) as Array<keyof EditedQuote>).forEach(key => {
+    if (edited[key] === loaded[key]) (merged as Record<string, unknown>)[key] = saved[key];
+  });
+  return merged;
+};
+
 const QuoteConfigPage: React.FC = () => {
   const { quoteId } = useParams<{ quoteId: string }>();
   const { user, signOut } = useAuth();
@@ -50,6 +119,7 @@ const QuoteConfigPage: React.FC = () => {
     machineTypeIds,
     loading: machinesLoading, 
     error: machinesError, 
+    fetchQuoteMachines,
     saveMachines,
     removeMachine
   } = useQuoteMachines(quoteId);
@@ -59,20 +129,39 @@ const QuoteConfigPage: React.FC = () => {
     alwaysIncludedIds,
     loading: softwareLoading,
     error: softwareError,
+    fetchQuoteSoftware,
     saveSoftware,
     removeSoftware
   } = useQuoteSoftware(quoteId);
   const { areas, loading: areasLoading } = useGeographicAreas();
+  const { clients, loading: clientsLoading } = useClients();
+  const { role: orgRole, members, loading: membersLoading } = useOrganization();
   
   const [isEditing, setIsEditing] = useState(false);
-  const [editedQuote, setEditedQuote] = useState<{
-    quote_name: string;
-    client_name: string | null;
-    area_id?: number;
-  }>({
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
+  const [statusOpen, setStatusOpen] = useState(false);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const { status, history: statusHistory, approvalTotal, fetchStatus, changeStatus } = useQuoteStatus(quoteId);
+  const { totals, fetchTotals } = useQuoteTotals(quoteId);
+  const { approvalThreshold } = useAppSettings();
+  // Approval is judged on the total the database computes from the saved totals and the planning, in EUR like the threshold
+  const approvalContext = {
+    totalInBaseCurrency: approvalTotal,
+    approvalThreshold,
+    isManager: user?.app_metadata?.role === "manager" || (orgRole !== null && APPROVER_ROLES.includes(orgRole)),
+    hasSavedTotals: totals.length > 0,
+  };
+  const [editedQuote, setEditedQuote] = useState<EditedQuote>({
     quote_name: '',
+    client_id: null,
     client_name: '',
-    area_id: undefined
+    client_country: '',
+    client_vat_id: '',
+    area_id: undefined,
+    currency: BASE_CURRENCY,
+    quote_date: '',
+    created_by_user_id: '',
+    assigned_to_user_id: null
   });
 
   useEffect(() => {
@@ -84,21 +173,33 @@ const QuoteConfigPage: React.FC = () => {
     fetchQuote();
   }, [user, quoteId]);
 
+  // Quote details as last loaded, to tell the user's edits from a colleague's saved changes
+  const loadedQuoteRef = useRef<EditedQuote | null>(null);
+
   useEffect(() => {
-    if (quote) {
-      setEditedQuote({
-        quote_name: quote.quote_name,
-        client_name: quote.client_name || '',
-        area_id: quote.area_id
-      });
+    if (!quote) return;
+
+    const saved = toEditedQuote(quote);
+    const loaded = loadedQuoteRef.current;
+    loadedQuoteRef.current = saved;
+    setEditedQuote(prev => isEditing && loaded ? mergeUntouchedFields(prev, loaded, saved) : saved);
+  }, [quote, isEditing]);
+
+  // Colleagues' saves show up live; refreshing doesn't show the loading state
+  const { collaborators, setEditingField, getFieldLock, lockField } = useQuoteRealtime(quoteId, {
+    onQuoteChange: () => {
+      fetchQuote(false);
+      fetchStatus();
+      fetchQuoteMachines();
+      fetchQuoteSoftware();
     }
-  }, [quote]);
+  });
 
-  const fetchQuote = async () => {
+  const fetchQuote = async (showLoading = true) => {
     if (!quoteId) return;
     
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       setError(null);
       
       const { data, error: fetchError } = await supabase
@@ -106,9 +207,16 @@ const QuoteConfigPage: React.FC = () => {
         .select(`
           quote_id,
           quote_name,
+          client_id,
           client_name,
+          client_country,
+          client_vat_id,
           created_at,
           area_id,
+          currency,
+          quote_date,
+          created_by_user_id,
+          assigned_to_user_id,
           area_costs(area_name)
         `)
         .eq("quote_id", quoteId)
@@ -119,9 +227,16 @@ const QuoteConfigPage: React.FC = () => {
       const formattedQuote: Quote = {
         quote_id: data.quote_id,
         quote_name: data.quote_name,
+        client_id: data.client_id,
         client_name: data.client_name,
+        client_country: data.client_country,
+        client_vat_id: data.client_vat_id,
         area_name: data.area_costs?.area_name,
         area_id: data.area_id,
+        currency: data.currency,
+        quote_date: data.quote_date,
+        created_by_user_id: data.created_by_user_id,
+        assigned_to_user_id: data.assigned_to_user_id,
         created_at: data.created_at
       };
       
@@ -177,31 +292,77 @@ const QuoteConfigPage: React.FC = () => {
   const handleSaveQuote = async () => {
     if (!quoteId) return;
 
+    const clientCountry = editedQuote.client_country?.trim().toUpperCase() || null;
+    if (clientCountry && !/^[A-Z]{2}$/.test(clientCountry)) {
+      toast.error("Country must be a two-letter code (e.g. DE)");
+      return;
+    }
+
     try {
       setLoading(true);
-      
-      const { error: updateError } = await supabase
-        .from("quotes")
-        .update({
-          quote_name: editedQuote.quote_name,
-          client_name: editedQuote.client_name || null,
-          area_id: editedQuote.area_id
-        })
-        .eq("quote_id", quoteId);
-        
-      if (updateError) throw updateError;
+
+      const updates: TablesUpdate<"quotes"> = {
+        quote_name: editedQuote.quote_name,
+        client_id: editedQuote.client_id,
+        client_name: editedQuote.client_name || null,
+        client_country: clientCountry,
+        client_vat_id: editedQuote.client_vat_id?.trim() || null,
+        area_id: editedQuote.area_id,
+        currency: editedQuote.currency,
+        quote_date: editedQuote.quote_date || undefined,
+        // Transfers the quote when another member is picked as owner
+        created_by_user_id: editedQuote.created_by_user_id,
+        assigned_to_user_id: editedQuote.assigned_to_user_id
+      };
+      // Only fields changed here are written, so a colleague's concurrent changes to other fields are kept
+      (Object.keys(updates) as Array<keyof typeof updates>).forEach(key => {
+        if (quote && updates[key] === quote[key as keyof Quote]) delete updates[key];
+      });
+
+      // Owner and salesperson changes are not edits of the quote itself
+      const editsContent = Object.keys(updates).some(key => key !== "created_by_user_id" && key !== "assigned_to_user_id");
+      if (editsContent && isQuoteLocked(status) && !window.confirm(
+        `This quote is ${QUOTE_STATUS_LABELS[status].toLowerCase()}. Saving your changes reopens it as a draft. Continue?`
+      )) return;
+
+      if (Object.keys(updates).length > 0) {
+        const { error: updateError } = await supabase
+          .from("quotes")
+          .update(updates)
+          .eq("quote_id", quoteId);
+
+        if (updateError) throw updateError;
+      }
       
       toast.success("Quote details updated successfully");
       setIsEditing(false);
       fetchQuote();
+      fetchStatus();
     } catch (err: any) {
       console.error("Error updating quote:", err);
-      toast.error("Failed to update quote details");
+      toast.error(err.message || "Failed to update quote details");
     } finally {
       setLoading(false);
     }
   };
 
+  const handleRevisionBranched = () => {
+    fetchQuote();
+    fetchStatus();
+    fetchTotals();
+    fetchQuoteMachines();
+    fetchQuoteSoftware();
+  };
+
+  // Picking a client fills in its name, country and VAT id; those stay editable for this quote
+  const handleClientChange = (value: string) => {
+    const client = clients.find(c => c.client_id.toString() === value) ?? null;
+    setEditedQuote(prev => ({
+      ...prev,
+      ...toQuoteClientFields(client)
+    }));
+  };
+
   const handleQuoteFieldChange = (field: string, value: string | number | null) => {
     setEditedQuote(prev => ({
       ...prev,
@@ -209,8 +370,26 @@ const QuoteConfigPage: React.FC = () => {
     }));
   };
 
+  // Field label with the name of the colleague currently editing the field, if any
+  const renderFieldLabel = (field: string) => {
+    const lockedBy = getFieldLock(field);
+    return (
+      <label htmlFor={field} className="text-sm font-medium text-gray-400 mb-1 flex items-center gap-1">
+        {QUOTE_FIELD_LABELS[field]}
+        {lockedBy && (
+          <span className="inline-flex items-center gap-1 text-xs text-amber-300" title={`${lockedBy.name} is editing this field`}>
+            <Lock className="h-3 w-3" />
+            {lockedBy.name}
+          </span>
+        )}
+      </label>
+    );
+  };
+
   if (!user) return null;
 
+  const salesperson = members.find(m => m.user_id === quote?.assigned_to_user_id);
+
   const sidebarLinks = [
     {
       label: "Dashboard",
@@ -309,13 +488,12 @@ const QuoteConfigPage: React.FC = () => {
                     Loading Quote
                   </TextShimmerWave>
                 ) : isEditing ? (
-                  <div className="flex flex-row items-end gap-4 ml-4 flex-1">
+                  <div className="flex flex-row flex-wrap items-end gap-4 ml-4 flex-1">
                     <div>
-                      <label htmlFor="quote_name" className="text-sm font-medium text-gray-400 mb-1 block">
-                        Quote Name
-                      </label>
+                      {renderFieldLabel('quote_name')}
                       <Input 
                         id="quote_name"
+                        {...lockField('quote_name')}
                         value={editedQuote.quote_name || ''} 
                         onChange={(e) => handleQuoteFieldChange('quote_name', e.target.value)}
                         className="bg-slate-800 border-slate-700 text-gray-200 w-[200px]"
@@ -323,23 +501,56 @@ const QuoteConfigPage: React.FC = () => {
                     </div>
                     
                     <div>
-                      <label htmlFor="client_name" className="text-sm font-medium text-gray-400 mb-1 block">
-                        Client Name
-                      </label>
+                      {renderFieldLabel('client')}
+                      <Select 
+                        value={editedQuote.client_id?.toString() || 'none'} 
+                        onOpenChange={(open) => setEditingField(open ? 'client' : null)}
+                        onValueChange={handleClientChange}
+                        disabled={clientsLoading}
+                      >
+                        <SelectTrigger id="client" className="bg-slate-800 border-slate-700 text-gray-200 w-[200px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                          <SelectItem value="none">No client</SelectItem>
+                          {clients.map((client) => (
+                            <SelectItem key={client.client_id} value={client.client_id.toString()}>
+                              {client.company_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div>
+                      {renderFieldLabel('client_country')}
                       <Input 
-                        id="client_name"
-                        value={editedQuote.client_name || ''} 
-                        onChange={(e) => handleQuoteFieldChange('client_name', e.target.value)}
-                        className="bg-slate-800 border-slate-700 text-gray-200 w-[200px]"
+                        id="client_country"
+                        {...lockField('client_country')}
+                        value={editedQuote.client_country || ''} 
+                        onChange={(e) => handleQuoteFieldChange('client_country', e.target.value)}
+                        placeholder="DE"
+                        maxLength={2}
+                        className="bg-slate-800 border-slate-700 text-gray-200 w-[70px] uppercase"
+                      />
+                    </div>
+
+                    <div>
+                      {renderFieldLabel('client_vat_id')}
+                      <Input 
+                        id="client_vat_id"
+                        {...lockField('client_vat_id')}
+                        value={editedQuote.client_vat_id || ''} 
+                        onChange={(e) => handleQuoteFieldChange('client_vat_id', e.target.value)}
+                        className="bg-slate-800 border-slate-700 text-gray-200 w-[160px]"
                       />
                     </div>
                     
                     <div>
-                      <label htmlFor="area" className="text-sm font-medium text-gray-400 mb-1 block">
-                        Area
-                      </label>
+                      {renderFieldLabel('area')}
                       <Select 
                         value={editedQuote.area_id?.toString() || ''} 
+                        onOpenChange={(open) => setEditingField(open ? 'area' : null)}
                         onValueChange={(value) => handleQuoteFieldChange('area_id', parseInt(value))}
                         disabled={areasLoading}
                       >
@@ -355,23 +566,136 @@ const QuoteConfigPage: React.FC = () => {
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <div>
+                      {renderFieldLabel('currency')}
+                      <Select 
+                        value={editedQuote.currency} 
+                        onOpenChange={(open) => setEditingField(open ? 'currency' : null)}
+                        onValueChange={(value) => handleQuoteFieldChange('currency', value)}
+                      >
+                        <SelectTrigger className="bg-slate-800 border-slate-700 text-gray-200 w-[100px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                          {SUPPORTED_CURRENCIES.map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      {renderFieldLabel('quote_date')}
+                      <Input 
+                        id="quote_date"
+                        {...lockField('quote_date')}
+                        type="date"
+                        value={editedQuote.quote_date} 
+                        onChange={(e) => handleQuoteFieldChange('quote_date', e.target.value)}
+                        title="Prices come from the price list in effect on this date"
+                        className="bg-slate-800 border-slate-700 text-gray-200 w-[160px]"
+                      />
+                    </div>
+
+                    <div>
+                      {renderFieldLabel('owner')}
+                      <Select 
+                        value={editedQuote.created_by_user_id} 
+                        onOpenChange={(open) => setEditingField(open ? 'owner' : null)}
+                        onValueChange={(value) => handleQuoteFieldChange('created_by_user_id', value)}
+                        disabled={membersLoading}
+                      >
+                        <SelectTrigger id="owner" className="bg-slate-800 border-slate-700 text-gray-200 w-[180px]">
+                          <SelectValue placeholder="Former member" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                          {members.map((member) => (
+                            <SelectItem key={member.user_id} value={member.user_id}>
+                              {getMemberName(member)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      {renderFieldLabel('salesperson')}
+                      <Select 
+                        value={editedQuote.assigned_to_user_id || 'none'} 
+                        onOpenChange={(open) => setEditingField(open ? 'salesperson' : null)}
+                        onValueChange={(value) => handleQuoteFieldChange('assigned_to_user_id', value === 'none' ? null : value)}
+                        disabled={membersLoading}
+                      >
+                        <SelectTrigger id="salesperson" className="bg-slate-800 border-slate-700 text-gray-200 w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700 text-gray-200">
+                          <SelectItem value="none">Unassigned</SelectItem>
+                          {members.map((member) => (
+                            <SelectItem key={member.user_id} value={member.user_id}>
+                              {getMemberName(member)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                 ) : (
                   <>
                     <h1 className="text-2xl font-bold text-gray-100">{quote?.quote_name || 'Quote Configuration'}</h1>
+
+                    <button
+                      onClick={() => setStatusOpen(true)}
+                      className={`ml-2 text-xs px-2 py-0.5 rounded ${QUOTE_STATUS_STYLES[status]} hover:opacity-80`}
+                      title="Change status"
+                    >
+                      {QUOTE_STATUS_LABELS[status]}
+                    </button>
                     
                     {quote?.client_name && (
-                      <p className="text-gray-400 ml-2">Client: {quote.client_name}</p>
+                      <p className="text-gray-400 ml-2">
+                        Client: {quote.client_name}{quote.client_country ? ` (${quote.client_country})` : ''}
+                      </p>
                     )}
                     
                     {quote?.area_name && (
                       <p className="text-gray-400 ml-2">Area: {quote.area_name}</p>
                     )}
+
+                    {quote?.currency && quote.currency !== BASE_CURRENCY && (
+                      <p className="text-gray-400 ml-2">Currency: {quote.currency}</p>
+                    )}
+
+                    {salesperson && (
+                      <p className="text-gray-400 ml-2">Salesperson: {getMemberName(salesperson)}</p>
+                    )}
                   </>
                 )}
               </div>
               
               <div className="flex items-center gap-2">
+                <QuotePresence collaborators={collaborators} fieldLabels={QUOTE_FIELD_LABELS} />
+                <Button 
+                  variant="ghost" 
+                  size="icon"
+                  onClick={() => setSaveTemplateOpen(true)}
+                  className="text-gray-400 hover:text-gray-200"
+                  title="Save as template"
+                >
+                  <LayoutTemplate className="h-5 w-5" />
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="icon"
+                  onClick={() => setRevisionsOpen(true)}
+                  className="text-gray-400 hover:text-gray-200"
+                  title="Revision history"
+                >
+                  <History className="h-5 w-5" />
+                </Button>
                 <Button 
                   variant="ghost" 
                   size="icon"
@@ -392,7 +716,7 @@ const QuoteConfigPage: React.FC = () => {
             <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
               <p className="text-red-300">{error}</p>
               <Button 
-                onClick={fetchQuote} 
+                onClick={() => fetchQuote()} 
                 variant="outline" 
                 className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50"
               >
@@ -482,6 +806,30 @@ const QuoteConfigPage: React.FC = () => {
           )}
         </div>
       </main>
+
+      <QuoteStatusModal
+        open={statusOpen}
+        onClose={() => setStatusOpen(false)}
+        status={status}
+        history={statusHistory}
+        approval={approvalContext}
+        currentUserId={user?.id}
+        onChangeStatus={changeStatus}
+      />
+
+      <SaveTemplateModal
+        open={saveTemplateOpen}
+        onClose={() => setSaveTemplateOpen(false)}
+        quoteId={quoteId}
+        defaultName={quote?.quote_name ?? ""}
+      />
+
+      <QuoteRevisionsModal
+        open={revisionsOpen}
+        onClose={() => setRevisionsOpen(false)}
+        quoteId={quoteId}
+        onBranched={handleRevisionBranched}
+      />
     </div>
   );
 };
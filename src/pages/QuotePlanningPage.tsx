@@ -24,6 +24,8 @@ import { useTrainingPlans } from "@/hooks/useTrainingPlans";
 // import { useResources } from "@/hooks/useResources";
 import { supabase } from "@/integrations/supabase/client";
 import ResourceTrainingGantt from "@/components/gantt/ResourceTrainingGantt"; // Correct path?
+import QuotePresence from "@/components/quotes/QuotePresence";
+import { useQuoteRealtime } from "@/hooks/useQuoteRealtime";
 // Switch and Label removed from here
 // import { Switch } from "@/components/ui/switch";
 // import { Label } from "@/components/ui/label";
@@ -53,19 +55,23 @@ const QuotePlanningPage: React.FC = () => {
     workOnSaturday: false,
     workOnSunday: false
   });
+  const [projectStartDate, setProjectStartDate] = useState<string | null>(null);
+  const [areaId, setAreaId] = useState<number | null>(null);
+  const [dailyHoursOverride, setDailyHoursOverride] = useState<number | null>(null);
+  const [planningVersion, setPlanningVersion] = useState(0); // Bumped when the planning changed in another view
 
   // const { resources } = useResources(); // If not used elsewhere, remove
 
   // Fetch Quote Name and Settings on load or quoteId change
-  const fetchQuoteData = useCallback(async () => {
+  const fetchQuoteData = useCallback(async (showLoading = true) => {
     if (!quoteId || !user) return;
 
-    setSettingsLoading(true);
+    if (showLoading) setSettingsLoading(true);
     setSettingsError(null);
     try {
       const { data, error: fetchError } = await supabase
         .from("quotes")
-        .select("quote_name, work_on_saturday, work_on_sunday")
+        .select("quote_name, area_id, work_on_saturday, work_on_sunday, project_start_date, daily_hours_override")
         .eq("quote_id", quoteId)
         .maybeSingle(); // Use maybeSingle to handle potential null
 
@@ -77,6 +83,9 @@ const QuotePlanningPage: React.FC = () => {
           workOnSaturday: data.work_on_saturday ?? false,
           workOnSunday: data.work_on_sunday ?? false
         });
+        setProjectStartDate(data.project_start_date ?? null);
+        setAreaId(data.area_id ?? null);
+        setDailyHoursOverride(data.daily_hours_override ?? null);
       } else {
           throw new Error("Quote not found.");
       }
@@ -86,6 +95,9 @@ const QuotePlanningPage: React.FC = () => {
       setSettingsError(err.message || "Failed to load quote data");
       setQuoteName(""); // Clear quote name on error
       setWorkOnWeekends({ workOnSaturday: false, workOnSunday: false }); // Reset weekends
+      setProjectStartDate(null);
+      setAreaId(null);
+      setDailyHoursOverride(null);
     } finally {
       setSettingsLoading(false);
     }
@@ -95,6 +107,16 @@ const QuotePlanningPage: React.FC = () => {
     fetchQuoteData();
   }, [fetchQuoteData]); // Depend on the memoized fetch function
 
+  // Live updates from colleagues: quote settings (weekends, start date, hours) and the planning itself.
+  // Selection changes arrive as quote changes, so they reload the planning too.
+  const { collaborators } = useQuoteRealtime(quoteId, {
+    onQuoteChange: () => {
+      fetchQuoteData(false);
+      setPlanningVersion(version => version + 1);
+    },
+    onPlanningChange: () => setPlanningVersion(version => version + 1)
+  });
+
   // Set default plan when plans load
   useEffect(() => {
     if (!plansLoading && plans && plans.length > 0 && selectedPlanId === null) {
@@ -145,6 +167,52 @@ const QuotePlanningPage: React.FC = () => {
     }
   }, [quoteId, workOnWeekends]); // Include workOnWeekends for previous state access
 
+  // Update Project Start Date (passed down to Gantt)
+  const handleStartDateChange = useCallback(async (date: string | null) => {
+    if (!quoteId) return;
+
+    const previousDate = projectStartDate;
+    setProjectStartDate(date); // Optimistic UI update
+
+    try {
+      const { error: updateError } = await supabase
+        .from('quotes')
+        .update({ project_start_date: date })
+        .eq('quote_id', quoteId);
+
+      if (updateError) throw updateError;
+
+      toast.success(date ? `Project start date updated` : `Project start date cleared`);
+    } catch (err) {
+      console.error("Error updating project start date:", err);
+      toast.error("Failed to update project start date");
+      setProjectStartDate(previousDate); // Rollback UI on error
+    }
+  }, [quoteId, projectStartDate]);
+
+  // Update the quote-level working hours per day (null = use each resource's own capacity)
+  const handleDailyHoursChange = useCallback(async (hours: number | null) => {
+    if (!quoteId) return;
+
+    const previousHours = dailyHoursOverride;
+    setDailyHoursOverride(hours); // Optimistic UI update
+
+    try {
+      const { error: updateError } = await supabase
+        .from('quotes')
+        .update({ daily_hours_override: hours })
+        .eq('quote_id', quoteId);
+
+      if (updateError) throw updateError;
+
+      toast.success(hours ? `Working day set to ${hours}h for all resources` : `Using each resource's working hours`);
+    } catch (err) {
+      console.error("Error updating daily hours override:", err);
+      toast.error("Failed to update working hours");
+      setDailyHoursOverride(previousHours); // Rollback UI on error
+    }
+  }, [quoteId, dailyHoursOverride]);
+
   // Sidebar Links Configuration
   const sidebarLinks = [
     // ... (keep existing sidebar links)
@@ -185,6 +253,7 @@ const QuotePlanningPage: React.FC = () => {
                   {settingsLoading ? "Loading..." : (settingsError ? "Error" : `${quoteName} - Planning`)}
                 </h1>
               </div>
+              <QuotePresence collaborators={collaborators} />
             </div>
           </div>
 
@@ -192,7 +261,7 @@ const QuotePlanningPage: React.FC = () => {
           {(settingsError || plansError) ? (
             <div className="p-4 bg-red-900/50 border border-red-700/50 rounded-lg text-center">
               <p className="text-red-300">{settingsError || plansError || "An unexpected error occurred."}</p>
-              <Button onClick={fetchQuoteData} variant="outline" className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50">
+              <Button onClick={() => fetchQuoteData()} variant="outline" className="mt-2 text-blue-300 border-blue-800 hover:bg-blue-900/50">
                 Retry Loading Data
               </Button>
             </div>
@@ -205,10 +274,16 @@ const QuotePlanningPage: React.FC = () => {
                 planId={selectedPlanId}
                 workOnSaturday={workOnWeekends.workOnSaturday}
                 workOnSunday={workOnWeekends.workOnSunday}
+                projectStartDate={projectStartDate}
+                areaId={areaId}
+                dailyHoursOverride={dailyHoursOverride}
+                refreshKey={planningVersion}
                 plans={plans || []} // Pass empty array if plans are null/undefined
                 plansLoading={plansLoading}
                 onPlanChange={setSelectedPlanId} // Pass setter function
                 onWeekendChange={handleWeekendChange} // Pass update handler
+                onStartDateChange={handleStartDateChange}
+                onDailyHoursChange={handleDailyHoursChange}
               />
 
               {/* Checkout Button */}
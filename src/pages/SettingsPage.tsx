@@ -11,10 +11,12 @@ import {
   Logo,
   LogoIcon
 } from "@/components/ui/sidebar-custom";
-import { LayoutDashboard, Settings, LogOut, UserCog, Edit, Save, GripVertical } from "lucide-react";
+import { LayoutDashboard, Settings, LogOut, UserCog, Edit, Save, GripVertical, Lock } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useUserProfile } from "@/hooks/use-user-profile";
 import { useTabOrder } from "@/hooks/useTabOrder";
+import { useOrgRole } from "@/hooks/useOrgRole";
+import { ORG_ROLE_LABELS, canEditSettingsTab, canViewSettingsTab } from "@/utils/roles";
 import { Button } from "@/components/ui/button";
 
 // Tab components
@@ -23,8 +25,16 @@ import SoftwareTypesTab from "@/components/settings/SoftwareTypesTab";
 import ResourcesTab from "@/components/settings/ResourcesTab";
 import TrainingPlansTab from "@/components/settings/TrainingPlansTab";
 import AreaCostsTab from "@/components/settings/AreaCostsTab";
+import PriceListsTab from "@/components/settings/PriceListsTab";
 import TrainingOffersTab from "@/components/settings/TrainingOffersTab";
 import TrainingTopicsTab from "@/components/settings/TrainingTopicsTab";
+import TrainingPrerequisitesTab from "@/components/settings/TrainingPrerequisitesTab";
+import ExchangeRatesTab from "@/components/settings/ExchangeRatesTab";
+import VatRulesTab from "@/components/settings/VatRulesTab";
+import ApprovalSettingsTab from "@/components/settings/ApprovalSettingsTab";
+import QuoteTemplatesTab from "@/components/settings/QuoteTemplatesTab";
+import ClientsTab from "@/components/settings/ClientsTab";
+import OrganizationTab from "@/components/settings/OrganizationTab";
 
 const initialTabs = [
   { id: "machines", label: "Machine Types", order: 0 },
@@ -33,7 +43,15 @@ const initialTabs = [
   { id: "plans", label: "Training Plans", order: 3 },
   { id: "topics", label: "Training Topics", order: 4 },
   { id: "area-costs", label: "Area Costs", order: 5 },
-  { id: "training-offers", label: "Training Offers", order: 6 },
+  { id: "price-lists", label: "Price Lists", order: 6 },
+  { id: "training-offers", label: "Training Offers", order: 7 },
+  { id: "training-order", label: "Training Order", order: 8 },
+  { id: "exchange-rates", label: "Exchange Rates", order: 9 },
+  { id: "vat-rules", label: "VAT Rules", order: 10 },
+  { id: "approvals", label: "Approvals", order: 11 },
+  { id: "quote-templates", label: "Quote Templates", order: 12 },
+  { id: "clients", label: "Clients", order: 13 },
+  { id: "organization", label: "Organization", order: 14 },
 ];
 
 const SettingsPage = () => {
@@ -43,6 +61,7 @@ const SettingsPage = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { profileData } = useUserProfile(user);
   const [isEditingTabs, setIsEditingTabs] = useState(false);
+  const { role } = useOrgRole();
   
   const { 
     tabs, 
@@ -66,22 +85,46 @@ const SettingsPage = () => {
     setIsEditingTabs(!isEditingTabs);
   };
 
+  // Tabs the user's role may not see are left out; the others are read-only unless the role may edit them
+  const visibleTabs = tabs.filter(tab => canViewSettingsTab(role, tab.id));
+  const readOnly = !canEditSettingsTab(role, activeTab);
+
   const renderTabContent = () => {
+    if (!canViewSettingsTab(role, activeTab)) {
+      return <div className="p-4">Select a tab</div>;
+    }
+
     switch (activeTab) {
       case "machines":
-        return <MachineTypesTab />;
+        return <MachineTypesTab readOnly={readOnly} />;
       case "software":
-        return <SoftwareTypesTab />;
+        return <SoftwareTypesTab readOnly={readOnly} />;
       case "resources":
-        return <ResourcesTab />;
+        return <ResourcesTab readOnly={readOnly} />;
       case "plans":
-        return <TrainingPlansTab />;
+        return <TrainingPlansTab readOnly={readOnly} />;
       case "topics":
-        return <TrainingTopicsTab />;
+        return <TrainingTopicsTab readOnly={readOnly} />;
       case "area-costs":
-        return <AreaCostsTab />;
+        return <AreaCostsTab readOnly={readOnly} />;
+      case "price-lists":
+        return <PriceListsTab readOnly={readOnly} />;
       case "training-offers":
-        return <TrainingOffersTab />;
+        return <TrainingOffersTab readOnly={readOnly} />;
+      case "training-order":
+        return <TrainingPrerequisitesTab readOnly={readOnly} />;
+      case "exchange-rates":
+        return <ExchangeRatesTab readOnly={readOnly} />;
+      case "vat-rules":
+        return <VatRulesTab readOnly={readOnly} />;
+      case "approvals":
+        return <ApprovalSettingsTab readOnly={readOnly} />;
+      case "quote-templates":
+        return <QuoteTemplatesTab readOnly={readOnly} />;
+      case "clients":
+        return <ClientsTab readOnly={readOnly} />;
+      case "organization":
+        return <OrganizationTab />;
       default:
         return <div className="p-4">Select a tab</div>;
     }
@@ -175,7 +218,7 @@ const SettingsPage = () => {
               <div className="flex items-center justify-between">
                 {isEditingTabs ? (
                   <div className="flex gap-2 flex-wrap">
-                    {tabs.map((tab, index) => (
+                    {tabs.map((tab, index) => canViewSettingsTab(role, tab.id) && (
                       <div
                         key={tab.id}
                         draggable={isEditingTabs}
@@ -194,7 +237,7 @@ const SettingsPage = () => {
                   </div>
                 ) : (
                   <Tabs 
-                    tabs={tabs} 
+                    tabs={visibleTabs} 
                     activeTab={activeTab}
                     onTabChange={(tabId) => setActiveTab(tabId)}
                   />
@@ -211,6 +254,12 @@ const SettingsPage = () => {
               </div>
             </div>
             <div className="h-full overflow-auto">
+              {role && readOnly && canViewSettingsTab(role, activeTab) && activeTab !== "organization" && (
+                <div className="mx-6 mt-4 flex items-center gap-2 text-sm text-gray-400">
+                  <Lock className="h-4 w-4" />
+                  Read-only: your role ({ORG_ROLE_LABELS[role]}) can't change these settings.
+                </div>
+              )}
               {renderTabContent()}
             </div>
           </Card>
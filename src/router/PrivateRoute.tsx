@@ -1,23 +1,47 @@
-
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from "@/hooks/useAuth";
+import { useOrgRole } from "@/hooks/useOrgRole";
+import { OrgRole } from "@/utils/roles";
 
 type PrivateRouteProps = {
   children: React.ReactNode;
+  // Organization roles allowed on the route; other users are sent to the dashboard
+  roles?: readonly OrgRole[];
 };
 
-const PrivateRoute = ({ children }: PrivateRouteProps) => {
+const Loading = () => <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+
+// Separate component so the role is only looked up for routes that require one
+const RoleGate = ({ children, roles }: { children: React.ReactNode; roles: readonly OrgRole[] }) => {
+  const { role, loading } = useOrgRole();
+
+  if (loading) {
+    return <Loading />;
+  }
+
+  if (!role || !roles.includes(role)) {
+    return <Navigate to="/home" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+const PrivateRoute = ({ children, roles }: PrivateRouteProps) => {
   const { user, isLoading } = useAuth();
-  
+
   if (isLoading) {
-    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+    return <Loading />;
   }
-  
+
   if (!user) {
     return <Navigate to="/" replace />;
   }
-  
+
+  if (roles) {
+    return <RoleGate roles={roles}>{children}</RoleGate>;
+  }
+
   return <>{children}</>;
 };
 
@@ -11,6 +11,7 @@ import QuoteConfigPage from "@/pages/QuoteConfigPage";
 import QuotePlanningPage from "@/pages/QuotePlanningPage";
 import CheckoutPage from "@/pages/CheckoutPage";
 import PrivateRoute from "./PrivateRoute";
+import { ORG_ROLES } from "@/utils/roles";
 
 const Router = () => {
   const router = createBrowserRouter([
@@ -40,7 +41,7 @@ const Router = () => {
     },
     {
       path: "/settings",
-      element: <PrivateRoute>
+      element: <PrivateRoute roles={ORG_ROLES}>
                 <SettingsPage />
                </PrivateRoute>
     },
@@ -25,7 +25,7 @@ export async function fetchPlanningDetails(
         quote_id,
         plan_id,
         resource_id,
-        resources:resource_id (name),
+        resources:resource_id (name, daily_hours),
         allocated_hours,
         machine_types_id,
         machine_types:machine_types_id (name),
@@ -63,7 +63,10 @@ export async function fetchPlanningDetails(
         resource_id: detail.resource_id,
         resource_name: resourceName,
         machine_name: itemName,
+        machine_type_id: detail.machine_types_id,
+        software_type_id: detail.software_types_id,
         training_hours: detail.allocated_hours || 0,
+        daily_hours: detail.resources?.daily_hours ?? null,
         resource_category: category as 'Machine' | 'Software'
       };
     });
@@ -0,0 +1,115 @@
+// src/utils/catalogImpact.ts
+
+import { PlanTotalsSnapshot, ResourceTotalsSnapshot } from "@/hooks/useQuoteTotals";
+import { Json } from "@/integrations/supabase/types";
+import { QuoteStatus } from "./quoteStatus";
+
+// A catalog edit whose effect on existing quotes is previewed before it is saved
+export type CatalogChange =
+  | {
+      kind: "training_offer";
+      machineTypeId: number | null;
+      softwareTypeId: number | null;
+      planId: number;
+      hoursRequired: number;
+    }
+  | { kind: "resource_rate"; resourceId: number; hourlyRate: number }
+  | {
+      kind: "area_costs";
+      areaId: number;
+      dailyAccommodationFoodCost: number;
+      dailyAllowance: number;
+      dailyPocketMoney: number;
+    };
+
+// Saved totals of one plan, as stored in quote_totals
+export interface SavedPlanTotals extends PlanTotalsSnapshot {
+  quote_id: string;
+  area_id: number | null;
+  currency: string;
+  exchange_rate: number;
+}
+
+export interface QuoteImpact {
+  quoteId: string;
+  quoteName: string;
+  status: QuoteStatus;
+  currency: string;
+  oldHours: number | null; // Hours affected by the change; null when it doesn't change hours
+  newHours: number | null;
+  oldCost: number | null; // Saved total cost over all plans; null when the quote was never priced
+  newCost: number | null;
+  plans: SavedPlanTotals[]; // Saved totals repriced with the change, written when it is applied
+}
+
+/**
+ * Saved totals of a plan with new training hours per resource, hourly rates or area rates.
+ * Rates and hours are replaced line by line, then margin, discounts and tax are applied as on checkout;
+ * a manual override price is kept. Days on site are not rescheduled, so an hours change is an estimate
+ * until the quote is priced again.
+ */
+export const repricePlanTotals = (
+  plan: SavedPlanTotals,
+  change: CatalogChange,
+  hourDeltas: Map<number, number> = new Map()
+): SavedPlanTotals => {
+  const calculatedBefore = plan.resources.reduce((total, line) => total + line.sell_price, 0);
+  // Compare in cents: a plan whose price differs from the sum of its lines was overridden
+  const isOverridden = Math.round(plan.sell_price * 100) !== Math.round(calculatedBefore * 100);
+
+  const resources = plan.resources.map((line): ResourceTotalsSnapshot => {
+    let hourlyRate = line.hourly_rate;
+    let trainingHours = line.training_hours;
+    let travelCost = line.travel_cost;
+
+    if (change.kind === "resource_rate" && line.resource_id === change.resourceId) {
+      hourlyRate = change.hourlyRate * plan.exchange_rate;
+    }
+    if (change.kind === "training_offer" && plan.plan_id === change.planId) {
+      trainingHours = Math.max(trainingHours + (hourDeltas.get(line.resource_id) ?? 0), 0);
+    }
+    if (change.kind === "area_costs" && plan.area_id === change.areaId) {
+      const dailyRate = change.dailyAccommodationFoodCost + change.dailyAllowance + change.dailyPocketMoney;
+      travelCost = dailyRate * plan.exchange_rate * line.business_trip_days;
+    }
+
+    const trainingCost = hourlyRate * trainingHours;
+    const listPrice = (trainingCost + travelCost) * (1 + plan.margin_percent / 100);
+    return {
+      ...line,
+      hourly_rate: hourlyRate,
+      training_hours: trainingHours,
+      training_days: trainingHours === line.training_hours
+        ? line.training_days
+        : Math.ceil(trainingHours / line.daily_hour_limit),
+      training_cost: trainingCost,
+      travel_cost: travelCost,
+      sell_price: listPrice * (1 - line.discount_percent / 100),
+    };
+  });
+
+  const trainingCost = resources.reduce((total, line) => total + line.training_cost, 0);
+  const travelCost = resources.reduce((total, line) => total + line.travel_cost, 0);
+  const totalCost = trainingCost + travelCost;
+  const calculatedPrice = resources.reduce((total, line) => total + line.sell_price, 0);
+  const sellPrice = isOverridden ? plan.sell_price : calculatedPrice;
+  const taxAmount = sellPrice * plan.tax_rate / 100;
+  return {
+    ...plan,
+    resources,
+    training_cost: trainingCost,
+    travel_cost: travelCost,
+    total_cost: totalCost,
+    training_days: resources.reduce((total, line) => total + line.training_days, 0),
+    discount_total: totalCost * (1 + plan.margin_percent / 100) - calculatedPrice,
+    sell_price: sellPrice,
+    tax_amount: taxAmount,
+    gross_price: sellPrice + taxAmount,
+  };
+};
+
+// Repriced totals of the previewed quotes as quote_totals rows for apply_catalog_change
+export const toQuoteTotalsRows = (impacts: QuoteImpact[]): Json =>
+  impacts.flatMap(impact =>
+    impact.plans.map(({ resources, ...plan }) => ({ ...plan, resource_breakdown: resources }))
+  ) as unknown as Json;
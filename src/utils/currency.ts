@@ -0,0 +1,31 @@
+// src/utils/currency.ts
+
+// All catalog prices (resource hourly rates, area daily costs) are maintained in the base currency
+export const BASE_CURRENCY = "EUR";
+export const SUPPORTED_CURRENCIES = ["EUR", "USD", "GBP", "CHF"];
+
+// Units of `currency` per 1 EUR, valid from effective_date (row of exchange_rates)
+export interface ExchangeRate {
+  rate_id: number;
+  currency: string;
+  rate: number;
+  effective_date: string; // ISO date (yyyy-MM-dd)
+  created_at: string;
+}
+
+/**
+ * Rate to convert base-currency amounts into `currency` on a given day:
+ * the most recent rate whose effective date is on or before `onDate`.
+ * The base currency is always 1; returns null when no rate applies yet.
+ */
+export const getExchangeRate = (
+  rates: ExchangeRate[],
+  currency: string | null | undefined,
+  onDate: string
+): number | null => {
+  if (!currency || currency === BASE_CURRENCY) return 1;
+  const applicable = rates
+    .filter(rate => rate.currency === currency && rate.effective_date <= onDate) // ISO dates compare as strings
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date));
+  return applicable[0]?.rate ?? null;
+};
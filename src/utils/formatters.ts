@@ -1,3 +1,5 @@
+import { getDateForScheduleDay } from "@/utils/scheduleTasks";
+import { BASE_CURRENCY } from "@/utils/currency";
 
 export const formatDate = (dateString: string): string => {
   if (!dateString) return "Unknown date";
@@ -12,9 +14,27 @@ export const formatDate = (dateString: string): string => {
   });
 };
 
-export const formatCurrency = (value: number): string => {
+/**
+ * Format a schedule day number as a real date when a project start date is known,
+ * falling back to the abstract "Day N" label otherwise.
+ */
+export const formatScheduleDay = (
+  dayNumber: number,
+  projectStartDate?: string | null
+): string => {
+  const date = getDateForScheduleDay(projectStartDate, dayNumber);
+  if (!date) return `Day ${dayNumber}`;
+
+  return date.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export const formatCurrency = (value: number, currency: string = BASE_CURRENCY): string => {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
-    currency: "EUR",
+    currency,
   }).format(value);
 };
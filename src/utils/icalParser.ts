@@ -0,0 +1,130 @@
+import { addDays, addYears, differenceInCalendarDays, format } from "date-fns";
+
+/**
+ * A single all-day entry extracted from an iCal (.ics) calendar
+ */
+export interface ICalHoliday {
+  date: string; // ISO date (yyyy-MM-dd)
+  name: string | null;
+}
+
+/**
+ * Result of reading an iCal calendar: the holidays found and the names of recurring events that were left out
+ * because only yearly rules ending with COUNT or UNTIL are expanded
+ */
+export interface ICalImport {
+  holidays: ICalHoliday[];
+  skippedRecurring: string[];
+}
+
+const MAX_YEARLY_OCCURRENCES = 100; // Caps a yearly rule with a very large COUNT or far UNTIL
+
+// RFC 5545: long lines are folded with CRLF followed by a space or tab
+const unfoldLines = (content: string): string[] =>
+  content.replace(/\r\n[ \t]/g, "").replace(/\n[ \t]/g, "").split(/\r?\n/);
+
+// Parses DATE (20250101) and DATE-TIME (20250101T000000Z) values, ignoring the time part
+const parseICalDate = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Start dates of the occurrences of a yearly RRULE (FREQ=YEARLY with COUNT or UNTIL and an optional INTERVAL);
+// null for any other rule. Dates missing in a year (29 February) are skipped, as RFC 5545 requires.
+const expandYearlyRule = (start: Date, rule: string): Date[] | null => {
+  const parts = new Map(
+    rule.split(";").map(part => {
+      const [key, ...rest] = part.split("=");
+      return [key.trim().toUpperCase(), rest.join("=").trim().toUpperCase()] as const;
+    })
+  );
+  if (parts.get("FREQ") !== "YEARLY") return null;
+  if (Array.from(parts.keys()).some(key => !["FREQ", "COUNT", "UNTIL", "INTERVAL", "WKST"].includes(key))) return null;
+
+  const count = parts.has("COUNT") ? parseInt(parts.get("COUNT") as string, 10) : null;
+  const until = parts.has("UNTIL") ? parseICalDate(parts.get("UNTIL") as string) : null;
+  const interval = parts.has("INTERVAL") ? parseInt(parts.get("INTERVAL") as string, 10) : 1;
+  if ((count === null || isNaN(count)) && !until) return null;
+  if (isNaN(interval) || interval < 1) return null;
+
+  const occurrences: Date[] = [];
+  for (let index = 0; occurrences.length < MAX_YEARLY_OCCURRENCES; index++) {
+    const occurrence = addYears(start, index * interval);
+    if (until && occurrence > until) break;
+    if (count !== null && occurrences.length >= count) break;
+    // addYears moves 29 February to the 28th; such years have no occurrence
+    if (occurrence.getDate() === start.getDate()) occurrences.push(occurrence);
+  }
+  return occurrences;
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+
+/**
+ * Extract holidays from the VEVENTs of an iCal document.
+ * Multi-day events are expanded to one entry per day (DTEND is exclusive for all-day events).
+ * Yearly recurring events are expanded per occurrence, minus their EXDATEs; other recurring events are skipped.
+ */
+export const parseICalHolidays = (content: string): ICalImport => {
+  const holidays = new Map<string, ICalHoliday>();
+  const skippedRecurring: string[] = [];
+  let inEvent = false;
+  let start: Date | null = null;
+  let end: Date | null = null;
+  let summary: string | null = null;
+  let rule: string | null = null;
+  let excludedDates = new Set<string>();
+
+  for (const line of unfoldLines(content)) {
+    const separatorIndex = line.indexOf(":");
+    if (separatorIndex === -1) continue;
+    const property = line.substring(0, separatorIndex).split(";")[0].toUpperCase();
+    const value = line.substring(separatorIndex + 1);
+
+    if (property === "BEGIN" && value.trim().toUpperCase() === "VEVENT") {
+      inEvent = true;
+      start = null;
+      end = null;
+      summary = null;
+      rule = null;
+      excludedDates = new Set<string>();
+    } else if (property === "END" && value.trim().toUpperCase() === "VEVENT") {
+      if (inEvent && start) {
+        const occurrences = rule ? expandYearlyRule(start, rule) : [start];
+        if (!occurrences) {
+          skippedRecurring.push(summary ?? format(start, "yyyy-MM-dd"));
+        } else {
+          const extraDays = end && end > start ? differenceInCalendarDays(end, start) - 1 : 0;
+          for (const occurrence of occurrences) {
+            if (excludedDates.has(format(occurrence, "yyyy-MM-dd"))) continue;
+            for (let day = occurrence; day <= addDays(occurrence, extraDays); day = addDays(day, 1)) {
+              const isoDate = format(day, "yyyy-MM-dd");
+              if (!holidays.has(isoDate)) holidays.set(isoDate, { date: isoDate, name: summary });
+            }
+          }
+        }
+      }
+      inEvent = false;
+    } else if (inEvent && property === "DTSTART") {
+      start = parseICalDate(value);
+    } else if (inEvent && property === "DTEND") {
+      end = parseICalDate(value);
+    } else if (inEvent && property === "SUMMARY") {
+      summary = unescapeText(value) || null;
+    } else if (inEvent && property === "RRULE") {
+      rule = value.trim();
+    } else if (inEvent && property === "EXDATE") {
+      value.split(",").map(parseICalDate).forEach(date => {
+        if (date) excludedDates.add(format(date, "yyyy-MM-dd"));
+      });
+    }
+  }
+
+  return {
+    holidays: Array.from(holidays.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    skippedRecurring,
+  };
+};
@@ -3,25 +3,46 @@ import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { ScheduledTaskSegment } from './types';
 import { supabase } from "@/integrations/supabase/client";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
+import { formatCurrency } from "./formatters";
+import { BASE_CURRENCY } from "./currency";
+import { REVERSE_CHARGE_NOTE } from "./tax";
 
 // Common interface for plan cost data
 export interface PlanCostData {
   planId: number;
   planName: string;
   trainingDays: number;
-  totalCost: number;
+  totalCost: number; // Net sell price
+  taxRate: number; // Percent
+  taxAmount: number;
+  grossPrice: number;
+  reverseCharge: boolean;
+  startDate?: string; // ISO date of the first (travel) day, set when the quote has a project start date
+  endDate?: string; // ISO date of the last (travel) day
 }
 
+// Who the quote is addressed to, taken from the linked client record when there is one
+export interface QuoteRecipient {
+  name?: string;
+  addressLines: string[]; // Billing address, one entry per line
+  contactName?: string;
+  vatId?: string | null;
+}
+
+const formatPeriodDate = (isoDate: string): string =>
+  format(parseISO(isoDate), 'MMM d, yyyy');
+
 /**
  * Generate a PDF quote document based on the checkout data
  */
 export const generateQuotePDF = async (
   quoteId: string,
   userName: string | undefined,
-  clientName: string | undefined,
+  recipient: QuoteRecipient,
   planCosts: PlanCostData[],
-  logoUrl: string = '/placeholder.svg'
+  logoUrl: string = '/placeholder.svg',
+  currency: string = BASE_CURRENCY // Currency the plan costs are expressed in
 ): Promise<boolean> => {
   // Try to get the logo from Supabase storage
   let logoSrc = logoUrl;
@@ -127,6 +148,11 @@ export const generateQuotePDF = async (
                 color: #555;
             }
 
+            .quote-details .recipient-address {
+                margin-top: 0;
+                line-height: 1.4;
+            }
+
             .quote-details strong {
                 display: inline-block;
                 min-width: 90px;
@@ -204,6 +230,13 @@ export const generateQuotePDF = async (
                 z-index: 1;
             }
 
+            .period {
+                font-size: 0.85em;
+                font-weight: 600;
+                padding: 0 20px 10px 20px;
+                z-index: 1;
+            }
+
             .price {
                 font-weight: 700;
                 padding: 15px 20px 15px 20px;
@@ -215,6 +248,17 @@ export const generateQuotePDF = async (
                 z-index: 1;
             }
 
+            .price-line {
+                display: flex;
+                justify-content: space-between;
+                font-size: 0.65em;
+                font-weight: 500;
+            }
+
+            .price-gross {
+                margin-top: 4px;
+            }
+
             /* Footer */
             .quote-footer {
                 margin-top: 40px;
@@ -292,7 +336,10 @@ export const generateQuotePDF = async (
                     </div>
                     <div class="quote-details">
                         <h2>Training Quote</h2>
-                        <p><strong>Quote To:</strong> ${clientName || 'Customer'}</p>
+                        <p><strong>Quote To:</strong> ${recipient.name || 'Customer'}</p>
+                        ${recipient.addressLines.length > 0 ? `<p class="recipient-address">${recipient.addressLines.join('<br>')}</p>` : ''}
+                        ${recipient.contactName ? `<p><strong>Attn:</strong> ${recipient.contactName}</p>` : ''}
+                        ${recipient.vatId ? `<p><strong>VAT ID:</strong> ${recipient.vatId}</p>` : ''}
                         <p><strong>Quote Date:</strong> ${currentDate}</p>
                         <p><strong>Prepared By:</strong> ${userName || 'Training Specialist'}</p>
                     </div>
@@ -312,8 +359,11 @@ export const generateQuotePDF = async (
                                 </div>
                                 <div class="card-name" style="color: ${colorScheme.accent};">${plan.planName}</div>
                                 <div class="body-text" style="color: ${colorScheme.text};">${colorScheme.description}</div>
+                                ${plan.startDate && plan.endDate ? `<div class="period" style="color: ${colorScheme.text};">${formatPeriodDate(plan.startDate)} – ${formatPeriodDate(plan.endDate)}</div>` : ''}
                                 <div class="price" style="color: ${colorScheme.accent}; border-top-color: ${colorScheme.border};"> 
-                                    €${plan.totalCost.toFixed(2)}
+                                    <div class="price-line"><span>Net</span><span>${formatCurrency(plan.totalCost, currency)}</span></div>
+                                    <div class="price-line"><span>${plan.reverseCharge ? 'VAT (reverse charge)' : `VAT ${plan.taxRate}%`}</span><span>${formatCurrency(plan.taxAmount, currency)}</span></div>
+                                    <div class="price-gross">${formatCurrency(plan.grossPrice, currency)}</div>
                                 </div>
                             </div>
                           `;
@@ -322,6 +372,7 @@ export const generateQuotePDF = async (
                 </main>
 
                 <footer class="quote-footer">
+                    ${planCosts.some(plan => plan.reverseCharge) ? `<p>${REVERSE_CHARGE_NOTE}</p>` : ''}
                     <p>Thank you for considering our training programs!</p>
                     <p>Quote ID: ${quoteId}</p>
                 </footer>
@@ -369,7 +420,7 @@ export const generateQuotePDF = async (
     
     // Format the PDF filename as requested
     const shortenedQuoteId = quoteId.substring(0, 8);
-    const customerName = clientName?.replace(/\s+/g, '_') || 'Customer';
+    const customerName = recipient.name?.replace(/\s+/g, '_') || 'Customer';
     const filename = `${customerName}_${fileDate}_${shortenedQuoteId}.pdf`;
     
     // Save the PDF with the formatted name
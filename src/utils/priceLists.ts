@@ -0,0 +1,56 @@
+// src/utils/priceLists.ts
+
+import { PricingArea, PricingResource } from "./pricing";
+
+// Prices of one resource and one area in a price list (base currency, like the catalog values)
+export interface PriceListResourceRate {
+  resource_id: number;
+  hourly_rate: number;
+}
+
+export interface PriceListAreaCost extends PricingArea {
+  area_id: number;
+}
+
+// Row of price_lists with its entries
+export interface PriceList {
+  price_list_id: number;
+  name: string;
+  valid_from: string; // ISO date (yyyy-MM-dd)
+  valid_to: string | null; // Inclusive; null while the list is open-ended
+  created_at: string;
+  resource_rates: PriceListResourceRate[];
+  area_costs: PriceListAreaCost[];
+}
+
+export const isPriceListEffective = (list: Pick<PriceList, "valid_from" | "valid_to">, onDate: string): boolean =>
+  list.valid_from <= onDate && (list.valid_to === null || list.valid_to >= onDate); // ISO dates compare as strings
+
+// The list covering `onDate`; null when no list does and the catalog values apply
+export const getEffectivePriceList = (lists: PriceList[], onDate: string): PriceList | null =>
+  lists.find(list => isPriceListEffective(list, onDate)) ?? null;
+
+// Resources with the hourly rates of the list; resources it has no entry for keep their catalog rate
+export const applyPriceListToResources = <R extends PricingResource>(resources: R[], list: PriceList | null): R[] => {
+  if (!list) return resources;
+  return resources.map(resource => {
+    const entry = list.resource_rates.find(rate => rate.resource_id === resource.resource_id);
+    return entry ? { ...resource, hourly_rate: entry.hourly_rate } : resource;
+  });
+};
+
+// Areas with the daily costs of the list; areas it has no entry for keep their catalog costs
+export const applyPriceListToAreas = <A extends PricingArea & { area_id: number }>(areas: A[], list: PriceList | null): A[] => {
+  if (!list) return areas;
+  return areas.map(area => {
+    const entry = list.area_costs.find(cost => cost.area_id === area.area_id);
+    return entry
+      ? {
+          ...area,
+          daily_accommodation_food_cost: entry.daily_accommodation_food_cost,
+          daily_allowance: entry.daily_allowance,
+          daily_pocket_money: entry.daily_pocket_money,
+        }
+      : area;
+  });
+};
@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import { ScheduledTaskSegment } from "./types";
+import {
+  FLOOR_MARGIN_PERCENT,
+  PlanCostBreakdown,
+  calculatePlanCosts,
+  calculateSellPrice,
+  calculateTripCosts,
+  getFloorPrice,
+} from "./pricing";
+import { ExchangeRate, getExchangeRate } from "./currency";
+import { VatRule, applyTax, resolveTaxTreatment } from "./tax";
+
+const segment = (overrides: Partial<ScheduledTaskSegment>): ScheduledTaskSegment => ({
+  id: "segment",
+  resource_id: 1,
+  resource_name: "Technician",
+  machine_name: "Machine",
+  segment_hours: 8,
+  total_training_hours: 8,
+  start_day: 1,
+  duration_days: 1,
+  start_hour_offset: 0,
+  daily_hour_limit: 8,
+  ...overrides,
+});
+
+const resources = [
+  { resource_id: 1, hourly_rate: 50, icon_name: "wrench" },
+  { resource_id: 2, hourly_rate: 80 },
+];
+
+const area = { daily_accommodation_food_cost: 100, daily_allowance: 30, daily_pocket_money: 10 };
+
+describe("calculateTripCosts", () => {
+  it("multiplies the daily area rates by the days on site", () => {
+    expect(calculateTripCosts(area, 3)).toEqual({ accommodationFood: 300, allowance: 90, pocketMoney: 30, total: 420 });
+  });
+
+  it("has no travel costs without an area", () => {
+    expect(calculateTripCosts(null, 5).total).toBe(0);
+  });
+
+  it("converts area rates with the exchange rate", () => {
+    expect(calculateTripCosts(area, 1, 1.5).total).toBeCloseTo(210);
+  });
+});
+
+describe("calculatePlanCosts", () => {
+  it("bills training hours and the trip including one travel day on each side", () => {
+    const costs = calculatePlanCosts(
+      [segment({ segment_hours: 16, start_day: 1, duration_days: 2 })],
+      resources,
+      area
+    );
+
+    expect(costs.resources).toHaveLength(1);
+    const [line] = costs.resources;
+    expect(line.trainingCost).toBe(800);
+    expect(line.tripStart).toBe(0);
+    expect(line.tripEnd).toBe(3);
+    expect(line.businessTripDays).toBe(4);
+    expect(line.trainingDaysCount).toBe(2);
+    expect(line.resourceIcon).toBe("wrench");
+    expect(line.tripCosts.total).toBe(560);
+    expect(costs.trainingTotal).toBe(800);
+    expect(costs.businessTripTotal).toBe(560);
+    expect(costs.grandTotal).toBe(1360);
+  });
+
+  it("merges segments of the same resource into one trip spanning all of them", () => {
+    const costs = calculatePlanCosts(
+      [
+        segment({ id: "a", segment_hours: 8, start_day: 1, duration_days: 1 }),
+        segment({ id: "b", segment_hours: 4, start_day: 4, duration_days: 1 }),
+        segment({ id: "c", resource_id: 2, resource_name: "Engineer", segment_hours: 8, start_day: 2 }),
+      ],
+      resources,
+      null
+    );
+
+    expect(costs.resources.map(line => line.resourceId)).toEqual([1, 2]);
+    expect(costs.resources[0].totalHours).toBe(12);
+    expect(costs.resources[0].businessTripDays).toBe(6); // Days 0 to 5
+    expect(costs.resources[0].trainingDaysCount).toBe(2);
+    expect(costs.trainingTotal).toBe(12 * 50 + 8 * 80);
+    expect(costs.businessTripTotal).toBe(0);
+    expect(costs.tripStart).toBe(0);
+    expect(costs.tripEnd).toBe(5);
+  });
+
+  it("counts public holidays inside the trip", () => {
+    const costs = calculatePlanCosts([segment({ start_day: 1, duration_days: 3 })], resources, area, {
+      projectStartDate: "2025-05-01",
+      holidays: ["2025-05-01", "2025-06-01"],
+    });
+
+    expect(costs.resources[0].holidaysOnSite).toBe(1);
+  });
+
+  it("converts hourly rates into the quote currency", () => {
+    const costs = calculatePlanCosts([segment({ segment_hours: 10 })], resources, area, { exchangeRate: 1.1 });
+
+    expect(costs.resources[0].hourlyRate).toBeCloseTo(55);
+    expect(costs.trainingTotal).toBeCloseTo(550);
+    expect(costs.businessTripTotal).toBeCloseTo(3 * 140 * 1.1);
+  });
+
+  it("bills nothing for resources missing from the catalog and returns empty totals without segments", () => {
+    expect(calculatePlanCosts([segment({ resource_id: 99 })], resources, null).trainingTotal).toBe(0);
+
+    const empty = calculatePlanCosts([], resources, area);
+    expect(empty.grandTotal).toBe(0);
+    expect(empty.tripStart).toBeNull();
+    expect(empty.tripEnd).toBeNull();
+  });
+});
+
+describe("calculateSellPrice", () => {
+  const costs: PlanCostBreakdown = calculatePlanCosts(
+    [
+      segment({ segment_hours: 10 }),
+      segment({ id: "b", resource_id: 2, resource_name: "Engineer", segment_hours: 5 }),
+    ],
+    resources,
+    null
+  ); // Lines cost 500 and 400
+
+  it("marks every line up by the margin", () => {
+    const price = calculateSellPrice(costs, { marginPercent: 20 });
+
+    expect(price.lines.map(line => line.listPrice)).toEqual([600, 480]);
+    expect(price.costTotal).toBe(900);
+    expect(price.marginAmount).toBeCloseTo(180);
+    expect(price.sellPrice).toBeCloseTo(1080);
+    expect(price.isOverridden).toBe(false);
+    expect(price.belowFloor).toBe(false);
+  });
+
+  it("applies line discounts, clamped to 0-100%", () => {
+    const price = calculateSellPrice(costs, { marginPercent: 20, lineDiscounts: { 1: 10, 2: 150 } });
+
+    expect(price.lines[0].discountAmount).toBeCloseTo(60);
+    expect(price.lines[1].discountPercent).toBe(100);
+    expect(price.lines[1].sellPrice).toBe(0);
+    expect(price.discountTotal).toBeCloseTo(540);
+    expect(price.calculatedPrice).toBeCloseTo(540);
+  });
+
+  it("uses the override price but keeps the calculated price", () => {
+    const price = calculateSellPrice(costs, { marginPercent: 20, overridePrice: 1000 });
+
+    expect(price.isOverridden).toBe(true);
+    expect(price.sellPrice).toBe(1000);
+    expect(price.calculatedPrice).toBeCloseTo(1080);
+  });
+
+  it("treats a null override as no override", () => {
+    expect(calculateSellPrice(costs, { marginPercent: 0, overridePrice: null }).isOverridden).toBe(false);
+  });
+});
+
+describe("floor price", () => {
+  const costs = calculatePlanCosts([segment({ segment_hours: 10 })], resources, null); // Cost 500
+
+  it("is the cost plus the floor margin", () => {
+    expect(getFloorPrice(500)).toBe(500 * (1 + FLOOR_MARGIN_PERCENT / 100));
+  });
+
+  it("flags prices below the floor, discounts and overrides alike", () => {
+    expect(calculateSellPrice(costs, { marginPercent: 10, lineDiscounts: { 1: 20 } }).belowFloor).toBe(true);
+    expect(calculateSellPrice(costs, { marginPercent: 0, overridePrice: 499.99 }).belowFloor).toBe(true);
+  });
+
+  it("accepts a price exactly on the floor despite rounding noise", () => {
+    const price = calculateSellPrice(costs, { marginPercent: 0, overridePrice: 499.9999999 });
+    expect(price.belowFloor).toBe(false);
+  });
+});
+
+describe("getExchangeRate", () => {
+  const rates: ExchangeRate[] = [
+    { rate_id: 1, currency: "USD", rate: 1.05, effective_date: "2025-01-01", created_at: "" },
+    { rate_id: 2, currency: "USD", rate: 1.1, effective_date: "2025-06-01", created_at: "" },
+    { rate_id: 3, currency: "GBP", rate: 0.85, effective_date: "2025-01-01", created_at: "" },
+  ];
+
+  it("is 1 for the base currency or no currency", () => {
+    expect(getExchangeRate(rates, "EUR", "2025-03-01")).toBe(1);
+    expect(getExchangeRate(rates, null, "2025-03-01")).toBe(1);
+  });
+
+  it("uses the latest rate effective on the date", () => {
+    expect(getExchangeRate(rates, "USD", "2025-05-31")).toBe(1.05);
+    expect(getExchangeRate(rates, "USD", "2025-06-01")).toBe(1.1);
+    expect(getExchangeRate(rates, "GBP", "2025-12-31")).toBe(0.85);
+  });
+
+  it("is null before the first rate or for a currency without rates", () => {
+    expect(getExchangeRate(rates, "USD", "2024-12-31")).toBeNull();
+    expect(getExchangeRate(rates, "CHF", "2025-03-01")).toBeNull();
+  });
+});
+
+describe("VAT", () => {
+  const rules: VatRule[] = [
+    { vat_rule_id: 1, country_code: "DE", vat_rate: 19, reverse_charge: false, description: null, created_at: "" },
+    { vat_rule_id: 2, country_code: "FR", vat_rate: 20, reverse_charge: true, description: null, created_at: "" },
+  ];
+
+  it("uses the rule of the client's country over the area rate", () => {
+    const treatment = resolveTaxTreatment({ clientCountry: "de", areaVatRate: 22 }, rules);
+    expect(treatment).toMatchObject({ rate: 19, source: "country", reverseCharge: false, label: "VAT 19%" });
+  });
+
+  it("applies reverse charge only for clients with a VAT id", () => {
+    expect(resolveTaxTreatment({ clientCountry: "FR", clientVatId: "FR123" }, rules)).toMatchObject({ rate: 0, reverseCharge: true });
+    expect(resolveTaxTreatment({ clientCountry: "FR", clientVatId: "  " }, rules)).toMatchObject({ rate: 20, reverseCharge: false });
+  });
+
+  it("falls back to the area rate, then to no VAT", () => {
+    expect(resolveTaxTreatment({ clientCountry: "IT", areaVatRate: 22 }, rules)).toMatchObject({ rate: 22, source: "area" });
+    expect(resolveTaxTreatment({}, rules)).toMatchObject({ rate: 0, source: "none" });
+  });
+
+  it("adds the tax to the net amount", () => {
+    const treatment = resolveTaxTreatment({ clientCountry: "DE" }, rules);
+    expect(applyTax(1000, treatment)).toEqual({ net: 1000, taxRate: 19, tax: 190, gross: 1190 });
+  });
+
+  it("prices a plan in the quote currency with VAT on the sell price", () => {
+    const costs = calculatePlanCosts([segment({ segment_hours: 10 })], resources, null, { exchangeRate: 1.1 });
+    const price = calculateSellPrice(costs, { marginPercent: 10 });
+    const taxed = applyTax(price.sellPrice, resolveTaxTreatment({ clientCountry: "DE" }, rules));
+
+    expect(price.sellPrice).toBeCloseTo(605);
+    expect(taxed.gross).toBeCloseTo(719.95);
+  });
+});
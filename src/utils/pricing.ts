@@ -0,0 +1,235 @@
+// src/utils/pricing.ts
+
+import { ScheduledTaskSegment } from "./types";
+import { DEFAULT_DAILY_HOURS, isDayHoliday } from "./scheduleTasks";
+
+// --- Inputs (structural, so rows from useResources / useAreaCosts can be passed directly) ---
+export interface PricingResource {
+  resource_id: number;
+  hourly_rate: number;
+  icon_name?: string | null;
+}
+
+export interface PricingArea {
+  daily_accommodation_food_cost: number;
+  daily_allowance: number;
+  daily_pocket_money: number;
+}
+
+export interface PricingOptions {
+  projectStartDate?: string | null; // Needed to recognise public holidays inside a trip
+  holidays?: string[]; // ISO dates of public holidays in the quote's area
+  exchangeRate?: number; // Units of the quote currency per base-currency unit (defaults to 1)
+}
+
+// --- Outputs ---
+export interface TripCostBreakdown {
+  accommodationFood: number;
+  allowance: number;
+  pocketMoney: number;
+  total: number;
+}
+
+export interface ResourceCostBreakdown {
+  resourceId: number;
+  resourceName: string;
+  resourceIcon: string | null;
+  hourlyRate: number;
+  dailyHourLimit: number;
+  totalHours: number;
+  trainingDaysCount: number; // Training hours expressed in the resource's working days
+  tripStart: number; // Schedule day of the outbound travel day
+  tripEnd: number; // Schedule day of the return travel day
+  businessTripDays: number; // Days on site incl. travel, weekends and holidays in between
+  holidaysOnSite: number;
+  trainingCost: number;
+  tripCosts: TripCostBreakdown;
+}
+
+export interface PlanCostBreakdown {
+  resources: ResourceCostBreakdown[];
+  trainingTotal: number;
+  businessTripTotal: number;
+  grandTotal: number;
+  trainingDays: number; // Sum over resources
+  businessTripDays: number; // Sum over resources (person-days on site)
+  tripStart: number | null; // Earliest travel day of any resource, null without resources
+  tripEnd: number | null;
+}
+
+/**
+ * Daily travel costs for a number of days on site. Without an area there are no travel costs.
+ * Area rates are in the base currency; `exchangeRate` converts them into the quote currency.
+ */
+export const calculateTripCosts = (
+  area: PricingArea | null | undefined,
+  businessTripDays: number,
+  exchangeRate = 1
+): TripCostBreakdown => {
+  const accommodationFood = area ? area.daily_accommodation_food_cost * exchangeRate * businessTripDays : 0;
+  const allowance = area ? area.daily_allowance * exchangeRate * businessTripDays : 0;
+  const pocketMoney = area ? area.daily_pocket_money * exchangeRate * businessTripDays : 0;
+  return { accommodationFood, allowance, pocketMoney, total: accommodationFood + allowance + pocketMoney };
+};
+
+/**
+ * Itemised costs of a scheduled plan.
+ * Each resource is billed its hourly rate for its training hours, and its trip (one travel day before
+ * the first and after the last scheduled day, everything in between counts) at the area's daily rates.
+ * All amounts are returned in the quote currency (catalog prices multiplied by `options.exchangeRate`).
+ * Pure: no React, no Supabase, so it can be reused by the checkout page, the PDF and reports alike.
+ */
+export const calculatePlanCosts = (
+  segments: ScheduledTaskSegment[],
+  resources: PricingResource[],
+  area: PricingArea | null | undefined,
+  options: PricingOptions = {}
+): PlanCostBreakdown => {
+  const projectStartDate = options.projectStartDate ?? null;
+  const holidaySet = new Set(options.holidays ?? []);
+  const exchangeRate = options.exchangeRate ?? 1;
+
+  // Collect hours and the scheduled span per resource (in order of first appearance)
+  const spans = new Map<number, { resourceName: string; dailyHourLimit: number; totalHours: number; firstDay: number; lastDay: number }>();
+  segments.forEach(segment => {
+    const startDay = segment.start_day;
+    const endDay = segment.start_day + segment.duration_days - 1;
+    const span = spans.get(segment.resource_id);
+    if (!span) {
+      spans.set(segment.resource_id, {
+        resourceName: segment.resource_name,
+        dailyHourLimit: segment.daily_hour_limit || DEFAULT_DAILY_HOURS,
+        totalHours: segment.segment_hours,
+        firstDay: startDay,
+        lastDay: endDay,
+      });
+      return;
+    }
+    span.totalHours += segment.segment_hours;
+    span.firstDay = Math.min(span.firstDay, startDay);
+    span.lastDay = Math.max(span.lastDay, endDay);
+  });
+
+  const resourceCosts = Array.from(spans.entries()).map(([resourceId, span]): ResourceCostBreakdown => {
+    const resource = resources.find(r => r.resource_id === resourceId);
+    const hourlyRate = (resource?.hourly_rate || 0) * exchangeRate;
+    const tripStart = span.firstDay - 1;
+    const tripEnd = span.lastDay + 1;
+    const businessTripDays = tripEnd - tripStart + 1;
+    // Public holidays inside the trip are extra days on site (already part of businessTripDays)
+    let holidaysOnSite = 0;
+    for (let day = tripStart; day <= tripEnd; day++) {
+      if (isDayHoliday(day, projectStartDate, holidaySet)) holidaysOnSite++;
+    }
+    return {
+      resourceId,
+      resourceName: span.resourceName,
+      resourceIcon: resource?.icon_name || null,
+      hourlyRate,
+      dailyHourLimit: span.dailyHourLimit,
+      totalHours: span.totalHours,
+      trainingDaysCount: Math.ceil(span.totalHours / span.dailyHourLimit),
+      tripStart,
+      tripEnd,
+      businessTripDays,
+      holidaysOnSite,
+      trainingCost: hourlyRate * span.totalHours,
+      tripCosts: calculateTripCosts(area, businessTripDays, exchangeRate),
+    };
+  });
+
+  const trainingTotal = resourceCosts.reduce((total, resource) => total + resource.trainingCost, 0);
+  const businessTripTotal = resourceCosts.reduce((total, resource) => total + resource.tripCosts.total, 0);
+  return {
+    resources: resourceCosts,
+    trainingTotal,
+    businessTripTotal,
+    grandTotal: trainingTotal + businessTripTotal,
+    trainingDays: resourceCosts.reduce((total, resource) => total + resource.trainingDaysCount, 0),
+    businessTripDays: resourceCosts.reduce((total, resource) => total + resource.businessTripDays, 0),
+    tripStart: resourceCosts.length > 0 ? Math.min(...resourceCosts.map(resource => resource.tripStart)) : null,
+    tripEnd: resourceCosts.length > 0 ? Math.max(...resourceCosts.map(resource => resource.tripEnd)) : null,
+  };
+};
+
+// --- Sell price (margin, discounts, override) ---
+
+// Lowest acceptable margin on cost: a plan may not be sold below cost
+export const FLOOR_MARGIN_PERCENT = 0;
+
+export interface PlanPricingAdjustments {
+  marginPercent: number; // Markup on cost applied to every line
+  lineDiscounts?: Record<number, number>; // Discount percent per resource line, keyed by resource id
+  overridePrice?: number | null; // Manual sell price replacing the calculated one
+}
+
+export interface SellLineItem {
+  resourceId: number;
+  resourceName: string;
+  cost: number; // Training + travel cost of the resource
+  listPrice: number; // Cost plus margin
+  discountPercent: number;
+  discountAmount: number;
+  sellPrice: number;
+}
+
+export interface PlanSellPrice {
+  lines: SellLineItem[];
+  costTotal: number;
+  marginPercent: number;
+  marginAmount: number;
+  listTotal: number;
+  discountTotal: number;
+  calculatedPrice: number; // List total minus line discounts
+  sellPrice: number; // Override price when set, otherwise the calculated price
+  isOverridden: boolean;
+  floorPrice: number;
+  belowFloor: boolean;
+}
+
+export const getFloorPrice = (costTotal: number): number => costTotal * (1 + FLOOR_MARGIN_PERCENT / 100);
+
+/**
+ * Sell price of a plan from its cost breakdown: every resource line is marked up by the plan margin,
+ * then reduced by its own discount. A manual override replaces the result but is still checked against the floor.
+ */
+export const calculateSellPrice = (costs: PlanCostBreakdown, adjustments: PlanPricingAdjustments): PlanSellPrice => {
+  const marginPercent = adjustments.marginPercent || 0;
+  const lines = costs.resources.map((resource): SellLineItem => {
+    const cost = resource.trainingCost + resource.tripCosts.total;
+    const listPrice = cost * (1 + marginPercent / 100);
+    const discountPercent = Math.min(Math.max(adjustments.lineDiscounts?.[resource.resourceId] ?? 0, 0), 100);
+    const discountAmount = listPrice * discountPercent / 100;
+    return {
+      resourceId: resource.resourceId,
+      resourceName: resource.resourceName,
+      cost,
+      listPrice,
+      discountPercent,
+      discountAmount,
+      sellPrice: listPrice - discountAmount,
+    };
+  });
+
+  const costTotal = costs.grandTotal;
+  const listTotal = lines.reduce((total, line) => total + line.listPrice, 0);
+  const discountTotal = lines.reduce((total, line) => total + line.discountAmount, 0);
+  const calculatedPrice = listTotal - discountTotal;
+  const isOverridden = adjustments.overridePrice !== null && adjustments.overridePrice !== undefined;
+  const sellPrice = isOverridden ? adjustments.overridePrice as number : calculatedPrice;
+  const floorPrice = getFloorPrice(costTotal);
+  return {
+    lines,
+    costTotal,
+    marginPercent,
+    marginAmount: listTotal - costTotal,
+    listTotal,
+    discountTotal,
+    calculatedPrice,
+    sellPrice,
+    isOverridden,
+    floorPrice,
+    // Compare in cents so rounding noise doesn't flag a price sitting exactly on the floor
+    belowFloor: Math.round(sellPrice * 100) < Math.round(floorPrice * 100),
+  };
+};
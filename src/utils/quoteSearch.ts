@@ -0,0 +1,108 @@
+// src/utils/quoteSearch.ts
+import { QUOTE_STATUSES, QuoteStatus } from "./quoteStatus";
+
+export const QUOTE_PAGE_SIZE = 24;
+
+export const QUOTE_SORTS = ["created_desc", "created_asc", "name_asc", "name_desc"] as const;
+
+export type QuoteSort = typeof QUOTE_SORTS[number];
+
+export const QUOTE_SORT_LABELS: Record<QuoteSort, string> = {
+  created_desc: "Newest first",
+  created_asc: "Oldest first",
+  name_asc: "Name A–Z",
+  name_desc: "Name Z–A",
+};
+
+export type QuoteGrouping = "none" | "status" | "client";
+
+// Quotes are shared across the organization; the scope narrows the list to the user's own
+export const QUOTE_SCOPES = ["all", "mine", "assigned"] as const;
+
+export type QuoteScope = typeof QUOTE_SCOPES[number];
+
+export const QUOTE_SCOPE_LABELS: Record<QuoteScope, string> = {
+  all: "All quotes",
+  mine: "Owned by me",
+  assigned: "Assigned to me",
+};
+
+export interface QuoteFilters {
+  search: string; // Matches quote name, client name, machine name or area name
+  status: QuoteStatus | "all";
+  sort: QuoteSort;
+  groupBy: QuoteGrouping;
+  scope: QuoteScope;
+}
+
+export const DEFAULT_QUOTE_FILTERS: QuoteFilters = {
+  search: "",
+  status: "all",
+  sort: "created_desc",
+  groupBy: "none",
+  scope: "all",
+};
+
+// Column and direction of each sort; quote_id breaks ties so the cursor is unique
+export const getSortColumn = (sort: QuoteSort): { column: "created_at" | "quote_name"; ascending: boolean } => ({
+  column: sort.startsWith("created") ? "created_at" : "quote_name",
+  ascending: sort === "created_asc" || sort === "name_asc",
+});
+
+// Position after the last loaded quote: its value in the sort column plus its id
+export interface QuoteCursor {
+  value: string;
+  quoteId: string;
+}
+
+/**
+ * Wraps a value for a PostgREST logic filter (or=...). Quoting keeps commas, dots,
+ * colons and parentheses in names and timestamps from being read as filter syntax.
+ */
+export const quoteFilterValue = (value: string): string =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// Keyset condition for the page after `cursor`, as an or= filter
+export const buildCursorFilter = (sort: QuoteSort, cursor: QuoteCursor): string => {
+  const { column, ascending } = getSortColumn(sort);
+  const op = ascending ? "gt" : "lt";
+  const value = quoteFilterValue(cursor.value);
+  return `${column}.${op}.${value},and(${column}.eq.${value},quote_id.${op}.${quoteFilterValue(cursor.quoteId)})`;
+};
+
+/**
+ * Text search across the quote's own columns plus the machines and areas whose names match
+ * (their ids are looked up first, since PostgREST can't filter on names inside an id array).
+ */
+export const buildSearchFilter = (search: string, areaIds: number[], machineTypeIds: number[]): string => {
+  const pattern = quoteFilterValue(`%${search}%`);
+  const conditions = [`quote_name.ilike.${pattern}`, `client_name.ilike.${pattern}`];
+  if (areaIds.length > 0) conditions.push(`area_id.in.(${areaIds.join(",")})`);
+  if (machineTypeIds.length > 0) conditions.push(`machine_type_ids.ov.{${machineTypeIds.join(",")}}`);
+  return conditions.join(",");
+};
+
+// Filters <-> URL query string (?q=&status=&sort=&group=&scope=); defaults are left out of the URL
+export const parseQuoteFilters = (params: URLSearchParams): QuoteFilters => {
+  const status = params.get("status");
+  const sort = params.get("sort");
+  const group = params.get("group");
+  const scope = params.get("scope");
+  return {
+    search: params.get("q") ?? DEFAULT_QUOTE_FILTERS.search,
+    status: QUOTE_STATUSES.includes(status as QuoteStatus) ? status as QuoteStatus : DEFAULT_QUOTE_FILTERS.status,
+    sort: QUOTE_SORTS.includes(sort as QuoteSort) ? sort as QuoteSort : DEFAULT_QUOTE_FILTERS.sort,
+    groupBy: group === "status" || group === "client" ? group : DEFAULT_QUOTE_FILTERS.groupBy,
+    scope: QUOTE_SCOPES.includes(scope as QuoteScope) ? scope as QuoteScope : DEFAULT_QUOTE_FILTERS.scope,
+  };
+};
+
+export const toSearchParams = (filters: QuoteFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search.trim()) params.set("q", filters.search.trim());
+  if (filters.status !== DEFAULT_QUOTE_FILTERS.status) params.set("status", filters.status);
+  if (filters.sort !== DEFAULT_QUOTE_FILTERS.sort) params.set("sort", filters.sort);
+  if (filters.groupBy !== DEFAULT_QUOTE_FILTERS.groupBy) params.set("group", filters.groupBy);
+  if (filters.scope !== DEFAULT_QUOTE_FILTERS.scope) params.set("scope", filters.scope);
+  return params;
+};
@@ -0,0 +1,81 @@
+// src/utils/quoteStatus.ts
+
+export const QUOTE_STATUSES = ["draft", "submitted", "approved", "sent", "accepted", "rejected", "expired"] as const;
+
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted for approval",
+  approved: "Approved",
+  sent: "Sent",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  expired: "Expired",
+};
+
+// Badge colours per status (tailwind classes)
+export const QUOTE_STATUS_STYLES: Record<QuoteStatus, string> = {
+  draft: "bg-slate-600/50 text-slate-200",
+  submitted: "bg-amber-700/50 text-amber-200",
+  approved: "bg-blue-700/50 text-blue-200",
+  sent: "bg-indigo-700/50 text-indigo-200",
+  accepted: "bg-emerald-700/50 text-emerald-200",
+  rejected: "bg-red-800/50 text-red-200",
+  expired: "bg-gray-700/50 text-gray-300",
+};
+
+// Editing a quote in these statuses sends it back to draft (enforced by the database)
+export const LOCKED_QUOTE_STATUSES: QuoteStatus[] = ["submitted", "approved", "sent"];
+
+// Quotes whose resource bookings keep the trainers from being booked by other quotes
+export const BOOKED_QUOTE_STATUSES: QuoteStatus[] = ["accepted"];
+
+export const isQuoteLocked = (status: QuoteStatus): boolean => LOCKED_QUOTE_STATUSES.includes(status);
+
+// Lifecycle; mirrored by the transition_quote_status SQL function, which is the authority
+const TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ["submitted", "approved"],
+  submitted: ["approved", "draft"],
+  approved: ["sent", "draft"],
+  sent: ["accepted", "rejected", "expired", "draft"],
+  accepted: [],
+  rejected: ["draft"],
+  expired: ["draft"],
+};
+
+export interface ApprovalContext {
+  totalInBaseCurrency: number; // Sell price of the quote in the base currency, as checked by quote_approval_total
+  approvalThreshold: number | null; // Totals above this need a manager; null = no approval required
+  isManager: boolean;
+  hasSavedTotals: boolean; // Quotes are only submitted or approved once checkout saved their totals
+}
+
+export const requiresApproval = (context: ApprovalContext): boolean =>
+  context.approvalThreshold !== null && context.totalInBaseCurrency > context.approvalThreshold;
+
+/**
+ * Statuses a user may move a quote to. Above the approval threshold a draft must be submitted
+ * and only a manager may approve it; at or below it a draft can be approved directly.
+ */
+export const getAllowedTransitions = (status: QuoteStatus, context: ApprovalContext): QuoteStatus[] => {
+  const needsApproval = requiresApproval(context);
+  return TRANSITIONS[status].filter(next => {
+    if ((next === "submitted" || next === "approved") && !context.hasSavedTotals) return false;
+    if (status === "draft" && next === "approved") return !needsApproval;
+    if (status === "draft" && next === "submitted") return needsApproval;
+    if (status === "submitted" && next === "approved") return !needsApproval || context.isManager;
+    return true;
+  });
+};
+
+// Button text for moving a quote to a status
+export const QUOTE_TRANSITION_LABELS: Record<QuoteStatus, string> = {
+  draft: "Reopen as draft",
+  submitted: "Submit for approval",
+  approved: "Approve",
+  sent: "Mark as sent",
+  accepted: "Mark as accepted",
+  rejected: "Mark as rejected",
+  expired: "Mark as expired",
+};
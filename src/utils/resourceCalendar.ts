@@ -0,0 +1,118 @@
+// src/utils/resourceCalendar.ts
+
+import { addDays, format, parseISO, isValid } from "date-fns";
+import { ScheduledTaskSegment } from "./types";
+
+// A dated training segment of another quote (row of resource_bookings)
+export interface ResourceBooking {
+  quoteId: string;
+  quoteName: string;
+  resourceId: number;
+  startDate: string; // ISO date (yyyy-MM-dd)
+  endDate: string;
+}
+
+// The time a resource is away for one quote: its training days plus a travel day on each side
+export interface ResourceTrip {
+  resourceId: number;
+  resourceName: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ResourceConflict {
+  resourceId: number;
+  resourceName: string;
+  quoteId: string;
+  quoteName: string;
+  startDate: string; // Trip of the other quote
+  endDate: string;
+}
+
+const DATE_FORMAT = "yyyy-MM-dd";
+const MAX_SEARCH_DAYS = 730; // How far ahead the next free start date is searched
+
+const shiftDate = (isoDate: string, days: number): string => format(addDays(parseISO(isoDate), days), DATE_FORMAT);
+
+// ISO dates compare correctly as strings
+const rangesOverlap = (startA: string, endA: string, startB: string, endB: string): boolean =>
+  startA <= endB && startB <= endA;
+
+/**
+ * Collapse the dated segments of a schedule into one trip per resource
+ * (same travel-day padding as the business trip costs on the checkout page).
+ */
+export const getResourceTrips = (segments: ScheduledTaskSegment[]): ResourceTrip[] => {
+  const trips = new Map<number, ResourceTrip>();
+  segments.forEach(segment => {
+    if (!segment.start_date || !segment.end_date) return;
+    const tripStart = shiftDate(segment.start_date, -1);
+    const tripEnd = shiftDate(segment.end_date, 1);
+    const trip = trips.get(segment.resource_id);
+    if (!trip) {
+      trips.set(segment.resource_id, { resourceId: segment.resource_id, resourceName: segment.resource_name, startDate: tripStart, endDate: tripEnd });
+      return;
+    }
+    if (tripStart < trip.startDate) trip.startDate = tripStart;
+    if (tripEnd > trip.endDate) trip.endDate = tripEnd;
+  });
+  return Array.from(trips.values());
+};
+
+// Group the bookings of other quotes into one trip per quote and resource
+const getBookedTrips = (bookings: ResourceBooking[]): ResourceConflict[] => {
+  const trips = new Map<string, ResourceConflict>();
+  bookings.forEach(booking => {
+    const key = `${booking.quoteId}:${booking.resourceId}`;
+    const tripStart = shiftDate(booking.startDate, -1);
+    const tripEnd = shiftDate(booking.endDate, 1);
+    const trip = trips.get(key);
+    if (!trip) {
+      trips.set(key, { resourceId: booking.resourceId, resourceName: "", quoteId: booking.quoteId, quoteName: booking.quoteName, startDate: tripStart, endDate: tripEnd });
+      return;
+    }
+    if (tripStart < trip.startDate) trip.startDate = tripStart;
+    if (tripEnd > trip.endDate) trip.endDate = tripEnd;
+  });
+  return Array.from(trips.values());
+};
+
+/**
+ * Find the trips of other quotes that overlap this quote's trips, per resource.
+ * `shiftDays` moves this quote's trips in time (used when searching for a free start date).
+ */
+export const findResourceConflicts = (
+  trips: ResourceTrip[],
+  bookings: ResourceBooking[],
+  shiftDays = 0
+): ResourceConflict[] => {
+  const bookedTrips = getBookedTrips(bookings);
+  const conflicts: ResourceConflict[] = [];
+  trips.forEach(trip => {
+    const tripStart = shiftDate(trip.startDate, shiftDays);
+    const tripEnd = shiftDate(trip.endDate, shiftDays);
+    bookedTrips
+      .filter(booked => booked.resourceId === trip.resourceId && rangesOverlap(tripStart, tripEnd, booked.startDate, booked.endDate))
+      .forEach(booked => conflicts.push({ ...booked, resourceName: trip.resourceName }));
+  });
+  return conflicts;
+};
+
+/**
+ * Earliest project start date after the current one on which all resources of this quote are free.
+ * The schedule is shifted as a whole, so the result is a suggestion: weekends and holidays at the new
+ * date can move segments slightly, which is why conflicts are re-checked after applying it.
+ */
+export const findNextFreeStartDate = (
+  projectStartDate: string | null | undefined,
+  trips: ResourceTrip[],
+  bookings: ResourceBooking[]
+): string | null => {
+  if (!projectStartDate || !isValid(parseISO(projectStartDate)) || trips.length === 0) return null;
+  for (let shiftDays = 1; shiftDays <= MAX_SEARCH_DAYS; shiftDays++) {
+    if (findResourceConflicts(trips, bookings, shiftDays).length === 0) {
+      return shiftDate(projectStartDate, shiftDays);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,170 @@
+// src/utils/revisionDiff.ts
+
+// Shape of quote_revisions.snapshot (built by the build_quote_snapshot SQL function)
+export interface QuoteRevisionSnapshot {
+  quote: {
+    quote_name: string;
+    client_id?: number | null; // Missing in revisions taken before quotes linked to clients
+    client_name: string | null;
+    client_country: string | null;
+    client_vat_id: string | null;
+    area_id: number | null;
+    area_name: string | null;
+    currency: string;
+    project_start_date: string | null;
+    work_on_saturday: boolean | null;
+    work_on_sunday: boolean | null;
+    daily_hours_override: number | null;
+    machine_type_ids: number[];
+    software_type_ids: number[];
+  };
+  machines: Array<{ id: number; name: string }>;
+  software: Array<{ id: number; name: string }>;
+  planning_details: Array<{
+    id: string;
+    plan_id: number;
+    plan_name: string | null;
+    machine_types_id: number | null;
+    software_types_id: number | null;
+    resource_id: number | null;
+    allocated_hours: number;
+  }>;
+  trainee_groups: Array<{ group_id: number; name: string }>;
+  schedule_overrides: Array<{ requirement_id: string | number; start_day: number; duration_days: number }>;
+  plan_pricing: Array<{ plan_id: number; margin_percent: number; override_price: number | null; override_reason: string | null }>;
+  totals: Array<{
+    plan_id: number;
+    plan_name: string;
+    total_cost: number;
+    sell_price?: number;
+    gross_price?: number;
+    currency?: string;
+  }>;
+}
+
+export interface FieldChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface PlanChange {
+  planId: number;
+  planName: string;
+  label: string; // What changed, e.g. "Allocated hours" or "Sell price"
+  before: number | string | null;
+  after: number | string | null;
+}
+
+export interface RevisionDiff {
+  fields: FieldChange[];
+  machines: ListChange;
+  software: ListChange;
+  traineeGroups: ListChange;
+  plans: PlanChange[];
+  scheduleOverrides: { before: number; after: number };
+}
+
+const QUOTE_FIELDS: Array<[keyof QuoteRevisionSnapshot["quote"], string]> = [
+  ["quote_name", "Quote name"],
+  ["client_name", "Client"],
+  ["client_country", "Client country"],
+  ["client_vat_id", "Client VAT id"],
+  ["area_name", "Area"],
+  ["currency", "Currency"],
+  ["project_start_date", "Project start"],
+  ["work_on_saturday", "Work on Saturday"],
+  ["work_on_sunday", "Work on Sunday"],
+  ["daily_hours_override", "Daily hours override"],
+];
+
+const display = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const diffNames = (before: string[], after: string[]): ListChange => ({
+  added: after.filter(name => !before.includes(name)),
+  removed: before.filter(name => !after.includes(name)),
+});
+
+const hoursByPlan = (snapshot: QuoteRevisionSnapshot) => {
+  const hours = new Map<number, { planName: string; hours: number }>();
+  snapshot.planning_details.forEach(detail => {
+    const entry = hours.get(detail.plan_id) ?? { planName: detail.plan_name ?? `Plan ${detail.plan_id}`, hours: 0 };
+    entry.hours += Number(detail.allocated_hours) || 0;
+    hours.set(detail.plan_id, entry);
+  });
+  return hours;
+};
+
+/**
+ * What changed from revision `before` to revision `after`: quote fields, selections, trainee groups,
+ * and per plan the allocated hours, pricing and saved totals.
+ */
+export const diffRevisions = (before: QuoteRevisionSnapshot, after: QuoteRevisionSnapshot): RevisionDiff => {
+  const fields = QUOTE_FIELDS
+    .filter(([key]) => display(before.quote[key]) !== display(after.quote[key]))
+    .map(([key, label]) => ({ label, before: display(before.quote[key]), after: display(after.quote[key]) }));
+
+  const plans: PlanChange[] = [];
+  const planNames = new Map<number, string>();
+  [before, after].forEach(snapshot => {
+    snapshot.totals.forEach(total => planNames.set(total.plan_id, total.plan_name));
+    snapshot.planning_details.forEach(detail => {
+      if (detail.plan_name && !planNames.has(detail.plan_id)) planNames.set(detail.plan_id, detail.plan_name);
+    });
+  });
+  const planName = (planId: number) => planNames.get(planId) ?? `Plan ${planId}`;
+
+  const hoursBefore = hoursByPlan(before);
+  const hoursAfter = hoursByPlan(after);
+  new Set([...hoursBefore.keys(), ...hoursAfter.keys()]).forEach(planId => {
+    const previous = hoursBefore.get(planId)?.hours ?? 0;
+    const next = hoursAfter.get(planId)?.hours ?? 0;
+    if (previous !== next) plans.push({ planId, planName: planName(planId), label: "Allocated hours", before: previous, after: next });
+  });
+
+  const planIds = new Set([...before.totals, ...after.totals, ...before.plan_pricing, ...after.plan_pricing].map(row => row.plan_id));
+  planIds.forEach(planId => {
+    const pricingBefore = before.plan_pricing.find(row => row.plan_id === planId);
+    const pricingAfter = after.plan_pricing.find(row => row.plan_id === planId);
+    if ((pricingBefore?.margin_percent ?? 0) !== (pricingAfter?.margin_percent ?? 0)) {
+      plans.push({ planId, planName: planName(planId), label: "Margin %", before: pricingBefore?.margin_percent ?? 0, after: pricingAfter?.margin_percent ?? 0 });
+    }
+    if ((pricingBefore?.override_price ?? null) !== (pricingAfter?.override_price ?? null)) {
+      plans.push({ planId, planName: planName(planId), label: "Price override", before: pricingBefore?.override_price ?? null, after: pricingAfter?.override_price ?? null });
+    }
+
+    const totalsBefore = before.totals.find(row => row.plan_id === planId);
+    const totalsAfter = after.totals.find(row => row.plan_id === planId);
+    ([["total_cost", "Cost"], ["sell_price", "Sell price"], ["gross_price", "Gross price"]] as const).forEach(([key, label]) => {
+      const previous = totalsBefore?.[key] ?? null;
+      const next = totalsAfter?.[key] ?? null;
+      if (previous !== next) plans.push({ planId, planName: planName(planId), label, before: previous, after: next });
+    });
+  });
+
+  return {
+    fields,
+    machines: diffNames(before.machines.map(m => m.name), after.machines.map(m => m.name)),
+    software: diffNames(before.software.map(s => s.name), after.software.map(s => s.name)),
+    traineeGroups: diffNames(before.trainee_groups.map(g => g.name), after.trainee_groups.map(g => g.name)),
+    plans,
+    scheduleOverrides: { before: before.schedule_overrides.length, after: after.schedule_overrides.length },
+  };
+};
+
+export const isEmptyDiff = (diff: RevisionDiff): boolean =>
+  diff.fields.length === 0 &&
+  diff.machines.added.length + diff.machines.removed.length === 0 &&
+  diff.software.added.length + diff.software.removed.length === 0 &&
+  diff.traineeGroups.added.length + diff.traineeGroups.removed.length === 0 &&
+  diff.plans.length === 0 &&
+  diff.scheduleOverrides.before === diff.scheduleOverrides.after;
@@ -0,0 +1,52 @@
+// src/utils/roles.ts
+
+export const ORG_ROLES = ["admin", "pricing_manager", "sales", "viewer"] as const;
+
+export type OrgRole = typeof ORG_ROLES[number];
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  admin: "Admin",
+  pricing_manager: "Pricing manager",
+  sales: "Sales",
+  viewer: "Viewer",
+};
+
+// Roles that may approve quotes above the approval threshold
+export const APPROVER_ROLES: OrgRole[] = ["admin", "pricing_manager"];
+
+const CATALOG_EDITORS: OrgRole[] = ["admin", "pricing_manager"];
+const SALES_EDITORS: OrgRole[] = ["admin", "pricing_manager", "sales"];
+
+interface SettingsTabAccess {
+  view: readonly OrgRole[];
+  edit: readonly OrgRole[];
+}
+
+/**
+ * Who sees and who edits each Settings tab; tabs that aren't listed are admin-only. The edit rules
+ * are mirrored by the row-level security policies in supabaseInitFunctions.sql, which are the
+ * authority. Every member can read the catalog, as quotes are priced from it.
+ */
+const SETTINGS_TAB_ACCESS: Record<string, SettingsTabAccess> = {
+  machines: { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  software: { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  resources: { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  plans: { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  topics: { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  "area-costs": { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  "price-lists": { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  "training-offers": { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  "training-order": { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  "exchange-rates": { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  "vat-rules": { view: ORG_ROLES, edit: CATALOG_EDITORS },
+  approvals: { view: CATALOG_EDITORS, edit: CATALOG_EDITORS },
+  "quote-templates": { view: ORG_ROLES, edit: SALES_EDITORS },
+  clients: { view: ORG_ROLES, edit: SALES_EDITORS },
+  organization: { view: ORG_ROLES, edit: ["admin"] },
+};
+
+export const canViewSettingsTab = (role: OrgRole | null, tabId: string): boolean =>
+  role !== null && (SETTINGS_TAB_ACCESS[tabId]?.view ?? ["admin"]).includes(role);
+
+export const canEditSettingsTab = (role: OrgRole | null, tabId: string): boolean =>
+  role !== null && (SETTINGS_TAB_ACCESS[tabId]?.edit ?? ["admin"]).includes(role);
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TrainingRequirement } from "@/hooks/useTrainingRequirements";
+import { ScheduledTaskSegment, scheduleTrainingTasks } from "./scheduleTasks";
+
+const requirement = (requirementId: number, resourceId: number, trainingHours: number): TrainingRequirement => ({
+  requirement_id: requirementId,
+  quote_id: "quote",
+  plan_id: 1,
+  resource_id: resourceId,
+  resource_name: `Resource ${resourceId}`,
+  machine_name: `Machine ${requirementId}`,
+  machine_type_id: requirementId,
+  training_hours: trainingHours,
+  daily_hours: 8,
+});
+
+const segmentsOf = (segments: ScheduledTaskSegment[], requirementId: number) =>
+  segments.filter(segment => segment.originalRequirementId === requirementId);
+
+// Days covered by the segments of a requirement
+const daysOf = (segments: ScheduledTaskSegment[], requirementId: number) =>
+  segmentsOf(segments, requirementId).flatMap(segment =>
+    Array.from({ length: segment.duration_days }, (_, index) => segment.start_day + index)
+  );
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("scheduleTrainingTasks", () => {
+  it("starts on Day 2 and skips the weekend without a start date", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 40)], false, false);
+
+    // Day 1 is the Monday travel day, so Days 6 and 7 are the weekend
+    expect(daysOf(segments, 1)).toEqual([2, 3, 4, 5, 8]);
+    expect(segments.map(segment => segment.segment_hours)).toEqual([32, 8]);
+  });
+
+  it("never lets the sessions of one trainee group overlap across resources", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 4), requirement(2, 2, 4)], false, false, {
+      traineeGroups: [{ groupId: 1, name: "Operators", machineTypeIds: [1, 2], softwareTypeIds: [] }],
+    });
+
+    const [first] = segmentsOf(segments, 1);
+    const [second] = segmentsOf(segments, 2);
+    expect(first).toMatchObject({ start_day: 2, start_hour_offset: 0, trainee_groups: ["Operators"] });
+    expect(second).toMatchObject({ start_day: 2, start_hour_offset: 4, trainee_groups: ["Operators"] });
+  });
+
+  it("lets resources outside the trainee group train at the same time", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 4), requirement(2, 2, 4)], false, false, {
+      traineeGroups: [{ groupId: 1, name: "Operators", machineTypeIds: [1], softwareTypeIds: [] }],
+    });
+
+    expect(segmentsOf(segments, 2)[0]).toMatchObject({ start_day: 2, start_hour_offset: 0 });
+  });
+
+  it("starts a training once its prerequisite on another resource is finished", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 12), requirement(2, 2, 4)], false, false, {
+      prerequisites: [{ machineTypeId: 2, softwareTypeId: null, requiredMachineTypeId: 1, requiredSoftwareTypeId: null }],
+    });
+
+    expect(daysOf(segments, 1)).toEqual([2, 3]);
+    expect(segmentsOf(segments, 2)).toEqual([
+      expect.objectContaining({ start_day: 3, start_hour_offset: 4, segment_hours: 4, prerequisite_ids: [1] }),
+    ]);
+  });
+
+  it("drops circular prerequisites and schedules both trainings right away", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 4), requirement(2, 2, 4)], false, false, {
+      prerequisites: [
+        { machineTypeId: 2, softwareTypeId: null, requiredMachineTypeId: 1, requiredSoftwareTypeId: null },
+        { machineTypeId: 1, softwareTypeId: null, requiredMachineTypeId: 2, requiredSoftwareTypeId: null },
+      ],
+    });
+
+    for (const segment of segments) {
+      expect(segment).toMatchObject({ start_day: 2, start_hour_offset: 0 });
+      expect(segment.prerequisite_ids).toBeUndefined();
+    }
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Circular prerequisites"));
+  });
+
+  it("keeps an anchored training in place and schedules the other work around it", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 8), requirement(2, 1, 16)], false, false, {
+      overrides: [{ requirementId: 1, resourceId: null, startDay: 3, durationDays: 1 }],
+    });
+
+    expect(segmentsOf(segments, 1)).toEqual([
+      expect.objectContaining({ start_day: 3, duration_days: 1, segment_hours: 8, is_override: true }),
+    ]);
+    expect(daysOf(segments, 2)).toEqual([2, 4]);
+  });
+
+  it("flags an anchor that books more hours on a day than the resource works", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 8), requirement(2, 1, 8)], false, false, {
+      overrides: [
+        { requirementId: 1, resourceId: null, startDay: 2, durationDays: 1 },
+        { requirementId: 2, resourceId: null, startDay: 2, durationDays: 1 },
+      ],
+    });
+
+    expect(segmentsOf(segments, 1)[0].over_capacity).toBeUndefined();
+    expect(segmentsOf(segments, 2)[0]).toMatchObject({ start_hour_offset: 8, over_capacity: true });
+  });
+
+  it("skips public holidays and dates the segments from the project start", () => {
+    // 2026-06-01 is a Monday, so Day 3 is Wednesday 2026-06-03
+    const segments = scheduleTrainingTasks([requirement(1, 1, 24)], false, false, {
+      projectStartDate: "2026-06-01",
+      holidays: ["2026-06-03"],
+    });
+
+    expect(segments).toEqual([
+      expect.objectContaining({ start_day: 2, duration_days: 1, start_date: "2026-06-02", end_date: "2026-06-02" }),
+      expect.objectContaining({ start_day: 4, duration_days: 2, start_date: "2026-06-04", end_date: "2026-06-05" }),
+    ]);
+  });
+
+  it("keeps a resource free while it is unavailable", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 8), requirement(2, 2, 8)], false, false, {
+      projectStartDate: "2026-06-01",
+      unavailability: [{ resourceId: 1, startDate: "2026-06-02", endDate: "2026-06-04" }],
+    });
+
+    expect(segmentsOf(segments, 1)).toEqual([expect.objectContaining({ start_day: 5, start_date: "2026-06-05" })]);
+    expect(segmentsOf(segments, 2)).toEqual([expect.objectContaining({ start_day: 2, start_date: "2026-06-02" })]);
+  });
+
+  it("stops at the scheduling cutoff when the hours can never be placed", () => {
+    const segments = scheduleTrainingTasks([requirement(1, 1, 8)], false, false, {
+      projectStartDate: "2026-06-01",
+      unavailability: [{ resourceId: 1, startDate: "2026-01-01", endDate: "2099-12-31" }],
+    });
+
+    expect(segments).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Scheduling stopped at Day 3650"));
+  });
+});
@@ -1,6 +1,7 @@
 // src/utils/scheduleTasks.ts
 
 import { TrainingRequirement } from "@/hooks/useTrainingRequirements"; // Adjust import path if needed
+import { addDays, format, parseISO, isValid } from "date-fns";
 
 // --- Define/Update ScheduledTaskSegment Interface ---
 // Ensure this definition (or an imported one) includes start_hour_offset
@@ -14,50 +15,228 @@ export interface ScheduledTaskSegment {
   segment_hours: number;
   start_day: number;
   duration_days: number; // Logical duration (usually 1 for daily segments before consolidation)
-  start_hour_offset: number; // Hours used on start_day *before* this segment begins (0 to < DAILY_HOUR_LIMIT)
+  start_hour_offset: number; // Hours used on start_day *before* this segment begins (0 to < daily_hour_limit)
+  daily_hour_limit: number; // Working hours per day of the resource on this quote (used for bar widths)
+  trainee_groups?: string[]; // Names of the trainee groups attending this segment
+  prerequisite_ids?: (number | string)[]; // originalRequirementIds that must be finished before this requirement starts
+  is_override?: boolean; // Placed manually on the Gantt; the rest of the schedule is built around it
+  over_capacity?: boolean; // Manual placement puts more hours on a day than the resource works
+  start_date?: string; // ISO date (yyyy-MM-dd) of start_day, only set when the quote has a project start date
+  end_date?: string; // ISO date of the last day covered by this segment
 }
 // --- End Interface Definition ---
 
-const DAILY_HOUR_LIMIT = 8;
+// Optional inputs that refine the schedule beyond the weekend switches
+export interface ScheduleOptions {
+  projectStartDate?: string | null; // ISO date mapped to Day 1 (the travel day)
+  holidays?: string[]; // ISO dates of public holidays in the quote's area (only applied with a start date)
+  dailyHoursOverride?: number | null; // Quote-level working hours per day, replaces each resource's own capacity
+  traineeGroups?: TraineeGroupConstraint[]; // Requirements attended by the same group never run at the same time
+  prerequisites?: PrerequisiteConstraint[]; // Trainings that may only start once other trainings are finished
+  overrides?: ScheduleOverride[]; // Manually placed requirements, used as fixed anchors
+  unavailability?: UnavailabilityConstraint[]; // Blocked date ranges per resource (only applied with a start date)
+}
+
+// A date range (inclusive, ISO dates) in which a resource cannot train: vacation, sick leave, internal work
+export interface UnavailabilityConstraint {
+  resourceId: number;
+  startDate: string;
+  endDate: string;
+}
+
+// A requirement pinned by hand: its hours are spread evenly over the working days among durationDays
+// consecutive days from startDay
+export interface ScheduleOverride {
+  requirementId: number | string;
+  resourceId: number | null; // null keeps the requirement on its own resource
+  startDay: number;
+  durationDays: number;
+  resourceName?: string | null; // Name and working hours of the target resource, for one without requirements of its own
+  resourceDailyHours?: number | null;
+}
+
+// A group of customer trainees and the machine/software topics they attend
+export interface TraineeGroupConstraint {
+  groupId: number;
+  name: string;
+  machineTypeIds: number[];
+  softwareTypeIds: number[];
+}
+
+// "Training of this machine/software type starts after that machine/software type is finished" (catalog level)
+export interface PrerequisiteConstraint {
+  machineTypeId: number | null;
+  softwareTypeId: number | null;
+  requiredMachineTypeId: number | null;
+  requiredSoftwareTypeId: number | null;
+}
+
+type SchedulableRequirement = TrainingRequirement & {
+  remaining_hours: number;
+  groups: TraineeGroupConstraint[];
+  prerequisites: SchedulableRequirement[];
+  finishedAt?: { day: number; hour: number };
+};
+
+interface GroupSession {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_DAILY_HOURS = 8;
+const SCHEDULE_DATE_FORMAT = "yyyy-MM-dd";
+const MAX_SCHEDULE_DAY = 3650; // Safety stop for the day-by-day scheduling loop
+
+/**
+ * Resolve how many hours a resource works per day on a quote.
+ * The quote override wins over the resource capacity; both fall back to DEFAULT_DAILY_HOURS.
+ */
+export const getDailyHourLimit = (
+  resourceDailyHours: number | null | undefined,
+  dailyHoursOverride?: number | null
+): number => {
+  if (dailyHoursOverride && dailyHoursOverride > 0) return dailyHoursOverride;
+  if (resourceDailyHours && resourceDailyHours > 0) return resourceDailyHours;
+  return DEFAULT_DAILY_HOURS;
+};
+
+/**
+ * Map an abstract schedule day number to a calendar date.
+ * Day 1 falls on the project start date. Returns null when no (valid) start date is set.
+ */
+export const getDateForScheduleDay = (
+  projectStartDate: string | null | undefined,
+  dayNumber: number
+): Date | null => {
+  if (!projectStartDate) return null;
+  const start = parseISO(projectStartDate);
+  if (!isValid(start)) return null;
+  return addDays(start, dayNumber - 1);
+};
 
 // Helper to check if a specific day number is a weekend
-const isDayWeekend = (
+export const isDayWeekend = (
   dayNumber: number,
   workOnSaturday: boolean,
-  workOnSunday: boolean
+  workOnSunday: boolean,
+  projectStartDate?: string | null
 ): boolean => {
   if (dayNumber <= 0) return false;
-  // Day 1 = Mon, Day 6 = Sat, Day 7 = Sun
-  const dayOfWeek = ((dayNumber - 1) % 7) + 1;
+  const date = getDateForScheduleDay(projectStartDate, dayNumber);
+  // With a real start date use the actual weekday, otherwise Day 1 = Mon, Day 6 = Sat, Day 7 = Sun
+  const dayOfWeek = date ? (date.getDay() === 0 ? 7 : date.getDay()) : ((dayNumber - 1) % 7) + 1;
   if (!workOnSaturday && dayOfWeek === 6) return true;
   if (!workOnSunday && dayOfWeek === 7) return true;
   return false;
 };
 
-// Helper to find the next working day, starting from a given day
+// Helper to check if a specific day number falls on a public holiday
+export const isDayHoliday = (
+  dayNumber: number,
+  projectStartDate: string | null | undefined,
+  holidays: ReadonlySet<string>
+): boolean => {
+  if (dayNumber <= 0 || holidays.size === 0) return false;
+  const date = getDateForScheduleDay(projectStartDate, dayNumber);
+  return date ? holidays.has(format(date, SCHEDULE_DATE_FORMAT)) : false;
+};
+
+// Helper to find the next working day (not a weekend or holiday), starting from a given day
 const findNextWorkingDay = (
     startDay: number,
     workOnSaturday: boolean,
-    workOnSunday: boolean
+    workOnSunday: boolean,
+    projectStartDate: string | null,
+    holidays: ReadonlySet<string>
 ): number => {
     let day = startDay;
-    while (isDayWeekend(day, workOnSaturday, workOnSunday)) {
+    while (isDayWeekend(day, workOnSaturday, workOnSunday, projectStartDate) || isDayHoliday(day, projectStartDate, holidays)) {
         day++;
     }
     return day;
 }
 
+// Helper to check if a resource is blocked on a specific day number (ISO dates compare correctly as strings)
+export const isResourceUnavailable = (
+  resourceId: number,
+  dayNumber: number,
+  projectStartDate: string | null | undefined,
+  unavailability: UnavailabilityConstraint[]
+): boolean => {
+  if (unavailability.length === 0) return false;
+  const date = getDateForScheduleDay(projectStartDate, dayNumber);
+  if (!date) return false;
+  const isoDate = format(date, SCHEDULE_DATE_FORMAT);
+  return unavailability.some(period => period.resourceId === resourceId && period.startDate <= isoDate && isoDate <= period.endDate);
+};
+
+// Find the trainee groups attending a requirement (matched on its machine or software type)
+const getTraineeGroupsForRequirement = (
+  req: TrainingRequirement,
+  traineeGroups: TraineeGroupConstraint[]
+): TraineeGroupConstraint[] =>
+  traineeGroups.filter(group =>
+    req.software_type_id != null
+      ? group.softwareTypeIds.includes(req.software_type_id)
+      : req.machine_type_id != null && group.machineTypeIds.includes(req.machine_type_id)
+  );
+
+// Machine and software type ids share a number space, so key training types by kind as well
+export const getTrainingTypeKey = (machineTypeId: number | null | undefined, softwareTypeId: number | null | undefined): string | null => {
+  if (softwareTypeId != null) return `software:${softwareTypeId}`;
+  if (machineTypeId != null) return `machine:${machineTypeId}`;
+  return null;
+};
+
+// Link every requirement to the requirements (of any resource) it has to wait for
+const linkPrerequisites = (requirements: SchedulableRequirement[], prerequisites: PrerequisiteConstraint[]): void => {
+  if (prerequisites.length === 0) return;
+  const keyOf = (req: SchedulableRequirement) => getTrainingTypeKey(req.machine_type_id, req.software_type_id);
+
+  requirements.forEach(req => {
+    const key = keyOf(req);
+    if (!key) return;
+    const requiredKeys = new Set(
+      prerequisites
+        .filter(constraint => getTrainingTypeKey(constraint.machineTypeId, constraint.softwareTypeId) === key)
+        .map(constraint => getTrainingTypeKey(constraint.requiredMachineTypeId, constraint.requiredSoftwareTypeId))
+    );
+    req.prerequisites = requirements.filter(other => other !== req && requiredKeys.has(keyOf(other)));
+  });
+
+  // Drop circular chains (Kahn's algorithm): whatever cannot be ordered is scheduled without prerequisites
+  const remaining = new Set(requirements);
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    remaining.forEach(req => {
+      if (req.prerequisites.every(prereq => !remaining.has(prereq))) {
+        remaining.delete(req);
+        progressed = true;
+      }
+    });
+  }
+  if (remaining.size > 0) {
+    console.warn(`Circular prerequisites ignored for requirements: ${Array.from(remaining).map(req => req.requirement_id).join(", ")}`);
+    remaining.forEach(req => { req.prerequisites = []; });
+  }
+};
+
 export const scheduleTrainingTasks = (
   rawRequirements: TrainingRequirement[],
   workOnSaturday: boolean,
-  workOnSunday: boolean
+  workOnSunday: boolean,
+  options: ScheduleOptions = {}
 ): ScheduledTaskSegment[] => {
-  console.log(`--- Starting Scheduling (v8.1: Fill Day + Offset + Consolidation Fix) ---`);
+  const projectStartDate = options.projectStartDate ?? null;
+  const holidays = new Set(options.holidays ?? []);
+  const dailyHoursOverride = options.dailyHoursOverride ?? null;
+  const traineeGroups = options.traineeGroups ?? [];
+  const unavailability = options.unavailability ?? [];
+  console.log(`--- Starting Scheduling (v10: Combined Timeline + Trainee Groups + Prerequisites) ---`);
   const dailySegments: ScheduledTaskSegment[] = [];
-  // Tracks the next available day and hours used *on that specific day* for each resource
-  const resourceNextAvailable: { [resourceId: number]: { day: number; hoursUsed: number } } = {};
 
-  // Group requirements by resource and add remaining_hours tracker
+  // Group requirements by resource and add remaining_hours / trainee group trackers
   const reqsByResource = rawRequirements.reduce((acc, req) => {
     const key = req.resource_id ?? -1; // Use resource_id, handle null/undefined
     if (key === -1) {
@@ -66,131 +245,235 @@ export const scheduleTrainingTasks = (
     }
     if (!acc[key]) acc[key] = [];
     // Ensure requirement_id exists, provide fallback if necessary
-    acc[key].push({ ...req, remaining_hours: req.training_hours, requirement_id: req.requirement_id ?? `fallback-${key}-${acc[key].length}` });
+    acc[key].push({
+      ...req,
+      remaining_hours: req.training_hours,
+      requirement_id: req.requirement_id ?? `fallback-${key}-${acc[key].length}`,
+      groups: getTraineeGroupsForRequirement(req, traineeGroups),
+      prerequisites: [],
+    });
     return acc;
-  }, {} as { [resourceId: number]: (TrainingRequirement & { remaining_hours: number })[] });
-
-
-  // Schedule for each resource independently
-  for (const resourceIdStr in reqsByResource) {
-    const resourceId = parseInt(resourceIdStr, 10);
-    if (isNaN(resourceId) || resourceId < 0) continue; // Skip if invalid resource ID
-
-    const resourceReqs = reqsByResource[resourceId];
-    let currentReqIndex = 0; // Index of the requirement we are currently scheduling
-    let segmentCounter = 0; // Counter for unique segment IDs per original requirement
-
-    // Initialize resource tracker if not present: Earliest WORK day is Day 2 or later
-    if (!resourceNextAvailable[resourceId]) {
-      const initialWorkDay = findNextWorkingDay(2, workOnSaturday, workOnSunday);
-      resourceNextAvailable[resourceId] = { day: initialWorkDay, hoursUsed: 0 };
-      console.log(`Resource ${resourceId}: Initializing to start Day ${initialWorkDay}`);
+  }, {} as { [resourceId: number]: SchedulableRequirement[] });
+
+  const resourceStates = Object.keys(reqsByResource)
+    .map(resourceIdStr => parseInt(resourceIdStr, 10))
+    .filter(resourceId => !isNaN(resourceId) && resourceId >= 0) // Skip invalid resource IDs
+    .map(resourceId => {
+      const requirements = reqsByResource[resourceId];
+      const dailyHourLimit = getDailyHourLimit(requirements[0]?.daily_hours, dailyHoursOverride);
+      console.log(`Resource ${resourceId}: ${requirements.length} requirements (${dailyHourLimit}h/day)`);
+      const resourceName = requirements[0]?.resource_name ?? `Resource ${resourceId}`;
+      return { resourceId, resourceName, requirements, dailyHourLimit, segmentCounter: 0, hoursUsedOnDay: 0 };
+    });
+
+  linkPrerequisites(resourceStates.flatMap(state => state.requirements), options.prerequisites ?? []);
+
+  // --- Manual overrides: place the anchored requirements first, everything else is scheduled around them ---
+  const reservedHours = new Map<string, number>(); // `${resourceId}:${day}` -> hours already taken by anchors
+  const anchoredGroupSessions = new Map<number, { groupId: number; session: GroupSession }[]>(); // day -> sessions
+  const overrides = options.overrides ?? [];
+  // A day the resource trains on: not a weekend, holiday or a day it is unavailable
+  const isWorkingDayFor = (resourceId: number, dayNumber: number): boolean =>
+    !isDayWeekend(dayNumber, workOnSaturday, workOnSunday, projectStartDate) &&
+    !isDayHoliday(dayNumber, projectStartDate, holidays) &&
+    !isResourceUnavailable(resourceId, dayNumber, projectStartDate, unavailability);
+
+  resourceStates.forEach(state => state.requirements.forEach(req => {
+    const override = overrides.find(o => String(o.requirementId) === String(req.requirement_id));
+    if (!override) return;
+
+    // A resource without requirements of its own on this quote gets an empty state to hold the anchor
+    let targetState = override.resourceId == null ? state : resourceStates.find(other => other.resourceId === override.resourceId);
+    if (!targetState) {
+      targetState = {
+        resourceId: override.resourceId as number,
+        resourceName: override.resourceName ?? `Resource ${override.resourceId}`,
+        requirements: [],
+        dailyHourLimit: getDailyHourLimit(override.resourceDailyHours, dailyHoursOverride),
+        segmentCounter: 0,
+        hoursUsedOnDay: 0,
+      };
+      resourceStates.push(targetState);
+    }
+    const targetResourceId = targetState.resourceId;
+
+    // Day 1 is the outbound travel day
+    const startDay = Math.max(2, Math.round(override.startDay));
+    const durationDays = Math.max(1, Math.round(override.durationDays));
+    const anchorDays: number[] = [];
+    for (let anchorDay = startDay; anchorDay < startDay + durationDays; anchorDay++) {
+      if (isWorkingDayFor(targetResourceId, anchorDay)) anchorDays.push(anchorDay);
+    }
+    // Placed entirely on days off: move to the next day the resource works
+    if (anchorDays.length === 0) {
+      let anchorDay = startDay + durationDays;
+      while (anchorDay <= MAX_SCHEDULE_DAY && !isWorkingDayFor(targetResourceId, anchorDay)) anchorDay++;
+      anchorDays.push(anchorDay);
     }
 
-    // Loop as long as there are requirements left to schedule for this resource
-    while (currentReqIndex < resourceReqs.length) {
-
-      // Get the resource's current state for the start of this iteration
-      let currentDayForResource = resourceNextAvailable[resourceId].day;
-      let hoursUsedOnCurrentDay = resourceNextAvailable[resourceId].hoursUsed;
-
-      // Ensure current day is valid and not full
-      let workDay = findNextWorkingDay(currentDayForResource, workOnSaturday, workOnSunday);
-      if (workDay > currentDayForResource) {
-        // We skipped one or more days (likely weekends)
-        hoursUsedOnCurrentDay = 0; // Reset hours for the new day
-      }
-      // If it's the same calendar day as the tracker, use the tracked hours.
-      // If somehow the day didn't advance but the tracker is on a different day (shouldn't happen), reset hours.
-      else if (resourceNextAvailable[resourceId].day !== workDay) {
-          hoursUsedOnCurrentDay = 0;
-      }
-      // Otherwise, hoursUsedOnCurrentDay retains its value from the tracker.
-
-      currentDayForResource = workDay; // Update the day we are actually working on
-
-      // Check if this valid working day is already full from previous iterations/tasks
-      if (hoursUsedOnCurrentDay >= DAILY_HOUR_LIMIT) {
-        // Advance to the *next* working day and reset hours
-        currentDayForResource = findNextWorkingDay(currentDayForResource + 1, workOnSaturday, workOnSunday);
-        hoursUsedOnCurrentDay = 0;
-        // Update the tracker *before* continuing to the next outer loop iteration
-        resourceNextAvailable[resourceId] = { day: currentDayForResource, hoursUsed: hoursUsedOnCurrentDay };
-        console.log(`  Day was full. Advanced Res ${resourceId} tracker to next working day: ${currentDayForResource}`);
-        continue; // Restart the outer while loop to re-evaluate this new day
-      }
-
-      // Get the current requirement to schedule
-      const currentReq = resourceReqs[currentReqIndex];
-
-      // Check if the current requirement has hours left
-      if (!currentReq || currentReq.remaining_hours <= 0) {
-        currentReqIndex++; // Move to the next requirement
-        continue; // Go to the next iteration of the outer while loop
-      }
-
-      // Calculate hours for this segment on the current day
-      const hoursAvailableToday = DAILY_HOUR_LIMIT - hoursUsedOnCurrentDay;
-      const hoursForThisSegment = Math.min(currentReq.remaining_hours, hoursAvailableToday);
-
-      if (hoursForThisSegment <= 0) {
-         // Day is effectively full for any further work, let outer loop handle day advancement
-         console.log(` Day ${currentDayForResource} effectively full for Res ${resourceId}. Advancing day.`);
-         currentDayForResource++; // Prepare for next day check in outer loop
-         hoursUsedOnCurrentDay = 0; // Reset hours since we are planning to move day
-         // Update tracker to reflect the day is full for the *next* iteration
-         resourceNextAvailable[resourceId] = { day: currentDayForResource, hoursUsed: hoursUsedOnCurrentDay };
-         continue; // Let outer loop find next working day
+    const hoursPerDay = req.training_hours / anchorDays.length;
+    let lastDayEnd = 0;
+    anchorDays.forEach((anchorDay, dayIndex) => {
+      const reservationKey = `${targetResourceId}:${anchorDay}`;
+      const offset = reservedHours.get(reservationKey) ?? 0;
+      reservedHours.set(reservationKey, offset + hoursPerDay);
+      const sessions = anchoredGroupSessions.get(anchorDay) ?? [];
+      req.groups.forEach(group => sessions.push({ groupId: group.groupId, session: { start: offset, end: offset + hoursPerDay } }));
+      anchoredGroupSessions.set(anchorDay, sessions);
+      lastDayEnd = offset + hoursPerDay;
+
+      const overCapacity = offset + hoursPerDay > targetState.dailyHourLimit;
+      if (overCapacity) {
+        console.warn(`  Anchored Req ${req.requirement_id} exceeds ${targetState.dailyHourLimit}h/day of Resource ${targetResourceId} on Day ${anchorDay}.`);
       }
-
-      // Capture the offset *before* adding hours for this segment
-      const startHourOffset = hoursUsedOnCurrentDay;
-
-      console.log(`  Segment ${segmentCounter} for Req ${currentReq.requirement_id}: Day ${currentDayForResource}, Offset ${startHourOffset}h, Hours ${hoursForThisSegment}.`);
-
-      // Create the segment
       dailySegments.push({
-        id: `${currentReq.requirement_id}-seg${segmentCounter}`,
-        originalRequirementId: currentReq.requirement_id,
-        resource_id: currentReq.resource_id,
-        resource_name: currentReq.resource_name,
-        machine_name: currentReq.machine_name,
-        total_training_hours: currentReq.training_hours,
-        segment_hours: hoursForThisSegment,
-        start_day: currentDayForResource,
-        duration_days: 1, // Logical duration for daily segment
-        start_hour_offset: startHourOffset, // Store the offset
+        id: `${req.requirement_id}-override${dayIndex}`,
+        originalRequirementId: req.requirement_id,
+        resource_id: targetResourceId,
+        resource_name: targetState.resourceName,
+        machine_name: req.machine_name,
+        total_training_hours: req.training_hours,
+        segment_hours: hoursPerDay,
+        start_day: anchorDay,
+        duration_days: 1,
+        start_hour_offset: offset,
+        daily_hour_limit: targetState.dailyHourLimit,
+        trainee_groups: req.groups.length > 0 ? req.groups.map(group => group.name) : undefined,
+        prerequisite_ids: req.prerequisites.length > 0 ? req.prerequisites.map(prereq => prereq.requirement_id) : undefined,
+        is_override: true,
+        over_capacity: overCapacity || undefined,
       });
+    });
+
+    console.log(`  Anchored Req ${req.requirement_id} on Resource ${targetResourceId}: ${anchorDays.length} working day(s) from Day ${anchorDays[0]}.`);
+    req.remaining_hours = 0;
+    req.finishedAt = { day: anchorDays[anchorDays.length - 1], hour: lastDayEnd };
+  }));
+
+  const hasPendingHours = () => resourceStates.some(state => state.requirements.some(req => req.remaining_hours > 0));
+
+  // Walk the calendar day by day so every resource sees the trainee group sessions and finished prerequisites of that day.
+  // Earliest WORK day is Day 2 or later (Day 1 is the outbound travel day).
+  let day = findNextWorkingDay(2, workOnSaturday, workOnSunday, projectStartDate, holidays);
+  while (hasPendingHours()) {
+    if (day > MAX_SCHEDULE_DAY) {
+      console.error(`Scheduling stopped at Day ${MAX_SCHEDULE_DAY} with hours still unassigned.`);
+      break;
+    }
 
-      // Update state
-      currentReq.remaining_hours -= hoursForThisSegment;
-      hoursUsedOnCurrentDay += hoursForThisSegment; // Add hours used *on this day*
-      segmentCounter++;
-
-      // Update the persistent tracker for the resource immediately
-      // This state will be read at the start of the next iteration
-      resourceNextAvailable[resourceId] = { day: currentDayForResource, hoursUsed: hoursUsedOnCurrentDay };
-
-      // If requirement finished, prepare to check the next one
-      if (currentReq.remaining_hours <= 0) {
-          console.log(`   Req ${currentReq.requirement_id} finished.`);
-          currentReqIndex++;
+    // Busy hour ranges [start, end) of each trainee group on the current day
+    const groupSessions = new Map<number, GroupSession[]>();
+    (anchoredGroupSessions.get(day) ?? []).forEach(({ groupId, session }) => {
+      groupSessions.set(groupId, [...(groupSessions.get(groupId) ?? []), session]);
+    });
+
+    // Hour at which the requirement's prerequisites are done and all of its groups are free, starting from `hour`
+    const getFreeFrom = (req: SchedulableRequirement, hour: number): number => {
+      let freeFrom = hour;
+      for (const prereq of req.prerequisites) {
+        if (!prereq.finishedAt || prereq.finishedAt.day > day) return Infinity; // Not finished (yet) today
+        if (prereq.finishedAt.day === day) freeFrom = Math.max(freeFrom, prereq.finishedAt.hour);
       }
-
-      // If the day became full *exactly*, prepare for the next day
-      if (hoursUsedOnCurrentDay >= DAILY_HOUR_LIMIT) {
-          currentDayForResource++;
-          hoursUsedOnCurrentDay = 0; // Reset hours for the next potential day
+      let moved = true;
+      while (moved) {
+        moved = false;
+        for (const group of req.groups) {
+          for (const session of groupSessions.get(group.groupId) ?? []) {
+            if (session.start <= freeFrom && freeFrom < session.end) {
+              freeFrom = session.end;
+              moved = true;
+            }
+          }
+        }
+      }
+      return freeFrom;
+    };
+
+    // Hour at which the next session of one of the requirement's groups begins after `hour`
+    const getNextBusyStart = (req: SchedulableRequirement, hour: number): number => {
+      let nextStart = Infinity;
+      for (const group of req.groups) {
+        for (const session of groupSessions.get(group.groupId) ?? []) {
+          if (session.start >= hour) nextStart = Math.min(nextStart, session.start);
+        }
       }
-      // The outer loop will handle finding the next *working* day if needed
+      return nextStart;
+    };
+
+    // Fill the day in rounds: a later resource may finish a prerequisite that unblocks an earlier one.
+    // A blocked resource starts the day fully booked, so none of its topics are placed.
+    resourceStates.forEach(state => {
+      state.hoursUsedOnDay = isResourceUnavailable(state.resourceId, day, projectStartDate, unavailability)
+        ? state.dailyHourLimit
+        : reservedHours.get(`${state.resourceId}:${day}`) ?? 0;
+    });
+    let placedSegment = true;
+    while (placedSegment) {
+      placedSegment = false;
+
+      for (const state of resourceStates) {
+        while (state.hoursUsedOnDay < state.dailyHourLimit) {
+          const hoursUsedOnDay = state.hoursUsedOnDay;
+          const pendingReqs = state.requirements.filter(req => req.remaining_hours > 0);
+          if (pendingReqs.length === 0) break;
+
+          // Keep the requirement order, but let the trainer switch topics while one is blocked
+          const currentReq = pendingReqs.find(req => getFreeFrom(req, hoursUsedOnDay) === hoursUsedOnDay);
+          if (!currentReq) {
+            // Every pending topic is blocked: idle until the first one frees up, or retry in the next round
+            const resumeAt = Math.min(...pendingReqs.map(req => getFreeFrom(req, hoursUsedOnDay)));
+            if (resumeAt >= state.dailyHourLimit) break;
+            state.hoursUsedOnDay = resumeAt;
+            continue;
+          }
+
+          const hoursAvailable = Math.min(state.dailyHourLimit, getNextBusyStart(currentReq, hoursUsedOnDay)) - hoursUsedOnDay;
+          const hoursForThisSegment = Math.min(currentReq.remaining_hours, hoursAvailable);
+
+          console.log(`  Segment ${state.segmentCounter} for Req ${currentReq.requirement_id}: Day ${day}, Offset ${hoursUsedOnDay}h, Hours ${hoursForThisSegment}.`);
+
+          dailySegments.push({
+            id: `${currentReq.requirement_id}-seg${state.segmentCounter}`,
+            originalRequirementId: currentReq.requirement_id,
+            resource_id: currentReq.resource_id,
+            resource_name: currentReq.resource_name,
+            machine_name: currentReq.machine_name,
+            total_training_hours: currentReq.training_hours,
+            segment_hours: hoursForThisSegment,
+            start_day: day,
+            duration_days: 1, // Logical duration for daily segment
+            start_hour_offset: hoursUsedOnDay, // Hours used on this day before the segment begins
+            daily_hour_limit: state.dailyHourLimit,
+            trainee_groups: currentReq.groups.length > 0 ? currentReq.groups.map(group => group.name) : undefined,
+            prerequisite_ids: currentReq.prerequisites.length > 0 ? currentReq.prerequisites.map(prereq => prereq.requirement_id) : undefined,
+          });
+          placedSegment = true;
+
+          currentReq.groups.forEach(group => {
+            const sessions = groupSessions.get(group.groupId) ?? [];
+            sessions.push({ start: hoursUsedOnDay, end: hoursUsedOnDay + hoursForThisSegment });
+            groupSessions.set(group.groupId, sessions);
+          });
+
+          currentReq.remaining_hours -= hoursForThisSegment;
+          state.hoursUsedOnDay += hoursForThisSegment;
+          state.segmentCounter++;
+
+          if (currentReq.remaining_hours <= 0) {
+            currentReq.finishedAt = { day, hour: state.hoursUsedOnDay };
+            console.log(`   Req ${currentReq.requirement_id} finished.`);
+          }
+        }
+      }
+    }
 
-    } // End while (requirements left for this resource)
-    console.log(`Finished processing Resource ${resourceId}. Final tracker state: Day ${resourceNextAvailable[resourceId]?.day}, Used ${resourceNextAvailable[resourceId]?.hoursUsed}h`);
-  } // End for (each resource)
+    day = findNextWorkingDay(day + 1, workOnSaturday, workOnSunday, projectStartDate, holidays);
+  }
+  console.log(`Finished placing requirements. Last scheduled day: ${dailySegments.reduce((max, seg) => Math.max(max, seg.start_day), 0)}`);
 
 
   // --- Step 2: Consolidate Consecutive Segments ---
-  console.log("--- Starting Consolidation (v8.1 logic) ---");
+  console.log("--- Starting Consolidation ---");
   const consolidatedSegments: ScheduledTaskSegment[] = [];
   // Ensure sorting is correct: Resource -> Original Task -> Start Day
   dailySegments.sort((a, b) => {
@@ -210,11 +493,20 @@ export const scheduleTrainingTasks = (
       // Check if it starts *exactly* on the day after the previous segment logically ends
       segment.start_day === (currentConsolidated.start_day + currentConsolidated.duration_days) &&
       // AND the start day of this segment is NOT a weekend we're skipping
-      !isDayWeekend(segment.start_day, workOnSaturday, workOnSunday)
+      !isDayWeekend(segment.start_day, workOnSaturday, workOnSunday, projectStartDate) &&
+      !isDayHoliday(segment.start_day, projectStartDate, holidays) &&
+      // AND the work is continuous: the block runs to the end of its last day and this segment starts the next morning.
+      // Days of a manual placement always form one block (drawn over whole days).
+      (
+        (segment.is_override && currentConsolidated.is_override) ||
+        (segment.start_hour_offset === 0 &&
+          currentConsolidated.start_hour_offset + currentConsolidated.segment_hours === currentConsolidated.duration_days * currentConsolidated.daily_hour_limit)
+      )
     ) {
       // Merge: Update duration and sum hours
       currentConsolidated.duration_days += segment.duration_days; // Add logical duration (1)
       currentConsolidated.segment_hours += segment.segment_hours; // Sum the hours
+      if (segment.over_capacity) currentConsolidated.over_capacity = true;
        // Optional log: console.log(`  Merged segment ${segment.id}. New Duration: ${currentConsolidated.duration_days}, Hours: ${currentConsolidated.segment_hours}`);
     } else {
       // Cannot merge or first segment
@@ -235,6 +527,17 @@ export const scheduleTrainingTasks = (
   }
   console.log("--- Consolidation Finished ---", consolidatedSegments.length, "consolidated segments.");
 
+  // --- Step 3: Attach calendar dates when the quote has a project start date ---
+  if (projectStartDate) {
+    consolidatedSegments.forEach(segment => {
+      const startDate = getDateForScheduleDay(projectStartDate, segment.start_day);
+      const endDate = getDateForScheduleDay(projectStartDate, segment.start_day + segment.duration_days - 1);
+      if (startDate && endDate) {
+        segment.start_date = format(startDate, SCHEDULE_DATE_FORMAT);
+        segment.end_date = format(endDate, SCHEDULE_DATE_FORMAT);
+      }
+    });
+  }
 
   return consolidatedSegments;
 };
\ No newline at end of file
@@ -0,0 +1,61 @@
+// src/utils/tax.ts
+
+// Row of vat_rules: VAT treatment for clients in a given country
+export interface VatRule {
+  vat_rule_id: number;
+  country_code: string; // ISO 3166-1 alpha-2
+  vat_rate: number; // Percent
+  reverse_charge: boolean; // Applies to clients with a VAT id
+  description: string | null;
+  created_at: string;
+}
+
+export interface TaxContext {
+  clientCountry?: string | null;
+  clientVatId?: string | null;
+  areaVatRate?: number | null;
+}
+
+export interface TaxTreatment {
+  rate: number; // Percent charged on the net amount (0 under reverse charge)
+  reverseCharge: boolean;
+  source: "country" | "area" | "none";
+  label: string; // e.g. "VAT 19%" or "Reverse charge"
+}
+
+export interface TaxedAmount {
+  net: number;
+  taxRate: number;
+  tax: number;
+  gross: number;
+}
+
+export const REVERSE_CHARGE_NOTE = "Reverse charge: VAT to be accounted for by the recipient.";
+
+/**
+ * VAT treatment of a quote: a rule for the client's country wins over the area rate.
+ * Reverse charge applies when the country rule allows it and the client has a VAT id.
+ */
+export const resolveTaxTreatment = (context: TaxContext, rules: VatRule[]): TaxTreatment => {
+  const countryRule = context.clientCountry
+    ? rules.find(rule => rule.country_code === context.clientCountry?.toUpperCase())
+    : undefined;
+
+  if (countryRule) {
+    if (countryRule.reverse_charge && context.clientVatId?.trim()) {
+      return { rate: 0, reverseCharge: true, source: "country", label: "Reverse charge" };
+    }
+    return { rate: countryRule.vat_rate, reverseCharge: false, source: "country", label: `VAT ${countryRule.vat_rate}%` };
+  }
+
+  if (context.areaVatRate) {
+    return { rate: context.areaVatRate, reverseCharge: false, source: "area", label: `VAT ${context.areaVatRate}%` };
+  }
+
+  return { rate: 0, reverseCharge: false, source: "none", label: "VAT 0%" };
+};
+
+export const applyTax = (net: number, treatment: TaxTreatment): TaxedAmount => {
+  const tax = net * treatment.rate / 100;
+  return { net, taxRate: treatment.rate, tax, gross: net + tax };
+};
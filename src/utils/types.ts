@@ -15,6 +15,13 @@ export interface ScheduledTaskSegment {
   start_day: number;
   duration_days: number;
   start_hour_offset: number; // Hours into the day when this segment starts
+  daily_hour_limit?: number; // Working hours per day of the resource on this quote
+  trainee_groups?: string[]; // Trainee groups attending this segment
+  prerequisite_ids?: (number | string)[]; // Requirements that must be finished before this one starts
+  is_override?: boolean; // Placed manually on the Gantt chart instead of by the scheduler
+  over_capacity?: boolean; // Manual placement puts more hours on a day than the resource works
+  start_date?: string; // Calendar date (yyyy-MM-dd) of start_day when the quote has a project start date
+  end_date?: string; // Calendar date of the last day covered by the segment
 }
 
 export type ResourceCategory = "Machine" | "Software" | "Unknown";